@@ -3,14 +3,19 @@
 
 import { Plugin, Notice, TFile } from 'obsidian';
 import { MSALAuthenticationManager } from './authentication/MSALAuthenticationManager';
+import { TokenCachePlugin } from './authentication/TokenCachePlugin';
 import { TodoApiClient } from './api/TodoApiClient';
 import { AuthenticationModal } from './ui/AuthenticationModal';
+import { ConflictModal } from './ui/ConflictModal';
+import { SyncPreviewModal } from './ui/SyncPreviewModal';
+import { SyncHistoryModal } from './ui/SyncHistoryModal';
 import { TodoIntegratorSettingsTab } from './ui/TodoIntegratorSettingsTab';
 import { SidebarButton } from './ui/SidebarButton';
 import { DailyNoteManager } from './sync/DailyNoteManager';
 import { TodoSynchronizer } from './sync/TodoSynchronizer';
 import { ErrorHandler } from './utils/ErrorHandler';
 import { PluginSettings } from './settings/PluginSettings';
+import { mergeProtectedData, withoutProtectedData } from './settings/protectedData';
 import { ObsidianTodoParser } from './parser/ObsidianTodoParser';
 import { DailyNotesDetector } from './utils/DailyNotesDetector';
 import {
@@ -21,8 +26,12 @@ import {
 	Logger,
 	TokenProvider,
 	ErrorContext,
+	SyncListTarget,
+	TaskConflict,
+	SyncPlan,
+	SyncTrigger,
 } from './types';
-import { DEFAULT_SETTINGS, UI_TEXT, ERROR_CODES } from './constants';
+import { DEFAULT_SETTINGS, UI_TEXT, ERROR_CODES, NOTE_PERIOD_FORMATS } from './constants';
 import { SimpleLogger } from './utils/SimpleLogger';
 
 export class TodoIntegratorPlugin extends Plugin {
@@ -39,6 +48,8 @@ export class TodoIntegratorPlugin extends Plugin {
 	dailyNotesDetector: DailyNotesDetector;
 	private syncInterval: number | null = null;
 	private currentAuthModal: AuthenticationModal | null = null;
+	private currentConflictModal: ConflictModal | null = null;
+	private resolvedListIds: Map<string, string> = new Map();
 
 	async onload(): Promise<void> {
 		// Pre-load settings to get log level
@@ -94,6 +105,9 @@ export class TodoIntegratorPlugin extends Plugin {
 		// Add settings tab
 		this.addSettingTab(new TodoIntegratorSettingsTab(this.app, this));
 
+		// Restore a previous session from the persisted token cache
+		await this.restoreAuthentication();
+
 		// Initialize after authentication if already authenticated
 		if (this.settings?.clientId && this.isAuthenticated()) {
 			try {
@@ -169,6 +183,27 @@ export class TodoIntegratorPlugin extends Plugin {
 			name: 'Toggle Auto-sync',
 			callback: () => this.toggleAutoSync(),
 		});
+
+		// Restore pending deletions command
+		this.addCommand({
+			id: 'restore-pending-deletions',
+			name: 'Restore tasks pending deletion',
+			callback: () => this.restorePendingDeletions(),
+		});
+
+		// Sync preview command
+		this.addCommand({
+			id: 'preview-sync',
+			name: 'Preview sync',
+			callback: () => this.previewSync(),
+		});
+
+		// Sync history command
+		this.addCommand({
+			id: 'show-sync-history',
+			name: 'Show sync history',
+			callback: () => new SyncHistoryModal(this.app, this.synchronizer.getSyncHistory()).open(),
+		});
 	}
 
 	async loadSettings(): Promise<void> {
@@ -177,7 +212,7 @@ export class TodoIntegratorPlugin extends Plugin {
 				this.settings = await this.pluginSettings.loadSettings();
 			} else {
 				const loadedSettings = await this.loadData();
-				this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedSettings);
+				this.settings = Object.assign({}, DEFAULT_SETTINGS, withoutProtectedData(loadedSettings || {}));
 			}
 
 			// Initialize DailyNotesDetector if not available yet
@@ -204,16 +239,10 @@ export class TodoIntegratorPlugin extends Plugin {
 				await this.pluginSettings.saveSettings(this.settings);
 			} else {
 				// 既存のデータを取得して、メタデータを保護する
-				const existingData = await this.loadData() || {};
-				const metadataKey = 'todo-integrator-task-metadata';
+				const existingData = await this.loadData();
 				
-				// メタデータが存在する場合は保持
-				const protectedData: any = { ...this.settings };
-				if (existingData[metadataKey]) {
-					protectedData[metadataKey] = existingData[metadataKey];
-				}
-				
-				await this.saveData(protectedData);
+				// メタデータなど設定以外のデータは保存時点の値を保持する
+				await this.saveData(mergeProtectedData(this.settings, existingData));
 			}
 			this.logger?.debug('Settings saved successfully');
 		} catch (error) {
@@ -230,7 +259,7 @@ export class TodoIntegratorPlugin extends Plugin {
 		}
 
 		try {
-			const dailyNotesDefaults = await this.dailyNotesDetector.detectDailyNotesDefaults();
+			const dailyNotesDefaults = await this.dailyNotesDetector.detectNoteDefaults(this.settings.notePeriod);
 			let settingsChanged = false;
 
 			// Initialize inheritance flags if they're undefined (first time setup)
@@ -259,8 +288,9 @@ export class TodoIntegratorPlugin extends Plugin {
 			}
 
 			// Apply Daily Notes date format if user hasn't set it manually
+			// (a default format of any period is replaced, so switching the note period switches the format)
 			if (!this.settings._userSetDailyNoteDateFormat && 
-				this.settings.dailyNoteDateFormat === 'YYYY-MM-DD' && 
+				(Object.values(NOTE_PERIOD_FORMATS) as string[]).includes(this.settings.dailyNoteDateFormat) && 
 				this.settings.dailyNoteDateFormat !== dailyNotesDefaults.dateFormat) {
 				this.settings.dailyNoteDateFormat = dailyNotesDefaults.dateFormat;
 				settingsChanged = true;
@@ -306,7 +336,11 @@ export class TodoIntegratorPlugin extends Plugin {
 			this.logger.info('Starting Microsoft authentication');
 
 			// Initialize authentication manager
-			await this.authManager.initialize(this.settings.clientId, this.settings.tenantId);
+			await this.authManager.initialize(
+				this.settings.clientId,
+				this.settings.tenantId,
+				this.createTokenCachePlugin()
+			);
 
 			// Show authentication modal
 			this.currentAuthModal = new AuthenticationModal(this.app, () => {
@@ -356,6 +390,38 @@ export class TodoIntegratorPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 永続化されたトークンキャッシュからサイレント認証でセッションを復元
+	 */
+	private async restoreAuthentication(): Promise<void> {
+		if (!this.settings?.clientId || !this.settings?.tenantId) return;
+
+		try {
+			await this.authManager.initialize(
+				this.settings.clientId,
+				this.settings.tenantId,
+				this.createTokenCachePlugin()
+			);
+
+			const restored = await this.authManager.restoreSession();
+			if (!restored) return;
+
+			this.sidebarButton.updateAuthenticationStatus(true);
+			this.logger.info('Authentication session restored from token cache');
+		} catch (error) {
+			this.logger.warn('Failed to restore authentication session', { error });
+		}
+	}
+
+	private createTokenCachePlugin(): TokenCachePlugin {
+		return new TokenCachePlugin(
+			this.settings.clientId,
+			this.logger,
+			() => this.loadData(),
+			(data) => this.saveData(data)
+		);
+	}
+
 	async initializeApiClient(): Promise<void> {
 		if (!this.isAuthenticated()) {
 			throw new Error('Authentication required before initializing API client');
@@ -379,6 +445,10 @@ export class TodoIntegratorPlugin extends Plugin {
 			// Set up or find task list
 			const listId = await this.apiClient.getOrCreateTaskList(this.settings.todoListName);
 			this.apiClient.setDefaultListId(listId);
+			this.resolvedListIds.set(this.settings.todoListName, listId);
+
+			// Resolve additional mapped lists
+			await this.updateListTargets();
 
 			// Start auto-sync if enabled
 			if (this.settings.autoSyncEnabled) {
@@ -393,11 +463,34 @@ export class TodoIntegratorPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * リストマッピングのリスト名をIDに解決して同期対象として設定
+	 * 解決済みのIDはキャッシュし、リストが存在しない場合は作成する
+	 */
+	private async updateListTargets(): Promise<void> {
+		const targets: SyncListTarget[] = [];
+
+		for (const mapping of this.settings.listMappings || []) {
+			try {
+				let listId = this.resolvedListIds.get(mapping.listName);
+				if (!listId) {
+					listId = await this.apiClient.getOrCreateTaskList(mapping.listName);
+					this.resolvedListIds.set(mapping.listName, listId);
+				}
+				targets.push({ ...mapping, listId });
+			} catch (error) {
+				this.logger.error('Failed to resolve mapped task list', { listName: mapping.listName, error });
+			}
+		}
+
+		this.synchronizer.setListTargets(targets);
+	}
+
 	isAuthenticated(): boolean {
 		return this.authManager?.isAuthenticated() || false;
 	}
 
-	async performManualSync(): Promise<void> {
+	async performManualSync(trigger: SyncTrigger = 'manual'): Promise<void> {
 		if (!this.isAuthenticated()) {
 			new Notice('Please authenticate with Microsoft first.');
 			return;
@@ -417,12 +510,12 @@ export class TodoIntegratorPlugin extends Plugin {
 				message: 'Synchronizing tasks...',
 			});
 
-			const result = await this.performSync();
+			const result = await this.performSync(trigger);
 
 			const totalAdded = result.msftToObsidian.added + result.obsidianToMsft.added;
 			const totalErrors = result.msftToObsidian.errors.length + 
 							   result.obsidianToMsft.errors.length + 
-							   result.completions.errors.length;
+							   result.completions.errors.length + result.updates.errors.length + result.deletions.errors.length;
 
 			if (totalErrors === 0) {
 				new Notice(`${UI_TEXT.SYNC.SUCCESS}. Added ${totalAdded} tasks.`);
@@ -440,6 +533,10 @@ export class TodoIntegratorPlugin extends Plugin {
 				});
 			}
 
+			if (result.conflicts.length > 0) {
+				this.showConflictModal(result.conflicts);
+			}
+
 			// Update last sync time
 			this.settings.lastSyncTime = new Date().toISOString();
 			await this.saveSettings();
@@ -461,28 +558,147 @@ export class TodoIntegratorPlugin extends Plugin {
 		}
 	}
 
-	async performSync(): Promise<SyncResult> {
+	async performSync(trigger: SyncTrigger = 'manual'): Promise<SyncResult> {
 		this.logger.info('Performing synchronization');
 		
 		try {
-			// Update daily note manager settings if changed
-			this.dailyNoteManager.updateSettings(
-				this.settings.dailyNotesPath,
-				this.settings.dailyNoteDateFormat,
-				this.settings.dailyNoteTemplate
-			);
-			
-			// Update synchronizer task section heading if changed
-			this.synchronizer.setTaskSectionHeading(this.settings.taskSectionHeading);
-			
-			// Perform full synchronization
-			return await this.synchronizer.performFullSync();
+			await this.configureSynchronizer();
+
+			// Perform full synchronization and keep it in the sync history
+			return await this.synchronizer.performSyncWithHistory(trigger);
 		} catch (error) {
 			this.logger.error('Synchronization failed', { error });
 			throw error;
 		}
 	}
 
+	/**
+	 * 同期前に、変更されている可能性のある設定を反映する
+	 */
+	private async configureSynchronizer(): Promise<void> {
+		// Update daily note manager settings if changed
+		this.dailyNoteManager.updateSettings(
+			this.settings.dailyNotesPath,
+			this.settings.dailyNoteDateFormat,
+			this.settings.dailyNoteTemplate
+		);
+		this.dailyNoteManager.setNotePeriod(this.settings.notePeriod);
+		this.dailyNoteManager.setTaskPlacement({
+			position: this.settings.taskInsertPosition,
+			listSubheadings: this.settings.listSubheadings,
+			subheadingLevel: this.settings.listSubheadingLevel,
+			anchorHeading: this.settings.taskSectionAnchor || undefined,
+		});
+		
+		// Update synchronizer task section heading if changed
+		this.synchronizer.setTaskSectionHeading(this.settings.taskSectionHeading);
+		this.synchronizer.setDefaultListName(this.settings.todoListName);
+
+		// Update mapped lists if changed
+		await this.updateListTargets();
+
+		// Update deletion sync mode if changed
+		this.synchronizer.setDeletionSync(this.settings.deletionSync, this.settings.deletionGracePeriodHours);
+		this.synchronizer.setConflictResolution(this.settings.conflictResolution);
+		this.synchronizer.setVaultSync(this.settings.vaultWideSync ? {
+			include: this.settings.vaultSyncInclude,
+			exclude: this.settings.vaultSyncExclude,
+			tag: this.settings.vaultSyncTag,
+		} : null);
+		this.synchronizer.setStableTaskIds(this.settings.stableTaskIds);
+		this.synchronizer.setCarryOver(this.settings.carryOverTasks);
+	}
+
+	/**
+	 * 同期を書き込みなしで試し、変更の一覧を確認してから同じ内容を適用する
+	 */
+	async previewSync(): Promise<void> {
+		if (!this.isAuthenticated()) {
+			new Notice('Please authenticate with Microsoft first.');
+			return;
+		}
+
+		if (!this.apiClient.isInitialized()) {
+			await this.initializeApiClient();
+		}
+
+		try {
+			await this.configureSynchronizer();
+			const plan = await this.synchronizer.previewFullSync();
+			new SyncPreviewModal(this.app, plan, (approvedPlan) => this.applySyncPlan(approvedPlan)).open();
+		} catch (error) {
+			this.logger.error('Sync preview failed', { error });
+			new Notice(`Sync preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	private async applySyncPlan(plan: SyncPlan): Promise<void> {
+		try {
+			const result = await this.synchronizer.applySyncPlan(plan);
+			const changes = plan.operations.filter(operation => operation.kind !== 'metadata').length;
+			new Notice(`${UI_TEXT.SYNC.SUCCESS}. Applied ${changes} changes.`);
+			this.sidebarButton.updateSyncStatus({
+				status: 'success',
+				message: `Applied ${changes} changes`,
+				lastSync: new Date().toISOString(),
+			});
+
+			if (result.conflicts.length > 0) {
+				this.showConflictModal(result.conflicts);
+			}
+
+			this.settings.lastSyncTime = new Date().toISOString();
+			await this.saveSettings();
+			// メタデータを強制的に再保存（設定保存による上書きを防ぐ）
+			await this.synchronizer.forceSaveMetadata();
+		} catch (error) {
+			this.logger.error('Failed to apply sync plan', { error });
+			new Notice(`${UI_TEXT.SYNC.ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * 両側で変更されたタスクの競合モーダルを表示（表示中なら自動同期で重ねて開かない）
+	 */
+	private showConflictModal(conflicts: TaskConflict[]): void {
+		if (this.currentConflictModal) return;
+
+		this.currentConflictModal = new ConflictModal(
+			this.app,
+			conflicts,
+			async (conflict, winner) => {
+				try {
+					await this.synchronizer.resolveConflict(conflict, winner);
+				} catch (error) {
+					this.logger.error('Failed to resolve sync conflict', { conflict, error });
+					new Notice(`Failed to resolve conflict for "${conflict.title}"`);
+				}
+			},
+			(resolvedCount) => {
+				this.currentConflictModal = null;
+				if (resolvedCount > 0) {
+					new Notice(`Resolved ${resolvedCount} conflicts. They will be applied on the next sync.`);
+				}
+			}
+		);
+		this.currentConflictModal.open();
+	}
+
+	/**
+	 * 猶予期間中の削除を取り消す（次回の同期で削除された側にタスクが作り直される）
+	 */
+	private async restorePendingDeletions(): Promise<void> {
+		try {
+			const restored = await this.synchronizer.restorePendingDeletions();
+			new Notice(restored > 0
+				? `Restored ${restored} tasks pending deletion. They will be recreated on the next sync.`
+				: 'No tasks are pending deletion.');
+		} catch (error) {
+			this.logger.error('Failed to restore pending deletions', { error });
+			new Notice('Failed to restore pending deletions');
+		}
+	}
+
 	private async toggleAutoSync(): Promise<void> {
 		this.settings.autoSyncEnabled = !this.settings.autoSyncEnabled;
 		await this.saveSettings();
@@ -503,7 +719,7 @@ export class TodoIntegratorPlugin extends Plugin {
 
 		const intervalMs = this.settings.syncIntervalMinutes * 60 * 1000;
 		this.syncInterval = window.setInterval(() => {
-			this.performManualSync();
+			this.performManualSync('auto');
 		}, intervalMs);
 
 		this.logger.info('Auto-sync started', {
@@ -537,7 +753,13 @@ export class TodoIntegratorPlugin extends Plugin {
 			}
 		} else if (key === 'syncIntervalMinutes' && this.settings.autoSyncEnabled) {
 			this.startAutoSync(); // Restart with new interval
-		} else if (key === 'dailyNoteTemplate' || key === 'dailyNotesPath' || key === 'dailyNoteDateFormat') {
+		} else if (key === 'dailyNoteTemplate' || key === 'dailyNotesPath' || key === 'dailyNoteDateFormat' || key === 'notePeriod') {
+			// Inherit the folder, format and template of the new period's notes
+			if (key === 'notePeriod') {
+				await this.applyDailyNotesDefaults();
+				this.dailyNoteManager.setNotePeriod(this.settings.notePeriod);
+			}
+
 			// Update DailyNoteManager with new settings
 			this.dailyNoteManager.updateSettings(
 				this.settings.dailyNotesPath,
@@ -565,6 +787,7 @@ export class TodoIntegratorPlugin extends Plugin {
 			
 			// Reset API client
 			this.apiClient = new TodoApiClient(this.logger);
+			this.resolvedListIds.clear();
 			
 			// Update sidebar button
 			this.sidebarButton.updateAuthenticationStatus(false);
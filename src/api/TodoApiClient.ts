@@ -10,15 +10,58 @@ import {
 	ErrorContext,
 	ApiResponse,
 	GraphApiError,
+	GraphRequestError,
+	NewTaskRequest,
+	BatchItemResult,
+	PagedApiResponse,
+	DeltaTodoTask,
+	TaskDeltaResult,
+	TaskAttributes,
+	TaskImportance,
+	ChecklistItem,
 } from '../types';
-import { GRAPH_ENDPOINTS, ERROR_CODES } from '../constants';
+import {
+	GRAPH_ENDPOINTS,
+	GRAPH_BASE_URL,
+	GRAPH_BATCH_LIMIT,
+	ERROR_CODES,
+	MAX_TASK_PAGES,
+	GRAPH_RETRY,
+	MAX_CONCURRENT_GRAPH_REQUESTS,
+} from '../constants';
+import { TaskFilterOptions } from '../services/TodoService';
 import { SecureErrorHandler } from '../utils/secureErrorHandler';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+
+// $batchに含める個々のリクエスト（urlは絶対URL、送信時に相対URLにする）
+interface BatchRequest {
+	method: string;
+	url: string;
+	body?: unknown;
+}
+
+// $batchの応答に含まれる個々の応答
+interface BatchResponse {
+	id: string;
+	status: number;
+	headers?: Record<string, string>;
+	body?: unknown;
+}
+
+// タスクの作成・コピーで送信するリクエスト本文
+type TaskRequestBody = Partial<Omit<TodoTask, 'id' | 'createdDateTime' | 'lastModifiedDateTime' | 'completedDateTime'>> & {
+	title: string;
+};
 
 export class TodoApiClient {
 	private tokenProvider: TokenProvider | null = null;
 	private logger: Logger;
 	private defaultListId: string | null = null;
 	private errorHandler: SecureErrorHandler;
+	// Graph APIリクエストの同時実行数の制限とスロットリングの解除時刻
+	private activeRequests = 0;
+	private waitingRequests: (() => void)[] = [];
+	private throttledUntil = 0;
 
 	constructor(logger: Logger) {
 		this.logger = logger;
@@ -39,18 +82,9 @@ export class TodoApiClient {
 		this.validateInitialization();
 
 		try {
-			const accessToken = await this.getAccessToken();
-			const response = await fetch(GRAPH_ENDPOINTS.USER_INFO, {
+			const response = await this.request(GRAPH_ENDPOINTS.USER_INFO, {
 				method: 'GET',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
-
-			if (!response.ok) {
-				throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-			}
+			}, 'Failed to fetch user info');
 
 			const userData = await response.json();
 			
@@ -78,17 +112,15 @@ export class TodoApiClient {
 
 		try {
 			// First, try to find existing list
+			// (the default list is set explicitly via setDefaultListId, since mapped lists resolve here too)
 			const existingListId = await this.findTaskList(listName);
 			if (existingListId) {
-				this.defaultListId = existingListId;
 				return existingListId;
 			}
 
 			// Create new list if not found
 			this.logger.info(`Creating new task list: ${listName}`);
-			const newListId = await this.createTaskList(listName);
-			this.defaultListId = newListId;
-			return newListId;
+			return await this.createTaskList(listName);
 
 		} catch (error) {
 			const context: ErrorContext = {
@@ -103,18 +135,9 @@ export class TodoApiClient {
 	}
 
 	private async findTaskList(listName: string): Promise<string | null> {
-		const accessToken = await this.getAccessToken();
-		const response = await fetch(GRAPH_ENDPOINTS.TODO_LISTS, {
+		const response = await this.request(GRAPH_ENDPOINTS.TODO_LISTS, {
 			method: 'GET',
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-				'Content-Type': 'application/json',
-			},
-		});
-
-		if (!response.ok) {
-			throw new Error(`Failed to fetch task lists: HTTP ${response.status}`);
-		}
+		}, 'Failed to fetch task lists');
 
 		const data: ApiResponse<TodoList> = await response.json();
 		const lists = data.value || [];
@@ -129,68 +152,58 @@ export class TodoApiClient {
 	}
 
 	private async createTaskList(listName: string): Promise<string> {
-		const accessToken = await this.getAccessToken();
-		const response = await fetch(GRAPH_ENDPOINTS.TODO_LISTS, {
+		const response = await this.request(GRAPH_ENDPOINTS.TODO_LISTS, {
 			method: 'POST',
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-				'Content-Type': 'application/json',
-			},
 			body: JSON.stringify({
 				displayName: listName,
 			}),
-		});
-
-		if (!response.ok) {
-			throw new Error(`Failed to create task list: HTTP ${response.status}`);
-		}
+		}, 'Failed to create task list');
 
 		const newList: TodoList = await response.json();
 		this.logger.info(`Created new task list: ${listName}`, { listId: newList.id });
 		return newList.id;
 	}
 
-	async getTasks(listId?: string): Promise<TodoTask[]> {
+	async getTasks(listId?: string, options?: TaskFilterOptions): Promise<TodoTask[]> {
 		this.validateInitialization();
 
-		const targetListId = listId || this.defaultListId;
+		const targetListId = listId || options?.listId || this.defaultListId;
 		if (!targetListId) {
 			throw new Error('No task list specified and no default list set');
 		}
 
 		try {
-			const accessToken = await this.getAccessToken();
-			// 完了したタスクも含めて取得するため、$topパラメータで多めのタスクを取得
-			// 完了したタスクを含むすべてのタスクを取得するため、$filterは使用しない
-			// 完了したタスクも取得するために、$expandパラメータを使用
-			const url = `${GRAPH_ENDPOINTS.TASKS(targetListId)}?$top=200&$orderby=lastModifiedDateTime desc`;
-			const response = await fetch(url, {
-				method: 'GET',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
-
-			if (!response.ok) {
-				throw new Error(`Failed to fetch tasks: HTTP ${response.status}`);
+			// 完了したタスクも含めて取得するため、デフォルトでは$filterは使用しない
+			// Graph APIは1ページあたり最大件数を制限するため、@odata.nextLinkを辿って全件を取得する
+			const filter = this.buildTaskFilter(options);
+			let url: string | undefined = `${GRAPH_ENDPOINTS.TASKS(targetListId)}?$top=200&$orderby=lastModifiedDateTime desc`;
+			if (filter) {
+				url += `&$filter=${encodeURIComponent(filter)}`;
 			}
 
-			const data: ApiResponse<TodoTask> = await response.json();
-			const tasks = data.value || [];
+			const tasks: TodoTask[] = [];
+			let pageCount = 0;
 
-			this.logger.debug(`Retrieved ${tasks.length} tasks from list`, { listId: targetListId });
-			
-			// APIレスポンス全体をログ出力（デバッグ用）
-			this.logger.debug('API Response', {
-				hasValue: !!data.value,
-				taskCount: data.value?.length || 0,
-				firstTaskSample: data.value?.[0] ? {
-					id: data.value[0].id,
-					title: data.value[0].title,
-					status: data.value[0].status,
-					hasCompletedDateTime: !!data.value[0].completedDateTime
-				} : null
+			while (url) {
+				const response = await this.request(url, {
+					method: 'GET',
+				}, 'Failed to fetch tasks');
+
+				const data: PagedApiResponse<TodoTask> = await response.json();
+				tasks.push(...(data.value || []));
+				pageCount++;
+
+				url = data['@odata.nextLink'];
+				// 一部だけのタスク一覧を返すと同期で削除とみなされるため、上限に達したらエラーにする
+				if (pageCount >= MAX_TASK_PAGES && url) {
+					throw new Error(`Task list exceeded page limit (${MAX_TASK_PAGES} pages, ${tasks.length} tasks)`);
+				}
+			}
+
+			this.logger.debug(`Retrieved ${tasks.length} tasks from list`, {
+				listId: targetListId,
+				pageCount,
+				filter: filter || 'none',
 			});
 			
 			// デバッグ用：取得したタスクの詳細をログ出力
@@ -211,51 +224,121 @@ export class TodoApiClient {
 				component: 'TodoApiClient',
 				method: 'getTasks',
 				timestamp: new Date().toISOString(),
-				details: { listId: targetListId, error },
+				details: { listId: targetListId, options, error },
 			};
 			this.logger.error('Failed to get tasks', context);
-			throw new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * デルタクエリで前回同期以降に変更・削除されたタスクを取得する
+	 * deltaLinkを省略すると全タスクを取得し、次回用のdeltaLinkを返す
+	 */
+	async getTasksDelta(listId?: string, deltaLink?: string): Promise<TaskDeltaResult> {
+		this.validateInitialization();
+
+		const targetListId = listId || this.defaultListId;
+		if (!targetListId) {
+			throw new Error('No task list specified and no default list set');
+		}
+
+		try {
+			let url: string | undefined = deltaLink || GRAPH_ENDPOINTS.TASKS_DELTA(targetListId);
+			const tasks: TodoTask[] = [];
+			const removedIds: string[] = [];
+			let nextDeltaLink: string | undefined;
+			let pageCount = 0;
+
+			while (url) {
+				const response = await this.request(url, {
+					method: 'GET',
+				}, 'Failed to fetch task delta').catch((error: GraphRequestError) => {
+					// 410 Gone: デルタトークンの有効期限切れ。フル同期が必要
+					if (error.status === 410) {
+						throw new Error(`${ERROR_CODES.DELTA_TOKEN_EXPIRED}: Delta token is no longer valid`);
+					}
+					throw error;
+				});
+
+				const data: PagedApiResponse<DeltaTodoTask> = await response.json();
+				for (const item of data.value || []) {
+					if (item['@removed']) {
+						removedIds.push(item.id);
+						continue;
+					}
+					tasks.push(item);
+				}
+
+				nextDeltaLink = data['@odata.deltaLink'] || nextDeltaLink;
+				url = data['@odata.nextLink'];
+				pageCount++;
+				if (pageCount >= MAX_TASK_PAGES && url) {
+					throw new Error('Task delta exceeded page limit');
+				}
+			}
+
+			if (!nextDeltaLink) {
+				throw new Error('Delta response did not include a delta link');
+			}
+
+			this.logger.debug('Retrieved task delta', {
+				listId: targetListId,
+				incremental: !!deltaLink,
+				changed: tasks.length,
+				removed: removedIds.length,
+				pageCount,
+			});
+
+			return { tasks, removedIds, deltaLink: nextDeltaLink };
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'getTasksDelta',
+				timestamp: new Date().toISOString(),
+				details: { listId: targetListId, incremental: !!deltaLink, error },
+			};
+			this.logger.error('Failed to get task delta', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * TaskFilterOptionsからGraph APIの$filter式を組み立てる
+	 * startDate/endDateはcreatedDateTimeの範囲として扱う
+	 */
+	private buildTaskFilter(options?: TaskFilterOptions): string | null {
+		if (!options) return null;
+
+		const clauses: string[] = [];
+		if (options.status) {
+			clauses.push(`status eq '${options.status}'`);
+		}
+		if (options.startDate) {
+			clauses.push(`createdDateTime ge ${new Date(options.startDate).toISOString()}`);
 		}
+		if (options.endDate) {
+			clauses.push(`createdDateTime le ${new Date(options.endDate).toISOString()}`);
+		}
+
+		return clauses.length > 0 ? clauses.join(' and ') : null;
 	}
 
 	async createTask(listId: string, title: string): Promise<TodoTask> {
 		return this.createTaskWithStartDate(listId, title);
 	}
 
-	async createTaskWithStartDate(listId: string, title: string, startDate?: string): Promise<TodoTask> {
+	async createTaskWithStartDate(listId: string, title: string, startDate?: string, attributes?: TaskAttributes): Promise<TodoTask> {
 		this.validateInitialization();
 
 		try {
-			const accessToken = await this.getAccessToken();
-			
-			// Clean title to ensure no [todo:: tags are included
-			const cleanTitle = title.replace(/\[todo::[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
-			
-			const taskData: any = {
-				title: cleanTitle,
-			};
-
-			if (startDate) {
-				// Convert date string to ISO format for Microsoft Graph API
-				const dateObj = new Date(startDate);
-				taskData.startDateTime = {
-					dateTime: dateObj.toISOString(),
-					timeZone: 'UTC',
-				};
-			}
+			const taskData = this.buildTaskData(title, startDate, attributes);
 
-			const response = await fetch(GRAPH_ENDPOINTS.TASKS(listId), {
+			const response = await this.request(GRAPH_ENDPOINTS.TASKS(listId), {
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
 				body: JSON.stringify(taskData),
-			});
-
-			if (!response.ok) {
-				throw new Error(`Failed to create task: HTTP ${response.status}`);
-			}
+			}, 'Failed to create task');
 
 			const newTask: TodoTask = await response.json();
 			return newTask;
@@ -265,32 +348,73 @@ export class TodoApiClient {
 				component: 'TodoApiClient',
 				method: 'createTaskWithStartDate',
 				timestamp: new Date().toISOString(),
-				details: { listId, title, startDate, error },
+				details: { listId, title, startDate, attributes, error },
 			};
 			this.logger.error('Failed to create task with start date', context);
-			throw new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			throw this.toApiError(error);
 		}
 	}
 
+	/**
+	 * 作成するタスクのリクエスト本文を組み立てる
+	 */
+	private buildTaskData(title: string, startDate?: string, attributes?: TaskAttributes): TaskRequestBody {
+		// Clean title to ensure no [todo:: tags are included
+		const cleanTitle = title.replace(/\[todo::[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+		
+		const taskData: TaskRequestBody = {
+			title: cleanTitle,
+		};
+
+		if (startDate) {
+			// Convert date string to ISO format for Microsoft Graph API
+			const dateObj = new Date(startDate);
+			taskData.startDateTime = {
+				dateTime: dateObj.toISOString(),
+				timeZone: 'UTC',
+			};
+		}
+
+		if (attributes?.dueDate) {
+			taskData.dueDateTime = this.toGraphDueDateTime(attributes.dueDate);
+		}
+
+		if (attributes?.importance) {
+			taskData.importance = attributes.importance;
+		}
+
+		if (attributes?.notes) {
+			taskData.body = { content: attributes.notes, contentType: 'text' };
+		}
+
+		if (attributes?.reminder) {
+			taskData.isReminderOn = true;
+			taskData.reminderDateTime = this.toGraphReminderDateTime(attributes.reminder);
+		}
+
+		// 繰り返しタスクには期日が必須のため、期日がなければ開始日を期日にする
+		const recurrenceDate = attributes?.dueDate || startDate?.slice(0, 10);
+		const recurrence = attributes?.recurrence && recurrenceDate
+			? RecurrenceRule.toGraph(attributes.recurrence, recurrenceDate)
+			: null;
+		if (recurrence && recurrenceDate) {
+			taskData.recurrence = recurrence;
+			taskData.dueDateTime = this.toGraphDueDateTime(recurrenceDate);
+		}
+
+		return taskData;
+	}
+
 	async completeTask(listId: string, taskId: string): Promise<void> {
 		this.validateInitialization();
 
 		try {
-			const accessToken = await this.getAccessToken();
-			const response = await fetch(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
 				method: 'PATCH',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
 				body: JSON.stringify({
 					status: 'completed',
 				}),
-			});
-
-			if (!response.ok) {
-				throw new Error(`Failed to complete task: HTTP ${response.status}`);
-			}
+			}, 'Failed to complete task');
 
 			this.logger.info('Task completed successfully', {
 				listId,
@@ -305,7 +429,234 @@ export class TodoApiClient {
 				details: { listId, taskId, error },
 			};
 			this.logger.error('Failed to complete task', context);
-			throw new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * 完了済みのタスクを未完了（notStarted）に戻す
+	 */
+	async reopenTask(listId: string, taskId: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify({
+					status: 'notStarted',
+				}),
+			}, 'Failed to reopen task');
+
+			this.logger.info('Task reopened successfully', {
+				listId,
+				taskId,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'reopenTask',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, error },
+			};
+			this.logger.error('Failed to reopen task', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクの期日を更新（dueDate省略時は期日を削除）
+	 */
+	async updateTaskDueDate(listId: string, taskId: string, dueDate?: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify({
+					dueDateTime: dueDate ? this.toGraphDueDateTime(dueDate) : null,
+				}),
+			}, 'Failed to update task due date');
+
+			this.logger.info('Task due date updated successfully', {
+				listId,
+				taskId,
+				dueDate,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskDueDate',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, dueDate, error },
+			};
+			this.logger.error('Failed to update task due date', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクの開始日を更新（作成時と同じくstartDateTimeとして送る）
+	 */
+	async updateTaskStartDate(listId: string, taskId: string, startDate: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify({
+					startDateTime: {
+						dateTime: new Date(startDate).toISOString(),
+						timeZone: 'UTC',
+					},
+				}),
+			}, 'Failed to update task start date');
+
+			this.logger.info('Task start date updated successfully', {
+				listId,
+				taskId,
+				startDate,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskStartDate',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, startDate, error },
+			};
+			this.logger.error('Failed to update task start date', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクの繰り返しを更新（recurrence省略時は繰り返しを解除）
+	 * Graphは繰り返しタスクに期日を要求するため、dueDateを期日として一緒に送る
+	 */
+	async updateTaskRecurrence(listId: string, taskId: string, recurrence: string | undefined, dueDate: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			const pattern = recurrence ? RecurrenceRule.toGraph(recurrence, dueDate) : null;
+			if (recurrence && !pattern) {
+				throw new Error(`Unsupported recurrence rule: ${recurrence}`);
+			}
+
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify(pattern
+					? { recurrence: pattern, dueDateTime: this.toGraphDueDateTime(dueDate) }
+					: { recurrence: null }),
+			}, 'Failed to update task recurrence');
+
+			this.logger.info('Task recurrence updated successfully', {
+				listId,
+				taskId,
+				recurrence,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskRecurrence',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, recurrence, dueDate, error },
+			};
+			this.logger.error('Failed to update task recurrence', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクのリマインダーを更新（reminder省略時はリマインダーをオフにする）
+	 */
+	async updateTaskReminder(listId: string, taskId: string, reminder?: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify(reminder
+					? { isReminderOn: true, reminderDateTime: this.toGraphReminderDateTime(reminder) }
+					: { isReminderOn: false, reminderDateTime: null }),
+			}, 'Failed to update task reminder');
+
+			this.logger.info('Task reminder updated successfully', {
+				listId,
+				taskId,
+				reminder,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskReminder',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, reminder, error },
+			};
+			this.logger.error('Failed to update task reminder', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクのメモ（本文）をテキストとして更新（notes省略時は空にする）
+	 */
+	async updateTaskNotes(listId: string, taskId: string, notes?: string): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify({ body: { content: notes || '', contentType: 'text' } }),
+			}, 'Failed to update task notes');
+
+			this.logger.info('Task notes updated successfully', {
+				listId,
+				taskId,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskNotes',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, error },
+			};
+			this.logger.error('Failed to update task notes', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクの重要度を更新
+	 */
+	async updateTaskImportance(listId: string, taskId: string, importance: TaskImportance): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+				method: 'PATCH',
+				body: JSON.stringify({ importance }),
+			}, 'Failed to update task importance');
+
+			this.logger.info('Task importance updated successfully', {
+				listId,
+				taskId,
+				importance,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateTaskImportance',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, importance, error },
+			};
+			this.logger.error('Failed to update task importance', context);
+			throw this.toApiError(error);
 		}
 	}
 
@@ -313,25 +664,15 @@ export class TodoApiClient {
 		this.validateInitialization();
 
 		try {
-			const accessToken = await this.getAccessToken();
-			
 			// Clean title to ensure no [todo:: tags are included
 			const cleanTitle = newTitle.replace(/\[todo::[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
 			
-			const response = await fetch(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
 				method: 'PATCH',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
 				body: JSON.stringify({
 					title: cleanTitle,
 				}),
-			});
-
-			if (!response.ok) {
-				throw new Error(`Failed to update task title: HTTP ${response.status}`);
-			}
+			}, 'Failed to update task title');
 
 			this.logger.info('Task title updated successfully', {
 				listId,
@@ -347,7 +688,7 @@ export class TodoApiClient {
 				details: { listId, taskId, newTitle, error },
 			};
 			this.logger.error('Failed to update task title', context);
-			throw new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			throw this.toApiError(error);
 		}
 	}
 
@@ -355,17 +696,9 @@ export class TodoApiClient {
 		this.validateInitialization();
 
 		try {
-			const accessToken = await this.getAccessToken();
-			const response = await fetch(GRAPH_ENDPOINTS.TASK(listId, taskId), {
+			await this.request(GRAPH_ENDPOINTS.TASK(listId, taskId), {
 				method: 'DELETE',
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-				},
-			});
-
-			if (!response.ok) {
-				throw new Error(`Failed to delete task: HTTP ${response.status}`);
-			}
+			}, 'Failed to delete task');
 
 			this.logger.info('Task deleted successfully', {
 				listId,
@@ -380,7 +713,209 @@ export class TodoApiClient {
 				details: { listId, taskId, error },
 			};
 			this.logger.error('Failed to delete task', context);
-			throw new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * 複数のタスクを$batchでまとめて作成する（結果は引数と同じ順序）
+	 */
+	async createTasks(listId: string, tasks: NewTaskRequest[]): Promise<BatchItemResult<TodoTask>[]> {
+		this.validateInitialization();
+
+		return this.sendBatch(
+			tasks.map(task => ({
+				method: 'POST',
+				url: GRAPH_ENDPOINTS.TASKS(listId),
+				body: this.buildTaskData(task.title, task.startDate, task.attributes),
+			})),
+			'Failed to create task',
+			body => body as TodoTask
+		);
+	}
+
+	/**
+	 * 複数のタスクのタイトルを$batchでまとめて更新する
+	 */
+	async updateTaskTitles(listId: string, updates: { taskId: string; title: string }[]): Promise<BatchItemResult<void>[]> {
+		this.validateInitialization();
+
+		return this.sendBatch(
+			updates.map(update => ({
+				method: 'PATCH',
+				url: GRAPH_ENDPOINTS.TASK(listId, update.taskId),
+				body: { title: update.title },
+			})),
+			'Failed to update task title',
+			() => undefined
+		);
+	}
+
+	/**
+	 * 複数のタスクを$batchでまとめて完了にする
+	 */
+	async completeTasks(listId: string, taskIds: string[]): Promise<BatchItemResult<void>[]> {
+		this.validateInitialization();
+
+		return this.sendBatch(
+			taskIds.map(taskId => ({
+				method: 'PATCH',
+				url: GRAPH_ENDPOINTS.TASK(listId, taskId),
+				body: { status: 'completed' },
+			})),
+			'Failed to complete task',
+			() => undefined
+		);
+	}
+
+	/**
+	 * 複数のタスクを$batchでまとめて削除する
+	 */
+	async deleteTasks(listId: string, taskIds: string[]): Promise<BatchItemResult<void>[]> {
+		this.validateInitialization();
+
+		return this.sendBatch(
+			taskIds.map(taskId => ({
+				method: 'DELETE',
+				url: GRAPH_ENDPOINTS.TASK(listId, taskId),
+			})),
+			'Failed to delete task',
+			() => undefined
+		);
+	}
+
+	/**
+	 * タスクを別のリストに移動する
+	 * Graph APIにはリスト間の移動がないため、内容をコピーして元のタスクを削除する
+	 */
+	async moveTaskToList(listId: string, task: TodoTask, targetListId: string): Promise<TodoTask> {
+		this.validateInitialization();
+
+		try {
+			const taskData: TaskRequestBody = {
+				title: task.title,
+				status: task.status,
+			};
+			if (task.importance) taskData.importance = task.importance;
+			if (task.body) taskData.body = task.body;
+			if (task.dueDateTime) taskData.dueDateTime = task.dueDateTime;
+			if (task.startDateTime) taskData.startDateTime = task.startDateTime;
+			if (task.recurrence) taskData.recurrence = task.recurrence;
+			if (task.isReminderOn && task.reminderDateTime) {
+				taskData.isReminderOn = true;
+				taskData.reminderDateTime = task.reminderDateTime;
+			}
+
+			const response = await this.request(GRAPH_ENDPOINTS.TASKS(targetListId), {
+				method: 'POST',
+				body: JSON.stringify(taskData),
+			}, 'Failed to copy task');
+
+			const movedTask: TodoTask = await response.json();
+			await this.deleteTask(listId, task.id);
+
+			this.logger.info('Task moved to another list', {
+				listId,
+				taskId: task.id,
+				targetListId,
+			});
+			return movedTask;
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'moveTaskToList',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId: task.id, targetListId, error },
+			};
+			this.logger.error('Failed to move task', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * タスクのステップ（checklistItems）を取得
+	 */
+	async getChecklistItems(listId: string, taskId: string): Promise<ChecklistItem[]> {
+		this.validateInitialization();
+
+		try {
+			const response = await this.request(GRAPH_ENDPOINTS.CHECKLIST_ITEMS(listId, taskId), {
+				method: 'GET',
+			}, 'Failed to fetch checklist items');
+
+			const data: ApiResponse<ChecklistItem> = await response.json();
+			return data.value || [];
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'getChecklistItems',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, error },
+			};
+			this.logger.error('Failed to get checklist items', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	async createChecklistItem(listId: string, taskId: string, displayName: string, isChecked = false): Promise<ChecklistItem> {
+		this.validateInitialization();
+
+		try {
+			const response = await this.request(GRAPH_ENDPOINTS.CHECKLIST_ITEMS(listId, taskId), {
+				method: 'POST',
+				body: JSON.stringify({ displayName, isChecked }),
+			}, 'Failed to create checklist item');
+
+			const newItem: ChecklistItem = await response.json();
+			this.logger.info('Checklist item created successfully', {
+				listId,
+				taskId,
+				itemId: newItem.id,
+			});
+			return newItem;
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'createChecklistItem',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, displayName, error },
+			};
+			this.logger.error('Failed to create checklist item', context);
+			throw this.toApiError(error);
+		}
+	}
+
+	/**
+	 * ステップのチェック状態を更新
+	 */
+	async updateChecklistItem(listId: string, taskId: string, itemId: string, isChecked: boolean): Promise<void> {
+		this.validateInitialization();
+
+		try {
+			await this.request(GRAPH_ENDPOINTS.CHECKLIST_ITEM(listId, taskId, itemId), {
+				method: 'PATCH',
+				body: JSON.stringify({ isChecked }),
+			}, 'Failed to update checklist item');
+
+			this.logger.info('Checklist item updated successfully', {
+				listId,
+				taskId,
+				itemId,
+				isChecked,
+			});
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoApiClient',
+				method: 'updateChecklistItem',
+				timestamp: new Date().toISOString(),
+				details: { listId, taskId, itemId, isChecked, error },
+			};
+			this.logger.error('Failed to update checklist item', context);
+			throw this.toApiError(error);
 		}
 	}
 
@@ -399,6 +934,30 @@ export class TodoApiClient {
 		}
 	}
 
+	/**
+	 * YYYY-MM-DDの期日をその日付のUTC 0時として表現する
+	 * ローカル時刻を経由するとUTCより東のタイムゾーンではMicrosoft To Doで前日と表示されるため、日付をそのまま送る
+	 */
+	private toGraphDueDateTime(dueDate: string): { dateTime: string; timeZone: string } {
+		return {
+			dateTime: `${dueDate}T00:00:00.0000000`,
+			timeZone: 'UTC',
+		};
+	}
+
+	/**
+	 * ローカル日時（YYYY-MM-DD HH:mm）のリマインダーをUTCで表現する
+	 */
+	private toGraphReminderDateTime(reminder: string): { dateTime: string; timeZone: string } {
+		const [date, time] = reminder.split(' ');
+		const [year, month, day] = date.split('-').map(Number);
+		const [hours, minutes] = time.split(':').map(Number);
+		return {
+			dateTime: new Date(year, month - 1, day, hours, minutes).toISOString(),
+			timeZone: 'UTC',
+		};
+	}
+
 	private async getAccessToken(): Promise<string> {
 		if (!this.tokenProvider) {
 			throw new Error('Token provider not available');
@@ -412,12 +971,249 @@ export class TodoApiClient {
 		}
 	}
 
-	private handleApiError(error: any): never {
-		if (error.error) {
-			const graphError = error as GraphApiError;
-			throw new Error(`Graph API Error: ${graphError.error.code} - ${graphError.error.message}`);
+	/**
+	 * Graph APIへのリクエストの共通処理
+	 * 429と5xx・通信エラーはRetry-After（なければ指数バックオフ）だけ待って再試行し、
+	 * 同時に送信するリクエストはMAX_CONCURRENT_GRAPH_REQUESTS件までに制限する
+	 * 失敗時はHTTPステータスとGraphのエラー応答を持つGraphRequestErrorを投げる
+	 */
+	private async request(url: string, init: RequestInit, failureMessage: string): Promise<Response> {
+		// POSTは再送すると重複作成のおそれがあるため、リクエストが処理されていない429と503のみ再試行する
+		const idempotent = init.method !== 'POST';
+
+		for (let attempt = 0; ; attempt++) {
+			const accessToken = await this.getAccessToken();
+			let response: Response;
+
+			await this.acquireRequestSlot();
+			try {
+				response = await fetch(url, {
+					...init,
+					headers: {
+						'Authorization': `Bearer ${accessToken}`,
+						'Content-Type': 'application/json',
+					},
+				});
+			} catch (error) {
+				if (!idempotent || attempt >= GRAPH_RETRY.MAX_RETRIES) {
+					throw error;
+				}
+				const delayMs = this.getBackoffDelay(attempt);
+				this.logger.warn('Graph request failed, retrying', { url, attempt: attempt + 1, delayMs, error });
+				await this.delay(delayMs);
+				continue;
+			} finally {
+				this.releaseRequestSlot();
+			}
+
+			if (response.ok) {
+				return response;
+			}
+
+			const retryable = response.status === 429 || response.status === 503 ||
+				(idempotent && response.status >= 500);
+			if (!retryable || attempt >= GRAPH_RETRY.MAX_RETRIES) {
+				throw await this.createRequestError(response, failureMessage);
+			}
+
+			const retryAfterMs = this.parseRetryAfter(response.headers?.get('Retry-After'));
+			const delayMs = Math.min(retryAfterMs ?? this.getBackoffDelay(attempt), GRAPH_RETRY.MAX_DELAY_MS);
+			if (response.status === 429) {
+				// スロットリング中はほかのリクエストも同じ時刻まで送信を待つ
+				this.throttledUntil = Math.max(this.throttledUntil, Date.now() + delayMs);
+			}
+			this.logger.warn('Graph request was throttled or failed transiently, retrying', {
+				url,
+				status: response.status,
+				attempt: attempt + 1,
+				delayMs,
+			});
+			await this.delay(delayMs);
 		}
-		
-		throw new Error(`API Error: ${error.message || 'Unknown error'}`);
+	}
+
+	/**
+	 * リクエストを$batchでGRAPH_BATCH_LIMIT件ずつまとめて送信し、リクエストと同じ順序で結果を返す
+	 * 個々の429・5xxは失敗したリクエストだけをまとめて再試行する（request()と同じ条件と待機時間）
+	 * $batch自体が失敗した場合は、そのバッチのすべてのリクエストを失敗として返す
+	 */
+	private async sendBatch<T>(
+		requests: BatchRequest[],
+		failureMessage: string,
+		parse: (body: unknown) => T
+	): Promise<BatchItemResult<T>[]> {
+		const results: BatchItemResult<T>[] = [];
+
+		for (let start = 0; start < requests.length; start += GRAPH_BATCH_LIMIT) {
+			let pending = requests.slice(start, start + GRAPH_BATCH_LIMIT).map((request, i) => ({ ...request, index: start + i }));
+
+			for (let attempt = 0; pending.length > 0; attempt++) {
+				let responses: BatchResponse[];
+				try {
+					const response = await this.request(GRAPH_ENDPOINTS.BATCH, {
+						method: 'POST',
+						body: JSON.stringify({
+							requests: pending.map(request => ({
+								id: String(request.index),
+								method: request.method,
+								url: request.url.slice(GRAPH_BASE_URL.length),
+								...(request.body !== undefined
+									? { headers: { 'Content-Type': 'application/json' }, body: request.body }
+									: {}),
+							})),
+						}),
+					}, 'Failed to send batch request');
+					responses = (await response.json()).responses || [];
+				} catch (error) {
+					const batchError = this.toApiError(error);
+					for (const request of pending) {
+						results[request.index] = { error: batchError };
+					}
+					break;
+				}
+
+				const retries: typeof pending = [];
+				let retryAfterMs: number | null = null;
+				let throttled = false;
+				for (const request of pending) {
+					const response = responses.find(item => item.id === String(request.index));
+					if (response && response.status >= 200 && response.status < 300) {
+						results[request.index] = { value: parse(response.body) };
+						continue;
+					}
+
+					const status = response?.status;
+					const retryable = status === 429 || status === 503 ||
+						(request.method !== 'POST' && status !== undefined && status >= 500);
+					if (retryable && attempt < GRAPH_RETRY.MAX_RETRIES) {
+						retries.push(request);
+						throttled = throttled || status === 429;
+						const itemRetryAfter = this.parseRetryAfter(this.getHeader(response?.headers, 'Retry-After'));
+						if (itemRetryAfter !== null) {
+							retryAfterMs = Math.max(retryAfterMs ?? 0, itemRetryAfter);
+						}
+						continue;
+					}
+
+					results[request.index] = {
+						error: this.toApiError(response
+							? this.createGraphError(response.status, response.body, failureMessage)
+							: new Error(`${failureMessage}: No response in batch`)),
+					};
+				}
+
+				if (retries.length > 0) {
+					const delayMs = Math.min(retryAfterMs ?? this.getBackoffDelay(attempt), GRAPH_RETRY.MAX_DELAY_MS);
+					if (throttled) {
+						this.throttledUntil = Math.max(this.throttledUntil, Date.now() + delayMs);
+					}
+					this.logger.warn('Batch requests were throttled or failed transiently, retrying', {
+						count: retries.length,
+						attempt: attempt + 1,
+						delayMs,
+					});
+					await this.delay(delayMs);
+				}
+				pending = retries;
+			}
+		}
+
+		this.logger.info('Batch requests completed', {
+			count: requests.length,
+			failed: results.filter(result => result.error).length,
+		});
+		return results;
+	}
+
+	private getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+		if (!headers) return undefined;
+		const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+		return key ? headers[key] : undefined;
+	}
+
+	/**
+	 * 同時実行数の上限に空きができるまで待ち、スロットリング中は解除時刻まで待つ
+	 */
+	private async acquireRequestSlot(): Promise<void> {
+		while (this.activeRequests >= MAX_CONCURRENT_GRAPH_REQUESTS) {
+			await new Promise<void>(resolve => this.waitingRequests.push(resolve));
+		}
+		this.activeRequests++;
+
+		const throttleMs = this.throttledUntil - Date.now();
+		if (throttleMs > 0) {
+			await this.delay(throttleMs);
+		}
+	}
+
+	private releaseRequestSlot(): void {
+		this.activeRequests--;
+		this.waitingRequests.shift()?.();
+	}
+
+	/**
+	 * 指数バックオフの待機時間（BASE_DELAY_MS × 2^attempt、上限MAX_DELAY_MS）
+	 */
+	private getBackoffDelay(attempt: number): number {
+		return Math.min(GRAPH_RETRY.BASE_DELAY_MS * 2 ** attempt, GRAPH_RETRY.MAX_DELAY_MS);
+	}
+
+	/**
+	 * Retry-Afterヘッダー（秒数またはHTTP日付）をミリ秒に変換
+	 */
+	private parseRetryAfter(value: string | null | undefined): number | null {
+		if (!value) {
+			return null;
+		}
+
+		const seconds = Number(value);
+		if (!isNaN(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+
+		const retryAt = Date.parse(value);
+		return isNaN(retryAt) ? null : Math.max(0, retryAt - Date.now());
+	}
+
+	/**
+	 * 失敗した応答からGraphRequestErrorを作成
+	 */
+	private async createRequestError(response: Response, failureMessage: string): Promise<GraphRequestError> {
+		let body: unknown;
+		try {
+			body = await response.json();
+		} catch {
+			// エラー応答がJSONでない場合はステータスのみ
+		}
+		return this.createGraphError(response.status, body, failureMessage);
+	}
+
+	/**
+	 * HTTPステータスとエラー応答からGraphRequestErrorを作成（Graphのエラー応答があればメッセージに含める）
+	 */
+	private createGraphError(status: number, body: unknown, failureMessage: string): GraphRequestError {
+		const graphError = (body as GraphApiError | undefined)?.error?.code ? body as GraphApiError : undefined;
+		const detail = graphError ? ` (${graphError.error.code}: ${graphError.error.message})` : '';
+		const error: GraphRequestError = new Error(`${failureMessage}: HTTP ${status}${detail}`);
+		error.status = status;
+		error.graphError = graphError;
+		return error;
+	}
+
+	/**
+	 * API_ERRORコード付きのエラーに変換（HTTPステータスとGraphのエラー応答は引き継ぐ）
+	 */
+	private toApiError(error: unknown): GraphRequestError {
+		const apiError: GraphRequestError = new Error(`${ERROR_CODES.API_ERROR}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		if (error instanceof Error) {
+			const { status, graphError } = error as GraphRequestError;
+			apiError.status = status;
+			apiError.graphError = graphError;
+		}
+		return apiError;
+	}
+
+	private delay(ms: number): Promise<void> {
+		return new Promise(resolve => setTimeout(resolve, ms));
 	}
 }
\ No newline at end of file
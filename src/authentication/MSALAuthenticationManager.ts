@@ -18,6 +18,7 @@ import {
 	ErrorContext 
 } from '../types';
 import { MSAL_CONFIG, GRAPH_SCOPES, ERROR_CODES } from '../constants';
+import { TokenCachePlugin } from './TokenCachePlugin';
 
 export class MSALAuthenticationManager {
 	private pca: PublicClientApplication | null = null;
@@ -25,12 +26,16 @@ export class MSALAuthenticationManager {
 	private cachedToken: string | null = null;
 	private tokenExpiry: Date | null = null;
 	private currentAccount: AccountInfo | null = null;
+	private cachePlugin: TokenCachePlugin | null = null;
 
 	constructor(logger: Logger) {
 		this.logger = logger;
 	}
 
-	async initialize(clientId: string, tenantId: string): Promise<void> {
+	/**
+	 * @param cachePlugin Optional MSAL cache plugin used to persist tokens across restarts
+	 */
+	async initialize(clientId: string, tenantId: string, cachePlugin?: TokenCachePlugin): Promise<void> {
 		if (!clientId || !tenantId) {
 			throw new Error('Invalid client configuration: clientId and tenantId are required');
 		}
@@ -41,7 +46,7 @@ export class MSALAuthenticationManager {
 				authority: `https://login.microsoftonline.com/${tenantId}`,
 				knownAuthorities: ['login.microsoftonline.com'],
 			},
-			cache: {},
+			cache: cachePlugin ? { cachePlugin } : {},
 			system: {
 				loggerOptions: {
 					loggerCallback: (level, message, containsPii) => {
@@ -70,7 +75,12 @@ export class MSALAuthenticationManager {
 
 		try {
 			this.pca = new PublicClientApplication(config);
-			this.logger.info('MSAL authentication manager initialized', { clientId, tenantId });
+			this.cachePlugin = cachePlugin || null;
+			this.logger.info('MSAL authentication manager initialized', {
+				clientId,
+				tenantId,
+				persistentCache: !!cachePlugin,
+			});
 		} catch (error) {
 			const context: ErrorContext = {
 				component: 'MSALAuthenticationManager',
@@ -112,6 +122,27 @@ export class MSALAuthenticationManager {
 		}
 	}
 
+	/**
+	 * Restore a previous session from the persisted token cache without user interaction
+	 * Returns true when a valid access token could be acquired silently
+	 */
+	async restoreSession(): Promise<boolean> {
+		if (!this.pca) {
+			throw new Error('Authentication manager not initialized');
+		}
+
+		const result = await this.attemptSilentAuth();
+		if (!result) {
+			this.logger.debug('No session could be restored from token cache');
+			return false;
+		}
+
+		this.logger.info('Session restored from persisted token cache', {
+			username: result.account.username,
+		});
+		return true;
+	}
+
 	private async attemptSilentAuth(): Promise<AuthenticationResult | null> {
 		if (!this.pca) return null;
 
@@ -241,6 +272,9 @@ export class MSALAuthenticationManager {
 				for (const account of accounts) {
 					await this.pca.getTokenCache().removeAccount(account);
 				}
+				if (this.cachePlugin) {
+					await this.cachePlugin.clear();
+				}
 				this.logger.info('Logout successful');
 			} catch (error) {
 				this.logger.error('Error during logout', { error });
@@ -0,0 +1,138 @@
+// MSAL Token Cache Plugin for ToDo Integrator
+// Persists the serialized MSAL token cache into plugin data so silent
+// authentication keeps working across Obsidian restarts
+
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Logger } from '../types';
+import { TOKEN_CACHE_DATA_KEY } from '../constants';
+
+interface ObfuscatedTokenCache {
+	version: number;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+// Plugin data as returned by Plugin.loadData (settings plus component-owned keys)
+type PluginData = Record<string, unknown>;
+
+const CACHE_FORMAT_VERSION = 1;
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+
+function isPluginData(value: unknown): value is PluginData {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isObfuscatedTokenCache(value: unknown): value is ObfuscatedTokenCache {
+	return isPluginData(value)
+		&& typeof value.version === 'number'
+		&& typeof value.iv === 'string'
+		&& typeof value.tag === 'string'
+		&& typeof value.data === 'string';
+}
+
+/**
+ * Stores the MSAL token cache obfuscated with AES-256-GCM.
+ * The key is derived from the client ID, which is itself stored in data.json,
+ * so this only keeps tokens out of plain sight. It is not encryption at rest:
+ * anyone who can read data.json can recover the tokens.
+ */
+export class TokenCachePlugin implements ICachePlugin {
+	private logger: Logger;
+	private loadDataCallback: () => Promise<unknown>;
+	private saveDataCallback: (data: PluginData) => Promise<void>;
+	private key: Buffer;
+
+	constructor(
+		clientId: string,
+		logger: Logger,
+		loadDataCallback: () => Promise<unknown>,
+		saveDataCallback: (data: PluginData) => Promise<void>
+	) {
+		this.logger = logger;
+		this.loadDataCallback = loadDataCallback;
+		this.saveDataCallback = saveDataCallback;
+		this.key = createHash('sha256').update(`todo-integrator:${clientId}`).digest();
+	}
+
+	async beforeCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+		try {
+			const data = await this.loadPluginData();
+			const stored = data[TOKEN_CACHE_DATA_KEY];
+			if (stored === undefined) return;
+			if (!isObfuscatedTokenCache(stored)) {
+				throw new Error('Persisted token cache has an unexpected shape');
+			}
+
+			cacheContext.tokenCache.deserialize(this.deobfuscate(stored));
+		} catch (error) {
+			// A corrupt or foreign cache only costs a re-authentication
+			this.logger.warn('Failed to restore persisted token cache', {
+				error: error instanceof Error ? error.message : 'Unknown error',
+			});
+		}
+	}
+
+	async afterCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+		if (!cacheContext.cacheHasChanged) return;
+
+		try {
+			const data = await this.loadPluginData();
+			data[TOKEN_CACHE_DATA_KEY] = this.obfuscate(cacheContext.tokenCache.serialize());
+			await this.saveDataCallback(data);
+			this.logger.debug('Persisted token cache');
+		} catch (error) {
+			this.logger.error('Failed to persist token cache', {
+				error: error instanceof Error ? error.message : 'Unknown error',
+			});
+		}
+	}
+
+	/**
+	 * Remove the persisted token cache (used on logout)
+	 */
+	async clear(): Promise<void> {
+		const data = await this.loadPluginData();
+		if (!data[TOKEN_CACHE_DATA_KEY]) return;
+
+		delete data[TOKEN_CACHE_DATA_KEY];
+		await this.saveDataCallback(data);
+		this.logger.debug('Persisted token cache cleared');
+	}
+
+	/**
+	 * Plugin data, or an empty object before anything has been saved
+	 */
+	private async loadPluginData(): Promise<PluginData> {
+		const data = await this.loadDataCallback();
+		return isPluginData(data) ? data : {};
+	}
+
+	private obfuscate(plainText: string): ObfuscatedTokenCache {
+		const iv = randomBytes(12);
+		const cipher = createCipheriv(CIPHER_ALGORITHM, this.key, iv);
+		const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+		return {
+			version: CACHE_FORMAT_VERSION,
+			iv: iv.toString('base64'),
+			tag: cipher.getAuthTag().toString('base64'),
+			data: encrypted.toString('base64'),
+		};
+	}
+
+	private deobfuscate(stored: ObfuscatedTokenCache): string {
+		if (stored.version !== CACHE_FORMAT_VERSION) {
+			throw new Error(`Unsupported token cache version: ${stored.version}`);
+		}
+
+		const decipher = createDecipheriv(CIPHER_ALGORITHM, this.key, Buffer.from(stored.iv, 'base64'));
+		decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+		const decrypted = Buffer.concat([
+			decipher.update(Buffer.from(stored.data, 'base64')),
+			decipher.final(),
+		]);
+		return decrypted.toString('utf8');
+	}
+}
@@ -15,8 +15,30 @@ export const DEFAULT_SETTINGS = {
 	dailyNoteDateFormat: 'YYYY-MM-DD',
 	dailyNoteTemplate: undefined,
 	taskSectionHeading: '# Tasks',
+	listMappings: [],
+	deletionSync: 'off' as const,
+	deletionGracePeriodHours: 24,
+	conflictResolution: 'obsidian' as const,
+	vaultWideSync: false,
+	vaultSyncInclude: [],
+	vaultSyncExclude: [],
+	vaultSyncTag: '#mstodo',
+	stableTaskIds: false,
+	notePeriod: 'daily' as const,
+	taskInsertPosition: 'bottom' as const,
+	listSubheadings: false,
+	listSubheadingLevel: 2,
+	taskSectionAnchor: '',
+	carryOverTasks: 'off' as const,
 };
 
+// 各期間のノートの既定の日付フォーマット（Periodic Notesプラグインの既定値）
+export const NOTE_PERIOD_FORMATS = {
+	daily: 'YYYY-MM-DD',
+	weekly: 'gggg-[W]ww',
+	monthly: 'YYYY-MM',
+} as const;
+
 export const MSAL_CONFIG = {
 	auth: {
 		authority: 'https://login.microsoftonline.com/common',
@@ -38,8 +60,36 @@ export const GRAPH_ENDPOINTS = {
 	TODO_LISTS: 'https://graph.microsoft.com/v1.0/me/todo/lists',
 	TASKS: (listId: string) => `https://graph.microsoft.com/v1.0/me/todo/lists/${listId}/tasks`,
 	TASK: (listId: string, taskId: string) => `https://graph.microsoft.com/v1.0/me/todo/lists/${listId}/tasks/${taskId}`,
+	TASKS_DELTA: (listId: string) => `https://graph.microsoft.com/v1.0/me/todo/lists/${listId}/tasks/delta`,
+	CHECKLIST_ITEMS: (listId: string, taskId: string) => `https://graph.microsoft.com/v1.0/me/todo/lists/${listId}/tasks/${taskId}/checklistItems`,
+	CHECKLIST_ITEM: (listId: string, taskId: string, itemId: string) => `https://graph.microsoft.com/v1.0/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${itemId}`,
+	BATCH: 'https://graph.microsoft.com/v1.0/$batch',
 };
 
+// Base URL stripped from endpoints to get the relative URLs that $batch requests use
+export const GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+
+// Graph JSON batching accepts at most 20 requests per $batch call
+export const GRAPH_BATCH_LIMIT = 20;
+
+// Microsoft To Do list that receives tasks deleted in Obsidian when deletionSync is 'trash'
+export const DELETED_FROM_OBSIDIAN_LIST_NAME = 'Deleted from Obsidian';
+
+// Safety cap for following @odata.nextLink when fetching tasks (200 tasks per page).
+// Fetches that hit it fail instead of returning a partial list.
+export const MAX_TASK_PAGES = 50;
+
+// Retry policy for throttled (429) and transient (5xx, network) Graph API failures
+export const GRAPH_RETRY = {
+	MAX_RETRIES: 4,
+	BASE_DELAY_MS: 1000,
+	// Upper bound for both the exponential backoff and a server-sent Retry-After
+	MAX_DELAY_MS: 60000,
+};
+
+// Maximum number of Graph API requests in flight at once
+export const MAX_CONCURRENT_GRAPH_REQUESTS = 4;
+
 export const UI_TEXT = {
 	PLUGIN_NAME: 'ToDo Integrator',
 	AUTHENTICATION: {
@@ -57,6 +107,20 @@ export const UI_TEXT = {
 		ERROR: 'Sync failed',
 		IN_PROGRESS: 'Syncing...',
 	},
+	PREVIEW: {
+		TITLE: 'Sync Preview',
+		DESCRIPTION: 'Nothing has been changed yet. Apply runs exactly these changes; preview again if your notes change in the meantime.',
+		EMPTY: 'Everything is in sync. Nothing would change.',
+		TITLE_CLEANUP: 'These Microsoft To Do titles contain [todo::] tags and would be rewritten without them.',
+	},
+	HISTORY: {
+		TITLE: 'Sync History',
+		EMPTY: 'No syncs have been recorded yet.',
+	},
+	CONFLICTS: {
+		TITLE: 'Sync Conflicts',
+		DESCRIPTION: 'These tasks were changed both in Obsidian and in Microsoft To Do since the last sync. Choose which version to keep; it is applied on the next sync.',
+	},
 	SETTINGS: {
 		TITLE: 'ToDo Integrator Settings',
 		AUTH_SECTION: 'Authentication',
@@ -75,8 +139,31 @@ export const ERROR_CODES = {
 	PARSING_ERROR: 'PARSING_ERROR',
 	DUPLICATE_TASK: 'DUPLICATE_TASK',
 	INVALID_CONFIG: 'INVALID_CONFIG',
+	DELTA_TOKEN_EXPIRED: 'DELTA_TOKEN_EXPIRED',
+	SYNC_CONFLICT: 'SYNC_CONFLICT',
+	STALE_SYNC_PLAN: 'STALE_SYNC_PLAN',
 };
 
+export const TOKEN_CACHE_DATA_KEY = 'todo-integrator-token-cache';
+
+// Rolling history of sync runs, kept in plugin data next to the task metadata
+export const SYNC_HISTORY_DATA_KEY = 'todo-integrator-sync-history';
+export const SYNC_HISTORY_LIMIT = 50;
+export const SYNC_HISTORY_MAX_ACTIONS = 200;
+
+// Note date of the last carry-over of unfinished tasks into today's note
+export const CARRY_OVER_DATA_KEY = 'todo-integrator-last-carry-over';
+
+// Plugin data keys owned by components other than settings.
+// These are preserved when settings are saved.
+export const PROTECTED_DATA_KEYS = [
+	'todo-integrator-task-metadata',
+	'todo-integrator-delta-state',
+	TOKEN_CACHE_DATA_KEY,
+	SYNC_HISTORY_DATA_KEY,
+	CARRY_OVER_DATA_KEY,
+];
+
 export const LOG_LEVELS = {
 	DEBUG: 0,
 	INFO: 1,
@@ -91,4 +178,20 @@ export const TODO_SECTION_HEADER = '## ToDo';
 export const COMPLETED_SECTION_HEADER = '## Completed';
 
 export const TASK_REGEX = /^(\s*)-\s*\[([ x])\]\s*(.+?)(?:\s*✅\s*(\d{4}-\d{2}-\d{2}))?$/;
-export const COMPLETION_DATE_REGEX = /✅\s+(\d{4}-\d{2}-\d{2})/;
\ No newline at end of file
+export const COMPLETION_DATE_REGEX = /✅\s+(\d{4}-\d{2}-\d{2})/;
+// Due date markers: Tasks plugin emoji and Dataview inline field
+export const DUE_DATE_EMOJI_REGEX = /\s*📅\s*(\d{4}-\d{2}-\d{2})/;
+export const DUE_DATE_INLINE_REGEX = /\s*\[due::\s*(\d{4}-\d{2}-\d{2})\]/;
+// Priority markers: Tasks plugin emoji and Dataview inline field
+export const PRIORITY_EMOJI_REGEX = /\s*(🔺|⏫|🔼|🔽|⏬)\uFE0F?/;
+export const PRIORITY_INLINE_REGEX = /\s*\[priority::\s*(\w+)\s*\]/;
+// Recurrence marker (Tasks plugin): the rule runs until the next marker, tag or inline field
+export const RECURRENCE_REGEX = /\s*🔁\s*([^📅⏳🛫✅➕⏫🔼🔽🔺⏬⏰#[]*[^📅⏳🛫✅➕⏫🔼🔽🔺⏬⏰#[\s])/u;
+// Reminder marker (local date and time); the time defaults to REMINDER_DEFAULT_TIME when omitted
+export const REMINDER_REGEX = /\s*⏰\s*(\d{4}-\d{2}-\d{2})(?:[ T](\d{1,2}):(\d{2}))?/u;
+export const REMINDER_DEFAULT_TIME = '09:00';
+// Obsidian block reference appended to synced task lines when stable task IDs are enabled, e.g. "^mst-k3x9q2"
+export const BLOCK_ID_REGEX = /\s+\^(mst-[a-z0-9]+)\s*$/;
+export const BLOCK_ID_PREFIX = 'mst-';
+// Back-link appended to a task copied to today's note by the carry-over, e.g. "(from [[2024-01-14]])"
+export const CARRY_OVER_LINK_REGEX = /\s+\(from \[\[[^\]]+\]\]\)/;
\ No newline at end of file
@@ -30,9 +30,10 @@ export class MicrosoftTodoService implements TodoService {
 			}
 
 			this.logger.debug('Fetching tasks from Microsoft Todo', { listId });
-			const tasks = await this.apiClient.getTasks(listId);
+			// Filters are applied server-side via $filter; all pages are fetched
+			const tasks = await this.apiClient.getTasks(listId, options);
 
-			// Apply client-side filtering if needed
+			// Keep client-side filtering as a safeguard
 			let filteredTasks = tasks;
 			if (options?.status) {
 				filteredTasks = filteredTasks.filter(task => task.status === options.status);
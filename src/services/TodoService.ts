@@ -1,7 +1,7 @@
 // TodoService interface for external todo service integration
 // This interface provides a contract for implementing different todo services
 
-import { TodoTask } from '../types';
+import { TaskImportance, TodoTask } from '../types';
 
 /**
  * Options for filtering tasks
@@ -22,7 +22,7 @@ export interface CreateTaskOptions {
 	dueDate?: string;
 	startDate?: string;
 	listId?: string;
-	importance?: 'low' | 'normal' | 'high';
+	importance?: TaskImportance;
 }
 
 /**
@@ -34,7 +34,7 @@ export interface UpdateTaskOptions {
 	status?: 'notStarted' | 'inProgress' | 'completed';
 	dueDate?: string;
 	startDate?: string;
-	importance?: 'low' | 'normal' | 'high';
+	importance?: TaskImportance;
 }
 
 /**
@@ -1,11 +1,12 @@
 // Plugin Settings Manager for ToDo Integrator
 // Provides robust settings validation and configuration management
 
-import { TodoIntegratorSettings } from '../types';
+import { TodoIntegratorSettings, TodoListMapping } from '../types';
 import { Logger } from '../types';
 import { ErrorHandler } from '../utils/ErrorHandler';
 import { getAzureConfig, PLUGIN_CONFIG } from '../config/AppConfig';
 import { DEFAULT_SETTINGS } from '../constants';
+import { mergeProtectedData, withoutProtectedData } from './protectedData';
 
 export class PluginSettings {
 	private settings: TodoIntegratorSettings;
@@ -30,7 +31,7 @@ export class PluginSettings {
 	async loadSettings(): Promise<TodoIntegratorSettings> {
 		try {
 			const data = await this.loadDataCallback();
-			this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+			this.settings = Object.assign({}, DEFAULT_SETTINGS, withoutProtectedData(data || {}));
 			this.logger.debug('Settings loaded successfully');
 			return this.settings;
 		} catch (error) {
@@ -49,16 +50,10 @@ export class PluginSettings {
 			
 			// loadDataCallbackがあれば、既存のデータを取得してメタデータを保護
 			if (this.loadDataCallback) {
-				const existingData = await this.loadDataCallback() || {};
-				const metadataKey = 'todo-integrator-task-metadata';
+				const existingData = await this.loadDataCallback();
 				
-				// メタデータが存在する場合は保持
-				const protectedData = { ...this.settings } as any;
-				if (existingData[metadataKey]) {
-					protectedData[metadataKey] = existingData[metadataKey];
-				}
-				
-				await this.saveDataCallback(protectedData);
+				// メタデータなど設定以外のデータは保存時点の値を保持する
+				await this.saveDataCallback(mergeProtectedData(this.settings, existingData));
 			} else {
 				await this.saveDataCallback(this.settings);
 			}
@@ -118,9 +113,128 @@ export class PluginSettings {
 			validated.todoListName = PLUGIN_CONFIG.DEFAULT_TODO_LIST_NAME;
 		}
 
+		// Validate list mappings
+		validated.listMappings = this.normalizeListMappings(validated.listMappings);
+
+		// Validate deletion sync
+		if (!['off', 'trash', 'delete'].includes(validated.deletionSync)) {
+			validated.deletionSync = 'off';
+		}
+		if (!(validated.deletionGracePeriodHours >= 0)) {
+			validated.deletionGracePeriodHours = DEFAULT_SETTINGS.deletionGracePeriodHours;
+		}
+
+		// Validate conflict resolution
+		if (!['obsidian', 'microsoft', 'ask'].includes(validated.conflictResolution)) {
+			validated.conflictResolution = DEFAULT_SETTINGS.conflictResolution;
+		}
+
+		// Validate vault-wide sync
+		validated.vaultWideSync = validated.vaultWideSync === true;
+		validated.vaultSyncInclude = this.normalizeGlobs(validated.vaultSyncInclude);
+		validated.vaultSyncExclude = this.normalizeGlobs(validated.vaultSyncExclude);
+		if (typeof validated.vaultSyncTag !== 'string') {
+			validated.vaultSyncTag = DEFAULT_SETTINGS.vaultSyncTag;
+		}
+		const vaultSyncTag = validated.vaultSyncTag.trim().replace(/^#*/, '');
+		validated.vaultSyncTag = vaultSyncTag ? `#${vaultSyncTag}` : '';
+
+		// Validate stable task IDs
+		validated.stableTaskIds = validated.stableTaskIds === true;
+
+		// Validate note period
+		if (!['daily', 'weekly', 'monthly'].includes(validated.notePeriod)) {
+			validated.notePeriod = DEFAULT_SETTINGS.notePeriod;
+		}
+
+		// Validate task placement
+		if (!['bottom', 'top', 'dueDate', 'importance'].includes(validated.taskInsertPosition)) {
+			validated.taskInsertPosition = DEFAULT_SETTINGS.taskInsertPosition;
+		}
+		validated.listSubheadings = validated.listSubheadings === true;
+		if (!Number.isInteger(validated.listSubheadingLevel) || validated.listSubheadingLevel < 1 || validated.listSubheadingLevel > 6) {
+			validated.listSubheadingLevel = DEFAULT_SETTINGS.listSubheadingLevel;
+		}
+		validated.taskSectionAnchor = typeof validated.taskSectionAnchor === 'string'
+			? validated.taskSectionAnchor.trim()
+			: DEFAULT_SETTINGS.taskSectionAnchor;
+
+		// Validate carry-over
+		if (!['off', 'move', 'copy'].includes(validated.carryOverTasks)) {
+			validated.carryOverTasks = DEFAULT_SETTINGS.carryOverTasks;
+		}
+
 		return validated;
 	}
 
+	/**
+	 * リストマッピングを正規化（空のリスト名と重複を除外し、タグに#を付与）
+	 */
+	normalizeListMappings(mappings: TodoListMapping[] | undefined): TodoListMapping[] {
+		if (!Array.isArray(mappings)) return [];
+
+		const seen = new Set<string>();
+		const normalized: TodoListMapping[] = [];
+		for (const mapping of mappings) {
+			const listName = mapping?.listName?.trim();
+			if (!listName || seen.has(listName)) continue;
+			seen.add(listName);
+
+			const sectionHeading = mapping.sectionHeading?.trim();
+			const tag = mapping.tag?.trim().replace(/^#*/, '');
+			normalized.push({
+				listName,
+				...(sectionHeading ? { sectionHeading } : {}),
+				...(tag ? { tag: `#${tag}` } : {}),
+			});
+		}
+		return normalized;
+	}
+
+	/**
+	 * globパターンを正規化（空行・重複を除外し、先頭の/を除去）
+	 */
+	normalizeGlobs(globs: string[] | undefined): string[] {
+		if (!Array.isArray(globs)) return [];
+
+		const normalized = globs
+			.map(glob => (typeof glob === 'string' ? glob.trim().replace(/^\/+/, '') : ''))
+			.filter(glob => glob.length > 0);
+		return Array.from(new Set(normalized));
+	}
+
+	/**
+	 * 設定画面のテキスト（1行1マッピング）をリストマッピングに変換
+	 * 形式: "リスト名 -> ## 見出し", "リスト名 -> #tag", "リスト名 -> ## 見出し #tag"
+	 */
+	parseListMappings(text: string): TodoListMapping[] {
+		const mappings: TodoListMapping[] = [];
+		for (const line of text.split('\n')) {
+			const separatorIndex = line.indexOf('->');
+			if (separatorIndex === -1) continue;
+
+			const listName = line.slice(0, separatorIndex).trim();
+			const target = line.slice(separatorIndex + 2).trim();
+			const match = target.match(/^(#{1,6}\s+.*?)?\s*(#[^\s#]+)?$/);
+			if (!listName || !match || (!match[1] && !match[2])) {
+				this.logger.warn('Ignoring invalid list mapping', { line });
+				continue;
+			}
+
+			mappings.push({ listName, sectionHeading: match[1], tag: match[2] });
+		}
+		return this.normalizeListMappings(mappings);
+	}
+
+	formatListMappings(mappings: TodoListMapping[]): string {
+		return mappings
+			.map(mapping => {
+				const target = [mapping.sectionHeading, mapping.tag].filter(Boolean).join(' ');
+				return `${mapping.listName} -> ${target}`;
+			})
+			.join('\n');
+	}
+
 	getDefaultSettings(): TodoIntegratorSettings {
 		return { ...DEFAULT_SETTINGS };
 	}
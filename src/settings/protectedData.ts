@@ -0,0 +1,35 @@
+// Plugin data owned by components other than settings
+// data.json holds the settings next to the token cache, task metadata, delta state and so on.
+// Settings are loaded without those keys and saved with whatever the owning components last wrote.
+
+import { TodoIntegratorSettings } from '../types';
+import { PROTECTED_DATA_KEYS } from '../constants';
+
+/**
+ * 読み込んだプラグインデータから設定以外のキーを取り除く
+ * 設定に古い値を持たせると、設定の保存時にログアウトや状態の破棄が取り消されるため
+ */
+export function withoutProtectedData<T extends object>(data: T): T {
+	const settings = { ...data } as Record<string, unknown>;
+	for (const key of PROTECTED_DATA_KEYS) {
+		delete settings[key];
+	}
+	return settings as T;
+}
+
+/**
+ * 保存する設定に、保存時点のプラグインデータにある設定以外のキーを加える
+ * 保存時点のデータにないキーは設定側に残っていても書き込まない
+ */
+export function mergeProtectedData(
+	settings: TodoIntegratorSettings,
+	existingData: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+	const data: Record<string, unknown> = { ...withoutProtectedData(settings) };
+	for (const key of PROTECTED_DATA_KEYS) {
+		if (existingData && existingData[key] !== undefined) {
+			data[key] = existingData[key];
+		}
+	}
+	return data;
+}
@@ -2,23 +2,70 @@
 // Manages Daily Notes creation, Todo section handling, and task parsing
 
 import { App, TFile, TAbstractFile, TFolder, Vault } from 'obsidian';
-import { DailyNoteTask, Logger, ErrorContext } from '../types';
+import { CommunityPluginRegistry, DailyNoteTask, Logger, ErrorContext, NotePeriod, TaskAttributes, TaskImportance, TaskPlacement, VaultSyncOptions } from '../types';
 import { 
 	DATE_FORMAT, 
 	TODO_SECTION_HEADER, 
 	TASK_REGEX, 
 	COMPLETION_DATE_REGEX,
+	DUE_DATE_EMOJI_REGEX,
+	DUE_DATE_INLINE_REGEX,
+	PRIORITY_EMOJI_REGEX,
+	PRIORITY_INLINE_REGEX,
+	RECURRENCE_REGEX,
+	REMINDER_REGEX,
+	REMINDER_DEFAULT_TIME,
+	BLOCK_ID_REGEX,
+	CARRY_OVER_LINK_REGEX,
 	ERROR_CODES 
 } from '../constants';
 import { DataViewCompat } from '../utils/DataViewCompat';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import { DateFormat, DateUnit } from '../utils/DateFormat';
 // Note: Using native Date formatting to avoid moment dependency issues in tests
 
+// テンプレートの{{date}} / {{time}}（例: {{date:dddd, MMMM D}}、{{date+1d:YYYY-MM-DD}}、{{time:HH:mm:ss}}）
+const TEMPLATE_DATE_REGEX = /\{\{\s*(date|time)\s*(?:([+-]\d+)([yQMwdhms]))?\s*(?::(.+?))?\s*\}\}/g;
+
+// Tasks pluginの5段階の優先度をMicrosoft Todoの3段階の重要度に対応付ける
+const PRIORITY_EMOJI_IMPORTANCE: Record<string, TaskImportance> = {
+	'🔺': 'high',
+	'⏫': 'high',
+	'🔼': 'normal',
+	'🔽': 'low',
+	'⏬': 'low',
+};
+const PRIORITY_INLINE_IMPORTANCE: Record<string, TaskImportance> = {
+	highest: 'high',
+	high: 'high',
+	medium: 'normal',
+	normal: 'normal',
+	low: 'low',
+	lowest: 'low',
+};
+
+// ノート作成後にコマンドを実行するために使うTemplaterの内部API
+interface TemplaterPlugin {
+	settings?: { trigger_on_file_creation?: boolean };
+	templater?: { overwrite_file_commands?: (file: TFile) => Promise<void> };
+}
+
+// 行頭の空白（インデント）
+function getIndent(line: string): string {
+	return /^\s*/.exec(line)?.[0] ?? '';
+}
+
 export class DailyNoteManager {
 	private app: App;
 	private logger: Logger;
 	private dailyNotesPath: string;
 	private dateFormat: string;
 	private templatePath?: string;
+	private notePeriod: NotePeriod = 'daily';
+	private taskPlacement: TaskPlacement = { position: 'bottom', listSubheadings: false, subheadingLevel: 2 };
+	// プレビューのコピーではfalse（TemplaterはVaultを経由せずにノートを書き換えるため）
+	private runsTemplater = true;
 	private dataViewCompat: DataViewCompat;
 
 	constructor(
@@ -37,7 +84,7 @@ export class DailyNoteManager {
 	}
 
 	getTodayNotePath(): string {
-		const today = new Date();
+		const today = this.startOfPeriod(new Date());
 		const dateString = this.formatDate(today, this.dateFormat);
 		// Security check: ensure path doesn't contain traversal attempts
 		const safePath = this.sanitizePath(`${this.dailyNotesPath}/${dateString}.md`);
@@ -57,9 +104,7 @@ export class DailyNoteManager {
 
 			// Create new daily note
 			this.logger.info('Creating new daily note', { path: todayPath });
-			const defaultContent = await this.generateDailyNoteContent();
-			
-			await this.app.vault.create(todayPath, defaultContent);
+			await this.createNoteFromTemplate(todayPath, this.startOfPeriod(new Date()));
 			this.logger.info('Daily note created successfully', { path: todayPath });
 			
 			return todayPath;
@@ -89,10 +134,8 @@ export class DailyNoteManager {
 
 			// Create new daily note with specific date
 			this.logger.info('Creating new daily note', { path: notePath, date });
-			const targetDate = new Date(date);
-			const content = await this.generateDailyNoteContentForDate(targetDate);
-			
-			await this.app.vault.create(notePath, content);
+			const targetDate = this.parseNoteDate(this.getPeriodStart(date));
+			await this.createNoteFromTemplate(notePath, targetDate);
 			this.logger.info('Daily note created successfully', { path: notePath, date });
 			
 		} catch (error) {
@@ -129,8 +172,15 @@ export class DailyNoteManager {
 			}
 
 			// Todo section not found, create it
+			// アンカーの見出しがあればそのセクションの末尾、なければ最初の##見出しの前に作成する
 			this.logger.info('Creating Todo section', { filePath, header: targetHeader });
-			const insertionPoint = this.findTodoSectionInsertionPoint(lines);
+			const anchorSection = this.taskPlacement.anchorHeading
+				? this.findSectionBoundaries(lines, this.taskPlacement.anchorHeading)
+				: null;
+			let insertionPoint = anchorSection ? anchorSection.end : this.findTodoSectionInsertionPoint(lines);
+			if (anchorSection && lines[insertionPoint - 1].trim() !== '') {
+				lines.splice(insertionPoint++, 0, '');
+			}
 			
 			// Insert Todo section
 			lines.splice(insertionPoint, 0, targetHeader, '');
@@ -153,74 +203,152 @@ export class DailyNoteManager {
 		}
 	}
 
-	async addTaskToTodoSection(filePath: string, taskTitle: string, taskSectionHeading?: string): Promise<void> {
+	async addTaskToTodoSection(
+		filePath: string,
+		taskTitle: string,
+		taskSectionHeading?: string,
+		attributes?: TaskAttributes,
+		listName?: string
+	): Promise<number> {
+		try {
+			// Format the task line (notes go to indented child lines)
+			const taskLine = `- [ ] ${taskTitle}${this.formatAttributeMarkers(attributes)}`;
+
+			const insertionLine = await this.insertTaskLines(
+				filePath,
+				[taskLine, ...this.formatNoteLines('', attributes?.notes)],
+				taskSectionHeading,
+				attributes,
+				listName
+			);
+			this.logger.info('Task added to Todo section', { 
+				filePath, 
+				taskTitle, 
+				lineNumber: insertionLine,
+				sectionHeader: taskSectionHeading || TODO_SECTION_HEADER
+			});
+			return insertionLine;
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'addTaskToTodoSection',
+				timestamp: new Date().toISOString(),
+				details: { filePath, taskTitle, taskSectionHeading, error },
+			};
+			this.logger.error('Failed to add task to Todo section', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * 過去のノートの未完了タスク（子行のメモ・サブタスクを含む）を別のノートのタスクセクションに移す
+	 * copyでは元のタスクを移行済み（- [>]）にして残し、コピーの行末に元のノートへのリンクを付ける
+	 */
+	async carryOverTasks(
+		filePath: string,
+		lineNumbers: number[],
+		targetPath: string,
+		taskSectionHeading?: string,
+		listName?: string,
+		copy = false
+	): Promise<void> {
 		try {
 			const file = this.app.vault.getAbstractFileByPath(filePath);
 			if (!file || !(file instanceof TFile)) {
 				throw new Error(`File not found: ${filePath}`);
 			}
 
-			// Use provided task section heading or fallback to default
-			const sectionHeader = taskSectionHeading || TODO_SECTION_HEADER;
-
-			// Find Todo section
-			const todoSectionLine = await this.findOrCreateTodoSection(filePath, sectionHeader);
-			
-			// Re-read the file content after potentially creating a new section
 			const content = await this.app.vault.read(file);
 			const lines = content.split('\n');
-			
-			// Find insertion point within Todo section
-			let insertionLine = todoSectionLine + 1;
-			
-			// Skip to after existing tasks
-			for (let i = todoSectionLine + 1; i < lines.length; i++) {
-				const line = lines[i].trim();
-				
-				// Stop if we hit another section header
-				if (line.startsWith('#') && line !== sectionHeader) {
-					break;
-				}
-				
-				// Skip if this is a task line
-				if (line.match(/^- \[[x ]\]/)) {
-					insertionLine = i + 1;
-					continue;
+			const noteName = (filePath.split('/').pop() || filePath).replace(/\.md$/, '');
+
+			// 行番号がずれないよう、後ろのタスクから取り出す
+			const blocks: string[][] = [];
+			for (const lineNumber of [...lineNumbers].sort((a, b) => b - a)) {
+				if (lineNumber >= lines.length || !TASK_REGEX.test(lines[lineNumber])) {
+					throw new Error(`No task found at line ${lineNumber}`);
 				}
-				
-				// Stop if we hit a non-task, non-empty line
-				if (line && !line.match(/^- \[[x ]\]/)) {
-					break;
+				const end = this.findTaskBlockEnd(lines, lineNumber);
+				const indent = getIndent(lines[lineNumber]);
+				const block = lines.slice(lineNumber, end).map(line => line.startsWith(indent) ? line.slice(indent.length) : line);
+
+				if (copy) {
+					const { line, blockId } = this.splitBlockId(block[0]);
+					block[0] = this.appendBlockId(`${line} (from [[${noteName}]])`, blockId);
+					// 元のタスクは安定IDを外して移行済みにし、サブタスクも同期の対象から外す
+					lines.splice(lineNumber, end - lineNumber, ...lines.slice(lineNumber, end).map((line, i) =>
+						(i === 0 ? this.splitBlockId(line).line : line).replace(/^(\s*)-\s*\[ \]/, '$1- [>]')
+					));
+				} else {
+					lines.splice(lineNumber, end - lineNumber);
 				}
+				blocks.unshift(block);
 			}
+			await this.app.vault.modify(file, lines.join('\n'));
 
-			// Format the task line
-			const taskLine = `- [ ] ${taskTitle}`;
-
-			// Insert the task
-			lines.splice(insertionLine, 0, taskLine);
-			const newContent = lines.join('\n');
-
-			await this.app.vault.modify(file, newContent);
-			this.logger.info('Task added to Todo section', { 
-				filePath, 
-				taskTitle, 
-				lineNumber: insertionLine,
-				sectionHeader
+			for (const block of blocks) {
+				await this.insertTaskLines(targetPath, block, taskSectionHeading, {
+					dueDate: this.extractDueDate(block[0]).dueDate,
+					importance: this.extractImportance(block[0]).importance,
+				}, listName);
+			}
+			this.logger.info(copy ? 'Tasks copied to another note' : 'Tasks moved to another note', {
+				filePath,
+				targetPath,
+				count: blocks.length,
 			});
 
 		} catch (error) {
 			const context: ErrorContext = {
 				component: 'DailyNoteManager',
-				method: 'addTaskToTodoSection',
+				method: 'carryOverTasks',
 				timestamp: new Date().toISOString(),
-				details: { filePath, taskTitle, taskSectionHeading, error },
+				details: { filePath, lineNumbers, targetPath, taskSectionHeading, error },
 			};
-			this.logger.error('Failed to add task to Todo section', context);
+			this.logger.error('Failed to carry over tasks', context);
 			throw error;
 		}
 	}
 
+	/**
+	 * タスク行と子行をタスクセクション（セクションがなければ作成）に挿入し、タスク行の行番号を返す
+	 */
+	private async insertTaskLines(
+		filePath: string,
+		taskLines: string[],
+		taskSectionHeading?: string,
+		attributes?: TaskAttributes,
+		listName?: string
+	): Promise<number> {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!file || !(file instanceof TFile)) {
+			throw new Error(`File not found: ${filePath}`);
+		}
+
+		// Use provided task section heading or fallback to default
+		const sectionHeader = taskSectionHeading || TODO_SECTION_HEADER;
+
+		// Find Todo section
+		const todoSectionLine = await this.findOrCreateTodoSection(filePath, sectionHeader);
+		
+		// Re-read the file content after potentially creating a new section
+		const content = await this.app.vault.read(file);
+		const lines = content.split('\n');
+
+		// リストごとのサブ見出しを使う場合はその下に追加する
+		const headingLine = listName && this.taskPlacement.listSubheadings
+			? this.findOrInsertListSubheading(lines, todoSectionLine, sectionHeader, listName)
+			: todoSectionLine;
+		
+		// Find insertion point within Todo section
+		const insertionLine = this.findTaskInsertionLine(lines, headingLine, attributes);
+
+		lines.splice(insertionLine, 0, ...taskLines);
+		await this.app.vault.modify(file, lines.join('\n'));
+		return insertionLine;
+	}
+
 	async getDailyNoteTasks(filePath: string, taskSectionHeading?: string): Promise<DailyNoteTask[]> {
 		try {
 			const file = this.app.vault.getAbstractFileByPath(filePath);
@@ -253,16 +381,36 @@ export class DailyNoteManager {
 			// Parse tasks only within the specified section (or entire file if no section specified)
 			const startIndex = taskSectionHeading ? sectionStartIndex + 1 : 0;
 			const endIndex = taskSectionHeading ? sectionEndIndex : lines.length;
+			let parent: { task: DailyNoteTask; indent: number } | null = null;
 
 			for (let i = startIndex; i < endIndex; i++) {
-				const line = lines[i];
+				const { line, blockId } = this.splitBlockId(lines[i]);
 				const taskMatch = line.match(TASK_REGEX);
+				const lineIndent = getIndent(line).length;
+
+				// 親タスクより深くインデントされたチェックボックスはサブタスク（ステップ）として扱う
+				if (parent && line.trim() && lineIndent <= parent.indent) {
+					parent = null;
+				}
+				if (taskMatch && parent) {
+					const [, , completed, title] = taskMatch;
+					if (title.trim()) {
+						const subtasks = parent.task.subtasks || (parent.task.subtasks = []);
+						subtasks.push({ title: title.trim(), completed: completed === 'x', lineNumber: i });
+					}
+					continue;
+				}
 
 				if (taskMatch) {
-					const [, indent, completed, title, completionDate] = taskMatch;
+					const [, , completed, title, completionDate] = taskMatch;
 					
 					// Skip empty or whitespace-only tasks
-					const cleanTitle = title.trim();
+					// 持ち越しでコピーしたタスクの元のノートへのリンクはタイトルに含めない
+					const { title: titleWithoutReminder, reminder } = this.extractReminder(title.replace(CARRY_OVER_LINK_REGEX, '').trim());
+					const { title: titleWithoutDue, dueDate } = this.extractDueDate(titleWithoutReminder);
+					const { title: titleWithoutPriority, importance } = this.extractImportance(titleWithoutDue);
+					const { title: cleanTitle, recurrence } = this.extractRecurrence(titleWithoutPriority);
+					const { notes } = this.findTaskNotes(lines, i);
 					if (!cleanTitle || cleanTitle.length === 0) {
 						this.logger.debug(`Skipping empty task at line ${i + 1} in ${filePath}`);
 						continue;
@@ -275,9 +423,16 @@ export class DailyNoteManager {
 						completionDate: completionDate || undefined,
 						startDate: startDate,
 						filePath: filePath,
+						...(dueDate ? { dueDate } : {}),
+						...(importance ? { importance } : {}),
+						...(recurrence ? { recurrence } : {}),
+						...(reminder ? { reminder } : {}),
+						...(notes ? { notes } : {}),
+						...(blockId ? { blockId } : {}),
 					};
 
 					tasks.push(task);
+					parent = { task, indent: lineIndent };
 				}
 			}
 
@@ -359,11 +514,8 @@ export class DailyNoteManager {
 			const allFiles = this.app.vault.getMarkdownFiles();
 			
 			for (const file of allFiles) {
-				// Check if file is in the daily notes folder
-				if (!file.path.startsWith(this.dailyNotesPath + '/')) continue;
-				
-				// Check if filename looks like a date
-				if (!this.isDateFilename(file.name)) continue;
+				// Check if the path inside the daily notes folder matches the date format
+				if (!this.isDailyNotePath(file.path)) continue;
 				
 				markdownFiles.push(file);
 			}
@@ -387,8 +539,82 @@ export class DailyNoteManager {
 		}
 	}
 
+	/**
+	 * デイリーノート以外のノートから同期対象のタスクを取得（ボルト全体の同期）
+	 * ファイル全体を解析し、タグ指定があればタグ付きのタスクのみ（タイトルからタグを除去）を返す
+	 * ノートの日付ではなくファイルパスで対応付けるため、startDateは設定しない
+	 */
+	async getVaultTasks(options: VaultSyncOptions): Promise<DailyNoteTask[]> {
+		try {
+			const tasks: DailyNoteTask[] = [];
+			const files = this.getVaultNoteFiles(options);
+
+			for (const file of files) {
+				try {
+					for (const task of await this.getDailyNoteTasks(file.path)) {
+						if (options.tag && !this.hasTag(task.title, options.tag)) continue;
+
+						tasks.push({
+							...task,
+							startDate: undefined,
+							title: options.tag ? this.removeTag(task.title, options.tag) : task.title,
+						});
+					}
+				} catch (error) {
+					this.logger.warn(`Failed to get tasks from ${file.path}`, { error });
+					// Continue processing other files
+				}
+			}
+
+			this.logger.debug('Retrieved vault tasks', {
+				fileCount: files.length,
+				taskCount: tasks.length
+			});
+
+			return tasks;
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'getVaultTasks',
+				timestamp: new Date().toISOString(),
+				details: { options, error },
+			};
+			this.logger.error('Failed to get vault tasks', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * include/excludeのglobに一致するノート（デイリーノートを除く）
+	 */
+	getVaultNoteFiles(options: VaultSyncOptions): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => {
+			if (this.isDailyNotePath(file.path)) return false;
+			if (options.include.length > 0 && !GlobMatcher.matchesAny(file.path, options.include)) return false;
+			return !GlobMatcher.matchesAny(file.path, options.exclude);
+		});
+	}
+
+	/**
+	 * ノートのパスから日付（YYYY-MM-DD）を取り出す
+	 * デイリーノートのフォルダからの相対パスを設定の日付フォーマットで解析する（フォーマットの「/」はフォルダの区切り）
+	 * フォルダ外のパスは末尾のフォーマットと同じ階層数で照合し、一致しなければ従来の日付形式のファイル名を認識する
+	 */
 	extractDateFromFilename(filePath: string): string | undefined {
-		const fileName = filePath.split('/').pop()?.replace('.md', '') || '';
+		const path = filePath.replace(/\.md$/, '');
+		const folderPrefix = this.dailyNotesPath ? `${this.dailyNotesPath}/` : '';
+		const segmentCount = this.dateFormat.split('/').length;
+		const relativePath = folderPrefix && path.startsWith(folderPrefix)
+			? path.slice(folderPrefix.length)
+			: path.split('/').slice(-segmentCount).join('/');
+
+		const date = DateFormat.parse(relativePath, this.dateFormat);
+		if (date) {
+			return date;
+		}
+
+		const fileName = path.split('/').pop() || '';
 		
 		// Try various date formats commonly used in daily notes
 		const dateFormats = [
@@ -410,9 +636,58 @@ export class DailyNoteManager {
 		return undefined;
 	}
 
-	private isDateFilename(filename: string): boolean {
-		const nameWithoutExtension = filename.replace('.md', '');
-		return this.extractDateFromFilename(nameWithoutExtension + '.md') !== undefined;
+	private hasTag(title: string, tag: string): boolean {
+		return this.buildTagPattern(tag).test(title);
+	}
+
+	private removeTag(title: string, tag: string): string {
+		return title.replace(this.buildTagPattern(tag), ' ').replace(/\s+/g, ' ').trim();
+	}
+
+	private buildTagPattern(tag: string): RegExp {
+		const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		return new RegExp(`(^|\\s)${escaped}(?=\\s|$)`, 'g');
+	}
+
+	/**
+	 * デイリーノートのフォルダ内で、相対パスが日付フォーマットに一致するノートか
+	 */
+	private isDailyNotePath(filePath: string): boolean {
+		if (!filePath.startsWith(this.dailyNotesPath + '/')) return false;
+		return this.extractDateFromFilename(filePath) !== undefined;
+	}
+
+	/**
+	 * 日付（YYYY-MM-DD）を含む期間のノートの日付（期間の初日）
+	 * 週はフォーマットがISO週なら月曜始まり、それ以外は日曜始まり
+	 */
+	getPeriodStart(date: string): string {
+		const localDate = DateFormat.toLocalDate(date);
+		if (this.notePeriod === 'daily' || !localDate) return date;
+		return DateFormat.format(this.startOfPeriod(localDate), 'YYYY-MM-DD');
+	}
+
+	private startOfPeriod(date: Date): Date {
+		switch (this.notePeriod) {
+			case 'weekly': return DateFormat.startOf(date, DateFormat.usesIsoWeek(this.dateFormat) ? 'isoWeek' : 'week');
+			case 'monthly': return DateFormat.startOf(date, 'month');
+			default: return date;
+		}
+	}
+
+	/**
+	 * YYYY-MM-DDはローカル日付として扱う（new DateはUTCとして解釈し、タイムゾーンによって前日になるため）
+	 */
+	private parseNoteDate(date: string): Date {
+		return DateFormat.toLocalDate(date) || new Date(date);
+	}
+
+	private async ensureParentFolder(filePath: string): Promise<void> {
+		const folderPath = filePath.split('/').slice(0, -1).join('/');
+		if (!folderPath || this.app.vault.getAbstractFileByPath(folderPath)) return;
+
+		await this.app.vault.createFolder(folderPath);
+		this.logger.debug('Created daily note folder', { folderPath });
 	}
 
 	private normalizeDateString(dateString: string): string {
@@ -440,8 +715,8 @@ export class DailyNoteManager {
 
 	getNotePath(date: string): string {
 		try {
-			// Convert date to filename format
-			const parsedDate = new Date(date);
+			// Convert the start of the period containing the date to filename format
+			const parsedDate = this.parseNoteDate(this.getPeriodStart(date));
 			// Check if the date is valid
 			if (isNaN(parsedDate.getTime())) {
 				throw new Error(`Invalid date: ${date}`);
@@ -478,7 +753,7 @@ export class DailyNoteManager {
 				throw new Error(`Line number ${lineNumber} is out of bounds`);
 			}
 
-			const currentLine = lines[lineNumber];
+			const { line: currentLine, blockId } = this.splitBlockId(lines[lineNumber]);
 			let updatedLine = currentLine;
 
 			if (completed) {
@@ -503,7 +778,7 @@ export class DailyNoteManager {
 				updatedLine = updatedLine.replace(/\s*\[completion::\s*\d{4}-\d{2}-\d{2}\]/, '');
 			}
 
-			lines[lineNumber] = updatedLine;
+			lines[lineNumber] = this.appendBlockId(updatedLine, blockId);
 			const newContent = lines.join('\n');
 
 			await this.app.vault.modify(file, newContent);
@@ -526,28 +801,540 @@ export class DailyNoteManager {
 		}
 	}
 
-	private async generateDailyNoteContent(): Promise<string> {
-		// If no template specified, use default content
-		if (!this.templatePath) {
-			return this.generateDefaultDailyNoteContent();
+	/**
+	 * タスク行の期日を更新（dueDate省略時は削除）
+	 * 既存のマーカー形式（📅 / [due:: ]）を維持し、なければ📅形式で追加する
+	 */
+	async updateTaskDueDate(filePath: string, lineNumber: number, dueDate?: string): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => this.replaceDueDate(line, dueDate));
+			this.logger.info('Task due date updated', { filePath, lineNumber, dueDate });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskDueDate',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, dueDate, error },
+			};
+			this.logger.error('Failed to update task due date', context);
+			throw error;
 		}
+	}
 
+	/**
+	 * タスク行の優先度を更新（normal / 省略時はマーカーを削除）
+	 * 既存のマーカー形式（絵文字 / [priority:: ]）を維持し、なければ絵文字形式で追加する
+	 */
+	async updateTaskImportance(filePath: string, lineNumber: number, importance?: TaskImportance): Promise<void> {
 		try {
-			const templateContent = await this.loadTemplate();
-			if (!templateContent) {
-				return this.generateDefaultDailyNoteContent();
+			await this.rewriteLine(filePath, lineNumber, line => this.replaceImportance(line, importance));
+			this.logger.info('Task importance updated', { filePath, lineNumber, importance });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskImportance',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, importance, error },
+			};
+			this.logger.error('Failed to update task importance', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスク行の繰り返しルール（🔁）を更新（recurrence省略時は削除）
+	 */
+	async updateTaskRecurrence(filePath: string, lineNumber: number, recurrence?: string): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => this.replaceRecurrence(line, recurrence));
+			this.logger.info('Task recurrence updated', { filePath, lineNumber, recurrence });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskRecurrence',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, recurrence, error },
+			};
+			this.logger.error('Failed to update task recurrence', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスク行のリマインダー（⏰ YYYY-MM-DD HH:mm）を更新（reminder省略時は削除）
+	 */
+	async updateTaskReminder(filePath: string, lineNumber: number, reminder?: string): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => this.replaceReminder(line, reminder));
+			this.logger.info('Task reminder updated', { filePath, lineNumber, reminder });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskReminder',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, reminder, error },
+			};
+			this.logger.error('Failed to update task reminder', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスクをキャンセル済み（- [-]）にする
+	 * 同期対象から外れるが、行の内容はノートに残る
+	 */
+	async cancelTask(filePath: string, lineNumber: number): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => {
+				if (!TASK_REGEX.test(line)) {
+					throw new Error(`No task found at line ${lineNumber}`);
+				}
+				return line.replace(/^(\s*)-\s*\[[ x]\]/, '$1- [-]');
+			});
+			this.logger.info('Task cancelled', { filePath, lineNumber });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'cancelTask',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, error },
+			};
+			this.logger.error('Failed to cancel task', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスク行をノートから削除する（子行のメモ・サブタスクも削除）
+	 */
+	async removeTaskLine(filePath: string, lineNumber: number): Promise<void> {
+		try {
+			await this.rewriteTaskBlock(filePath, lineNumber, () => [], true);
+			this.logger.info('Task line removed', { filePath, lineNumber });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'removeTaskLine',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, error },
+			};
+			this.logger.error('Failed to remove task line', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスクのメモ（子行）を置き換える（notes省略時はメモを削除）
+	 */
+	async updateTaskNotes(filePath: string, lineNumber: number, notes?: string): Promise<void> {
+		try {
+			await this.rewriteTaskBlock(filePath, lineNumber, taskLine => [
+				taskLine,
+				...this.formatNoteLines(getIndent(taskLine), notes),
+			]);
+			this.logger.info('Task notes updated', { filePath, lineNumber });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskNotes',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, error },
+			};
+			this.logger.error('Failed to update task notes', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスクの子行の末尾にサブタスク（タスクのインデント + タブ）を追加する
+	 */
+	async addSubtask(filePath: string, parentLineNumber: number, title: string, completed = false): Promise<void> {
+		try {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			if (!file || !(file instanceof TFile)) {
+				throw new Error(`File not found: ${filePath}`);
 			}
-			return this.processTemplate(templateContent);
+
+			const content = await this.app.vault.read(file);
+			const lines = content.split('\n');
+
+			if (parentLineNumber >= lines.length || !TASK_REGEX.test(lines[parentLineNumber])) {
+				throw new Error(`No task found at line ${parentLineNumber}`);
+			}
+
+			const indent = getIndent(lines[parentLineNumber]);
+			const insertionLine = this.findTaskBlockEnd(lines, parentLineNumber);
+			lines.splice(insertionLine, 0, `${indent}\t- [${completed ? 'x' : ' '}] ${title}`);
+
+			await this.app.vault.modify(file, lines.join('\n'));
+			this.logger.info('Subtask added', { filePath, parentLineNumber, title, lineNumber: insertionLine });
+
 		} catch (error) {
-			this.logger.error('Failed to load template, using default content', { 
-				templatePath: this.templatePath, 
-				error 
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'addSubtask',
+				timestamp: new Date().toISOString(),
+				details: { filePath, parentLineNumber, title, error },
+			};
+			this.logger.error('Failed to add subtask', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * ノートの最終更新日時（ミリ秒）を取得。ファイルがなければundefined
+	 */
+	getFileModifiedTime(filePath: string): number | undefined {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		return file instanceof TFile ? file.stat.mtime : undefined;
+	}
+
+	/**
+	 * タスク行のタイトルを置き換える（期日・優先度・タグなどのマーカーは維持）
+	 */
+	async updateTaskTitle(filePath: string, lineNumber: number, oldTitle: string, newTitle: string): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => {
+				if (!line.includes(oldTitle)) {
+					throw new Error(`Task title "${oldTitle}" not found at line ${lineNumber}`);
+				}
+				return line.replace(oldTitle, () => newTitle);
+			});
+			this.logger.info('Task title updated', { filePath, lineNumber, oldTitle, newTitle });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'updateTaskTitle',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, oldTitle, newTitle, error },
+			};
+			this.logger.error('Failed to update task title', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * タスク行の末尾に安定ID（ブロック参照）を付ける（既存のIDは置き換える）
+	 */
+	async setTaskBlockId(filePath: string, lineNumber: number, blockId: string): Promise<void> {
+		try {
+			await this.rewriteLine(filePath, lineNumber, line => {
+				if (!TASK_REGEX.test(line)) {
+					throw new Error(`No task found at line ${lineNumber}`);
+				}
+				return this.appendBlockId(line, blockId);
 			});
-			return this.generateDefaultDailyNoteContent();
+			this.logger.debug('Task block ID set', { filePath, lineNumber, blockId });
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'DailyNoteManager',
+				method: 'setTaskBlockId',
+				timestamp: new Date().toISOString(),
+				details: { filePath, lineNumber, blockId, error },
+			};
+			this.logger.error('Failed to set task block ID', context);
+			throw error;
+		}
+	}
+
+	/**
+	 * 行末のブロック参照を分離する。マーカーの追加・置換はブロック参照の前で行い、書き戻す時に付け直す
+	 */
+	private splitBlockId(line: string): { line: string; blockId?: string } {
+		const match = line.match(BLOCK_ID_REGEX);
+		if (!match || match.index === undefined) return { line };
+		return { line: line.slice(0, match.index), blockId: match[1] };
+	}
+
+	private appendBlockId(line: string, blockId?: string): string {
+		return blockId ? `${line} ^${blockId}` : line;
+	}
+
+	private async rewriteLine(filePath: string, lineNumber: number, update: (line: string) => string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!file || !(file instanceof TFile)) {
+			throw new Error(`File not found: ${filePath}`);
+		}
+
+		const content = await this.app.vault.read(file);
+		const lines = content.split('\n');
+
+		if (lineNumber >= lines.length) {
+			throw new Error(`Line number ${lineNumber} is out of bounds`);
+		}
+
+		const { line, blockId } = this.splitBlockId(lines[lineNumber]);
+		const updated = update(line);
+		// 更新でブロック参照が付いた場合（setTaskBlockId）はそれを優先する
+		lines[lineNumber] = BLOCK_ID_REGEX.test(updated) ? updated : this.appendBlockId(updated, blockId);
+		await this.app.vault.modify(file, lines.join('\n'));
+	}
+
+	/**
+	 * タスク行とその子行（メモ、includeSubtasksならサブタスクも）をupdateが返す行で置き換える
+	 */
+	private async rewriteTaskBlock(
+		filePath: string,
+		lineNumber: number,
+		update: (taskLine: string) => string[],
+		includeSubtasks = false
+	): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!file || !(file instanceof TFile)) {
+			throw new Error(`File not found: ${filePath}`);
+		}
+
+		const content = await this.app.vault.read(file);
+		const lines = content.split('\n');
+
+		if (lineNumber >= lines.length || !TASK_REGEX.test(lines[lineNumber])) {
+			throw new Error(`No task found at line ${lineNumber}`);
+		}
+
+		const end = includeSubtasks ? this.findTaskBlockEnd(lines, lineNumber) : this.findTaskNotes(lines, lineNumber).end;
+		lines.splice(lineNumber, end - lineNumber, ...update(lines[lineNumber]));
+		await this.app.vault.modify(file, lines.join('\n'));
+	}
+
+	/**
+	 * タスク行の直下にある、タスクより深くインデントされた行（またはブロック引用）をメモとして取得
+	 * 入れ子のタスク行が現れた時点で終了する。endはメモの最終行の次の行番号
+	 */
+	private findTaskNotes(lines: string[], taskIndex: number): { notes?: string; end: number } {
+		const taskIndent = getIndent(lines[taskIndex]).length;
+		const noteLines: string[] = [];
+		let end = taskIndex + 1;
+
+		for (let i = taskIndex + 1; i < lines.length; i++) {
+			const line = lines[i];
+			if (!line.trim()) {
+				noteLines.push('');
+				continue;
+			}
+			if (getIndent(line).length <= taskIndent || TASK_REGEX.test(line)) break;
+			noteLines.push(line);
+			end = i + 1;
+		}
+
+		// 末尾の空行はメモに含めない
+		noteLines.splice(end - taskIndex - 1);
+		if (noteLines.length === 0) return { end };
+
+		const baseIndent = Math.min(
+			...noteLines.filter(line => line).map(line => getIndent(line).length)
+		);
+		let contents = noteLines.map(line => line.slice(baseIndent));
+		if (contents.every(line => !line || line.startsWith('>'))) {
+			contents = contents.map(line => line.replace(/^>\s?/, ''));
+		}
+
+		const notes = contents.map(line => line.trimEnd()).join('\n').trim();
+		return { notes: notes || undefined, end };
+	}
+
+	/**
+	 * タスクより深くインデントされた子行（メモ・サブタスク）の終わり（最終行の次の行番号）を取得
+	 */
+	private findTaskBlockEnd(lines: string[], taskIndex: number): number {
+		const taskIndent = getIndent(lines[taskIndex]).length;
+		let end = taskIndex + 1;
+
+		for (let i = taskIndex + 1; i < lines.length; i++) {
+			if (!lines[i].trim()) continue;
+			if (getIndent(lines[i]).length <= taskIndent) break;
+			end = i + 1;
+		}
+		return end;
+	}
+
+	/**
+	 * メモをタスクの子行（タスクのインデント + タブ）に整形
+	 */
+	private formatNoteLines(taskIndent: string, notes?: string): string[] {
+		if (!notes) return [];
+		return notes.split('\n').map(line => line ? `${taskIndent}\t${line}` : '');
+	}
+
+	private replaceDueDate(line: string, dueDate?: string): string {
+		if (DUE_DATE_INLINE_REGEX.test(line)) {
+			return line.replace(DUE_DATE_INLINE_REGEX, dueDate ? ` [due:: ${dueDate}]` : '');
+		}
+		if (DUE_DATE_EMOJI_REGEX.test(line)) {
+			return line.replace(DUE_DATE_EMOJI_REGEX, dueDate ? ` 📅 ${dueDate}` : '');
+		}
+		if (!dueDate) return line;
+
+		// 完了日マーカーがあればその前に挿入
+		const completionMatch = line.match(/\s*✅\s*\d{4}-\d{2}-\d{2}\s*$/);
+		if (completionMatch && completionMatch.index !== undefined) {
+			return `${line.slice(0, completionMatch.index)} 📅 ${dueDate}${line.slice(completionMatch.index)}`;
 		}
+		return `${line} 📅 ${dueDate}`;
 	}
 
-	private async generateDailyNoteContentForDate(date: Date): Promise<string> {
+	private replaceImportance(line: string, importance?: TaskImportance): string {
+		const marker = importance === 'high' ? '⏫' : importance === 'low' ? '🔽' : undefined;
+
+		if (PRIORITY_INLINE_REGEX.test(line)) {
+			return line.replace(PRIORITY_INLINE_REGEX, marker ? ` [priority:: ${importance}]` : '');
+		}
+		if (PRIORITY_EMOJI_REGEX.test(line)) {
+			return line.replace(PRIORITY_EMOJI_REGEX, marker ? ` ${marker}` : '');
+		}
+		if (!marker) return line;
+
+		// Tasks pluginの順序に合わせて繰り返し・期日・完了日マーカーの前に挿入
+		const trailingMatch = line.match(/\s*(🔁|📅|\[due::|✅)/u);
+		if (trailingMatch && trailingMatch.index !== undefined) {
+			return `${line.slice(0, trailingMatch.index)} ${marker}${line.slice(trailingMatch.index)}`;
+		}
+		return `${line} ${marker}`;
+	}
+
+	private replaceRecurrence(line: string, recurrence?: string): string {
+		if (RECURRENCE_REGEX.test(line)) {
+			return line.replace(RECURRENCE_REGEX, recurrence ? ` 🔁 ${recurrence}` : '');
+		}
+		if (!recurrence) return line;
+
+		// Tasks pluginの順序に合わせて日付マーカーの前に挿入
+		const trailingMatch = line.match(/\s*(📅|⏳|🛫|\[due::|✅)/u);
+		if (trailingMatch && trailingMatch.index !== undefined) {
+			return `${line.slice(0, trailingMatch.index)} 🔁 ${recurrence}${line.slice(trailingMatch.index)}`;
+		}
+		return `${line} 🔁 ${recurrence}`;
+	}
+
+	private replaceReminder(line: string, reminder?: string): string {
+		if (REMINDER_REGEX.test(line)) {
+			return line.replace(REMINDER_REGEX, reminder ? ` ⏰ ${reminder}` : '');
+		}
+		if (!reminder) return line;
+
+		// 完了日マーカーがあればその前に挿入
+		const completionMatch = line.match(/\s*✅\s*\d{4}-\d{2}-\d{2}\s*$/);
+		if (completionMatch && completionMatch.index !== undefined) {
+			return `${line.slice(0, completionMatch.index)} ⏰ ${reminder}${line.slice(completionMatch.index)}`;
+		}
+		return `${line} ⏰ ${reminder}`;
+	}
+
+	private formatAttributeMarkers(attributes?: TaskAttributes): string {
+		let markers = '';
+		if (attributes?.importance === 'high') markers += ' ⏫';
+		if (attributes?.importance === 'low') markers += ' 🔽';
+		if (attributes?.recurrence) markers += ` 🔁 ${attributes.recurrence}`;
+		if (attributes?.dueDate) markers += ` 📅 ${attributes.dueDate}`;
+		if (attributes?.reminder) markers += ` ⏰ ${attributes.reminder}`;
+		return markers;
+	}
+
+	/**
+	 * タイトルから期日マーカーを取り除き、期日を返す
+	 */
+	private extractDueDate(title: string): { title: string; dueDate?: string } {
+		const match = title.match(DUE_DATE_EMOJI_REGEX) || title.match(DUE_DATE_INLINE_REGEX);
+		if (!match) return { title };
+
+		const cleaned = title
+			.replace(DUE_DATE_EMOJI_REGEX, '')
+			.replace(DUE_DATE_INLINE_REGEX, '')
+			.replace(/\s+/g, ' ')
+			.trim();
+		return { title: cleaned, dueDate: match[1] };
+	}
+
+	/**
+	 * タイトルから優先度マーカーを取り除き、Microsoft Todoの重要度に変換して返す
+	 * 🔺/⏫ は high、🔼 は normal、🔽/⏬ は low として扱う
+	 */
+	private extractImportance(title: string): { title: string; importance?: TaskImportance } {
+		const emojiMatch = title.match(PRIORITY_EMOJI_REGEX);
+		const inlineMatch = title.match(PRIORITY_INLINE_REGEX);
+		if (!emojiMatch && !inlineMatch) return { title };
+
+		const cleaned = title
+			.replace(PRIORITY_EMOJI_REGEX, '')
+			.replace(PRIORITY_INLINE_REGEX, '')
+			.replace(/\s+/g, ' ')
+			.trim();
+		const importance = emojiMatch
+			? PRIORITY_EMOJI_IMPORTANCE[emojiMatch[1]]
+			: inlineMatch && PRIORITY_INLINE_IMPORTANCE[inlineMatch[1].toLowerCase()];
+		return { title: cleaned, ...(importance ? { importance } : {}) };
+	}
+
+	/**
+	 * タイトルからリマインダーマーカー（⏰）を取り除き、「YYYY-MM-DD HH:mm」形式で返す
+	 * 時刻を省略したマーカーはREMINDER_DEFAULT_TIMEとして扱う
+	 */
+	private extractReminder(title: string): { title: string; reminder?: string } {
+		const match = title.match(REMINDER_REGEX);
+		if (!match) return { title };
+
+		const [, date, hours, minutes] = match;
+		const time = hours ? `${hours.padStart(2, '0')}:${minutes}` : REMINDER_DEFAULT_TIME;
+		const cleaned = title.replace(REMINDER_REGEX, '').replace(/\s+/g, ' ').trim();
+		return { title: cleaned, reminder: `${date} ${time}` };
+	}
+
+	/**
+	 * タイトルから繰り返しマーカー（🔁）を取り除き、正規化したルールを返す
+	 * Microsoft Todoで表現できないルール（when done など）はマーカーだけ取り除く
+	 */
+	private extractRecurrence(title: string): { title: string; recurrence?: string } {
+		const match = title.match(RECURRENCE_REGEX);
+		if (!match) return { title };
+
+		const cleaned = title.replace(RECURRENCE_REGEX, '').replace(/\s+/g, ' ').trim();
+		const recurrence = RecurrenceRule.normalize(match[1]);
+		return { title: cleaned, ...(recurrence ? { recurrence } : {}) };
+	}
+
+	/**
+	 * テンプレートからノートを作成し、Templaterのコマンド（<% %>）があればTemplaterで実行する
+	 */
+	private async createNoteFromTemplate(notePath: string, date: Date): Promise<void> {
+		const title = (notePath.split('/').pop() || notePath).replace(/\.md$/, '');
+		const content = await this.generateDailyNoteContentForDate(date, title);
+
+		await this.ensureParentFolder(notePath);
+		const file = await this.app.vault.create(notePath, content);
+		if (content.includes('<%')) {
+			await this.runTemplater(file);
+		}
+	}
+
+	/**
+	 * Templaterがインストールされていれば、手動で作成したノートと同じくTemplaterのAPIでコマンドを実行する
+	 * 新規ファイルでの自動実行（trigger_on_file_creation）が有効な場合はTemplater自身が処理するため呼び出さない
+	 */
+	private async runTemplater(file: TFile): Promise<void> {
+		if (!this.runsTemplater) return;
+
+		const templaterPlugin = (this.app as App & CommunityPluginRegistry).plugins?.getPlugin?.('templater-obsidian') as TemplaterPlugin | null | undefined;
+		if (!templaterPlugin?.templater?.overwrite_file_commands || templaterPlugin.settings?.trigger_on_file_creation) {
+			return;
+		}
+
+		try {
+			await templaterPlugin.templater.overwrite_file_commands(file);
+			this.logger.debug('Templater commands processed', { path: file.path });
+		} catch (error) {
+			this.logger.warn('Failed to process Templater commands', { path: file.path, error });
+		}
+	}
+
+	private async generateDailyNoteContentForDate(date: Date, title: string): Promise<string> {
 		// If no template specified, use default content
 		if (!this.templatePath) {
 			return this.generateDefaultDailyNoteContentForDate(date);
@@ -558,7 +1345,7 @@ export class DailyNoteManager {
 			if (!templateContent) {
 				return this.generateDefaultDailyNoteContentForDate(date);
 			}
-			return this.processTemplateForDate(templateContent, date);
+			return this.processTemplateForDate(templateContent, date, title);
 		} catch (error) {
 			this.logger.error('Failed to load template, using default content', { 
 				templatePath: this.templatePath, 
@@ -590,22 +1377,23 @@ export class DailyNoteManager {
 		}
 	}
 
-	private processTemplate(templateContent: string): string {
-		const today = new Date();
-		return this.processTemplateForDate(templateContent, today);
-	}
+	/**
+	 * Daily Notes・コアのテンプレートと同じ変数を展開する
+	 * {{date}} / {{time}}はノートの日付に現在の時刻を合わせた日時で、:FORMATで任意のフォーマット、+1dなどで加減算できる
+	 * {{title}}はノート名
+	 */
+	private processTemplateForDate(templateContent: string, date: Date, title: string): string {
+		const now = new Date();
+		const dateTime = new Date(date.getFullYear(), date.getMonth(), date.getDate(), now.getHours(), now.getMinutes(), now.getSeconds());
 
-	private processTemplateForDate(templateContent: string, date: Date): string {
 		// Replace common template variables
-		let processedContent = templateContent
-			.replace(/\{\{date\}\}/g, this.formatDate(date, this.dateFormat))
-			.replace(/\{\{date:YYYY-MM-DD\}\}/g, this.formatDate(date, 'YYYY-MM-DD'))
-			.replace(/\{\{date:DD-MM-YYYY\}\}/g, this.formatDate(date, 'DD-MM-YYYY'))
-			.replace(/\{\{date:MM-DD-YYYY\}\}/g, this.formatDate(date, 'MM-DD-YYYY'))
-			.replace(/\{\{date:YYYY\/MM\/DD\}\}/g, this.formatDate(date, 'YYYY/MM/DD'))
-			.replace(/\{\{title\}\}/g, `Daily Note - ${this.formatDate(date, 'MMMM Do, YYYY')}`)
-			.replace(/\{\{time\}\}/g, this.formatTime(date))
-			.replace(/\{\{timestamp\}\}/g, this.formatTimestamp(date));
+		const processedContent = templateContent
+			.replace(TEMPLATE_DATE_REGEX, (_, variable: string, offset: string | undefined, unit: DateUnit | undefined, format: string | undefined) => {
+				const value = offset && unit ? DateFormat.add(dateTime, Number(offset), unit) : dateTime;
+				return this.formatDate(value, format?.trim() || (variable === 'time' ? 'HH:mm' : this.dateFormat));
+			})
+			.replace(/\{\{\s*title\s*\}\}/g, title)
+			.replace(/\{\{timestamp\}\}/g, this.formatTimestamp(dateTime));
 
 		this.logger.debug('Template processed successfully', { 
 			originalLength: templateContent.length,
@@ -616,11 +1404,6 @@ export class DailyNoteManager {
 		return processedContent;
 	}
 
-	private generateDefaultDailyNoteContent(): string {
-		const today = new Date();
-		return this.generateDefaultDailyNoteContentForDate(today);
-	}
-
 	private generateDefaultDailyNoteContentForDate(date: Date): string {
 		const dateString = date.toLocaleDateString('en-US', {
 			weekday: 'long',
@@ -640,6 +1423,71 @@ export class DailyNoteManager {
 `;
 	}
 
+	/**
+	 * タスクセクション内のリスト名のサブ見出しの行を返す（なければセクションの末尾に作成）
+	 * サブ見出しのレベルは設定値とセクションの見出しより1つ下のレベルの深い方（最大6）
+	 */
+	private findOrInsertListSubheading(lines: string[], sectionLine: number, sectionHeader: string, listName: string): number {
+		const sectionLevel = this.getHeadingLevel(sectionHeader);
+		const level = Math.min(6, Math.max(this.taskPlacement.subheadingLevel, sectionLevel + 1));
+		const subheading = `${'#'.repeat(level)} ${listName}`;
+		const sectionEnd = this.findSectionEnd(lines, sectionLine, sectionLevel);
+
+		for (let i = sectionLine + 1; i < sectionEnd; i++) {
+			if (lines[i].trim() === subheading) return i;
+		}
+
+		// セクションの最後の空でない行の後に、空行を挟んで追加する
+		let insertionPoint = sectionEnd;
+		while (insertionPoint > sectionLine + 1 && lines[insertionPoint - 1].trim() === '') {
+			insertionPoint--;
+		}
+		if (insertionPoint > sectionLine + 1) {
+			lines.splice(insertionPoint++, 0, '');
+		}
+		lines.splice(insertionPoint, 0, subheading);
+		return insertionPoint;
+	}
+
+	/**
+	 * 見出しの直下のタスク（インデントされた子行を含む）の中で、新しいタスクを挿入する行を返す
+	 * 期日順・重要度順では、新しいタスクより後に並ぶ最初のタスクの前に挿入する（期日なしは最後）
+	 */
+	private findTaskInsertionLine(lines: string[], headingLine: number, attributes?: TaskAttributes): number {
+		// 既存のタスクの開始行と、子行を含めた終わりの行
+		const blocks: { start: number; end: number }[] = [];
+		for (let i = headingLine + 1; i < lines.length; i++) {
+			const line = lines[i].trim();
+			if (!line) continue;
+
+			// Skip indented child lines (notes) of the previous task
+			if (/^\s/.test(lines[i]) && blocks.length > 0) {
+				blocks[blocks.length - 1].end = i + 1;
+				continue;
+			}
+
+			// Stop if we hit a non-task line or another section header
+			if (!line.match(/^- \[[x ]\]/)) break;
+			blocks.push({ start: i, end: i + 1 });
+		}
+
+		if (blocks.length === 0) return headingLine + 1;
+
+		const { position } = this.taskPlacement;
+		if (position === 'top') return blocks[0].start;
+		if (position === 'bottom') return blocks[blocks.length - 1].end;
+
+		const sortKey = (dueDate?: string, importance?: TaskImportance): string => position === 'dueDate'
+			? dueDate || '9999-99-99'
+			: String(['high', 'normal', 'low'].indexOf(importance || 'normal'));
+		const newKey = sortKey(attributes?.dueDate, attributes?.importance);
+		const following = blocks.find(block => {
+			const line = lines[block.start];
+			return sortKey(this.extractDueDate(line).dueDate, this.extractImportance(line).importance) > newKey;
+		});
+		return following ? following.start : blocks[blocks.length - 1].end;
+	}
+
 	private findTodoSectionInsertionPoint(lines: string[]): number {
 		// Look for a good place to insert the Todo section
 		// Prefer to insert after the main heading but before other content
@@ -687,6 +1535,24 @@ export class DailyNoteManager {
 		return this.dateFormat;
 	}
 
+	setNotePeriod(period: NotePeriod): void {
+		this.notePeriod = period;
+		this.logger.debug('Note period updated', { period });
+	}
+
+	getNotePeriod(): NotePeriod {
+		return this.notePeriod;
+	}
+
+	/**
+	 * 追加するタスクの位置（先頭・末尾・期日順・重要度順）、リストごとのサブ見出し、
+	 * タスクセクションを作成する位置（アンカーの見出し）を設定
+	 */
+	setTaskPlacement(placement: TaskPlacement): void {
+		this.taskPlacement = placement;
+		this.logger.debug('Task placement updated', { placement });
+	}
+
 	setTemplatePath(path?: string): void {
 		this.templatePath = path;
 		this.logger.debug('Daily notes template path updated', { path: path || 'none' });
@@ -707,6 +1573,17 @@ export class DailyNoteManager {
 		});
 	}
 
+	/**
+	 * Vaultを差し替えたコピーを作成する（同期のプレビューで書き込みを実際のノートに反映しないため）
+	 * 設定は元のインスタンスを参照し続ける。dryRunではTemplaterを実行しない
+	 */
+	withVault(wrap: (vault: Vault) => Vault, dryRun = false): DailyNoteManager {
+		const copy = Object.create(this) as DailyNoteManager;
+		copy.app = Object.assign(Object.create(this.app), { vault: wrap(this.app.vault) });
+		copy.runsTemplater = !dryRun;
+		return copy;
+	}
+
 	private formatDate(date: Date, format: string): string {
 		// Validate date object
 		if (!date || isNaN(date.getTime())) {
@@ -717,33 +1594,7 @@ export class DailyNoteManager {
 			throw new Error('Invalid date object');
 		}
 
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, '0');
-		const day = String(date.getDate()).padStart(2, '0');
-
-		switch (format) {
-			case 'YYYY-MM-DD':
-				return `${year}-${month}-${day}`;
-			case 'DD-MM-YYYY':
-				return `${day}-${month}-${year}`;
-			case 'MM-DD-YYYY':
-				return `${month}-${day}-${year}`;
-			case 'YYYY/MM/DD':
-				return `${year}/${month}/${day}`;
-			case 'DD/MM/YYYY':
-				return `${day}/${month}/${year}`;
-			case 'MM/DD/YYYY':
-				return `${month}/${day}/${year}`;
-			case 'MMMM Do, YYYY':
-				return date.toLocaleDateString('en-US', {
-					year: 'numeric',
-					month: 'long',
-					day: 'numeric',
-				});
-			default:
-				// Fallback to ISO format
-				return `${year}-${month}-${day}`;
-		}
+		return DateFormat.format(date, format);
 	}
 
 	private formatTime(date: Date): string {
@@ -781,26 +1632,29 @@ export class DailyNoteManager {
 			if (line !== targetHeading) continue;
 			
 			// Found the section start
-			const currentLevel = (taskSectionHeading.match(/^#+/) || [''])[0].length;
-			let sectionEndIndex = lines.length;
-			
-			// Find the end of this section (next heading of same or higher level)
-			for (let j = i + 1; j < lines.length; j++) {
-				const nextLine = lines[j].trim();
-				const nextHeadingMatch = nextLine.match(/^(#+)\s/);
-				if (!nextHeadingMatch) continue;
-				if (nextHeadingMatch[1].length <= currentLevel) {
-					sectionEndIndex = j;
-					break;
-				}
-			}
-			
-			return { start: i, end: sectionEndIndex };
+			return { start: i, end: this.findSectionEnd(lines, i, this.getHeadingLevel(taskSectionHeading)) };
 		}
 		
 		return null;
 	}
 
+	/**
+	 * 見出しの次の行から、同じかそれより上のレベルの次の見出しまでをセクションとして、その終わりの行を返す
+	 */
+	private findSectionEnd(lines: string[], start: number, level: number): number {
+		for (let j = start + 1; j < lines.length; j++) {
+			const nextHeadingMatch = lines[j].trim().match(/^(#+)\s/);
+			if (nextHeadingMatch && nextHeadingMatch[1].length <= level) {
+				return j;
+			}
+		}
+		return lines.length;
+	}
+
+	private getHeadingLevel(heading: string): number {
+		return (heading.trim().match(/^#+/) || [''])[0].length;
+	}
+
 	/**
 	 * デイリーノートフォルダ内のすべてのファイルを取得
 	 * 内部同期で使用するため
@@ -0,0 +1,62 @@
+// Sync History Store for past sync runs
+// Keeps a rolling history of sync results and the changes each run made in plugin data
+
+import { Plugin } from 'obsidian';
+import { SimpleLogger } from '../utils/SimpleLogger';
+import { SyncHistoryEntry } from '../types';
+import { SYNC_HISTORY_DATA_KEY, SYNC_HISTORY_LIMIT } from '../constants';
+
+export class SyncHistoryStore {
+	// 新しい実行が先頭
+	private entries: SyncHistoryEntry[] = [];
+	private plugin: Plugin;
+	private logger: SimpleLogger;
+
+	constructor(plugin: Plugin, logger: SimpleLogger) {
+		this.plugin = plugin;
+		this.logger = logger;
+
+		this.loadHistory().catch(error => {
+			this.logger.error('Failed to initialize sync history', error);
+		});
+	}
+
+	getEntries(): SyncHistoryEntry[] {
+		return [...this.entries];
+	}
+
+	/**
+	 * 実行を履歴の先頭に追加し、上限（SYNC_HISTORY_LIMIT件）を超えた古い実行を削除
+	 */
+	async addEntry(entry: SyncHistoryEntry): Promise<void> {
+		this.entries = [entry, ...this.entries].slice(0, SYNC_HISTORY_LIMIT);
+		await this.saveHistory();
+		this.logger.debug('Sync history entry added', {
+			trigger: entry.trigger,
+			actions: entry.actions.length,
+			count: this.entries.length,
+		});
+	}
+
+	private async loadHistory(): Promise<void> {
+		try {
+			const data = await this.plugin.loadData();
+			if (data && Array.isArray(data[SYNC_HISTORY_DATA_KEY])) {
+				this.entries = data[SYNC_HISTORY_DATA_KEY];
+				this.logger.debug('Loaded sync history', { count: this.entries.length });
+			}
+		} catch (error) {
+			this.logger.error('Failed to load sync history', error);
+		}
+	}
+
+	private async saveHistory(): Promise<void> {
+		try {
+			const data = await this.plugin.loadData() || {};
+			data[SYNC_HISTORY_DATA_KEY] = this.entries;
+			await this.plugin.saveData(data);
+		} catch (error) {
+			this.logger.error('Failed to save sync history', error);
+		}
+	}
+}
@@ -0,0 +1,579 @@
+// Sync recording for TodoSynchronizer
+// Records the writes a full sync makes: a dry run records them without making them so the plan can be reviewed and replayed,
+// a live run makes them and keeps the record for the sync history
+
+import { TFile, Vault } from 'obsidian';
+import { TodoApiClient } from '../api/TodoApiClient';
+import { DailyNoteManager } from './DailyNoteManager';
+import { TaskMetadataStore } from './TaskMetadataStore';
+import { SyncOperationKind, SyncOperation, SyncPlan, SyncResult, TodoTask, BatchItemResult } from '../types';
+
+type WriteTarget = SyncOperation['target'];
+type Location = Pick<SyncOperation, 'filePath' | 'lineNumber'>;
+
+// Names of the methods of T, so a renamed or removed method fails to compile instead of silently going unrecorded
+type MethodName<T> = { [K in keyof T]: T[K] extends (...args: never[]) => unknown ? K : never }[keyof T] & string;
+type MethodArgs<T, K extends keyof T> = T[K] extends (...args: infer A) => unknown ? A : never;
+
+// Methods that change Microsoft To Do, the notes or the metadata; all other calls are reads and pass through
+const WRITE_METHODS: {
+	microsoft: MethodName<TodoApiClient>[];
+	obsidian: MethodName<DailyNoteManager>[];
+	metadata: MethodName<TaskMetadataStore>[];
+} = {
+	microsoft: [
+		'createTask', 'createTaskWithStartDate', 'completeTask', 'reopenTask', 'updateTaskTitle',
+		'updateTaskDueDate', 'updateTaskImportance', 'updateTaskRecurrence', 'updateTaskReminder', 'updateTaskNotes',
+		'updateTaskStartDate', 'deleteTask', 'moveTaskToList', 'getOrCreateTaskList', 'createChecklistItem', 'updateChecklistItem',
+	],
+	obsidian: [
+		'ensureTodayNoteExists', 'createDailyNote', 'findOrCreateTodoSection', 'addTaskToTodoSection', 'updateTaskCompletion',
+		'updateTaskTitle', 'updateTaskDueDate', 'updateTaskImportance', 'updateTaskRecurrence', 'updateTaskReminder',
+		'updateTaskNotes', 'addSubtask', 'setTaskBlockId', 'cancelTask', 'removeTaskLine', 'carryOverTasks',
+	],
+	metadata: [
+		'setMetadata', 'updateMetadataByMsftId', 'removeMetadataByMsftId', 'removeMetadata', 'updateTitle',
+		'cleanupOldMetadata', 'setDeltaState', 'clearDeltaState', 'setLastCarryOverDate',
+	],
+};
+
+const CREATE_METHODS = ['createTask', 'createTaskWithStartDate', 'ensureTodayNoteExists', 'createDailyNote', 'addTaskToTodoSection'];
+const COMPLETION_METHODS = ['completeTask', 'reopenTask', 'updateTaskCompletion'];
+const DELETION_METHODS = ['deleteTask', 'moveTaskToList', 'getOrCreateTaskList', 'cancelTask', 'removeTaskLine'];
+const METADATA_REMOVAL_METHODS = ['removeMetadataByMsftId', 'removeMetadata', 'cleanupOldMetadata'];
+
+type BatchMethodName = 'createTasks' | 'updateTaskTitles' | 'completeTasks' | 'deleteTasks';
+type BatchItem<K extends BatchMethodName> = MethodArgs<TodoApiClient, K>[1] extends (infer I)[] ? I : never;
+
+// Single-write method a batch item is recorded (and replayed) as, with the arguments built from the item
+type RecordedBatch<K extends BatchMethodName> = {
+	[M in MethodName<TodoApiClient>]: {
+		method: M;
+		toArgs: (listId: string, item: BatchItem<K>) => MethodArgs<TodoApiClient, M>;
+	};
+}[MethodName<TodoApiClient>];
+
+// Methods that send many writes in one $batch, and the single-write method each item is recorded (and replayed) as
+const BATCH_METHODS: { [K in BatchMethodName]: RecordedBatch<K> } = {
+	createTasks: {
+		method: 'createTaskWithStartDate',
+		toArgs: (listId, task) => [listId, task.title, task.startDate, task.attributes],
+	},
+	updateTaskTitles: {
+		method: 'updateTaskTitle',
+		toArgs: (listId, update) => [listId, update.taskId, update.title],
+	},
+	completeTasks: { method: 'completeTask', toArgs: (listId, taskId) => [listId, taskId] },
+	deleteTasks: { method: 'deleteTask', toArgs: (listId, taskId) => [listId, taskId] },
+};
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+	updateTaskDueDate: 'due date',
+	updateTaskImportance: 'importance',
+	updateTaskRecurrence: 'repeat',
+	updateTaskReminder: 'reminder',
+	updateTaskNotes: 'notes',
+	updateTaskStartDate: 'start date',
+};
+
+// IDs returned in place of objects Microsoft To Do would create; replaced by the real IDs when the plan is applied
+const PLACEHOLDER_PREFIX = 'planned-';
+
+function isWriteMethod(target: WriteTarget, method: string): boolean {
+	return (WRITE_METHODS[target] as string[]).includes(method);
+}
+
+function isMethodOf<T extends object>(table: T, method: string): method is keyof T & string {
+	return Object.prototype.hasOwnProperty.call(table, method);
+}
+
+/**
+ * 書き込みを数えるVault
+ * ドライランでは書き込みをメモリ上に留め、書き込んだファイルはその内容を、それ以外は実際のVaultの内容を読む
+ */
+class RecordingVault {
+	writes = 0;
+	// 書き込んだノートとプレビュー時点の更新日時（プレビューで作成するノートはnull）
+	readonly modifiedTimes: Record<string, number | null> = {};
+	private vault: Vault;
+	private dryRun: boolean;
+	private contents = new Map<string, string>();
+	private createdFiles = new Map<string, TFile>();
+
+	constructor(vault: Vault, dryRun: boolean) {
+		this.vault = vault;
+		this.dryRun = dryRun;
+	}
+
+	getAbstractFileByPath(path: string) {
+		return this.createdFiles.get(path) || this.vault.getAbstractFileByPath(path);
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return [...this.vault.getMarkdownFiles(), ...this.createdFiles.values()];
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.contents.get(file.path) ?? this.vault.read(file);
+	}
+
+	async modify(file: TFile, content: string): Promise<void> {
+		this.recordWrite(file.path, file.stat?.mtime ?? null);
+		if (!this.dryRun) {
+			return this.vault.modify(file, content);
+		}
+		this.contents.set(file.path, content);
+	}
+
+	async create(path: string, content: string): Promise<TFile> {
+		this.recordWrite(path, null);
+		if (!this.dryRun) {
+			return this.vault.create(path, content);
+		}
+		const name = path.split('/').pop() || path;
+		const now = Date.now();
+		const file = Object.assign(Object.create(TFile.prototype), {
+			path,
+			name,
+			basename: name.replace(/\.md$/, ''),
+			extension: 'md',
+			stat: { ctime: now, mtime: now, size: content.length },
+		}) as TFile;
+		this.createdFiles.set(path, file);
+		this.contents.set(path, content);
+		return file;
+	}
+
+	// 日付フォーマットがフォルダを含む場合のノートの親フォルダ（ドライランでは作成しない）
+	async createFolder(path: string): Promise<void> {
+		if (!this.dryRun) {
+			await this.vault.createFolder(path);
+		}
+	}
+
+	private recordWrite(path: string, modifiedTime: number | null): void {
+		this.writes++;
+		if (!(path in this.modifiedTimes)) {
+			this.modifiedTimes[path] = modifiedTime;
+		}
+	}
+}
+
+export class SyncRecorder {
+	readonly apiClient: TodoApiClient;
+	readonly dailyNoteManager: DailyNoteManager;
+	readonly metadataStore: TaskMetadataStore;
+	private dryRun: boolean;
+	private vault: RecordingVault;
+	// 記録の説明と場所の特定に使う、ラップしていないノートとメタデータ
+	private notes: DailyNoteManager;
+	private store: TaskMetadataStore;
+	private operations: SyncOperation[] = [];
+	private msftTitles = new Map<string, string>();
+	private nextKind?: SyncOperationKind;
+	private placeholderCount = 0;
+	private noteWriteDepth = 0;
+
+	/**
+	 * dryRunがtrueなら書き込みを記録するだけで反映せず、falseなら反映したうえで記録する
+	 */
+	constructor(apiClient: TodoApiClient, dailyNoteManager: DailyNoteManager, metadataStore: TaskMetadataStore, dryRun: boolean) {
+		this.dryRun = dryRun;
+		this.notes = dailyNoteManager.withVault(vault => {
+			this.vault = new RecordingVault(vault, dryRun);
+			return this.vault as unknown as Vault;
+		}, dryRun);
+		this.store = dryRun ? metadataStore.createScratchCopy() : metadataStore;
+		this.apiClient = this.wrapApiClient(apiClient);
+		this.dailyNoteManager = this.wrapDailyNoteManager(this.notes);
+		this.metadataStore = this.wrapMetadataStore(this.store);
+	}
+
+	/**
+	 * 次に記録する書き込みの種類を指定する（タイトルのクリーンアップなど、メソッドだけでは判別できない場合）
+	 */
+	labelNextWrite(kind: SyncOperationKind): void {
+		this.nextKind = kind;
+	}
+
+	getOperations(): SyncOperation[] {
+		return [...this.operations];
+	}
+
+	createPlan(result: SyncResult): SyncPlan {
+		return {
+			operations: [...this.operations],
+			result,
+			noteModifiedTimes: { ...this.vault.modifiedTimes },
+		};
+	}
+
+	/**
+	 * 計画の仮のIDを、適用時に作成された実際のIDに置き換える
+	 */
+	static resolvePlaceholders(value: unknown, ids: Map<string, string>): unknown {
+		if (typeof value === 'string') {
+			return ids.get(value) ?? value;
+		}
+		if (Array.isArray(value)) {
+			return value.map(item => SyncRecorder.resolvePlaceholders(item, ids));
+		}
+		if (value && typeof value === 'object') {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [key, SyncRecorder.resolvePlaceholders(item, ids)])
+			);
+		}
+		return value;
+	}
+
+	/**
+	 * 仮の結果と適用時の実際の結果から、仮のIDと実際のIDの対応を記録する
+	 */
+	static mapPlaceholders(planned: unknown, actual: unknown, ids: Map<string, string>): void {
+		const plannedId = typeof planned === 'string' ? planned : (planned as { id?: string } | undefined)?.id;
+		const actualId = typeof actual === 'string' ? actual : (actual as { id?: string } | undefined)?.id;
+		if (plannedId?.startsWith(PLACEHOLDER_PREFIX) && actualId) {
+			ids.set(plannedId, actualId);
+		}
+	}
+
+	private wrapApiClient(apiClient: TodoApiClient): TodoApiClient {
+		return new Proxy(apiClient, {
+			get: (target, property, receiver) => {
+				const value = Reflect.get(target, property, receiver);
+				if (typeof value !== 'function') return value;
+
+				const method = String(property);
+				if (isMethodOf(BATCH_METHODS, method)) {
+					return this.wrapBatchMethod(method, (listId, items) => value.call(target, listId, items));
+				}
+				if (isWriteMethod('microsoft', method)) {
+					return async (...args: unknown[]) => this.dryRun
+						? this.planMsftWrite(method, args)
+						: this.performMsftWrite(method, args, () => value.apply(target, args));
+				}
+				// 読み込んだタスクのタイトルを書き込みの説明のために控える
+				return (...args: unknown[]) => {
+					const result = value.apply(target, args);
+					return result instanceof Promise ? result.then(resolved => this.rememberTitles(resolved)) : result;
+				};
+			},
+		});
+	}
+
+	private wrapDailyNoteManager(dailyNoteManager: DailyNoteManager): DailyNoteManager {
+		return new Proxy(dailyNoteManager, {
+			get: (target, property, receiver) => {
+				const value = Reflect.get(target, property, receiver);
+				const method = String(property);
+				if (typeof value !== 'function' || !isWriteMethod('obsidian', method)) return value;
+
+				return async (...args: unknown[]) => {
+					// 書き込みメソッドの中で呼ばれた書き込みは、外側の呼び出しとしてまとめて記録する
+					if (this.noteWriteDepth > 0) return value.apply(receiver, args);
+
+					const description = await this.describeNoteWrite(receiver, method, args);
+					const writes = this.vault.writes;
+					this.noteWriteDepth++;
+					try {
+						const result = await value.apply(receiver, args);
+						if (this.vault.writes > writes) {
+							this.record('obsidian', method, args, description, result, this.locateNoteWrite(receiver, method, args, result));
+						}
+						return result;
+					} finally {
+						this.noteWriteDepth--;
+					}
+				};
+			},
+		});
+	}
+
+	private wrapMetadataStore(metadataStore: TaskMetadataStore): TaskMetadataStore {
+		return new Proxy(metadataStore, {
+			get: (target, property, receiver) => {
+				const value = Reflect.get(target, property, receiver);
+				const method = String(property);
+				if (typeof value !== 'function' || !isWriteMethod('metadata', method)) return value;
+
+				return async (...args: unknown[]) => {
+					const countBefore = target.getAllMetadata().length;
+					const description = this.describeMetadataWrite(target, method, args);
+					const location = this.locateMetadataWrite(target, method, args);
+					const result = await value.apply(target, args);
+					const removed = countBefore - target.getAllMetadata().length;
+					if (method !== 'cleanupOldMetadata') {
+						this.record('metadata', method, args, description, undefined, location);
+					} else if (removed > 0) {
+						this.record('metadata', method, args, `Forget ${removed} links not synced for 90 days`);
+					}
+					return result;
+				};
+			},
+		});
+	}
+
+	private planMsftWrite(method: string, args: unknown[]): unknown {
+		const description = this.describeMsftWrite(method, args);
+		const result = this.createPlaceholderResult(method, args);
+		this.record('microsoft', method, args, description, result, this.locateMsftWrite(method, args));
+		return result;
+	}
+
+	private async performMsftWrite(method: string, args: unknown[], write: () => Promise<unknown>): Promise<unknown> {
+		const description = this.describeMsftWrite(method, args);
+		const location = this.locateMsftWrite(method, args);
+		try {
+			const result = await write();
+			this.record('microsoft', method, args, description, result, location);
+			return result;
+		} catch (error) {
+			// 失敗した書き込みは記録せず、指定された種類も次の書き込みに持ち越さない
+			this.nextKind = undefined;
+			throw error;
+		}
+	}
+
+	private wrapBatchMethod<K extends BatchMethodName>(
+		method: K,
+		write: (listId: string, items: BatchItem<K>[]) => Promise<BatchItemResult<unknown>[]>
+	): (listId: string, items: BatchItem<K>[]) => Promise<BatchItemResult<unknown>[]> {
+		const batch: RecordedBatch<K> = BATCH_METHODS[method];
+		return async (listId, items) => this.recordBatchWrite(batch, listId, items, () => write(listId, items));
+	}
+
+	/**
+	 * $batchの書き込みを1件ずつの書き込みとして記録する
+	 * ドライランでは1件ずつ仮の結果を返し、実際の同期では成功した書き込みのみ記録する
+	 */
+	private async recordBatchWrite<K extends BatchMethodName>(
+		batch: RecordedBatch<K>,
+		listId: string,
+		items: BatchItem<K>[],
+		write: () => Promise<BatchItemResult<unknown>[]>
+	): Promise<BatchItemResult<unknown>[]> {
+		// 指定された種類はバッチのすべての書き込みに適用する
+		const kind = this.nextKind;
+		const calls = items.map(item => batch.toArgs(listId, item));
+
+		if (this.dryRun) {
+			const results = calls.map(args => {
+				this.nextKind = kind;
+				return { value: this.planMsftWrite(batch.method, args) };
+			});
+			this.nextKind = undefined;
+			return results;
+		}
+
+		// 説明と場所は書き込み前のメタデータから作る
+		const records = calls.map(args => ({
+			args,
+			description: this.describeMsftWrite(batch.method, args),
+			location: this.locateMsftWrite(batch.method, args),
+		}));
+		this.nextKind = undefined;
+		const results = await write();
+		results.forEach((result, index) => {
+			if (result.error) return;
+			this.nextKind = kind;
+			this.record('microsoft', batch.method, records[index].args, records[index].description, result.value, records[index].location);
+		});
+		return results;
+	}
+
+	/**
+	 * 作成系のメソッドが返す値の代わりに、仮のIDを持つ値を返す
+	 */
+	private createPlaceholderResult(method: string, args: unknown[]): unknown {
+		const id = () => `${PLACEHOLDER_PREFIX}${++this.placeholderCount}`;
+		switch (method) {
+			case 'createTask':
+			case 'createTaskWithStartDate':
+				return { id: id(), title: args[1], status: 'notStarted', createdDateTime: new Date().toISOString() };
+			case 'moveTaskToList':
+				return { ...(args[1] as TodoTask), id: id() };
+			case 'createChecklistItem':
+				return { id: id(), displayName: args[2], isChecked: args[3] === true };
+			case 'getOrCreateTaskList':
+				return id();
+			default:
+				return undefined;
+		}
+	}
+
+	private record(
+		target: WriteTarget,
+		method: string,
+		args: unknown[],
+		description: string,
+		result?: unknown,
+		location: Location = {}
+	): void {
+		const kind = this.nextKind ?? this.getKind(target, method);
+		this.nextKind = undefined;
+		this.operations.push({
+			kind,
+			target,
+			method,
+			// 後から変更されないよう、呼び出し時点の引数を複製して残す
+			args: SyncRecorder.resolvePlaceholders(args, new Map()) as unknown[],
+			description,
+			...(result !== undefined ? { result } : {}),
+			...location,
+		});
+	}
+
+	private getKind(target: WriteTarget, method: string): SyncOperationKind {
+		if (target === 'metadata') {
+			return METADATA_REMOVAL_METHODS.includes(method) ? 'metadataRemoval' : 'metadata';
+		}
+		if (CREATE_METHODS.includes(method)) return 'create';
+		if (COMPLETION_METHODS.includes(method)) return 'completion';
+		if (DELETION_METHODS.includes(method)) return 'deletion';
+		return 'update';
+	}
+
+	private rememberTitles<T>(value: T): T {
+		const tasks = Array.isArray(value) ? value : (value as { tasks?: unknown } | undefined)?.tasks;
+		if (Array.isArray(tasks)) {
+			for (const task of tasks as TodoTask[]) {
+				if (task?.id && typeof task.title === 'string') {
+					this.msftTitles.set(task.id, task.title);
+				}
+			}
+		}
+		return value;
+	}
+
+	private describeMsftWrite(method: string, args: unknown[]): string {
+		const task = `"${this.msftTitles.get(String(args[1])) ?? args[1]}"`;
+		switch (method) {
+			case 'createTask':
+			case 'createTaskWithStartDate':
+				return `Create "${args[1]}" in Microsoft To Do`;
+			case 'completeTask':
+				return `Complete ${task} in Microsoft To Do`;
+			case 'reopenTask':
+				return `Reopen ${task} in Microsoft To Do`;
+			case 'updateTaskTitle':
+				return `Rename ${task} to "${args[2]}" in Microsoft To Do`;
+			case 'deleteTask':
+				return `Delete ${task} from Microsoft To Do`;
+			case 'moveTaskToList':
+				return `Move "${(args[1] as TodoTask).title}" to the deleted tasks list in Microsoft To Do`;
+			case 'getOrCreateTaskList':
+				return `Create the list "${args[0]}" in Microsoft To Do if it does not exist`;
+			case 'createChecklistItem':
+				return `Add the step "${args[2]}" to ${task} in Microsoft To Do`;
+			case 'updateChecklistItem':
+				return `${args[3] ? 'Check' : 'Uncheck'} a step of ${task} in Microsoft To Do`;
+			default:
+				return `Update the ${ATTRIBUTE_LABELS[method]} of ${task} in Microsoft To Do`;
+		}
+	}
+
+	private async describeNoteWrite(notes: DailyNoteManager, method: string, args: unknown[]): Promise<string> {
+		const filePath = String(args[0]);
+		switch (method) {
+			case 'ensureTodayNoteExists':
+				return `Create today's daily note ${notes.getTodayNotePath()}`;
+			case 'createDailyNote':
+				return `Create the daily note ${notes.getNotePath(filePath)}`;
+			case 'findOrCreateTodoSection':
+				return `Add the section "${args[1]}" to ${filePath}`;
+			case 'addTaskToTodoSection':
+				return `Add "${args[1]}" to ${filePath}`;
+			case 'carryOverTasks': {
+				const count = (args[1] as number[]).length;
+				return `${args[5] ? 'Copy' : 'Move'} ${count} unfinished ${count === 1 ? 'task' : 'tasks'} from ${filePath} to ${args[2]}`;
+			}
+		}
+
+		const task = `"${await this.readTaskLine(filePath, Number(args[1]))}"`;
+		switch (method) {
+			case 'updateTaskCompletion':
+				return `${args[2] ? 'Complete' : 'Reopen'} ${task} in ${filePath}`;
+			case 'updateTaskTitle':
+				return `Rename ${task} to "${args[3]}" in ${filePath}`;
+			case 'addSubtask':
+				return `Add the step "${args[2]}" to ${task} in ${filePath}`;
+			case 'setTaskBlockId':
+				return `Add the ID ^${args[2]} to ${task} in ${filePath}`;
+			case 'cancelTask':
+				return `Cancel ${task} in ${filePath}`;
+			case 'removeTaskLine':
+				return `Remove ${task} from ${filePath}`;
+			default:
+				return `Update the ${ATTRIBUTE_LABELS[method]} of ${task} in ${filePath}`;
+		}
+	}
+
+	private describeMetadataWrite(store: TaskMetadataStore, method: string, args: unknown[]): string {
+		switch (method) {
+			case 'removeMetadataByMsftId': {
+				const metadata = store.findByMsftTaskId(String(args[0]));
+				return `Forget the link of "${metadata?.title ?? args[0]}" (${metadata?.date ?? 'unknown note'})`;
+			}
+			case 'removeMetadata':
+				return `Forget the link of "${args[1]}" (${args[0]})`;
+			default:
+				return `Update sync metadata (${method})`;
+		}
+	}
+
+	/**
+	 * Microsoft To Doのタスクに対応するノート（メタデータ、または作成時の開始日から特定）
+	 */
+	private locateMsftWrite(method: string, args: unknown[]): Location {
+		if (method === 'createTask' || method === 'createTaskWithStartDate') {
+			return typeof args[2] === 'string' ? { filePath: this.notes.getNotePath(args[2]) } : {};
+		}
+		return this.locateMetadata(this.store.findByMsftTaskId(String(args[1]))?.date);
+	}
+
+	private locateNoteWrite(notes: DailyNoteManager, method: string, args: unknown[], result: unknown): Location {
+		switch (method) {
+			case 'ensureTodayNoteExists':
+				return { filePath: String(result) };
+			case 'createDailyNote':
+				return { filePath: notes.getNotePath(String(args[0])) };
+			case 'findOrCreateTodoSection':
+			case 'addTaskToTodoSection':
+				return { filePath: String(args[0]), ...(typeof result === 'number' ? { lineNumber: result } : {}) };
+			case 'carryOverTasks':
+				return { filePath: String(args[2]) };
+			default:
+				return { filePath: String(args[0]), lineNumber: Number(args[1]) };
+		}
+	}
+
+	private locateMetadataWrite(store: TaskMetadataStore, method: string, args: unknown[]): Location {
+		switch (method) {
+			case 'removeMetadataByMsftId':
+			case 'updateMetadataByMsftId':
+				return this.locateMetadata(store.findByMsftTaskId(String(args[0]))?.date);
+			case 'setMetadata':
+			case 'removeMetadata':
+			case 'updateTitle':
+				return this.locateMetadata(String(args[0]));
+			default:
+				return {};
+		}
+	}
+
+	/**
+	 * メタデータのキー（デイリーノートは日付、ボルトのノートはファイルパス）からノートを特定
+	 */
+	private locateMetadata(date?: string): Location {
+		if (!date) return {};
+		return { filePath: date.endsWith('.md') ? date : this.notes.getNotePath(date) };
+	}
+
+	private async readTaskLine(filePath: string, lineNumber: number): Promise<string> {
+		const file = this.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) return `line ${lineNumber + 1}`;
+
+		const line = (await this.vault.read(file)).split('\n')[lineNumber] || '';
+		return line.replace(/^\s*- \[.\]\s*/, '').trim();
+	}
+}
@@ -1,16 +1,38 @@
 import { Plugin } from 'obsidian';
 import { SimpleLogger } from '../utils/simpleLogger';
+import { DeltaSyncState, TaskAttributes } from '../types';
+import { CARRY_OVER_DATA_KEY } from '../constants';
 
-export interface TaskMetadata {
+// TaskAttributes hold the attribute values as of the last sync
+export interface TaskMetadata extends TaskAttributes {
 	msftTaskId: string;
 	date: string;
 	title: string;
 	lastSynced: number;
+	listId?: string; // Microsoft To Do list the task belongs to (absent for legacy entries)
+	completed?: boolean; // Completion state both sides agreed on at the last sync
+	syncedTitle?: string; // Title both sides agreed on, kept while a local rename is not yet pushed
+	deletedFrom?: 'obsidian' | 'microsoft'; // Side the task was deleted on, while the deletion waits for its grace period
+	deletedAt?: number;
+	checklist?: ChecklistItemMetadata[]; // Steps paired with nested checkboxes at the last sync
+	blockId?: string; // Stable task ID written to the task line; entries with one are keyed by it instead of date::title
+}
+
+// Checklist item (step) paired with a nested checkbox, with the state both sides agreed on
+export interface ChecklistItemMetadata {
+	id: string;
+	title: string;
+	completed: boolean;
 }
 
 export class TaskMetadataStore {
 	private metadata: Map<string, TaskMetadata> = new Map();
 	private readonly storageKey = 'todo-integrator-task-metadata';
+	private deltaStates: Map<string, DeltaSyncState> = new Map();
+	private readonly deltaStorageKey = 'todo-integrator-delta-state';
+	// 未完了タスクを最後に今日のノートに移した日（ノートの日付）
+	private lastCarryOverDate?: string;
+	private readonly carryOverStorageKey = CARRY_OVER_DATA_KEY;
 	private plugin: Plugin;
 	private logger: SimpleLogger;
 
@@ -39,16 +61,24 @@ export class TaskMetadataStore {
 		return `${date}::${title}`;
 	}
 
+	/**
+	 * 安定IDを持つタスクはIDで、それ以外は日付とタイトルでキーを生成
+	 */
+	private getStorageKey(date: string, title: string, blockId?: string): string {
+		return blockId ? `^${blockId}` : this.generateKey(date, title);
+	}
+
 	/**
 	 * Store metadata for a task
 	 */
-	async setMetadata(date: string, title: string, msftTaskId: string): Promise<void> {
+	async setMetadata(date: string, title: string, msftTaskId: string, listId?: string): Promise<void> {
 		const key = this.generateKey(date, title);
 		this.logger.debug('setMetadata: Storing metadata', { 
 			key, 
 			date, 
 			title, 
 			msftTaskId,
+			listId,
 			metadataSizeBefore: this.metadata.size
 		});
 		
@@ -56,7 +86,8 @@ export class TaskMetadataStore {
 			msftTaskId,
 			date,
 			title,
-			lastSynced: Date.now()
+			lastSynced: Date.now(),
+			...(listId ? { listId } : {})
 		});
 		
 		this.logger.debug('setMetadata: Metadata set in memory', { 
@@ -76,6 +107,13 @@ export class TaskMetadataStore {
 		return metadata?.msftTaskId;
 	}
 
+	/**
+	 * 安定ID（ブロック参照）でメタデータを取得
+	 */
+	findByBlockId(blockId: string): TaskMetadata | undefined {
+		return this.metadata.get(this.getStorageKey('', '', blockId));
+	}
+
 	/**
 	 * Get all metadata for a specific date
 	 */
@@ -185,6 +223,16 @@ export class TaskMetadataStore {
 			} else {
 				this.logger.debug('No existing task metadata found, starting with empty metadata');
 			}
+
+			if (data && data[this.deltaStorageKey]) {
+				const deltaEntries = data[this.deltaStorageKey] as Array<[string, DeltaSyncState]>;
+				this.deltaStates = new Map(deltaEntries);
+				this.logger.debug('Loaded delta sync state', { listCount: this.deltaStates.size });
+			}
+
+			if (data && typeof data[this.carryOverStorageKey] === 'string') {
+				this.lastCarryOverDate = data[this.carryOverStorageKey];
+			}
 		} catch (error) {
 			this.logger.error('Failed to load task metadata', error);
 		}
@@ -213,6 +261,14 @@ export class TaskMetadataStore {
 			// Convert Map to array for storage
 			const metadataArray = Array.from(this.metadata.entries());
 			data[this.storageKey] = metadataArray;
+			if (this.deltaStates.size > 0) {
+				data[this.deltaStorageKey] = Array.from(this.deltaStates.entries());
+			} else {
+				delete data[this.deltaStorageKey];
+			}
+			if (this.lastCarryOverDate) {
+				data[this.carryOverStorageKey] = this.lastCarryOverDate;
+			}
 			
 			this.logger.debug('saveMetadata: Saving data', {
 				storageKey: this.storageKey,
@@ -234,11 +290,24 @@ export class TaskMetadataStore {
 		}
 	}
 
+	/**
+	 * 保存しないコピーを作成する（同期のプレビューでメタデータを変更せずに同期を試すため）
+	 */
+	createScratchCopy(): TaskMetadataStore {
+		const plugin = { loadData: async () => ({}), saveData: async () => undefined } as unknown as Plugin;
+		const copy = new TaskMetadataStore(plugin, this.logger);
+		copy.metadata = new Map(JSON.parse(JSON.stringify(Array.from(this.metadata.entries()))));
+		copy.deltaStates = new Map(JSON.parse(JSON.stringify(Array.from(this.deltaStates.entries()))));
+		copy.lastCarryOverDate = this.lastCarryOverDate;
+		return copy;
+	}
+
 	/**
 	 * Clear all metadata (for testing or reset)
 	 */
 	async clearAll(): Promise<void> {
 		this.metadata.clear();
+		this.deltaStates.clear();
 		await this.saveMetadata();
 		this.logger.info('All task metadata cleared');
 	}
@@ -338,9 +407,10 @@ export class TaskMetadataStore {
 				};
 				
 				// 新しいキーで保存
-				const newKey = this.generateKey(
+				const newKey = this.getStorageKey(
 					updates.date || metadata.date,
-					updates.title || metadata.title
+					updates.title || metadata.title,
+					updatedMetadata.blockId
 				);
 				this.metadata.set(newKey, updatedMetadata);
 				
@@ -351,4 +421,51 @@ export class TaskMetadataStore {
 		}
 		return false;
 	}
-}
\ No newline at end of file
+
+	/**
+	 * リストのデルタ同期状態（deltaLinkと前回取得したタスク）を取得
+	 */
+	getDeltaState(listId: string): DeltaSyncState | undefined {
+		return this.deltaStates.get(listId);
+	}
+
+	/**
+	 * リストのデルタ同期状態を保存
+	 * 次回の同期では変更されたタスクのみを取得する
+	 */
+	async setDeltaState(listId: string, state: DeltaSyncState): Promise<void> {
+		this.deltaStates.set(listId, state);
+		await this.saveMetadata();
+		this.logger.debug('Delta sync state stored', { listId, taskCount: state.tasks.length });
+	}
+
+	/**
+	 * デルタ同期状態を破棄（トークン期限切れ時など）
+	 * listIdを省略するとすべてのリストの状態を破棄する
+	 */
+	async clearDeltaState(listId?: string): Promise<void> {
+		if (listId) {
+			this.deltaStates.delete(listId);
+		} else {
+			this.deltaStates.clear();
+		}
+		await this.saveMetadata();
+		this.logger.debug('Delta sync state cleared', { listId: listId || 'all' });
+	}
+
+	/**
+	 * 未完了タスクを最後に今日のノートに移した日を取得
+	 */
+	getLastCarryOverDate(): string | undefined {
+		return this.lastCarryOverDate;
+	}
+
+	/**
+	 * 未完了タスクを今日のノートに移した日を保存（同じ日の2回目以降の同期では移さない）
+	 */
+	async setLastCarryOverDate(date: string): Promise<void> {
+		this.lastCarryOverDate = date;
+		await this.saveMetadata();
+		this.logger.debug('Last carry-over date stored', { date });
+	}
+}
@@ -4,7 +4,7 @@
 import { App, Plugin } from 'obsidian';
 import { TodoApiClient } from '../api/TodoApiClient';
 import { DailyNoteManager } from './DailyNoteManager';
-import { TaskMetadataStore, TaskMetadata } from './TaskMetadataStore';
+import { TaskMetadataStore, TaskMetadata, ChecklistItemMetadata } from './TaskMetadataStore';
 import { SimpleLogger } from '../utils/simpleLogger';
 import {
 	TodoTask,
@@ -13,15 +13,47 @@ import {
 	TaskPair,
 	Logger,
 	ErrorContext,
+	DeltaSyncState,
+	DeltaTaskState,
+	MsftTaskSnapshot,
+	TaskDeltaResult,
+	SyncListTarget,
+	TaskAttributes,
+	DeletionSyncMode,
+	ConflictResolution,
+	TaskConflict,
+	ChecklistItem,
+	VaultSyncOptions,
+	SyncPlan,
+	SyncOperation,
+	SyncTrigger,
+	SyncHistoryEntry,
+	CarryOverMode,
 } from '../types';
-import { ERROR_CODES } from '../constants';
+import { ERROR_CODES, DELETED_FROM_OBSIDIAN_LIST_NAME, BLOCK_ID_PREFIX, SYNC_HISTORY_MAX_ACTIONS } from '../constants';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { DateFormat } from '../utils/DateFormat';
+import { SyncRecorder } from './SyncRecorder';
+import { SyncHistoryStore } from './SyncHistoryStore';
 
 export class TodoSynchronizer {
 	private apiClient: TodoApiClient;
 	private dailyNoteManager: DailyNoteManager;
 	private metadataStore: TaskMetadataStore;
+	private historyStore: SyncHistoryStore;
 	private logger: Logger;
 	private taskSectionHeading?: string;
+	// 既定リストの名前（リストごとのサブ見出しに使う）
+	private defaultListName = 'default';
+	private additionalListTargets: SyncListTarget[] = [];
+	private deletionSync: DeletionSyncMode = 'off';
+	private deletionGracePeriodHours = 24;
+	private conflictResolution: ConflictResolution = 'obsidian';
+	private vaultSync: VaultSyncOptions | null = null;
+	private stableTaskIds = false;
+	private carryOver: CarryOverMode = 'off';
+	// 書き込みを記録しながら同期する間のみ設定（書き込みの種類の指定に使う）
+	private recorder: SyncRecorder | null = null;
 
 	constructor(
 		apiClient: TodoApiClient,
@@ -36,13 +68,74 @@ export class TodoSynchronizer {
 		this.taskSectionHeading = taskSectionHeading;
 		// Initialize metadata store with plugin instance
 		this.metadataStore = new TaskMetadataStore(plugin, logger as SimpleLogger);
+		this.historyStore = new SyncHistoryStore(plugin, logger as SimpleLogger);
 	}
 
 	setTaskSectionHeading(taskSectionHeading: string): void {
 		this.taskSectionHeading = taskSectionHeading;
 		this.logger.debug('Task section heading updated', { taskSectionHeading });
 	}
+
+	setDefaultListName(listName: string): void {
+		this.defaultListName = listName;
+		this.logger.debug('Default list name updated', { listName });
+	}
 	
+	/**
+	 * 既定リスト以外に同期するリストを設定
+	 * 既定リストと同名のターゲットは既定リストの見出し・タグとして扱う
+	 */
+	setListTargets(targets: SyncListTarget[]): void {
+		this.additionalListTargets = targets;
+		this.logger.debug('Sync list targets updated', {
+			lists: targets.map(target => target.listName),
+		});
+	}
+
+	/**
+	 * 削除の反映方法と猶予期間を設定
+	 * 猶予期間中は削除を保留し、restorePendingDeletionsで取り消せる
+	 */
+	setDeletionSync(mode: DeletionSyncMode, gracePeriodHours: number): void {
+		this.deletionSync = mode;
+		this.deletionGracePeriodHours = gracePeriodHours;
+		this.logger.debug('Deletion sync updated', { mode, gracePeriodHours });
+	}
+
+	/**
+	 * 両側で変更されたタスクの解決方針を設定
+	 */
+	setConflictResolution(policy: ConflictResolution): void {
+		this.conflictResolution = policy;
+		this.logger.debug('Conflict resolution updated', { policy });
+	}
+
+	/**
+	 * デイリーノート以外のノートも同期するボルト全体の同期を設定（nullで無効）
+	 * ボルトのタスクはノートの日付ではなくファイルパスでメタデータに対応付ける
+	 */
+	setVaultSync(options: VaultSyncOptions | null): void {
+		this.vaultSync = options;
+		this.logger.debug('Vault-wide sync updated', { options });
+	}
+
+	/**
+	 * 同期したタスク行にブロック参照（^mst-…）を付け、日付とタイトルの代わりにIDで対応付けるかを設定
+	 * 有効にすると次回の同期で既存のタスクにもIDを付ける（backfillBlockIds）
+	 */
+	setStableTaskIds(enabled: boolean): void {
+		this.stableTaskIds = enabled;
+		this.logger.debug('Stable task IDs updated', { enabled });
+	}
+
+	/**
+	 * その日の最初の同期で、過去のノートの同期済みの未完了タスクを今日のノートに移すかを設定
+	 */
+	setCarryOver(mode: CarryOverMode): void {
+		this.carryOver = mode;
+		this.logger.debug('Carry-over updated', { mode });
+	}
+
 	async forceSaveMetadata(): Promise<void> {
 		await this.metadataStore.forceSaveMetadata();
 	}
@@ -58,21 +151,84 @@ export class TodoSynchronizer {
 			// メタデータとデイリーノートの内部同期を実行
 			// タスクの削除や変更を検出してメタデータを更新
 			await this.reconcileMetadataWithDailyNotes();
+			if (this.stableTaskIds) {
+				await this.backfillBlockIds();
+			}
+
+			const msftToObsidian = { added: 0, errors: [] as string[] };
+			const obsidianToMsft = { added: 0, errors: [] as string[] };
+			const completions = { completed: 0, errors: [] as string[] };
+			const updates = { updated: 0, errors: [] as string[] };
+
+			// 持ち越しはタスクのノートの日付を変えるため、各リストの同期より前に行う
+			if (this.carryOver !== 'off') {
+				updates.errors.push(...await this.carryOverUnfinishedTasks());
+			}
+			const deletions = { deleted: 0, errors: [] as string[] };
+			const conflicts: TaskConflict[] = [];
+
+			for (const target of this.getListTargets()) {
+				// Fetch Microsoft tasks once via delta query; each phase falls back
+				// to its own full fetch when no snapshot is available
+				const snapshot = await this.fetchMsftTaskSnapshot(target.listId);
+				if (snapshot) {
+					await this.removeMetadataForDeletedTasks(snapshot.removedIds);
+				}
 
-			// Perform sync operations in sequence
-			const msftToObsidian = await this.syncMsftToObsidian();
-			const obsidianToMsft = await this.syncObsidianToMsft();
-			const completions = await this.syncCompletions();
+				// Perform sync operations in sequence
+				const listMsftToObsidian = await this.syncMsftToObsidian(snapshot || undefined, target);
+				const listObsidianToMsft = await this.syncObsidianToMsft(snapshot || undefined, target);
+				const listCompletions = await this.syncCompletions(snapshot || undefined, target);
+				const listUpdates = await this.syncTaskUpdates(snapshot || undefined, target);
+				const listChecklists = await this.syncChecklistItems(snapshot || undefined, target);
+				// 削除は最後に反映する（先に反映すると前のフェーズが削除したタスクを新規として扱うため）
+				const listDeletions = await this.syncDeletions(snapshot || undefined, target);
+
+				// deltaLinkはリストの全フェーズが成功した場合のみ保存する
+				// 失敗した場合は前回のdeltaLinkを残し、次回の同期で同じ変更を再取得して処理し直す
+				const listResults = [listMsftToObsidian, listObsidianToMsft, listCompletions, listUpdates, listChecklists, listDeletions];
+				if (snapshot) {
+					if (listResults.every(listResult => listResult.errors.length === 0)) {
+						await this.saveDeltaState(target.listId, snapshot);
+					} else {
+						this.logger.warn('Keeping previous delta link because some sync phases failed', { list: target.listName });
+					}
+				}
+
+				msftToObsidian.added += listMsftToObsidian.added;
+				msftToObsidian.errors.push(...listMsftToObsidian.errors);
+				obsidianToMsft.added += listObsidianToMsft.added;
+				obsidianToMsft.errors.push(...listObsidianToMsft.errors);
+				completions.completed += listCompletions.completed;
+				completions.errors.push(...listCompletions.errors);
+				updates.updated += listUpdates.updated;
+				updates.errors.push(...listUpdates.errors);
+				// ステップの同期はタスクの更新として集計する
+				updates.updated += listChecklists.updated;
+				updates.errors.push(...listChecklists.errors);
+				conflicts.push(...listUpdates.conflicts);
+				deletions.deleted += listDeletions.deleted;
+				deletions.errors.push(...listDeletions.errors);
+			}
 
 			const result: SyncResult = {
 				msftToObsidian,
 				obsidianToMsft,
 				completions,
+				updates,
+				deletions,
+				conflicts,
 				timestamp: startTime,
 				// 後方互換性のための集計フィールド
 				added: msftToObsidian.added + obsidianToMsft.added,
 				completed: completions.completed,
-				errors: [...msftToObsidian.errors, ...obsidianToMsft.errors, ...completions.errors],
+				errors: [
+					...msftToObsidian.errors,
+					...obsidianToMsft.errors,
+					...completions.errors,
+					...updates.errors,
+					...deletions.errors,
+				],
 			};
 
 			// Clean up old metadata (older than 90 days)
@@ -93,21 +249,194 @@ export class TodoSynchronizer {
 		}
 	}
 
-	async syncMsftToObsidian(): Promise<{ added: number; errors: string[] }> {
-		this.logger.info('Syncing Microsoft tasks to Obsidian');
+	/**
+	 * その日の最初の同期で、過去のデイリーノートに残っている同期済みの未完了タスクを今日のノートに移す
+	 * メタデータの日付とMicrosoft To Doの開始日も今日のノートの日付にし、移したタスクを新規や削除として扱わないようにする
+	 * 同期したことのないタスクは次の同期で今日のノートから作成されないよう、元のノートに残す
+	 */
+	private async carryOverUnfinishedTasks(): Promise<string[]> {
+		const today = this.dailyNoteManager.getPeriodStart(DateFormat.format(new Date(), 'YYYY-MM-DD'));
+		if (this.metadataStore.getLastCarryOverDate() === today) return [];
+
+		const todayNotePath = this.dailyNoteManager.getNotePath(today);
+		const errors: string[] = [];
+		let carried = 0;
+
+		for (const target of this.getListTargets()) {
+			// 行番号がずれないよう、ノートごとにまとめて移す
+			const tasksByNote = new Map<string, { task: DailyNoteTask; metadata: TaskMetadata }[]>();
+			for (const task of await this.getDailyTasksForTarget(target)) {
+				if (task.completed || !task.startDate || task.startDate >= today || !task.filePath) continue;
+				const msftTaskId = this.getMsftTaskIdForTask(task);
+				const metadata = msftTaskId ? this.metadataStore.findByMsftTaskId(msftTaskId) : undefined;
+				if (!metadata) continue;
+				tasksByNote.set(task.filePath, [...(tasksByNote.get(task.filePath) || []), { task, metadata }]);
+			}
+
+			for (const [filePath, entries] of tasksByNote) {
+				try {
+					await this.dailyNoteManager.carryOverTasks(
+						filePath,
+						entries.map(({ task }) => task.lineNumber),
+						todayNotePath,
+						this.getSectionHeading(target),
+						target.listName,
+						this.carryOver === 'copy'
+					);
+				} catch (error) {
+					errors.push(`Failed to carry over tasks from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					continue;
+				}
+
+				for (const { task, metadata } of entries) {
+					await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, { date: today });
+					try {
+						await this.apiClient.updateTaskStartDate(metadata.listId || target.listId, metadata.msftTaskId, today);
+					} catch (error) {
+						errors.push(`Failed to update the start date of "${task.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+					}
+				}
+				carried += entries.length;
+			}
+		}
+
+		await this.metadataStore.setLastCarryOverDate(today);
+		this.logger.info('Carried over unfinished tasks', { mode: this.carryOver, carried, today });
+		return errors;
+	}
+
+	/**
+	 * 完全同期を書き込みなしで実行し、行われる変更の計画を返す
+	 * Microsoft To Do・ノート・メタデータへの書き込みは記録するだけで反映しない
+	 */
+	async previewFullSync(): Promise<SyncPlan> {
+		const recorder = new SyncRecorder(this.apiClient, this.dailyNoteManager, this.metadataStore, true);
+		const result = await this.withRecorder(recorder).performFullSync();
+		const plan = recorder.createPlan(result);
+		this.logger.info('Sync preview created', { operations: plan.operations.length });
+		return plan;
+	}
+
+	/**
+	 * プレビューした計画をそのまま実行する
+	 * プレビュー後に対象のノートが変更されていれば行番号がずれるため、実行せずにエラーとする
+	 */
+	async applySyncPlan(plan: SyncPlan): Promise<SyncResult> {
+		const changedNotes = Object.entries(plan.noteModifiedTimes)
+			.filter(([path, modifiedTime]) => (this.dailyNoteManager.getFileModifiedTime(path) ?? null) !== modifiedTime)
+			.map(([path]) => path);
+		if (changedNotes.length > 0) {
+			throw new Error(`${ERROR_CODES.STALE_SYNC_PLAN}: Notes changed after the preview: ${changedNotes.join(', ')}`);
+		}
+
+		// 作成したタスクやステップの仮のIDを実際のIDに置き換えながら順に実行する
+		const startedAt = new Date();
+		const ids = new Map<string, string>();
+		const applied: SyncOperation[] = [];
+		try {
+			for (const operation of plan.operations) {
+				const adapter = operation.target === 'microsoft'
+					? this.apiClient
+					: operation.target === 'obsidian' ? this.dailyNoteManager : this.metadataStore;
+				const method = (adapter as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[operation.method];
+				const result = await method.apply(adapter, SyncRecorder.resolvePlaceholders(operation.args, ids) as unknown[]);
+				SyncRecorder.mapPlaceholders(operation.result, result, ids);
+				applied.push(operation);
+			}
+		} catch (error) {
+			await this.addHistoryEntry('preview', startedAt, applied, undefined, error);
+			const context: ErrorContext = {
+				component: 'TodoSynchronizer',
+				method: 'applySyncPlan',
+				timestamp: new Date().toISOString(),
+				details: { error },
+			};
+			this.logger.error('Failed to apply sync plan', context);
+			throw error;
+		}
+
+		await this.addHistoryEntry('preview', startedAt, applied, plan.result);
+		this.logger.info('Sync plan applied', { operations: plan.operations.length });
+		return plan.result;
+	}
+
+	/**
+	 * 完全同期を実行し、結果と実際に行った変更を同期履歴に残す（失敗した場合もそれまでの変更とエラーを残す）
+	 */
+	async performSyncWithHistory(trigger: SyncTrigger): Promise<SyncResult> {
+		const startedAt = new Date();
+		const recorder = new SyncRecorder(this.apiClient, this.dailyNoteManager, this.metadataStore, false);
+		try {
+			const result = await this.withRecorder(recorder).performFullSync();
+			await this.addHistoryEntry(trigger, startedAt, recorder.getOperations(), result);
+			return result;
+		} catch (error) {
+			await this.addHistoryEntry(trigger, startedAt, recorder.getOperations(), undefined, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * 新しい実行が先頭の同期履歴
+	 */
+	getSyncHistory(): SyncHistoryEntry[] {
+		return this.historyStore.getEntries();
+	}
+
+	/**
+	 * 設定を引き継ぎ、書き込みを記録するアダプターに差し替えた別インスタンス
+	 * 記録中の同期が自動同期などほかの同期に影響しないようにする
+	 */
+	private withRecorder(recorder: SyncRecorder): TodoSynchronizer {
+		return Object.assign(Object.create(TodoSynchronizer.prototype), this, {
+			apiClient: recorder.apiClient,
+			dailyNoteManager: recorder.dailyNoteManager,
+			metadataStore: recorder.metadataStore,
+			recorder,
+		});
+	}
+
+	private async addHistoryEntry(
+		trigger: SyncTrigger,
+		startedAt: Date,
+		operations: SyncOperation[],
+		result?: SyncResult,
+		error?: unknown
+	): Promise<void> {
+		// メタデータの更新は内部的な記録のため履歴には残さない
+		const actions = operations
+			.filter(operation => operation.kind !== 'metadata')
+			.map(({ kind, description, filePath, lineNumber }) => ({ kind, description, filePath, lineNumber }));
+		await this.historyStore.addEntry({
+			trigger,
+			startedAt: startedAt.toISOString(),
+			durationMs: Date.now() - startedAt.getTime(),
+			...(result ? { result } : {}),
+			...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+			actions: actions.slice(0, SYNC_HISTORY_MAX_ACTIONS),
+			...(actions.length > SYNC_HISTORY_MAX_ACTIONS ? { omittedActions: actions.length - SYNC_HISTORY_MAX_ACTIONS } : {}),
+		});
+	}
+
+	async syncMsftToObsidian(snapshot?: MsftTaskSnapshot, target?: SyncListTarget): Promise<{ added: number; errors: string[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		this.logger.info('Syncing Microsoft tasks to Obsidian', { list: listTarget.listName });
 		const errors: string[] = [];
 		let added = 0;
 
 		try {
-			// Get tasks from both sources
+			// Get tasks from both sources (only changed tasks when a delta snapshot is given)
 			const [msftTasks, allDailyTasks] = await Promise.all([
-				this.apiClient.getTasks(),
-				this.dailyNoteManager.getAllDailyNoteTasks(this.taskSectionHeading),
+				snapshot ? snapshot.changed : this.apiClient.getTasks(listTarget.listId || undefined),
+				this.getDailyTasksForTarget(listTarget),
 			]);
 			
 			
 			// Clean up Microsoft Todo task titles if they contain [todo:: tags
-			await this.cleanMicrosoftTodoTitles(msftTasks)
+			await this.cleanMicrosoftTodoTitles(msftTasks, listTarget.listId)
+
+			// Vaultで完了した繰り返しタスクの次回分を、Microsoftが生成した次回のタスクと対応付ける
+			await this.linkRecurringOccurrences(msftTasks, allDailyTasks, listTarget);
 
 			// Find new Microsoft tasks that don't exist in Obsidian (only incomplete tasks)
 			const newMsftTasks = this.findNewMsftTasks(msftTasks, allDailyTasks)
@@ -116,27 +445,11 @@ export class TodoSynchronizer {
 			// Add each new task to the appropriate daily note based on due date (fallback to creation date)
 			for (const task of newMsftTasks) {
 				try {
-					// Microsoft Todoタスクから日付を抽出 - 期日を優先、なければ作成日を使用
-					let taskDate: string;
-					if (task.dueDateTime) {
-						let dueDateTimeStr = task.dueDateTime.dateTime;
-						
-						// Microsoft To DoのAPI応答にはZサフィックスがない場合があるため、
-						// UTC時間として確実に解析するために追加する
-						if (!dueDateTimeStr.endsWith('Z')) {
-							dueDateTimeStr += 'Z';
-						}
-						
-						const dueDate = new Date(dueDateTimeStr);
-						
-						// JavaScriptのDateオブジェクトは自動的にローカルタイムゾーンに変換される
-						const year = dueDate.getFullYear();
-						const month = String(dueDate.getMonth() + 1).padStart(2, '0');
-						const day = String(dueDate.getDate()).padStart(2, '0');
-						taskDate = `${year}-${month}-${day}`;
-					} else {
-						taskDate = new Date(task.createdDateTime).toISOString().slice(0, 10);
-					}
+					// Microsoft Todoタスクから日付を抽出 - 期日を優先、なければ作成日を使用し、その日を含む期間のノートに追加
+					const attributes = this.getMsftAttributes(task);
+					const taskDate = this.dailyNoteManager.getPeriodStart(
+						attributes.dueDate || new Date(task.createdDateTime).toISOString().slice(0, 10)
+					);
 					const targetNotePath = this.dailyNoteManager.getNotePath(taskDate);
 					
 					// ターゲットノートが存在することを確認
@@ -146,14 +459,22 @@ export class TodoSynchronizer {
 					
 					// 未完了タスクとして追加
 					
-					await this.dailyNoteManager.addTaskToTodoSection(
+					const lineNumber = await this.dailyNoteManager.addTaskToTodoSection(
 						targetNotePath,
-						cleanedTitle,
-						this.taskSectionHeading
+						listTarget.tag ? `${cleanedTitle} ${listTarget.tag}` : cleanedTitle,
+						this.getSectionHeading(listTarget),
+						attributes,
+						listTarget.listName
 					);
 					
 					// このタスクのメタデータを保存
-					await this.metadataStore.setMetadata(taskDate, cleanedTitle, task.id);
+					await this.metadataStore.setMetadata(taskDate, cleanedTitle, task.id, listTarget.listId);
+					if (Object.keys(attributes).length > 0) {
+						await this.metadataStore.updateMetadataByMsftId(task.id, attributes);
+					}
+					if (this.stableTaskIds) {
+						await this.assignBlockId(targetNotePath, lineNumber, task.id);
+					}
 					
 					added++;
 				} catch (error) {
@@ -181,18 +502,20 @@ export class TodoSynchronizer {
 		}
 	}
 
-	async syncObsidianToMsft(): Promise<{ added: number; errors: string[] }> {
-		this.logger.info('Syncing Obsidian tasks to Microsoft');
+	async syncObsidianToMsft(snapshot?: MsftTaskSnapshot, target?: SyncListTarget): Promise<{ added: number; errors: string[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		this.logger.info('Syncing Obsidian tasks to Microsoft', { list: listTarget.listName });
 		const errors: string[] = [];
 		let added = 0;
 
 		try {
-			// 全てのファイルからデイリーノートタスクを取得
-			const allDailyTasks = await this.dailyNoteManager.getAllDailyNoteTasks(this.taskSectionHeading);
+			// 全てのファイルからこのリストに対応するデイリーノートタスクを取得
+			const allDailyTasks = await this.getDailyTasksForTarget(listTarget);
 
 			// 新規Obsidianタスクを検索（メタデータがないもの）
 			const newObsidianTasks = allDailyTasks.filter(task => {
-				if (task.completed || !task.startDate) return false;
+				const noteKey = this.getNoteKey(task);
+				if (task.completed || !noteKey) return false;
 				// メタデータ検索時にクリーンなタイトルを使用して既存タスクを確認
 				// これにより、ユーザーが[todo::ID]を追加/削除しても重複作成を防げる
 				//
@@ -201,38 +524,48 @@ export class TodoSynchronizer {
 				//    → 却下理由: 既存タスクにIDを追加した時に重複が作成される
 				// 2. タスク内容のハッシュで重複排除
 				//    → 却下理由: 現在のデータモデルにタスク内容が含まれていない
-				const cleanedTitle = this.cleanTaskTitle(task.title);
-				const existingMsftId = this.metadataStore.getMsftTaskId(task.startDate, cleanedTitle);
+				const existingMsftId = this.getMsftTaskIdForTask(task);
 				return !existingMsftId;
 			});
 
-			// デフォルトリストIDを取得
-			const listId = this.apiClient.getDefaultListId();
+			// 同期先リストIDを取得
+			const listId = listTarget.listId;
 			if (!listId) {
 				throw new Error('デフォルトのMicrosoft Todoリストが設定されていません');
 			}
 
 			// 重複チェック用に既存のMicrosoftタスクを取得
-			const existingMsftTasks = await this.apiClient.getTasks();
+			const existingMsftTasks = snapshot ? snapshot.all : await this.apiClient.getTasks(listId);
 			const existingTitles = new Set(
 				existingMsftTasks.map(task => this.normalizeTitle(this.cleanTaskTitle(task.title)))
 			);
 
-			// 各新規タスクを開始日付きでMicrosoft Todoに作成
-			for (const task of newObsidianTasks) {
-				// 正規化したタイトルでMicrosoft Todoに既に存在する場合はスキップ
+			// 正規化したタイトルでMicrosoft Todoに既に存在するタスクはスキップ
+			const tasksToCreate = newObsidianTasks.filter(task => {
 				if (existingTitles.has(this.normalizeTitle(task.title))) {
 					this.logger.info('[DEBUG] Skipping task - already exists in Microsoft Todo', {
 						taskTitle: task.title
 					});
-					continue;
+					return false;
 				}
+				return true;
+			});
+
+			// 新規タスクを開始日付きで$batchでまとめて作成し、作成できたタスクごとにメタデータを保存
+			// ボルトのタスクは日付を持たないため、繰り返しタスクのみ今日を開始日（期日）として送る
+			const createResults = tasksToCreate.length > 0
+				? await this.apiClient.createTasks(listId, tasksToCreate.map(task => ({
+					title: task.title,
+					startDate: task.startDate || (task.recurrence ? new Date().toISOString().slice(0, 10) : undefined),
+					attributes: this.getObsidianAttributes(task),
+				})))
+				: [];
+			for (const [index, task] of tasksToCreate.entries()) {
 				try {
-					const createdTask = await this.apiClient.createTaskWithStartDate(
-						listId, 
-						task.title,
-						task.startDate
-					);
+					const { value: createdTask, error } = createResults[index];
+					if (error || !createdTask) {
+						throw error || new Error('No task was returned');
+					}
 					
 					// このタスクのメタデータを保存
 					// クリーンなタイトル（[todo::ID]なし）で保存して一貫した検索を保証
@@ -245,9 +578,19 @@ export class TodoSynchronizer {
 					//    → 却下理由: 複雑性が増し、手動でのタイトル編集に対応できない
 					// 3. タスク内容を追加の照合条件として使用
 					//    → 却下理由: 現在のデータモデルにタスク内容が含まれていない
-					if (task.startDate) {
+					const noteKey = this.getNoteKey(task);
+					if (noteKey) {
 						const cleanedTitle = this.cleanTaskTitle(task.title);
-						await this.metadataStore.setMetadata(task.startDate, cleanedTitle, createdTask.id);
+						await this.metadataStore.setMetadata(noteKey, cleanedTitle, createdTask.id, listId);
+						const attributes = this.getObsidianAttributes(task);
+						if (Object.keys(attributes).length > 0) {
+							await this.metadataStore.updateMetadataByMsftId(createdTask.id, attributes);
+						}
+						if (task.blockId) {
+							await this.metadataStore.updateMetadataByMsftId(createdTask.id, { blockId: task.blockId });
+						} else if (this.stableTaskIds && task.filePath) {
+							await this.assignBlockId(task.filePath, task.lineNumber, createdTask.id);
+						}
 					}
 					
 					added++;
@@ -272,16 +615,23 @@ export class TodoSynchronizer {
 		}
 	}
 
-	async syncCompletions(): Promise<{ completed: number; errors: string[] }> {
-		this.logger.info('完了状態を同期中');
+	async syncCompletions(snapshot?: MsftTaskSnapshot, target?: SyncListTarget): Promise<{ completed: number; errors: string[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		this.logger.info('完了状態を同期中', { list: listTarget.listName });
 		const errors: string[] = [];
 		let completed = 0;
 
 		try {
-			const [msftTasks, allDailyTasks] = await Promise.all([
-				this.apiClient.getTasks(),
-				this.dailyNoteManager.getAllDailyNoteTasks(this.taskSectionHeading),
+			const [allMsftTasks, fetchedDailyTasks] = await Promise.all([
+				snapshot ? snapshot.all : this.apiClient.getTasks(listTarget.listId || undefined),
+				this.getDailyTasksForTarget(listTarget),
 			]);
+			// Tasks pluginが繰り返しタスクの完了時に追加した次回分の行は、完了した行と
+			// 同じ日付・タイトルになるため照合から除外する
+			const generatedOccurrences = this.findGeneratedOccurrences(fetchedDailyTasks);
+			const allDailyTasks = fetchedDailyTasks.filter(task => !generatedOccurrences.includes(task));
+			// Microsoft → Obsidianの完了同期は変更されたタスクのみを対象とする
+			const msftTasks = snapshot ? snapshot.changed : allMsftTasks;
 			
 			// デバッグ用：Microsoft To Doから取得したタスクの詳細
 			this.logger.debug('Microsoft To Do tasks for completion sync', {
@@ -296,11 +646,15 @@ export class TodoSynchronizer {
 			});
 
 			// 検索用マップを作成
-			const msftTasksById = new Map(msftTasks.map(task => [task.id, task]));
-
-			const listId = this.apiClient.getDefaultListId();
-
-			// Microsoft完了タスクをObsidianに同期
+			const msftTasksById = new Map(allMsftTasks.map(task => [task.id, task]));
+			// Microsoft → Obsidianで処理済みのタスクID（Obsidian側のループで二重に処理しない）
+			const processedMsftIds = new Set<string>();
+			// Vaultで完了した繰り返しタスク（ループ後に次回分を作成する）
+			const completedRecurringTasks: DailyNoteTask[] = [];
+			// Obsidianで完了し、Microsoftに送信する完了
+			const pendingCompletions: { dailyTask: DailyNoteTask; listId: string; msftTaskId: string }[] = [];
+
+			// Microsoftの完了状態をObsidianに同期
 			for (const msftTask of msftTasks) {
 				// メタデータを使用して対応するObsidianタスクを検索
 				const metadata = this.metadataStore.findByMsftTaskId(msftTask.id);
@@ -337,14 +691,20 @@ export class TodoSynchronizer {
 							);
 							
 							// メタデータを作成して今後の同期のために保存
-							if (dailyTaskByTitle.startDate) {
+							const noteKey = this.getNoteKey(dailyTaskByTitle);
+							if (noteKey) {
 								await this.metadataStore.setMetadata(
-									dailyTaskByTitle.startDate,
+									noteKey,
 									cleanedMsftTitle,
-									msftTask.id
+									msftTask.id,
+									listTarget.listId
 								);
+								await this.metadataStore.updateMetadataByMsftId(msftTask.id, {
+									completed: true,
+									...(dailyTaskByTitle.blockId ? { blockId: dailyTaskByTitle.blockId } : {}),
+								});
 								this.logger.info('Created missing metadata for task', {
-									date: dailyTaskByTitle.startDate,
+									date: noteKey,
 									title: cleanedMsftTitle,
 									msftTaskId: msftTask.id
 								});
@@ -379,7 +739,7 @@ export class TodoSynchronizer {
 					searchDate: metadata.date,
 					searchTitle: metadata.title,
 					availableTasksOnDate: allDailyTasks
-						.filter(t => t.startDate === metadata.date)
+						.filter(t => this.getNoteKey(t) === metadata.date)
 						.map(t => ({ 
 							title: t.title, 
 							cleanedTitle: this.cleanTaskTitle(t.title),
@@ -387,42 +747,47 @@ export class TodoSynchronizer {
 						}))
 				});
 				
-				const dailyTask = allDailyTasks.find(task => 
-					task.startDate === metadata.date && 
-					this.cleanTaskTitle(task.title) === metadata.title
-				);
+				const dailyTask = this.findTaskForMetadata(allDailyTasks, metadata);
 				if (!dailyTask) {
 					this.logger.debug('No matching daily task found for metadata', {
 						metadataDate: metadata.date,
 						metadataTitle: metadata.title,
 						availableTasks: allDailyTasks
-							.filter(t => t.startDate === metadata.date)
+							.filter(t => this.getNoteKey(t) === metadata.date)
 							.map(t => ({ title: t.title, cleanedTitle: this.cleanTaskTitle(t.title) }))
 					});
 					continue;
 				}
 
 				const msftCompleted = msftTask.status === 'completed';
+				const winner = msftCompleted === dailyTask.completed
+					? undefined
+					: this.resolveCompletionWinner(dailyTask, msftTask, metadata);
 				
 				this.logger.debug('Processing Microsoft task completion sync', {
 					taskId: msftTask.id,
 					title: msftTask.title,
 					msftCompleted,
 					obsidianCompleted: dailyTask.completed,
-					willSync: msftCompleted && !dailyTask.completed
+					willSync: winner === 'microsoft'
 				});
 				
-				if (!msftCompleted || dailyTask.completed) {
+				if (winner !== 'microsoft') {
 					this.logger.debug('Skipping task completion sync', {
 						taskId: msftTask.id,
 						title: msftTask.title,
 						msftCompleted,
 						dailyTaskCompleted: dailyTask.completed,
-						reason: !msftCompleted ? 'Microsoft task not completed' : 'Obsidian task already completed'
+						reason: winner ? 'Obsidian change is newer' : 'Completion state already in sync'
 					});
+					if (!winner) {
+						processedMsftIds.add(msftTask.id);
+						await this.recordCompletionState(metadata, msftCompleted);
+					}
 					continue;
 				}
 				
+				processedMsftIds.add(msftTask.id);
 				try {
 					this.logger.debug('Starting task completion update', {
 						taskId: msftTask.id,
@@ -431,22 +796,10 @@ export class TodoSynchronizer {
 						lineNumber: dailyTask.lineNumber
 					});
 					
-					const completionDate = this.parseCompletionDate(msftTask);
-					
-					this.logger.debug('Updating task completion', {
-						filePath: dailyTask.filePath,
-						lineNumber: dailyTask.lineNumber,
-						completionDate
-					});
-					
-					await this.dailyNoteManager.updateTaskCompletion(
-						dailyTask.filePath!,
-						dailyTask.lineNumber,
-						true,
-						completionDate
-					);
+					const applied = await this.applyMsftCompletion(dailyTask, msftTask);
+					if (!applied) continue;
 					completed++;
-					this.logger.debug('Marked Obsidian task as completed from Microsoft', {
+					this.logger.debug(msftCompleted ? 'Marked Obsidian task as completed from Microsoft' : 'Reopened Obsidian task from Microsoft', {
 						taskId: msftTask.id,
 						title: msftTask.title,
 						filePath: dailyTask.filePath
@@ -463,9 +816,11 @@ export class TodoSynchronizer {
 				}
 			}
 
-			// Obsidian完了タスクをMicrosoftに同期
+			// Obsidianの完了状態をMicrosoftに同期
+			// （デルタ同期で変更されていないMicrosoftタスクとの食い違いもここで解消する）
 			for (const dailyTask of allDailyTasks) {
-				if (!dailyTask.completed || !dailyTask.startDate) continue;
+				const noteKey = this.getNoteKey(dailyTask);
+				if (!noteKey) continue;
 				
 				// メタデータからMicrosoftタスクIDを検索
 				// メタデータはクリーンなタイトルで保存されているため、検索前にタイトルをクリーン化
@@ -482,38 +837,91 @@ export class TodoSynchronizer {
 				// 4. タイトルに埋め込む代わりに別のIDフィールドを使用
 				//    → 却下理由: 既存のタスク形式に大幅な変更が必要
 				const cleanedTitle = this.cleanTaskTitle(dailyTask.title);
-				const msftTaskId = this.metadataStore.getMsftTaskId(dailyTask.startDate, cleanedTitle);
+				const msftTaskId = this.getMsftTaskIdForTask(dailyTask);
 				if (!msftTaskId) {
-					this.logger.debug('No metadata found for completed Obsidian task', {
+					this.logger.debug('No metadata found for Obsidian task', {
 						originalTitle: dailyTask.title,
 						cleanedTitle,
-						startDate: dailyTask.startDate
+						noteKey
 					});
 					continue;
 				}
 				
 				const matchingMsftTask = msftTasksById.get(msftTaskId);
+				if (!matchingMsftTask || processedMsftIds.has(msftTaskId)) continue;
 
-				if (!matchingMsftTask || matchingMsftTask.status === 'completed') continue;
+				const metadata = this.metadataStore.findByMsftTaskId(msftTaskId);
+				const msftCompleted = matchingMsftTask.status === 'completed';
+				if (msftCompleted === dailyTask.completed) {
+					await this.recordCompletionState(metadata, msftCompleted);
+					continue;
+				}
 				
 				try {
+					if (this.resolveCompletionWinner(dailyTask, matchingMsftTask, metadata) === 'microsoft') {
+						if (await this.applyMsftCompletion(dailyTask, matchingMsftTask)) {
+							completed++;
+						}
+						continue;
+					}
+
+					// メタデータに記録されたリストを優先し、タスクを正しいリストで更新する
+					const listId = metadata?.listId || listTarget.listId;
 					if (!listId) {
 						throw new Error('No default list ID available');
 					}
 
-					await this.apiClient.completeTask(listId, matchingMsftTask.id);
+					// 完了はループ後に$batchでまとめて送信する
+					if (dailyTask.completed) {
+						pendingCompletions.push({ dailyTask, listId, msftTaskId: matchingMsftTask.id });
+						continue;
+					}
+
+					await this.apiClient.reopenTask(listId, matchingMsftTask.id);
+					await this.metadataStore.updateMetadataByMsftId(matchingMsftTask.id, { completed: false });
 					completed++;
-					this.logger.debug('Marked Microsoft task as completed from Obsidian', {
+					this.logger.debug('Reopened Microsoft task from Obsidian', {
 						taskId: matchingMsftTask.id,
 						title: dailyTask.title,
 						filePath: dailyTask.filePath
 					});
 				} catch (error) {
-					const errorMsg = `Failed to complete Microsoft task "${dailyTask.title}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+					const errorMsg = `Failed to ${dailyTask.completed ? 'complete' : 'reopen'} Microsoft task "${dailyTask.title}": ${error instanceof Error ? error.message : 'Unknown error'}`;
 					errors.push(errorMsg);
 				}
 			}
 
+			for (const [listId, completions] of this.groupByListId(pendingCompletions)) {
+				const results = await this.apiClient.completeTasks(listId, completions.map(completion => completion.msftTaskId));
+				for (const [index, { dailyTask, msftTaskId }] of completions.entries()) {
+					const { error } = results[index];
+					if (error) {
+						errors.push(`Failed to complete Microsoft task "${dailyTask.title}": ${error.message}`);
+						continue;
+					}
+					// ボルトのノートではTasks pluginが追加した次回分をそのまま残す
+					if (dailyTask.recurrence && dailyTask.startDate) {
+						completedRecurringTasks.push(dailyTask);
+					}
+					await this.metadataStore.updateMetadataByMsftId(msftTaskId, { completed: true });
+					completed++;
+					this.logger.debug('Marked Microsoft task as completed from Obsidian', {
+						taskId: msftTaskId,
+						title: dailyTask.title,
+						filePath: dailyTask.filePath
+					});
+				}
+			}
+
+			if (completedRecurringTasks.length > 0) {
+				errors.push(...await this.createNextOccurrences(
+					completedRecurringTasks,
+					generatedOccurrences,
+					allDailyTasks,
+					listTarget
+				));
+			}
+
 			this.logger.info('Completion sync completed', { completed, errors: errors.length });
 			return { completed, errors };
 
@@ -525,138 +933,1202 @@ export class TodoSynchronizer {
 		}
 	}
 
-	detectDuplicates(obsidianTasks: DailyNoteTask[], msftTasks: TodoTask[]): TaskPair[] {
-		const duplicates: TaskPair[] = [];
+	/**
+	 * Vaultで完了した繰り返しタスクの次回分を、次回の日付のデイリーノートに作成する
+	 * Tasks pluginが完了時に同じノートへ追加した次回分の行は取り除き、次回の日付のノートに置き直す
+	 * 次回分は次の同期でMicrosoftが生成したタスクと対応付けられる（linkRecurringOccurrences）
+	 */
+	private async createNextOccurrences(
+		completedTasks: DailyNoteTask[],
+		generatedOccurrences: DailyNoteTask[],
+		allDailyTasks: DailyNoteTask[],
+		listTarget: SyncListTarget
+	): Promise<string[]> {
+		const errors: string[] = [];
+		const occurrences: { task: DailyNoteTask; nextDate: string }[] = [];
+		const generatedLines: DailyNoteTask[] = [];
 
-		for (const obsidianTask of obsidianTasks) {
-			// Skip if we already have metadata for this task
-			if (!obsidianTask.startDate) continue;
-			
-			const existingMsftId = this.metadataStore.getMsftTaskId(obsidianTask.startDate, obsidianTask.title);
-			if (existingMsftId) continue;
+		for (const task of completedTasks) {
+			const baseDate = task.dueDate || task.startDate;
+			const nextDate = task.recurrence && baseDate ? RecurrenceRule.nextOccurrence(task.recurrence, baseDate) : null;
+			if (!nextDate) continue;
 
-			for (const msftTask of msftTasks) {
-				// Simple title matching for now
-				const titleMatch = this.normalizeTitle(obsidianTask.title) === this.normalizeTitle(msftTask.title);
-				
-				if (titleMatch) {
-					duplicates.push({
-						obsidianTask,
-						msftTask,
-						confidence: 1.0, // Exact title match
-					});
-					break; // Only match each Obsidian task once
-				}
-			}
+			generatedLines.push(...generatedOccurrences.filter(generated => this.isSameRecurringTask(generated, task)));
+			occurrences.push({ task, nextDate });
 		}
 
-		this.logger.debug('Detected duplicates', { count: duplicates.length });
-		return duplicates;
-	}
-
-	private findNewMsftTasks(msftTasks: TodoTask[], dailyTasks: DailyNoteTask[]): TodoTask[] {
-		// Tasks that exist in Microsoft but not in Obsidian
-		const newTasks: TodoTask[] = [];
-		
-		for (const msftTask of msftTasks) {
-			const cleanedTitle = this.cleanTaskTitle(msftTask.title);
-			// Use due date if available, otherwise use creation date
-			// For due dates, convert UTC to local timezone to get correct date
-			let msftTaskDate: string;
-			if (msftTask.dueDateTime) {
-				let dueDateTimeStr = msftTask.dueDateTime.dateTime;
-				
-				// Microsoft To DoのAPI応答にはZサフィックスがない場合があるため、
-				// UTC時間として確実に解析するために追加する
-				if (!dueDateTimeStr.endsWith('Z')) {
-					dueDateTimeStr += 'Z';
-				}
-				
-				const dueDate = new Date(dueDateTimeStr);
-				
-				// JavaScriptのDateオブジェクトは自動的にローカルタイムゾーンに変換される
-				// そのため、getFullYear/getMonth/getDateを使用すれば正しいローカル日付が取得できる
-				const year = dueDate.getFullYear();
-				const month = String(dueDate.getMonth() + 1).padStart(2, '0');
-				const day = String(dueDate.getDate()).padStart(2, '0');
-				msftTaskDate = `${year}-${month}-${day}`;
-			} else {
-				msftTaskDate = new Date(msftTask.createdDateTime).toISOString().slice(0, 10);
+		// 行の削除で後続の行番号がずれるため、下の行から削除する
+		generatedLines.sort((a, b) => b.lineNumber - a.lineNumber);
+		for (const line of generatedLines) {
+			if (!line.filePath) continue;
+			try {
+				await this.dailyNoteManager.removeTaskLine(line.filePath, line.lineNumber);
+			} catch (error) {
+				errors.push(`Failed to move next occurrence of "${line.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
 			}
-			
-			// Check if we have metadata for this task
-			const metadata = this.metadataStore.findByMsftTaskId(msftTask.id);
-			if (metadata) continue;
-			
-			// Check if task exists in daily notes by title and date
-			const existsInDailyNotes = dailyTasks.some(dailyTask => 
-				this.normalizeTitle(dailyTask.title) === this.normalizeTitle(cleanedTitle) &&
-				dailyTask.startDate === msftTaskDate
+		}
+
+		for (const { task, nextDate } of occurrences) {
+			const title = this.cleanTaskTitle(task.title);
+			const exists = allDailyTasks.some(other =>
+				!other.completed &&
+				other.startDate === this.dailyNoteManager.getPeriodStart(nextDate) &&
+				this.cleanTaskTitle(other.title) === title
 			);
-			
-			if (!existsInDailyNotes) {
-				newTasks.push(msftTask);
+			if (exists) continue;
+
+			try {
+				const notePath = this.dailyNoteManager.getNotePath(nextDate);
+				await this.ensureNoteExists(notePath, nextDate);
+				await this.dailyNoteManager.addTaskToTodoSection(
+					notePath,
+					listTarget.tag ? `${title} ${listTarget.tag}` : title,
+					this.getSectionHeading(listTarget),
+					{
+						dueDate: nextDate,
+						recurrence: task.recurrence,
+						...(task.importance && task.importance !== 'normal' ? { importance: task.importance } : {}),
+					},
+					listTarget.listName
+				);
+				this.logger.info('Created next occurrence of recurring task', { title, nextDate, recurrence: task.recurrence });
+			} catch (error) {
+				errors.push(`Failed to create next occurrence of "${title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
 			}
 		}
-		
-		return newTasks;
+
+		return errors;
 	}
 
+	/**
+	 * Tasks pluginが繰り返しタスクの完了時に追加した次回分の行を探す
+	 * 同じノートに同じタイトル・ルールの完了済みの行があり、それより後の日付の未完了の行を次回分とみなす
+	 */
+	private findGeneratedOccurrences(dailyTasks: DailyNoteTask[]): DailyNoteTask[] {
+		return dailyTasks.filter(task =>
+			!task.completed &&
+			task.recurrence &&
+			dailyTasks.some(other =>
+				other.completed &&
+				this.isSameRecurringTask(task, other) &&
+				(other.dueDate || other.startDate || '') < (task.dueDate || task.startDate || '')
+			)
+		);
+	}
 
-	private async ensureNoteExists(notePath: string, date: string): Promise<void> {
-		try {
-			// Use DailyNoteManager to create the note with template support
-			await this.dailyNoteManager.createDailyNote(date);
-			this.logger.info('Ensured daily note exists', { notePath, date });
-		} catch (error) {
-			this.logger.error('Failed to ensure note exists', { notePath, date, error });
-			throw error;
-		}
+	private isSameRecurringTask(a: DailyNoteTask, b: DailyNoteTask): boolean {
+		return a.filePath === b.filePath &&
+			a.recurrence === b.recurrence &&
+			this.cleanTaskTitle(a.title) === this.cleanTaskTitle(b.title);
 	}
 
-	private async cleanMicrosoftTodoTitles(tasks: TodoTask[]): Promise<void> {
-		const listId = this.apiClient.getDefaultListId();
-		if (!listId) return;
+	/**
+	 * Microsoftが生成した繰り返しタスクの次回分を、同じタイトル・期日のVault側の未同期タスクと対応付ける
+	 * 対応付けたタスクは新規タスクとして取り込まれない
+	 */
+	private async linkRecurringOccurrences(
+		msftTasks: TodoTask[],
+		dailyTasks: DailyNoteTask[],
+		listTarget: SyncListTarget
+	): Promise<void> {
+		for (const msftTask of msftTasks) {
+			if (!msftTask.recurrence || msftTask.status === 'completed') continue;
+			if (this.metadataStore.findByMsftTaskId(msftTask.id)) continue;
+
+			const title = this.cleanTaskTitle(msftTask.title);
+			const dueDate = this.getMsftDueDate(msftTask);
+			const dailyTask = dailyTasks.find(task =>
+				!task.completed &&
+				task.dueDate === dueDate &&
+				this.cleanTaskTitle(task.title) === title &&
+				this.isLinkableOccurrence(task, title)
+			);
+			const noteKey = dailyTask ? this.getNoteKey(dailyTask) : undefined;
+			if (!dailyTask || !noteKey) continue;
 
-		for (const task of tasks) {
-			if (!task.title.includes('[todo::')) continue;
-			
-			const cleanedTitle = this.cleanTaskTitle(task.title);
-			try {
-				await this.apiClient.updateTaskTitle(listId, task.id, cleanedTitle);
-				this.logger.info('[DEBUG] Cleaned Microsoft Todo task title', {
-					taskId: task.id,
-					originalTitle: task.title,
-					cleanedTitle: cleanedTitle
-				});
-				// Update the task object with cleaned title
-				task.title = cleanedTitle;
-			} catch (error) {
-				this.logger.error('Failed to clean Microsoft Todo task title', {
-					taskId: task.id,
-					title: task.title,
-					error
-				});
-			}
+			await this.metadataStore.setMetadata(noteKey, title, msftTask.id, listTarget.listId);
+			await this.metadataStore.updateMetadataByMsftId(msftTask.id, {
+				...this.getMsftAttributes(msftTask),
+				...(dailyTask.blockId ? { blockId: dailyTask.blockId } : {}),
+			});
+			this.logger.info('Linked next occurrence of recurring task', { taskId: msftTask.id, title, dueDate });
 		}
 	}
 
-	private normalizeTitle(title: string): string {
-		return title.trim().toLowerCase().replace(/\s+/g, ' ');
+	/**
+	 * 次回分として対応付けられるタスクか（未同期、またはボルトのノートで完了済みの前回分が同じキーを使っている）
+	 * ボルトのノートでは次回分が前回分と同じノートに追加されるため、完了済みの前回分の対応付けを置き換える
+	 */
+	private isLinkableOccurrence(task: DailyNoteTask, title: string): boolean {
+		const noteKey = this.getNoteKey(task);
+		if (!noteKey) return false;
+
+		const msftTaskId = task.blockId ? this.getMsftTaskIdForTask(task) : this.metadataStore.getMsftTaskId(noteKey, title);
+		return !msftTaskId || (!task.startDate && this.metadataStore.findByMsftTaskId(msftTaskId)?.completed === true);
 	}
 
-	private parseCompletionDate(task: TodoTask): string {
-		// No completedDateTime provided, use current date
-		if (!task.completedDateTime) {
-			return new Date().toISOString().slice(0, 10);
+	/**
+	 * 完了状態が食い違うタスクについて、どちらの状態を採用するかを決める
+	 * 1. メタデータに前回同期時の完了状態があれば、そこから変更された側
+	 * 2. 記録がなければMicrosoftのlastModifiedDateTimeとデイリーノートの更新日時の新しい側
+	 * 3. どちらも判断できなければ完了している側
+	 */
+	private resolveCompletionWinner(
+		dailyTask: DailyNoteTask,
+		msftTask: TodoTask,
+		metadata: TaskMetadata | undefined
+	): 'obsidian' | 'microsoft' {
+		if (metadata?.completed !== undefined) {
+			return dailyTask.completed !== metadata.completed ? 'obsidian' : 'microsoft';
 		}
 
-		// Handle both string and object formats from Microsoft Graph API
-		let dateTimeString: string;
-		if (typeof task.completedDateTime === 'object' && 'dateTime' in task.completedDateTime) {
-			// Handle object format: { dateTime: string, timeZone: string }
-			dateTimeString = (task.completedDateTime as any).dateTime;
-		} else if (typeof task.completedDateTime === 'string') {
+		const msftModified = msftTask.lastModifiedDateTime ? Date.parse(msftTask.lastModifiedDateTime) : NaN;
+		const obsidianModified = !isNaN(msftModified) && dailyTask.filePath
+			? this.dailyNoteManager.getFileModifiedTime(dailyTask.filePath)
+			: undefined;
+		if (obsidianModified !== undefined) {
+			return obsidianModified > msftModified ? 'obsidian' : 'microsoft';
+		}
+
+		return dailyTask.completed ? 'obsidian' : 'microsoft';
+	}
+
+	/**
+	 * Microsoftの完了状態（完了 / 未完了）をデイリーノートに反映する
+	 * ファイルパスのないタスクは更新できないため、スキップしてfalseを返す
+	 */
+	private async applyMsftCompletion(dailyTask: DailyNoteTask, msftTask: TodoTask): Promise<boolean> {
+		if (!dailyTask.filePath) {
+			this.logger.warn('Skipping task completion update because the task has no file path', {
+				taskId: msftTask.id,
+				title: msftTask.title
+			});
+			return false;
+		}
+
+		const msftCompleted = msftTask.status === 'completed';
+		await this.dailyNoteManager.updateTaskCompletion(
+			dailyTask.filePath,
+			dailyTask.lineNumber,
+			msftCompleted,
+			msftCompleted ? this.parseCompletionDate(msftTask) : undefined
+		);
+		await this.metadataStore.updateMetadataByMsftId(msftTask.id, { completed: msftCompleted });
+		return true;
+	}
+
+	private async recordCompletionState(metadata: TaskMetadata | undefined, completed: boolean): Promise<void> {
+		if (metadata && metadata.completed !== completed) {
+			await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, { completed });
+		}
+	}
+
+	/**
+	 * 同期済みタスクのタイトル・属性（期日・重要度）の変更を双方向に反映
+	 * メタデータに保存した前回同期時の値と比較して変更された側を判定する
+	 */
+	async syncTaskUpdates(
+		snapshot?: MsftTaskSnapshot,
+		target?: SyncListTarget
+	): Promise<{ updated: number; errors: string[]; conflicts: TaskConflict[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		this.logger.info('Syncing task updates', { list: listTarget.listName });
+		const errors: string[] = [];
+		const conflicts: TaskConflict[] = [];
+		let updated = 0;
+
+		try {
+			const [allMsftTasks, allDailyTasks] = await Promise.all([
+				snapshot ? snapshot.all : this.apiClient.getTasks(listTarget.listId || undefined),
+				this.getDailyTasksForTarget(listTarget),
+			]);
+			const msftTasksById = new Map(allMsftTasks.map(task => [task.id, task]));
+			// メモの書き換えで後続の行番号がずれるため、ノートの下の行から処理する
+			const orderedDailyTasks = [...allDailyTasks].sort((a, b) => b.lineNumber - a.lineNumber);
+
+			for (const dailyTask of orderedDailyTasks) {
+				const noteKey = this.getNoteKey(dailyTask);
+				if (dailyTask.completed || !noteKey) continue;
+
+				const msftTaskId = this.getMsftTaskIdForTask(dailyTask);
+				const msftTask = msftTaskId ? msftTasksById.get(msftTaskId) : undefined;
+				if (!msftTask) continue;
+
+				try {
+					const metadata = this.metadataStore.findByMsftTaskId(msftTask.id);
+					const listId = metadata?.listId || listTarget.listId;
+					const titleChanged = await this.syncTitle(dailyTask, msftTask, metadata, listId, conflicts);
+					const attributesChanged = await this.syncAttributes(dailyTask, msftTask, metadata, listId, conflicts);
+					if (titleChanged || attributesChanged) {
+						updated++;
+					}
+				} catch (error) {
+					const errorMsg = `Failed to update task "${dailyTask.title}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+					errors.push(errorMsg);
+					this.logger.error('Failed to sync task updates', { taskId: msftTask.id, title: dailyTask.title, error });
+				}
+			}
+
+			this.logger.info('Task update sync completed', { updated, errors: errors.length, conflicts: conflicts.length });
+			return { updated, errors, conflicts };
+
+		} catch (error) {
+			const errorMsg = `Task update sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+			errors.push(errorMsg);
+			this.logger.error('Task update sync failed', { error });
+			return { updated, errors, conflicts };
+		}
+	}
+
+	/**
+	 * タイトルの変更を反映し、反映した場合はtrueを返す
+	 * メタデータのtitleはObsidian側のタイトルを追従するため、前回同期時のタイトルは
+	 * syncedTitle（未設定ならtitle）を基準にする。両側で変更された場合は解決方針に従う
+	 */
+	private async syncTitle(
+		dailyTask: DailyNoteTask,
+		msftTask: TodoTask,
+		metadata: TaskMetadata | undefined,
+		listId: string,
+		conflicts: TaskConflict[]
+	): Promise<boolean> {
+		const filePath = dailyTask.filePath;
+		if (!metadata || !filePath) return false;
+
+		const obsidianTitle = this.cleanTaskTitle(dailyTask.title);
+		const msftTitle = this.cleanTaskTitle(msftTask.title);
+		const baseline = metadata.syncedTitle ?? metadata.title;
+
+		if (obsidianTitle === msftTitle) {
+			if (metadata.syncedTitle !== undefined) {
+				await this.metadataStore.updateMetadataByMsftId(msftTask.id, { syncedTitle: undefined });
+			}
+			return false;
+		}
+
+		const winner = this.resolveUpdateWinner(obsidianTitle !== baseline, msftTitle !== baseline);
+		if (winner === 'ask') {
+			conflicts.push({ msftTaskId: msftTask.id, title: obsidianTitle, field: 'title', obsidianValue: obsidianTitle, msftValue: msftTitle });
+			return false;
+		}
+
+		if (winner === 'obsidian') {
+			await this.apiClient.updateTaskTitle(listId, msftTask.id, obsidianTitle);
+			this.logger.info('Pushed title to Microsoft', { taskId: msftTask.id, oldTitle: msftTitle, newTitle: obsidianTitle });
+			await this.metadataStore.updateMetadataByMsftId(msftTask.id, { title: obsidianTitle, syncedTitle: undefined });
+		} else {
+			await this.dailyNoteManager.updateTaskTitle(filePath, dailyTask.lineNumber, dailyTask.title, msftTitle);
+			this.logger.info('Pulled title from Microsoft', { taskId: msftTask.id, oldTitle: obsidianTitle, newTitle: msftTitle });
+			await this.metadataStore.updateMetadataByMsftId(msftTask.id, { title: msftTitle, syncedTitle: undefined });
+		}
+		return true;
+	}
+
+	/**
+	 * 期日・重要度・繰り返し・リマインダー・メモの変更を反映し、いずれかを反映した場合はtrueを返す
+	 */
+	private async syncAttributes(
+		dailyTask: DailyNoteTask,
+		msftTask: TodoTask,
+		metadata: TaskMetadata | undefined,
+		listId: string,
+		conflicts: TaskConflict[]
+	): Promise<boolean> {
+		const filePath = dailyTask.filePath;
+		if (!filePath) return false;
+
+		const title = this.cleanTaskTitle(dailyTask.title);
+		const dueDateChanged = await this.syncAttribute(
+			msftTask.id,
+			title,
+			'dueDate',
+			{ obsidian: dailyTask.dueDate, msft: this.getMsftDueDate(msftTask), baseline: metadata?.dueDate },
+			value => this.apiClient.updateTaskDueDate(listId, msftTask.id, value),
+			value => this.dailyNoteManager.updateTaskDueDate(filePath, dailyTask.lineNumber, value),
+			conflicts
+		);
+
+		// 重要度はマーカーなし・未設定をnormalとして比較する
+		const importanceChanged = await this.syncAttribute(
+			msftTask.id,
+			title,
+			'importance',
+			{
+				obsidian: dailyTask.importance || 'normal',
+				msft: msftTask.importance || 'normal',
+				baseline: metadata?.importance || 'normal',
+			},
+			value => this.apiClient.updateTaskImportance(listId, msftTask.id, value || 'normal'),
+			value => this.dailyNoteManager.updateTaskImportance(filePath, dailyTask.lineNumber, value),
+			conflicts
+		);
+
+		// Graphは繰り返しタスクに期日を要求するため、期日がなければノートの日付（ボルトのノートは今日）を期日として送る
+		const recurrenceChanged = await this.syncAttribute(
+			msftTask.id,
+			title,
+			'recurrence',
+			{ obsidian: dailyTask.recurrence, msft: RecurrenceRule.fromGraph(msftTask.recurrence), baseline: metadata?.recurrence },
+			value => this.apiClient.updateTaskRecurrence(listId, msftTask.id, value, dailyTask.dueDate || dailyTask.startDate || new Date().toISOString().slice(0, 10)),
+			value => this.dailyNoteManager.updateTaskRecurrence(filePath, dailyTask.lineNumber, value),
+			conflicts
+		);
+
+		const reminderChanged = await this.syncAttribute(
+			msftTask.id,
+			title,
+			'reminder',
+			{ obsidian: dailyTask.reminder, msft: this.getMsftReminder(msftTask), baseline: metadata?.reminder },
+			value => this.apiClient.updateTaskReminder(listId, msftTask.id, value),
+			value => this.dailyNoteManager.updateTaskReminder(filePath, dailyTask.lineNumber, value),
+			conflicts
+		);
+
+		const notesChanged = await this.syncAttribute(
+			msftTask.id,
+			title,
+			'notes',
+			{ obsidian: dailyTask.notes, msft: this.getMsftNotes(msftTask), baseline: metadata?.notes },
+			value => this.apiClient.updateTaskNotes(listId, msftTask.id, value),
+			value => this.dailyNoteManager.updateTaskNotes(filePath, dailyTask.lineNumber, value),
+			conflicts
+		);
+
+		return dueDateChanged || importanceChanged || recurrenceChanged || reminderChanged || notesChanged;
+	}
+
+	/**
+	 * 1つの属性について前回同期時の値（baseline）から変更された側の値を反映する
+	 * 両側で異なる値に変更された場合は解決方針に従う（askなら競合として記録して反映しない）
+	 */
+	private async syncAttribute<K extends keyof TaskAttributes>(
+		msftTaskId: string,
+		title: string,
+		key: K,
+		values: { obsidian: TaskAttributes[K]; msft: TaskAttributes[K]; baseline: TaskAttributes[K] },
+		push: (value: TaskAttributes[K]) => Promise<void>,
+		pull: (value: TaskAttributes[K]) => Promise<void>,
+		conflicts: TaskConflict[]
+	): Promise<boolean> {
+		const { obsidian, msft, baseline } = values;
+
+		if (obsidian === msft) {
+			if (baseline !== obsidian) {
+				await this.metadataStore.updateMetadataByMsftId(msftTaskId, { [key]: obsidian });
+			}
+			return false;
+		}
+
+		const winner = this.resolveUpdateWinner(obsidian !== baseline, msft !== baseline);
+		if (winner === 'ask') {
+			conflicts.push({ msftTaskId, title, field: key, obsidianValue: obsidian, msftValue: msft });
+			return false;
+		}
+
+		const value = winner === 'obsidian' ? obsidian : msft;
+		if (winner === 'obsidian') {
+			await push(value);
+			this.logger.info(`Pushed ${key} to Microsoft`, { taskId: msftTaskId, [key]: value });
+		} else {
+			await pull(value);
+			this.logger.info(`Pulled ${key} from Microsoft`, { taskId: msftTaskId, [key]: value });
+		}
+
+		await this.metadataStore.updateMetadataByMsftId(msftTaskId, { [key]: value });
+		return true;
+	}
+
+	/**
+	 * 変更を採用する側を判定する。片側のみの変更ならその側、両側の変更は解決方針に従う
+	 */
+	private resolveUpdateWinner(obsidianChanged: boolean, msftChanged: boolean): ConflictResolution {
+		if (!obsidianChanged) return 'microsoft';
+		if (!msftChanged) return 'obsidian';
+		return this.conflictResolution;
+	}
+
+	/**
+	 * 競合モーダルで選ばれた側を記録する
+	 * 前回同期時の値を選ばれなかった側の値にすることで、次回の同期で選ばれた側の値が反映される
+	 */
+	async resolveConflict(conflict: TaskConflict, winner: 'obsidian' | 'microsoft'): Promise<void> {
+		const baseline = winner === 'obsidian' ? conflict.msftValue : conflict.obsidianValue;
+		const updates: Partial<TaskMetadata> = conflict.field === 'title'
+			? { syncedTitle: baseline }
+			: { [conflict.field]: baseline };
+
+		const updated = await this.metadataStore.updateMetadataByMsftId(conflict.msftTaskId, updates);
+		if (!updated) {
+			throw new Error(`${ERROR_CODES.SYNC_CONFLICT}: Task "${conflict.title}" is no longer synced`);
+		}
+		this.logger.info('Sync conflict resolved', { msftTaskId: conflict.msftTaskId, field: conflict.field, winner });
+	}
+
+	/**
+	 * サブタスク（入れ子のチェックボックス）とMicrosoftのステップ（checklistItems）を双方向に同期
+	 * ステップはタスクごとに取得する必要があるため、Microsoft側で変更されたタスクと
+	 * サブタスクが前回同期時から変わったタスクのみを対象にする
+	 */
+	async syncChecklistItems(snapshot?: MsftTaskSnapshot, target?: SyncListTarget): Promise<{ updated: number; errors: string[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		this.logger.info('Syncing checklist items', { list: listTarget.listName });
+		const errors: string[] = [];
+		let updated = 0;
+
+		try {
+			const [allMsftTasks, allDailyTasks] = await Promise.all([
+				snapshot ? snapshot.all : this.apiClient.getTasks(listTarget.listId || undefined),
+				this.getDailyTasksForTarget(listTarget),
+			]);
+			const msftTasksById = new Map(allMsftTasks.map(task => [task.id, task]));
+			// スナップショットがなければMicrosoft側の変更を判定できないため全タスクを対象にする
+			const changedMsftIds = snapshot ? new Set(snapshot.changed.map(task => task.id)) : null;
+			// サブタスクの追加で後続の行番号がずれるため、ノートの下の行から処理する
+			const orderedDailyTasks = [...allDailyTasks].sort((a, b) => b.lineNumber - a.lineNumber);
+
+			for (const dailyTask of orderedDailyTasks) {
+				const noteKey = this.getNoteKey(dailyTask);
+				if (dailyTask.completed || !noteKey) continue;
+
+				const msftTaskId = this.getMsftTaskIdForTask(dailyTask);
+				const msftTask = msftTaskId ? msftTasksById.get(msftTaskId) : undefined;
+				const metadata = msftTask ? this.metadataStore.findByMsftTaskId(msftTask.id) : undefined;
+				if (!msftTask || !metadata) continue;
+
+				const msftChanged = !changedMsftIds || changedMsftIds.has(msftTask.id);
+				if (!msftChanged && !this.hasSubtaskChanges(dailyTask, metadata)) continue;
+
+				try {
+					if (await this.syncTaskChecklist(dailyTask, msftTask.id, metadata, metadata.listId || listTarget.listId)) {
+						updated++;
+					}
+				} catch (error) {
+					const errorMsg = `Failed to sync steps of "${dailyTask.title}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+					errors.push(errorMsg);
+					this.logger.error('Failed to sync checklist items', { taskId: msftTask.id, title: dailyTask.title, error });
+				}
+			}
+
+			this.logger.info('Checklist item sync completed', { updated, errors: errors.length });
+			return { updated, errors };
+
+		} catch (error) {
+			const errorMsg = `Checklist item sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+			errors.push(errorMsg);
+			this.logger.error('Checklist item sync failed', { error });
+			return { updated, errors };
+		}
+	}
+
+	/**
+	 * 1つのタスクのステップとサブタスクを同期し、いずれかを反映した場合はtrueを返す
+	 * 対応付けはタイトルで行い、完了状態は前回同期時の値から変更された側を採用する
+	 * 片側で削除されたステップ・サブタスクは反対側に反映しないが、前回同期時の対応付けを残して再作成を防ぐ
+	 */
+	private async syncTaskChecklist(
+		dailyTask: DailyNoteTask,
+		msftTaskId: string,
+		metadata: TaskMetadata,
+		listId: string
+	): Promise<boolean> {
+		const filePath = dailyTask.filePath;
+		if (!filePath) return false;
+
+		const items = await this.apiClient.getChecklistItems(listId, msftTaskId);
+		const subtasks = dailyTask.subtasks || [];
+		const baseline = metadata.checklist || [];
+		const synced: ChecklistItemMetadata[] = [];
+		const pairedLines = new Set<number>();
+		const newMsftItems: ChecklistItem[] = [];
+		let changed = false;
+
+		for (const item of items) {
+			const previous = baseline.find(entry => entry.id === item.id);
+			const subtask = subtasks.find(candidate =>
+				!pairedLines.has(candidate.lineNumber) &&
+				(candidate.title === item.displayName || candidate.title === previous?.title)
+			);
+			if (!subtask) {
+				if (previous) {
+					synced.push(previous);
+				} else {
+					newMsftItems.push(item);
+				}
+				continue;
+			}
+			pairedLines.add(subtask.lineNumber);
+
+			let completed = subtask.completed;
+			if (subtask.completed !== item.isChecked) {
+				// 初回の対応付けでは完了している側を採用する
+				const obsidianChanged = previous ? subtask.completed !== previous.completed : subtask.completed;
+				if (obsidianChanged) {
+					await this.apiClient.updateChecklistItem(listId, msftTaskId, item.id, subtask.completed);
+				} else {
+					await this.dailyNoteManager.updateTaskCompletion(filePath, subtask.lineNumber, item.isChecked);
+					completed = item.isChecked;
+				}
+				changed = true;
+			}
+			synced.push({ id: item.id, title: subtask.title, completed });
+		}
+
+		// Obsidianで追加されたサブタスクはステップとして作成する
+		for (const subtask of subtasks) {
+			if (pairedLines.has(subtask.lineNumber)) continue;
+			const removedItem = baseline.find(entry => entry.title === subtask.title);
+			if (removedItem) {
+				synced.push(removedItem);
+				continue;
+			}
+
+			const created = await this.apiClient.createChecklistItem(listId, msftTaskId, subtask.title, subtask.completed);
+			synced.push({ id: created.id, title: subtask.title, completed: subtask.completed });
+			changed = true;
+		}
+
+		// Microsoftで追加されたステップはサブタスクの末尾に追加する（既存のサブタスクの行番号は変わらない）
+		for (const item of newMsftItems) {
+			await this.dailyNoteManager.addSubtask(filePath, dailyTask.lineNumber, item.displayName, item.isChecked);
+			synced.push({ id: item.id, title: item.displayName, completed: item.isChecked });
+			changed = true;
+		}
+
+		await this.metadataStore.updateMetadataByMsftId(msftTaskId, { checklist: synced });
+		if (changed) {
+			this.logger.info('Checklist items synced', { taskId: msftTaskId, steps: synced.length });
+		}
+		return changed;
+	}
+
+	/**
+	 * 前回同期時と異なるタイトル・完了状態のサブタスクがあるか
+	 * 削除はMicrosoftに反映しないため判定に含めない
+	 */
+	private hasSubtaskChanges(dailyTask: DailyNoteTask, metadata: TaskMetadata): boolean {
+		const baseline = metadata.checklist || [];
+		return (dailyTask.subtasks || []).some(subtask =>
+			!baseline.some(entry => entry.title === subtask.title && entry.completed === subtask.completed)
+		);
+	}
+
+	detectDuplicates(obsidianTasks: DailyNoteTask[], msftTasks: TodoTask[]): TaskPair[] {
+		const duplicates: TaskPair[] = [];
+
+		for (const obsidianTask of obsidianTasks) {
+			// Skip if we already have metadata for this task
+			const noteKey = this.getNoteKey(obsidianTask);
+			if (!noteKey) continue;
+			
+			const existingMsftId = this.metadataStore.getMsftTaskId(noteKey, obsidianTask.title);
+			if (existingMsftId) continue;
+
+			for (const msftTask of msftTasks) {
+				// Simple title matching for now
+				const titleMatch = this.normalizeTitle(obsidianTask.title) === this.normalizeTitle(msftTask.title);
+				
+				if (titleMatch) {
+					duplicates.push({
+						obsidianTask,
+						msftTask,
+						confidence: 1.0, // Exact title match
+					});
+					break; // Only match each Obsidian task once
+				}
+			}
+		}
+
+		this.logger.debug('Detected duplicates', { count: duplicates.length });
+		return duplicates;
+	}
+
+	private findNewMsftTasks(msftTasks: TodoTask[], dailyTasks: DailyNoteTask[]): TodoTask[] {
+		// Tasks that exist in Microsoft but not in Obsidian
+		const newTasks: TodoTask[] = [];
+		
+		for (const msftTask of msftTasks) {
+			const cleanedTitle = this.cleanTaskTitle(msftTask.title);
+			// Use due date if available, otherwise use creation date (the start of the note's period)
+			const msftTaskDate = this.dailyNoteManager.getPeriodStart(this.getMsftDueDate(msftTask) ||
+				new Date(msftTask.createdDateTime).toISOString().slice(0, 10));
+			
+			// Check if we have metadata for this task
+			const metadata = this.metadataStore.findByMsftTaskId(msftTask.id);
+			if (metadata) continue;
+			
+			// Check if task exists in daily notes by title and date
+			const existsInDailyNotes = dailyTasks.some(dailyTask => 
+				this.normalizeTitle(dailyTask.title) === this.normalizeTitle(cleanedTitle) &&
+				dailyTask.startDate === msftTaskDate
+			);
+			
+			if (!existsInDailyNotes) {
+				newTasks.push(msftTask);
+			}
+		}
+		
+		return newTasks;
+	}
+
+
+	/**
+	 * デルタクエリでMicrosoftタスクを取得し、保存済みの状態に変更を適用する
+	 * デルタトークンが期限切れの場合はフル取得にフォールバック
+	 * 取得に失敗した場合はnullを返し、各フェーズが個別に取得する
+	 */
+	private async fetchMsftTaskSnapshot(listId: string): Promise<MsftTaskSnapshot | null> {
+		if (!listId) return null;
+
+		try {
+			const state = this.metadataStore.getDeltaState(listId);
+			const incremental = state ? await this.fetchIncrementalSnapshot(listId, state) : null;
+			if (incremental) return incremental;
+
+			const delta = await this.apiClient.getTasksDelta(listId);
+			this.logger.info('Fetched full Microsoft task snapshot', { taskCount: delta.tasks.length });
+			return { all: delta.tasks, changed: delta.tasks, removedIds: [], deltaLink: delta.deltaLink };
+		} catch (error) {
+			this.logger.warn('Delta query failed, falling back to full task fetch per phase', {
+				error: error instanceof Error ? error.message : 'Unknown error',
+			});
+			return null;
+		}
+	}
+
+	private async fetchIncrementalSnapshot(listId: string, state: DeltaSyncState): Promise<MsftTaskSnapshot | null> {
+		try {
+			const delta = await this.apiClient.getTasksDelta(listId, state.deltaLink);
+			return this.applyTaskDelta(state, delta);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : '';
+			if (!message.includes(ERROR_CODES.DELTA_TOKEN_EXPIRED)) throw error;
+
+			this.logger.info('Delta token expired, performing full fetch', { listId });
+			await this.metadataStore.clearDeltaState(listId);
+			return null;
+		}
+	}
+
+	private applyTaskDelta(state: DeltaSyncState, delta: TaskDeltaResult): MsftTaskSnapshot {
+		const tasksById = new Map<string, TodoTask>(state.tasks.map(task => [task.id, task]));
+		delta.tasks.forEach(task => tasksById.set(task.id, task));
+		delta.removedIds.forEach(id => tasksById.delete(id));
+
+		const all = Array.from(tasksById.values());
+		this.logger.info('Applied Microsoft task delta', {
+			changed: delta.tasks.length,
+			removed: delta.removedIds.length,
+			total: all.length,
+		});
+		return { all, changed: delta.tasks, removedIds: delta.removedIds, deltaLink: delta.deltaLink };
+	}
+
+	/**
+	 * スナップショットのdeltaLinkとタスク一覧を次回の差分同期用に保存する
+	 * data.jsonはメタデータの保存のたびに書き直されるため、タスクは各フェーズが参照する項目だけを残す
+	 */
+	private async saveDeltaState(listId: string, snapshot: MsftTaskSnapshot): Promise<void> {
+		if (!listId || !snapshot.deltaLink) return;
+		await this.metadataStore.setDeltaState(listId, {
+			deltaLink: snapshot.deltaLink,
+			tasks: snapshot.all.map(task => this.toDeltaTaskState(task)),
+		});
+	}
+
+	/**
+	 * Graphの応答からデルタ同期の状態に保存する項目を取り出す
+	 * 既定値（重要度normal、空のメモ、オフのアラーム）は省略する
+	 */
+	private toDeltaTaskState(task: TodoTask): DeltaTaskState {
+		const { id, title, status, importance, createdDateTime, lastModifiedDateTime, completedDateTime, dueDateTime, body, recurrence, isReminderOn, reminderDateTime } = task;
+		return {
+			id,
+			title,
+			status,
+			createdDateTime,
+			...(importance && importance !== 'normal' ? { importance } : {}),
+			...(lastModifiedDateTime ? { lastModifiedDateTime } : {}),
+			...(completedDateTime ? { completedDateTime } : {}),
+			...(dueDateTime ? { dueDateTime } : {}),
+			...(body?.content ? { body } : {}),
+			...(recurrence ? { recurrence } : {}),
+			...(isReminderOn && reminderDateTime ? { isReminderOn, reminderDateTime } : {}),
+		};
+	}
+
+	/**
+	 * Microsoft側で削除されたタスクを処理
+	 * 削除同期が有効なら削除を保留として記録し、無効ならメタデータを破棄してタスク行はそのまま残す
+	 */
+	private async removeMetadataForDeletedTasks(removedIds: string[]): Promise<void> {
+		for (const msftTaskId of removedIds) {
+			const metadata = this.metadataStore.findByMsftTaskId(msftTaskId);
+			if (!metadata) continue;
+
+			if (this.deletionSync !== 'off' && !metadata.deletedFrom) {
+				await this.metadataStore.updateMetadataByMsftId(msftTaskId, { deletedFrom: 'microsoft', deletedAt: Date.now() });
+				this.logger.info('Recorded pending deletion for task deleted in Microsoft', { msftTaskId });
+				continue;
+			}
+
+			// 両側で削除された場合も含め、対応付けを破棄する
+			await this.metadataStore.removeMetadataByMsftId(msftTaskId);
+			this.logger.info('Removed metadata for task deleted in Microsoft', { msftTaskId });
+		}
+	}
+
+	/**
+	 * 猶予期間を過ぎた保留中の削除を反対側に反映する
+	 * Obsidianで削除されたタスクはMicrosoftでゴミ箱リストへ移動（trash）または削除（delete）、
+	 * Microsoftで削除されたタスクはデイリーノートでキャンセル済みに（trash）または行を削除（delete）する
+	 * 削除同期が無効化された場合は保留中の削除を破棄する
+	 */
+	async syncDeletions(snapshot?: MsftTaskSnapshot, target?: SyncListTarget): Promise<{ deleted: number; errors: string[] }> {
+		const listTarget = target || this.getDefaultListTarget();
+		const defaultListId = this.getDefaultListTarget().listId;
+		const errors: string[] = [];
+		let deleted = 0;
+
+		try {
+			const pending = this.metadataStore.getAllMetadata().filter(metadata =>
+				metadata.deletedFrom && (metadata.listId || defaultListId) === listTarget.listId
+			);
+			if (pending.length === 0) return { deleted, errors };
+
+			this.logger.info('Syncing deletions', { list: listTarget.listName, pending: pending.length });
+			const gracePeriodMs = this.deletionGracePeriodHours * 60 * 60 * 1000;
+			const duePending = pending.filter(metadata =>
+				this.deletionSync === 'off' || Date.now() - (metadata.deletedAt || 0) >= gracePeriodMs
+			);
+
+			let msftTasksById: Map<string, TodoTask> | undefined;
+			// Obsidianで削除され、Microsoftから削除するタスク
+			const pendingMsftDeletions: { metadata: TaskMetadata; listId: string }[] = [];
+			for (const metadata of duePending) {
+				try {
+					if (this.deletionSync === 'off') {
+						this.logger.info('Discarding pending deletion because deletion sync is off', { msftTaskId: metadata.msftTaskId });
+					} else if (metadata.deletedFrom === 'obsidian') {
+						if (!msftTasksById) {
+							const msftTasks = snapshot ? snapshot.all : await this.apiClient.getTasks(listTarget.listId || undefined);
+							msftTasksById = new Map(msftTasks.map(task => [task.id, task]));
+						}
+						const msftTask = msftTasksById.get(metadata.msftTaskId);
+						// 削除はループ後に$batchでまとめて送信する
+						if (msftTask && this.deletionSync === 'delete') {
+							pendingMsftDeletions.push({ metadata, listId: metadata.listId || listTarget.listId });
+							continue;
+						}
+						await this.moveMsftCounterpartToTrash(metadata, msftTask, listTarget);
+						deleted++;
+					} else {
+						await this.deleteObsidianCounterpart(metadata);
+						deleted++;
+					}
+					await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
+				} catch (error) {
+					const errorMsg = `Failed to propagate deletion of "${metadata.title}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+					errors.push(errorMsg);
+					this.logger.error('Failed to propagate task deletion', { msftTaskId: metadata.msftTaskId, error });
+				}
+			}
+
+			for (const [listId, deletions] of this.groupByListId(pendingMsftDeletions)) {
+				const results = await this.apiClient.deleteTasks(listId, deletions.map(deletion => deletion.metadata.msftTaskId));
+				for (const [index, { metadata }] of deletions.entries()) {
+					const { error } = results[index];
+					if (error) {
+						errors.push(`Failed to propagate deletion of "${metadata.title}": ${error.message}`);
+						this.logger.error('Failed to propagate task deletion', { msftTaskId: metadata.msftTaskId, error });
+						continue;
+					}
+					this.logger.info('Deleted Microsoft task deleted in Obsidian', { msftTaskId: metadata.msftTaskId, title: metadata.title });
+					await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
+					deleted++;
+				}
+			}
+
+			this.logger.info('Deletion sync completed', { deleted, errors: errors.length });
+			return { deleted, errors };
+
+		} catch (error) {
+			const errorMsg = `Deletion sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+			errors.push(errorMsg);
+			this.logger.error('Deletion sync failed', { error });
+			return { deleted, errors };
+		}
+	}
+
+	/**
+	 * 保留中の削除をすべて取り消す
+	 * 対応付けを破棄し、次回の同期で削除された側にタスクを作り直す
+	 */
+	async restorePendingDeletions(): Promise<number> {
+		const pending = this.metadataStore.getAllMetadata().filter(metadata => metadata.deletedFrom);
+		for (const metadata of pending) {
+			await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
+		}
+
+		if (pending.length > 0) {
+			// 変更のないMicrosoftタスクもObsidianに追加されるよう、次回はフル取得する
+			await this.metadataStore.clearDeltaState();
+		}
+		this.logger.info('Pending deletions restored', { count: pending.length });
+		return pending.length;
+	}
+
+	private async moveMsftCounterpartToTrash(metadata: TaskMetadata, msftTask: TodoTask | undefined, target: SyncListTarget): Promise<void> {
+		// Microsoft側でも既に削除されている
+		if (!msftTask) return;
+
+		const listId = metadata.listId || target.listId;
+		const trashListId = await this.apiClient.getOrCreateTaskList(DELETED_FROM_OBSIDIAN_LIST_NAME);
+		await this.apiClient.moveTaskToList(listId, msftTask, trashListId);
+		this.logger.info('Moved task deleted in Obsidian to trash list', { msftTaskId: msftTask.id, title: metadata.title });
+	}
+
+	private async deleteObsidianCounterpart(metadata: TaskMetadata): Promise<void> {
+		const isVaultNote = this.isVaultNoteKey(metadata.date);
+		const filePath = isVaultNote ? metadata.date : this.dailyNoteManager.getNotePath(metadata.date);
+		const dailyTasks = isVaultNote
+			? (await this.getVaultTasksForAllTargets()).filter(task => task.filePath === filePath)
+			: await this.getDailyNoteTasksForAllTargets(filePath);
+		const dailyTask = this.findTaskForMetadata(dailyTasks, metadata);
+		// Obsidian側でも既に削除されている
+		if (!dailyTask) return;
+
+		if (this.deletionSync === 'trash') {
+			await this.dailyNoteManager.cancelTask(filePath, dailyTask.lineNumber);
+			this.logger.info('Cancelled task deleted in Microsoft', { filePath, title: metadata.title });
+		} else {
+			await this.dailyNoteManager.removeTaskLine(filePath, dailyTask.lineNumber);
+			this.logger.info('Removed task deleted in Microsoft', { filePath, title: metadata.title });
+		}
+	}
+
+	/**
+	 * 項目をリストIDごとにまとめる（$batchで送信するAPIはリストごとに呼び出すため）
+	 */
+	private groupByListId<T extends { listId: string }>(items: T[]): Map<string, T[]> {
+		const groups = new Map<string, T[]>();
+		for (const item of items) {
+			groups.set(item.listId, [...(groups.get(item.listId) || []), item]);
+		}
+		return groups;
+	}
+
+	/**
+	 * 同期対象のリスト一覧（既定リスト + 追加リスト）
+	 */
+	private getListTargets(): SyncListTarget[] {
+		const defaultTarget = this.getDefaultListTarget();
+		const targets = [defaultTarget];
+
+		for (const target of this.additionalListTargets) {
+			if (target.listId === defaultTarget.listId) {
+				// 既定リストのマッピングは見出し・タグの上書きとして扱う
+				targets[0] = { ...target, listId: defaultTarget.listId };
+				continue;
+			}
+			targets.push(target);
+		}
+		return targets;
+	}
+
+	private getDefaultListTarget(): SyncListTarget {
+		return {
+			listId: this.apiClient.getDefaultListId() || '',
+			listName: this.defaultListName,
+			sectionHeading: this.taskSectionHeading,
+		};
+	}
+
+	private getSectionHeading(target: SyncListTarget): string | undefined {
+		return target.sectionHeading || this.taskSectionHeading;
+	}
+
+	/**
+	 * リストに対応するデイリーノートタスクを取得
+	 * タグ付きリストはタグを含むタスクのみ（タイトルからタグを除去）、
+	 * タグなしリストは他リストのタグを含まないタスクのみを対象とする
+	 * ボルト全体の同期が有効なら、デイリーノート以外のノートのタスクも含める
+	 */
+	private async getDailyTasksForTarget(target: SyncListTarget): Promise<DailyNoteTask[]> {
+		const tasks = await this.dailyNoteManager.getAllDailyNoteTasks(this.getSectionHeading(target));
+		return [
+			...this.filterTasksForTarget(tasks, target),
+			...await this.getVaultTasksForTarget(target),
+		];
+	}
+
+	/**
+	 * リストに対応するボルトのタスクを取得
+	 * ボルトのノートには見出しの区別がないため、タグのないタスクは既定リストのみが対象とする
+	 */
+	private async getVaultTasksForTarget(target: SyncListTarget): Promise<DailyNoteTask[]> {
+		if (!this.vaultSync) return [];
+
+		const tasks = await this.dailyNoteManager.getVaultTasks(this.vaultSync);
+		if (target.tag) {
+			return this.filterTasksForTarget(tasks, target);
+		}
+		if (target.listId !== this.getListTargets()[0].listId) return [];
+
+		const otherTags = this.getListTargets()
+			.filter(other => other.tag)
+			.map(other => other.tag as string);
+		return tasks.filter(task => !otherTags.some(tag => this.hasTag(task.title, tag)));
+	}
+
+	/**
+	 * メタデータのキーに使うノートの識別子（デイリーノートは日付、ボルトのノートはファイルパス）
+	 */
+	private getNoteKey(task: DailyNoteTask): string | undefined {
+		return task.startDate || task.filePath;
+	}
+
+	/**
+	 * タスクに対応するMicrosoftタスクIDを取得
+	 * 安定IDを持つタスクはIDのみで照合し、同じノートの同名タスクを取り違えないようにする
+	 */
+	private getMsftTaskIdForTask(task: DailyNoteTask): string | undefined {
+		if (task.blockId) {
+			return this.metadataStore.findByBlockId(task.blockId)?.msftTaskId;
+		}
+		const noteKey = this.getNoteKey(task);
+		return noteKey ? this.metadataStore.getMsftTaskId(noteKey, this.cleanTaskTitle(task.title)) : undefined;
+	}
+
+	/**
+	 * メタデータに対応するタスクを探す（安定IDがあればID、なければノートとタイトルで照合）
+	 */
+	private findTaskForMetadata(tasks: DailyNoteTask[], metadata: TaskMetadata): DailyNoteTask | undefined {
+		if (metadata.blockId) {
+			return tasks.find(task => task.blockId === metadata.blockId);
+		}
+		return tasks.find(task =>
+			this.getNoteKey(task) === metadata.date &&
+			this.cleanTaskTitle(task.title) === metadata.title
+		);
+	}
+
+	/**
+	 * タスク行に新しい安定IDを付け、メタデータをIDで引けるようにする
+	 */
+	private async assignBlockId(filePath: string, lineNumber: number, msftTaskId: string): Promise<void> {
+		const blockId = this.generateBlockId();
+		await this.dailyNoteManager.setTaskBlockId(filePath, lineNumber, blockId);
+		await this.metadataStore.updateMetadataByMsftId(msftTaskId, { blockId });
+	}
+
+	/**
+	 * 未使用の安定IDを生成（"mst-" + 英数字6文字）
+	 */
+	private generateBlockId(): string {
+		let blockId: string;
+		do {
+			blockId = BLOCK_ID_PREFIX + Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+		} while (this.metadataStore.findByBlockId(blockId));
+		return blockId;
+	}
+
+	private isVaultNoteKey(noteKey: string): boolean {
+		return noteKey.endsWith('.md');
+	}
+
+	private filterTasksForTarget(tasks: DailyNoteTask[], target: SyncListTarget): DailyNoteTask[] {
+		if (target.tag) {
+			const tag = target.tag;
+			return tasks
+				.filter(task => this.hasTag(task.title, tag))
+				.map(task => ({ ...task, title: this.removeTag(task.title, tag) }));
+		}
+
+		const otherTags = this.getListTargets()
+			.filter(other => other.tag && this.getSectionHeading(other) === this.getSectionHeading(target))
+			.map(other => other.tag as string);
+		return tasks.filter(task => !otherTags.some(tag => this.hasTag(task.title, tag)));
+	}
+
+	private hasTag(title: string, tag: string): boolean {
+		return this.buildTagPattern(tag).test(title);
+	}
+
+	private removeTag(title: string, tag: string): string {
+		return title.replace(this.buildTagPattern(tag), ' ').replace(/\s+/g, ' ').trim();
+	}
+
+	private buildTagPattern(tag: string): RegExp {
+		const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		return new RegExp(`(^|\\s)${escaped}(?=\\s|$)`, 'g');
+	}
+
+	private async ensureNoteExists(notePath: string, date: string): Promise<void> {
+		try {
+			// Use DailyNoteManager to create the note with template support
+			await this.dailyNoteManager.createDailyNote(date);
+			this.logger.info('Ensured daily note exists', { notePath, date });
+		} catch (error) {
+			this.logger.error('Failed to ensure note exists', { notePath, date, error });
+			throw error;
+		}
+	}
+
+	private async cleanMicrosoftTodoTitles(tasks: TodoTask[], targetListId?: string): Promise<void> {
+		const listId = targetListId || this.apiClient.getDefaultListId();
+		if (!listId) return;
+
+		const tasksToClean = tasks.filter(task => task.title.includes('[todo::'));
+		if (tasksToClean.length === 0) return;
+
+		// タイトルの更新は$batchでまとめて送信する
+		this.recorder?.labelNextWrite('titleCleanup');
+		const results = await this.apiClient.updateTaskTitles(listId, tasksToClean.map(task => ({
+			taskId: task.id,
+			title: this.cleanTaskTitle(task.title),
+		})));
+
+		for (const [index, task] of tasksToClean.entries()) {
+			const cleanedTitle = this.cleanTaskTitle(task.title);
+			const { error } = results[index];
+			if (error) {
+				this.logger.error('Failed to clean Microsoft Todo task title', {
+					taskId: task.id,
+					title: task.title,
+					error
+				});
+				continue;
+			}
+			this.logger.info('[DEBUG] Cleaned Microsoft Todo task title', {
+				taskId: task.id,
+				originalTitle: task.title,
+				cleanedTitle: cleanedTitle
+			});
+			// Update the task object with cleaned title
+			task.title = cleanedTitle;
+		}
+	}
+
+	/**
+	 * Microsoft Todoタスクの同期対象属性を取得（重要度normalは省略）
+	 */
+	private getMsftAttributes(task: TodoTask): TaskAttributes {
+		const dueDate = this.getMsftDueDate(task);
+		const notes = this.getMsftNotes(task);
+		const recurrence = RecurrenceRule.fromGraph(task.recurrence);
+		const reminder = this.getMsftReminder(task);
+		return {
+			...(dueDate ? { dueDate } : {}),
+			...(task.importance && task.importance !== 'normal' ? { importance: task.importance } : {}),
+			...(recurrence ? { recurrence } : {}),
+			...(reminder ? { reminder } : {}),
+			...(notes ? { notes } : {}),
+		};
+	}
+
+	private getObsidianAttributes(task: DailyNoteTask): TaskAttributes {
+		return {
+			...(task.dueDate ? { dueDate: task.dueDate } : {}),
+			...(task.importance && task.importance !== 'normal' ? { importance: task.importance } : {}),
+			...(task.recurrence ? { recurrence: task.recurrence } : {}),
+			...(task.reminder ? { reminder: task.reminder } : {}),
+			...(task.notes ? { notes: task.notes } : {}),
+		};
+	}
+
+	/**
+	 * Microsoft Todoタスクの本文をプレーンテキストのメモとして取得
+	 * HTML本文（Outlookで作成されたタスクなど）はタグを除去して改行に変換する
+	 */
+	private getMsftNotes(task: TodoTask): string | undefined {
+		if (!task.body?.content) return undefined;
+
+		let text = task.body.content;
+		if (task.body.contentType?.toLowerCase() === 'html') {
+			text = text
+				.replace(/<br\s*\/?>/gi, '\n')
+				.replace(/<\/(p|div|li)>/gi, '\n')
+				.replace(/<[^>]+>/g, '')
+				.replace(/&nbsp;/g, ' ')
+				.replace(/&lt;/g, '<')
+				.replace(/&gt;/g, '>')
+				.replace(/&quot;/g, '"')
+				.replace(/&#39;/g, "'")
+				.replace(/&amp;/g, '&');
+		}
+
+		const notes = text.replace(/\r\n?/g, '\n')
+			.split('\n')
+			.map(line => line.trimEnd())
+			.join('\n')
+			.trim();
+		return notes || undefined;
+	}
+
+	/**
+	 * Microsoft Todoタスクの期日をローカル日付（YYYY-MM-DD）で取得
+	 */
+	private getMsftDueDate(task: TodoTask): string | undefined {
+		if (!task.dueDateTime) return undefined;
+
+		// UTC 0時の期日はプラグインが送る日付のみの値のため、タイムゾーン変換せずに日付部分を使う
+		const utcMidnight = task.dueDateTime.dateTime.match(/^(\d{4}-\d{2}-\d{2})T00:00:00(?:\.0+)?Z?$/);
+		if (utcMidnight) {
+			return utcMidnight[1];
+		}
+
+		// Microsoft To Doアプリで設定された期日はローカル日付の0時をUTCで表現しているため、ローカル日付に変換する
+		// API応答にはZサフィックスがない場合があるため、UTC時間として確実に解析するために追加する
+		let dueDateTimeStr = task.dueDateTime.dateTime;
+		if (!dueDateTimeStr.endsWith('Z')) {
+			dueDateTimeStr += 'Z';
+		}
+
+		// JavaScriptのDateオブジェクトは自動的にローカルタイムゾーンに変換される
+		// そのため、getFullYear/getMonth/getDateを使用すれば正しいローカル日付が取得できる
+		const dueDate = new Date(dueDateTimeStr);
+		const year = dueDate.getFullYear();
+		const month = String(dueDate.getMonth() + 1).padStart(2, '0');
+		const day = String(dueDate.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day}`;
+	}
+
+	/**
+	 * Microsoft Todoタスクのリマインダーをローカル日時（YYYY-MM-DD HH:mm）で取得
+	 * 期日と同様にUTCとして解析し、ローカルタイムゾーンに変換する
+	 */
+	private getMsftReminder(task: TodoTask): string | undefined {
+		if (!task.isReminderOn || !task.reminderDateTime) return undefined;
+
+		let reminderStr = task.reminderDateTime.dateTime;
+		if (!reminderStr.endsWith('Z')) {
+			reminderStr += 'Z';
+		}
+
+		const reminder = new Date(reminderStr);
+		const month = String(reminder.getMonth() + 1).padStart(2, '0');
+		const day = String(reminder.getDate()).padStart(2, '0');
+		const hours = String(reminder.getHours()).padStart(2, '0');
+		const minutes = String(reminder.getMinutes()).padStart(2, '0');
+		return `${reminder.getFullYear()}-${month}-${day} ${hours}:${minutes}`;
+	}
+
+	private normalizeTitle(title: string): string {
+		return title.trim().toLowerCase().replace(/\s+/g, ' ');
+	}
+
+	private parseCompletionDate(task: TodoTask): string {
+		// No completedDateTime provided, use current date
+		if (!task.completedDateTime) {
+			return new Date().toISOString().slice(0, 10);
+		}
+
+		// Handle both string and object formats from Microsoft Graph API
+		let dateTimeString: string;
+		if (typeof task.completedDateTime === 'object' && 'dateTime' in task.completedDateTime) {
+			// Handle object format: { dateTime: string, timeZone: string }
+			dateTimeString = (task.completedDateTime as any).dateTime;
+		} else if (typeof task.completedDateTime === 'string') {
 			dateTimeString = task.completedDateTime;
 		} else {
 			this.logger.warn('Unexpected completedDateTime format, using current date', {
@@ -738,150 +2210,324 @@ export class TodoSynchronizer {
 			// デイリーノートファイルから日付を抽出
 			const existingDates = new Set<string>();
 			for (const file of dailyNoteFiles) {
-				const date = this.extractDateFromFilename(file.basename);
+				const date = this.dailyNoteManager.extractDateFromFilename(file.path);
 				if (date) {
 					existingDates.add(date);
 				}
 			}
 			
+			// すべてのノートのタスクを先に取得する（安定IDを持つタスクのノート間の移動を検出するため）
+			const noteTasks = new Map<string, DailyNoteTask[]>();
+			for (const file of dailyNoteFiles) {
+				const date = this.dailyNoteManager.extractDateFromFilename(file.path);
+				if (!date) continue;
+
+				// その日のデイリーノートタスクを取得（すべての同期対象リスト分）
+				noteTasks.set(date, await this.getDailyNoteTasksForAllTargets(file.path));
+			}
+			if (this.vaultSync) {
+				const vaultTasks = await this.getVaultTasksForAllTargets();
+				for (const file of this.dailyNoteManager.getVaultNoteFiles(this.vaultSync)) {
+					noteTasks.set(file.path, vaultTasks.filter(task => task.filePath === file.path));
+				}
+			}
+			await this.relocateMovedTasks(noteTasks);
+
 			// すべてのメタデータを取得
 			const allMetadata = this.metadataStore.getAllMetadata();
 			
-			// デイリーノートファイルが存在しない日付のメタデータを削除
+			// デイリーノートファイルが存在しない日付のタスクは削除されたものとして扱う
+			// ボルトのノートのタスクは、同期が有効でファイル自体が削除された場合のみ削除とみなす
+			// （include/excludeの変更で同期対象から外れただけのノートのタスクは削除しない）
 			for (const metadata of allMetadata) {
-				if (!existingDates.has(metadata.date)) {
-					this.logger.info('デイリーノートファイルが存在しない日付のメタデータを削除', {
+				if (metadata.deletedFrom) continue;
+				const deleted = this.isVaultNoteKey(metadata.date)
+					? this.vaultSync !== null && this.dailyNoteManager.getFileModifiedTime(metadata.date) === undefined
+					: !existingDates.has(metadata.date);
+				if (deleted) {
+					this.logger.info('デイリーノートファイルが存在しない日付のタスクを削除として記録', {
 						date: metadata.date,
 						title: metadata.title,
 						msftTaskId: metadata.msftTaskId
 					});
-					await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
+					await this.recordObsidianDeletion(metadata);
 				}
 			}
 			
-			// 日付ごとにタスクを処理
-			for (const file of dailyNoteFiles) {
-				const date = this.extractDateFromFilename(file.basename);
-				if (!date) continue;
+			// ノートごとにタスクを処理
+			for (const [noteKey, tasks] of noteTasks) {
+				await this.reconcileNoteTasks(noteKey, tasks);
+			}
 
-				// その日のデイリーノートタスクを取得
-				const dailyNoteTasks = await this.dailyNoteManager.getDailyNoteTasks(
-					file.path,
-					this.taskSectionHeading
-				);
+			this.logger.info('内部同期が完了しました');
+
+		} catch (error) {
+			const context: ErrorContext = {
+				component: 'TodoSynchronizer',
+				method: 'reconcileMetadataWithDailyNotes',
+				timestamp: new Date().toISOString(),
+				details: { error }
+			};
+			this.logger.error('内部同期中にエラーが発生しました', context);
+			// エラーは記録するが、同期プロセス全体は継続
+		}
+	}
+
+	/**
+	 * 1つのノートのタスクとメタデータを照合し、タイトル変更と削除を記録する
+	 */
+	private async reconcileNoteTasks(noteKey: string, dailyNoteTasks: DailyNoteTask[]): Promise<void> {
+		// そのノートのメタデータを取得（削除保留中のものは照合対象外）
+		// 猶予期間中にObsidianでタスクが戻された場合は削除を取り消す
+		const metadataList: TaskMetadata[] = [];
+		for (const metadata of this.metadataStore.getMetadataByDate(noteKey)) {
+			const restored = metadata.blockId
+				? dailyNoteTasks.some(task => task.blockId === metadata.blockId)
+				: dailyNoteTasks.some(task => task.title === metadata.title);
+			if (metadata.deletedFrom === 'obsidian' && restored) {
+				this.logger.info('削除保留中のタスクがデイリーノートに戻されたため削除を取り消し', { title: metadata.title, date: noteKey });
+				await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, { deletedFrom: undefined, deletedAt: undefined });
+				metadataList.push({ ...metadata, deletedFrom: undefined, deletedAt: undefined });
+			} else if (!metadata.deletedFrom) {
+				metadataList.push(metadata);
+			}
+		}
+
+		// 安定IDを持つタスクはIDで照合する（タイトルを変えても、同名のタスクがあっても対応付けが保たれる）
+		const trackedTasks = new Set<DailyNoteTask>();
+		const legacyMetadataList: TaskMetadata[] = [];
+		for (const metadata of metadataList) {
+			if (!metadata.blockId) {
+				legacyMetadataList.push(metadata);
+				continue;
+			}
+
+			const task = dailyNoteTasks.find(task => task.blockId === metadata.blockId)
+				|| await this.restoreBlockId(metadata, dailyNoteTasks);
+			if (!task) {
+				this.logger.info('タスクの削除を検出', { title: metadata.title, blockId: metadata.blockId, date: noteKey });
+				await this.recordObsidianDeletion(metadata);
+				continue;
+			}
+
+			trackedTasks.add(task);
+			if (task.title !== metadata.title) {
+				this.logger.info('安定IDでタスクタイトルの変更を検出', { oldTitle: metadata.title, newTitle: task.title, blockId: metadata.blockId });
+				await this.recordLocalRename(metadata, task.title);
+			}
+		}
 
-				// その日のメタデータを取得
-				const metadataList = this.metadataStore.getMetadataByDate(date);
+		// 以降は安定IDを持たないメタデータとタスクを日付とタイトルで照合する
+		const untrackedTasks = dailyNoteTasks.filter(task => !trackedTasks.has(task));
+
+		// 位置ベースのマッチングを試みる
+		// メタデータとデイリーノートのタスクを順番で比較
+		const processedMsftIds = new Set<string>();
+		
+		// まず、完全一致するタスクをマーク
+		for (const metadata of legacyMetadataList) {
+			const exactMatch = untrackedTasks.find(task => task.title === metadata.title);
+			if (exactMatch) {
+				processedMsftIds.add(metadata.msftTaskId);
+			}
+		}
 
-				// 位置ベースのマッチングを試みる
-				// メタデータとデイリーノートのタスクを順番で比較
-				const processedMsftIds = new Set<string>();
+		// 位置ベースのマッチング（タスク数が同じ場合）
+		if (legacyMetadataList.length === untrackedTasks.length) {
+			for (let i = 0; i < legacyMetadataList.length; i++) {
+				const metadata = legacyMetadataList[i];
+				const dailyTask = untrackedTasks[i];
 				
-				// まず、完全一致するタスクをマーク
-				for (const metadata of metadataList) {
-					const exactMatch = dailyNoteTasks.find(task => task.title === metadata.title);
-					if (exactMatch) {
-						processedMsftIds.add(metadata.msftTaskId);
-					}
+				if (!processedMsftIds.has(metadata.msftTaskId) && 
+					metadata.title !== dailyTask.title) {
+					// 位置は同じだがタイトルが異なる
+					this.logger.info('位置ベースでタスクタイトルの変更を検出', {
+						oldTitle: metadata.title,
+						newTitle: dailyTask.title,
+						position: i,
+						date: noteKey
+					});
+
+					await this.recordLocalRename(metadata, dailyTask.title);
+					processedMsftIds.add(metadata.msftTaskId);
 				}
+			}
+		}
 
-				// 位置ベースのマッチング（タスク数が同じ場合）
-				if (metadataList.length === dailyNoteTasks.length) {
-					for (let i = 0; i < metadataList.length; i++) {
-						const metadata = metadataList[i];
-						const dailyTask = dailyNoteTasks[i];
-						
-						if (!processedMsftIds.has(metadata.msftTaskId) && 
-							metadata.title !== dailyTask.title) {
-							// 位置は同じだがタイトルが異なる
-							this.logger.info('位置ベースでタスクタイトルの変更を検出', {
-								oldTitle: metadata.title,
-								newTitle: dailyTask.title,
-								position: i,
-								date
-							});
+		// タスクの削除を検出：メタデータにあってデイリーノートにないタスク
+		for (const metadata of legacyMetadataList) {
+			if (processedMsftIds.has(metadata.msftTaskId)) continue;
 
-							await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, {
-								title: dailyTask.title
-							});
-							processedMsftIds.add(metadata.msftTaskId);
-						}
-					}
+			const existsInDailyNote = untrackedTasks.some(
+				task => task.title === metadata.title
+			);
+
+			if (!existsInDailyNote) {
+				// タスクが削除された場合の処理を検討
+				const possibleMatch = this.findPossibleTaskMatch(metadata, untrackedTasks);
+				
+				if (possibleMatch) {
+					// タイトルが変更された可能性
+					this.logger.info('タスクタイトルの変更を検出', {
+						oldTitle: metadata.title,
+						newTitle: possibleMatch.title,
+						date: noteKey
+					});
+
+					// メタデータを更新（Microsoftへの反映はsyncTaskUpdatesで行う）
+					await this.recordLocalRename(metadata, possibleMatch.title);
+				} else {
+					// タスクが完全に削除された
+					this.logger.info('タスクの削除を検出', {
+						title: metadata.title,
+						date: noteKey
+					});
+
+					await this.recordObsidianDeletion(metadata);
 				}
+			}
+		}
 
-				// タスクの削除を検出：メタデータにあってデイリーノートにないタスク
-				for (const metadata of metadataList) {
-					if (processedMsftIds.has(metadata.msftTaskId)) continue;
+		// 変更されたタスクを検出：位置や部分一致で判定
+		const unmatchedTasks = untrackedTasks.filter(
+			task => !this.metadataStore.hasMetadataForTask(noteKey, task.title)
+		);
 
-					const existsInDailyNote = dailyNoteTasks.some(
-						task => task.title === metadata.title
-					);
+		for (const unmatchedTask of unmatchedTasks) {
+			// 部分一致でメタデータを探す
+			const partialMatch = this.metadataStore.findByPartialTitle(noteKey, unmatchedTask.title);
+			
+			if (partialMatch && !partialMatch.blockId) {
+				this.logger.info('部分一致によるタスクの変更を検出', {
+					oldTitle: partialMatch.title,
+					newTitle: unmatchedTask.title,
+					date: noteKey
+				});
 
-					if (!existsInDailyNote) {
-						// タスクが削除された場合の処理を検討
-						const possibleMatch = this.findPossibleTaskMatch(metadata, dailyNoteTasks);
-						
-						if (possibleMatch) {
-							// タイトルが変更された可能性
-							this.logger.info('タスクタイトルの変更を検出', {
-								oldTitle: metadata.title,
-								newTitle: possibleMatch.title,
-								date
-							});
+				// メタデータを更新
+				await this.recordLocalRename(partialMatch, unmatchedTask.title);
+			}
+		}
+	}
 
-							// メタデータを更新
-							await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, {
-								title: possibleMatch.title
-							});
-						} else {
-							// タスクが完全に削除された
-							this.logger.info('タスクの削除を検出', {
-								title: metadata.title,
-								date
-							});
+	/**
+	 * 安定IDを持つタスクが別のノートに移動していれば、メタデータのノートを付け替える
+	 */
+	private async relocateMovedTasks(noteTasks: Map<string, DailyNoteTask[]>): Promise<void> {
+		for (const [noteKey, tasks] of noteTasks) {
+			for (const task of tasks) {
+				const metadata = task.blockId ? this.metadataStore.findByBlockId(task.blockId) : undefined;
+				if (!metadata || metadata.date === noteKey) continue;
+
+				this.logger.info('安定IDでタスクの移動を検出', { title: metadata.title, from: metadata.date, to: noteKey });
+				await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, { date: noteKey });
+			}
+		}
+	}
 
-							// メタデータを削除
-							await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
-						}
-					}
-				}
+	/**
+	 * 行からブロック参照が消えたタスクに安定IDを付け直す
+	 * 同じノートにIDを持たない同名のタスクがあれば、それを同じタスクとみなす
+	 */
+	private async restoreBlockId(metadata: TaskMetadata, dailyNoteTasks: DailyNoteTask[]): Promise<DailyNoteTask | undefined> {
+		const task = dailyNoteTasks.find(task => !task.blockId && task.title === metadata.title);
+		if (!task?.filePath || !metadata.blockId) return undefined;
 
-				// 変更されたタスクを検出：位置や部分一致で判定
-				const unmatchedTasks = dailyNoteTasks.filter(
-					task => !this.metadataStore.hasMetadataForTask(date, task.title)
-				);
+		await this.dailyNoteManager.setTaskBlockId(task.filePath, task.lineNumber, metadata.blockId);
+		this.logger.info('消えた安定IDをタスクに付け直しました', { title: metadata.title, blockId: metadata.blockId });
+		return task;
+	}
 
-				for (const unmatchedTask of unmatchedTasks) {
-					// 部分一致でメタデータを探す
-					const partialMatch = this.metadataStore.findByPartialTitle(date, unmatchedTask.title);
-					
-					if (partialMatch) {
-						this.logger.info('部分一致によるタスクの変更を検出', {
-							oldTitle: partialMatch.title,
-							newTitle: unmatchedTask.title,
-							date
-						});
+	/**
+	 * 安定IDを持たない同期済みのタスクにIDを付け、メタデータをIDで引けるようにする（移行処理）
+	 * 安定IDを有効にした後の最初の同期で既存のタスクに適用される
+	 */
+	async backfillBlockIds(): Promise<number> {
+		let migrated = 0;
+		const allTasks: DailyNoteTask[] = [];
+		for (const file of await this.dailyNoteManager.getDailyNoteFiles()) {
+			if (!this.dailyNoteManager.extractDateFromFilename(file.path)) continue;
+			allTasks.push(...await this.getDailyNoteTasksForAllTargets(file.path));
+		}
+		if (this.vaultSync) {
+			allTasks.push(...await this.getVaultTasksForAllTargets());
+		}
 
-						// メタデータを更新
-						await this.metadataStore.updateMetadataByMsftId(partialMatch.msftTaskId, {
-							title: unmatchedTask.title
-						});
-					}
-				}
+		for (const task of allTasks) {
+			const noteKey = this.getNoteKey(task);
+			if (task.blockId || !noteKey || !task.filePath) continue;
+
+			const msftTaskId = this.metadataStore.getMsftTaskId(noteKey, this.cleanTaskTitle(task.title));
+			const metadata = msftTaskId ? this.metadataStore.findByMsftTaskId(msftTaskId) : undefined;
+			if (!metadata || metadata.blockId || metadata.deletedFrom) continue;
+
+			try {
+				await this.assignBlockId(task.filePath, task.lineNumber, metadata.msftTaskId);
+				migrated++;
+			} catch (error) {
+				this.logger.error('Failed to assign stable task ID', { title: task.title, filePath: task.filePath, error });
 			}
+		}
 
-			this.logger.info('内部同期が完了しました');
+		if (migrated > 0) {
+			this.logger.info('Assigned stable task IDs to synced tasks', { migrated });
+		}
+		return migrated;
+	}
 
-		} catch (error) {
-			const context: ErrorContext = {
-				component: 'TodoSynchronizer',
-				method: 'reconcileMetadataWithDailyNotes',
-				timestamp: new Date().toISOString(),
-				details: { error }
-			};
-			this.logger.error('内部同期中にエラーが発生しました', context);
-			// エラーは記録するが、同期プロセス全体は継続
+	/**
+	 * Obsidianでのタイトル変更をメタデータに記録する
+	 * 変更前のタイトルをsyncedTitleとして残し、syncTaskUpdatesでMicrosoftに反映させる
+	 */
+	private async recordLocalRename(metadata: TaskMetadata, newTitle: string): Promise<void> {
+		await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, {
+			title: newTitle,
+			syncedTitle: metadata.syncedTitle ?? metadata.title,
+		});
+	}
+
+	/**
+	 * Obsidianでのタスク削除を記録する
+	 * 削除同期が有効なら保留として残し（対応付けが残るため再作成されない）、無効ならメタデータを破棄する
+	 */
+	private async recordObsidianDeletion(metadata: TaskMetadata): Promise<void> {
+		if (this.deletionSync === 'off') {
+			await this.metadataStore.removeMetadataByMsftId(metadata.msftTaskId);
+			return;
+		}
+		await this.metadataStore.updateMetadataByMsftId(metadata.msftTaskId, { deletedFrom: 'obsidian', deletedAt: Date.now() });
+	}
+
+	/**
+	 * 1つのデイリーノートから全リストのタスクを取得（行番号で重複排除）
+	 */
+	private async getDailyNoteTasksForAllTargets(filePath: string): Promise<DailyNoteTask[]> {
+		const tasksByLine = new Map<number, DailyNoteTask>();
+		for (const target of this.getListTargets()) {
+			const tasks = await this.dailyNoteManager.getDailyNoteTasks(filePath, this.getSectionHeading(target));
+			for (const task of this.filterTasksForTarget(tasks, target)) {
+				if (!tasksByLine.has(task.lineNumber)) {
+					tasksByLine.set(task.lineNumber, task);
+				}
+			}
+		}
+		return Array.from(tasksByLine.values()).sort((a, b) => a.lineNumber - b.lineNumber);
+	}
+
+	/**
+	 * ボルトのノートから全リストのタスクを取得（ファイルと行番号で重複排除）
+	 */
+	private async getVaultTasksForAllTargets(): Promise<DailyNoteTask[]> {
+		const tasksByLine = new Map<string, DailyNoteTask>();
+		for (const target of this.getListTargets()) {
+			for (const task of await this.getVaultTasksForTarget(target)) {
+				const key = `${task.filePath}:${task.lineNumber}`;
+				if (!tasksByLine.has(key)) {
+					tasksByLine.set(key, task);
+				}
+			}
 		}
+		return Array.from(tasksByLine.values()).sort((a, b) => a.lineNumber - b.lineNumber);
 	}
 
 	/**
@@ -913,43 +2559,4 @@ export class TodoSynchronizer {
 
 		return null;
 	}
-
-	/**
-	 * ファイル名から日付を抽出
-	 */
-	private extractDateFromFilename(filename: string): string | null {
-		// 一般的な日付形式にマッチ
-		const datePatterns = [
-			/(\d{4}-\d{2}-\d{2})/,     // YYYY-MM-DD
-			/(\d{2}-\d{2}-\d{4})/,     // DD-MM-YYYY or MM-DD-YYYY
-			/(\d{4}\/\d{2}\/\d{2})/,   // YYYY/MM/DD
-			/(\d{2}\/\d{2}\/\d{4})/,   // DD/MM/YYYY or MM/DD/YYYY
-		];
-
-		for (const pattern of datePatterns) {
-			const match = filename.match(pattern);
-			if (match) {
-				// 日付を YYYY-MM-DD 形式に正規化
-				const datePart = match[1];
-				
-				// すでに YYYY-MM-DD 形式の場合
-				if (/\d{4}-\d{2}-\d{2}/.test(datePart)) {
-					return datePart;
-				}
-				
-				// 他の形式から変換（簡易実装）
-				// より複雑な日付解析が必要な場合は、設定に基づいて処理
-				try {
-					const date = new Date(datePart);
-					if (!isNaN(date.getTime())) {
-						return date.toISOString().split('T')[0];
-					}
-				} catch {
-					// 解析失敗時は無視
-				}
-			}
-		}
-
-		return null;
-	}
-}
\ No newline at end of file
+}
@@ -13,12 +13,71 @@ export interface TodoIntegratorSettings {
 	dailyNoteDateFormat: string;
 	dailyNoteTemplate?: string;
 	taskSectionHeading: string;
+	listMappings: TodoListMapping[];
+	deletionSync: DeletionSyncMode;
+	deletionGracePeriodHours: number;
+	conflictResolution: ConflictResolution;
+	vaultWideSync: boolean;
+	vaultSyncInclude: string[];
+	vaultSyncExclude: string[];
+	vaultSyncTag: string;
+	stableTaskIds: boolean;
+	notePeriod: NotePeriod;
+	taskInsertPosition: TaskInsertPosition;
+	listSubheadings: boolean;
+	listSubheadingLevel: number;
+	taskSectionAnchor: string;
+	carryOverTasks: CarryOverMode;
 	// Inheritance flags to track if user has manually set these values
 	_userSetDailyNotesPath?: boolean;
 	_userSetDailyNoteDateFormat?: boolean;
 	_userSetDailyNoteTemplate?: boolean;
 }
 
+// How deleting a task on one side is propagated to the other
+// off: only forget the pairing, trash: move to a trash list / cancel the line, delete: delete the counterpart
+export type DeletionSyncMode = 'off' | 'trash' | 'delete';
+
+// How much time one note covers; tasks are filed under the note of the period containing their date
+export type NotePeriod = 'daily' | 'weekly' | 'monthly';
+
+// Where imported tasks go among the existing tasks (dueDate / importance: kept sorted, tasks without a due date last)
+export type TaskInsertPosition = 'bottom' | 'top' | 'dueDate' | 'importance';
+
+// How imported tasks are laid out in the task section of a note
+export interface TaskPlacement {
+	position: TaskInsertPosition;
+	listSubheadings: boolean; // Group tasks under a sub-heading named after their list
+	subheadingLevel: number; // Level of the list sub-headings (at least one below the section heading)
+	anchorHeading?: string; // A missing task section is created at the end of this heading's section
+}
+
+// How unfinished synced tasks in past notes are carried over to today's note on the first sync of the day
+// (move: the task leaves the old note; copy: the old task is marked migrated and the copy links back to it)
+export type CarryOverMode = 'off' | 'move' | 'copy';
+
+// Which side wins when a task was changed on both sides since the last sync (ask: show the conflict modal)
+export type ConflictResolution = 'obsidian' | 'microsoft' | 'ask';
+
+// Which notes outside the daily notes folder are synced in vault-wide mode
+export interface VaultSyncOptions {
+	include: string[]; // Globs of notes to scan (empty: the whole vault)
+	exclude: string[]; // Globs of notes to skip
+	tag?: string; // Only tasks with this tag are synced, e.g. "#mstodo" (empty: every task)
+}
+
+// Additional Microsoft To Do list synced alongside todoListName
+export interface TodoListMapping {
+	listName: string;
+	sectionHeading?: string; // Daily note heading for this list (defaults to taskSectionHeading)
+	tag?: string; // Tag marking this list's tasks, e.g. "#work"
+}
+
+// List mapping with its resolved Microsoft To Do list ID
+export interface SyncListTarget extends TodoListMapping {
+	listId: string;
+}
+
 // DataView plugin settings interface (partial)
 export interface DataViewSettings {
 	taskCompletionTracking?: boolean;
@@ -44,11 +103,15 @@ export interface DeviceCodeResponse {
 	interval: number;
 }
 
+export type TaskImportance = 'low' | 'normal' | 'high';
+
 export interface TodoTask {
 	id: string;
 	title: string;
 	status: 'notStarted' | 'inProgress' | 'completed';
+	importance?: TaskImportance;
 	createdDateTime: string;
+	lastModifiedDateTime?: string;
 	completedDateTime?: string;
 	dueDateTime?: {
 		dateTime: string;
@@ -62,6 +125,45 @@ export interface TodoTask {
 		content: string;
 		contentType: string;
 	};
+	recurrence?: PatternedRecurrence;
+	isReminderOn?: boolean;
+	reminderDateTime?: {
+		dateTime: string;
+		timeZone: string;
+	};
+}
+
+export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+export type WeekIndex = 'first' | 'second' | 'third' | 'fourth' | 'last';
+
+// Graph patternedRecurrence of a recurring task
+export interface RecurrencePattern {
+	type: 'daily' | 'weekly' | 'absoluteMonthly' | 'relativeMonthly' | 'absoluteYearly' | 'relativeYearly';
+	interval: number;
+	daysOfWeek?: DayOfWeek[];
+	dayOfMonth?: number;
+	month?: number; // 1-12
+	index?: WeekIndex;
+	firstDayOfWeek?: DayOfWeek;
+}
+
+export interface PatternedRecurrence {
+	pattern: RecurrencePattern;
+	range: {
+		type: 'noEnd' | 'endDate' | 'numbered';
+		startDate: string; // YYYY-MM-DD
+		endDate?: string;
+		numberOfOccurrences?: number;
+	};
+}
+
+// Step of a Microsoft To Do task (/tasks/{id}/checklistItems)
+export interface ChecklistItem {
+	id: string;
+	displayName: string;
+	isChecked: boolean;
+	createdDateTime?: string;
+	checkedDateTime?: string;
 }
 
 export interface TodoList {
@@ -90,6 +192,31 @@ export interface DailyNoteTask {
 	completionDate?: string;
 	startDate?: string;
 	filePath?: string;
+	dueDate?: string; // YYYY-MM-DD from 📅 or [due:: ] marker
+	importance?: TaskImportance; // From ⏫/🔼/🔽 or [priority:: ] marker
+	recurrence?: string; // Normalized 🔁 rule, e.g. "every week on Monday"
+	reminder?: string; // Local "YYYY-MM-DD HH:mm" from ⏰ marker
+	notes?: string; // Indented (or blockquoted) lines directly under the checkbox
+	subtasks?: DailyNoteSubtask[]; // Nested checkboxes, synced as checklist items
+	blockId?: string; // Stable task ID from the trailing "^mst-…" block reference
+}
+
+// Checkbox nested under a daily note task
+export interface DailyNoteSubtask {
+	title: string;
+	completed: boolean;
+	lineNumber: number;
+}
+
+/**
+ * Task attributes synced in both directions in addition to title and completion
+ */
+export interface TaskAttributes {
+	dueDate?: string; // YYYY-MM-DD
+	importance?: TaskImportance;
+	recurrence?: string; // Tasks plugin rule text, e.g. "every week on Monday"
+	reminder?: string; // Local date and time, "YYYY-MM-DD HH:mm"
+	notes?: string; // Task body as plain text
 }
 
 export interface SyncResult {
@@ -105,6 +232,15 @@ export interface SyncResult {
 		completed: number;
 		errors: string[];
 	};
+	updates: {
+		updated: number;
+		errors: string[];
+	};
+	deletions: {
+		deleted: number;
+		errors: string[];
+	};
+	conflicts: TaskConflict[]; // Conflicts left for the user when conflictResolution is 'ask'
 	timestamp: string;
 	// 後方互換性のための集計フィールド
 	added?: number;  // 総追加数
@@ -112,6 +248,54 @@ export interface SyncResult {
 	errors?: string[];  // 全エラー
 }
 
+// A field changed differently on both sides since the last sync
+export interface TaskConflict {
+	msftTaskId: string;
+	title: string; // Obsidian title, for display
+	field: 'title' | keyof TaskAttributes;
+	obsidianValue?: string;
+	msftValue?: string;
+}
+
+// Write recorded during a sync; a preview records them instead of performing them and applying the plan replays them in order
+export type SyncOperationKind = 'create' | 'completion' | 'titleCleanup' | 'update' | 'deletion' | 'metadataRemoval' | 'metadata';
+
+export interface SyncOperation {
+	kind: SyncOperationKind;
+	target: 'microsoft' | 'obsidian' | 'metadata';
+	method: string;
+	args: unknown[];
+	result?: unknown; // During a preview a placeholder, e.g. the ID of a task to be created
+	description: string;
+	filePath?: string; // Note of the affected task, when known
+	lineNumber?: number;
+}
+
+export interface SyncPlan {
+	operations: SyncOperation[];
+	result: SyncResult; // What the sync would report
+	noteModifiedTimes: Record<string, number | null>; // Notes the plan writes, with their modified time at preview (null: created by the plan)
+}
+
+export type SyncTrigger = 'manual' | 'auto' | 'preview';
+
+export interface SyncHistoryAction {
+	kind: SyncOperationKind;
+	description: string;
+	filePath?: string;
+	lineNumber?: number;
+}
+
+export interface SyncHistoryEntry {
+	trigger: SyncTrigger;
+	startedAt: string;
+	durationMs: number;
+	result?: SyncResult; // Missing when the sync failed
+	error?: string;
+	actions: SyncHistoryAction[];
+	omittedActions?: number; // Actions beyond SYNC_HISTORY_MAX_ACTIONS that were not kept
+}
+
 export interface TaskPair {
 	obsidianTask: DailyNoteTask;
 	msftTask: TodoTask;
@@ -142,6 +326,13 @@ export interface ErrorContext {
 
 export type TokenProvider = () => Promise<string>;
 
+// Obsidianの公開APIにないコミュニティプラグインの一覧（Templater・Periodic Notesの検出に使う）
+export interface CommunityPluginRegistry {
+	plugins?: {
+		getPlugin?: (id: string) => unknown;
+	};
+}
+
 export interface ApiResponse<T> {
 	value?: T[];
 	data?: T;
@@ -151,6 +342,45 @@ export interface ApiResponse<T> {
 	};
 }
 
+// Graph APIのコレクションレスポンス（ページング情報付き）
+export interface PagedApiResponse<T> {
+	value?: T[];
+	'@odata.nextLink'?: string;
+	'@odata.deltaLink'?: string;
+}
+
+// デルタクエリで削除されたアイテムは@removedが付与される
+export type DeltaTodoTask = TodoTask & {
+	'@removed'?: {
+		reason: string;
+	};
+};
+
+export interface TaskDeltaResult {
+	tasks: TodoTask[];
+	removedIds: string[];
+	deltaLink: string;
+}
+
+// デルタ同期の状態に保存するタスクの項目（同期の各フェーズが参照する項目のみ）
+export type DeltaTaskState = Pick<TodoTask,
+	'id' | 'title' | 'status' | 'importance' | 'createdDateTime' | 'lastModifiedDateTime' | 'completedDateTime' |
+	'dueDateTime' | 'body' | 'recurrence' | 'isReminderOn' | 'reminderDateTime'>;
+
+// リストごとに永続化するデルタ同期の状態
+export interface DeltaSyncState {
+	deltaLink: string;
+	tasks: DeltaTaskState[];
+}
+
+// 1回の同期で使用するMicrosoftタスクのスナップショット
+export interface MsftTaskSnapshot {
+	all: TodoTask[];
+	changed: TodoTask[];
+	removedIds: string[];
+	deltaLink?: string; // リストの全フェーズが成功した後に保存するdeltaLink
+}
+
 export interface GraphApiError {
 	error: {
 		code: string;
@@ -162,6 +392,26 @@ export interface GraphApiError {
 	};
 }
 
+// TodoApiClientが投げるGraph APIのエラー
+// statusは通信エラーでは未設定、graphErrorはGraphがエラー応答を返した場合のみ設定
+export interface GraphRequestError extends Error {
+	status?: number;
+	graphError?: GraphApiError;
+}
+
+// $batchで作成するタスク
+export interface NewTaskRequest {
+	title: string;
+	startDate?: string;
+	attributes?: TaskAttributes;
+}
+
+// $batchで送信したリクエストごとの結果（失敗した場合のみerrorを設定）
+export interface BatchItemResult<T> {
+	value?: T;
+	error?: GraphRequestError;
+}
+
 export interface SyncStatus {
 	status: 'idle' | 'syncing' | 'success' | 'error';
 	message?: string;
@@ -0,0 +1,94 @@
+// Conflict Modal for tasks edited on both sides
+// Lets the user pick which side's value to keep for each conflicting field
+
+import { App, Modal } from 'obsidian';
+import { TaskConflict } from '../types';
+import { UI_TEXT } from '../constants';
+
+type ConflictWinner = 'obsidian' | 'microsoft';
+
+const FIELD_LABELS: Record<TaskConflict['field'], string> = {
+	title: 'Title',
+	dueDate: 'Due date',
+	importance: 'Importance',
+	recurrence: 'Repeat',
+	reminder: 'Reminder',
+	notes: 'Notes',
+};
+
+export class ConflictModal extends Modal {
+	private conflicts: TaskConflict[];
+	private onResolve: (conflict: TaskConflict, winner: ConflictWinner) => Promise<void>;
+	private onDone: (resolvedCount: number) => void;
+	private resolvedCount = 0;
+
+	constructor(
+		app: App,
+		conflicts: TaskConflict[],
+		onResolve: (conflict: TaskConflict, winner: ConflictWinner) => Promise<void>,
+		onDone: (resolvedCount: number) => void
+	) {
+		super(app);
+		this.conflicts = [...conflicts];
+		this.onResolve = onResolve;
+		this.onDone = onDone;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onDone(this.resolvedCount);
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: UI_TEXT.CONFLICTS.TITLE });
+		contentEl.createEl('p', { text: UI_TEXT.CONFLICTS.DESCRIPTION });
+
+		for (const conflict of this.conflicts) {
+			this.renderConflict(contentEl, conflict);
+		}
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'todo-integrator-button-container' });
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Decide later',
+			cls: 'mod-cancel'
+		});
+		closeButton.onclick = () => this.close();
+	}
+
+	private renderConflict(containerEl: HTMLElement, conflict: TaskConflict): void {
+		const conflictEl = containerEl.createEl('div', { cls: 'todo-integrator-conflict' });
+		conflictEl.createEl('h4', { text: `${conflict.title} (${FIELD_LABELS[conflict.field]})` });
+		conflictEl.createEl('p', { text: `Obsidian: ${this.formatValue(conflict.obsidianValue)}` });
+		conflictEl.createEl('p', { text: `Microsoft To Do: ${this.formatValue(conflict.msftValue)}` });
+
+		const buttonContainer = conflictEl.createEl('div', { cls: 'todo-integrator-button-container' });
+		const keepObsidianButton = buttonContainer.createEl('button', { text: 'Keep Obsidian' });
+		keepObsidianButton.onclick = () => this.resolve(conflict, 'obsidian');
+		const keepMsftButton = buttonContainer.createEl('button', { text: 'Keep Microsoft To Do' });
+		keepMsftButton.onclick = () => this.resolve(conflict, 'microsoft');
+	}
+
+	async resolve(conflict: TaskConflict, winner: ConflictWinner): Promise<void> {
+		await this.onResolve(conflict, winner);
+		this.resolvedCount++;
+		this.conflicts = this.conflicts.filter(other => other !== conflict);
+
+		if (this.conflicts.length === 0) {
+			this.close();
+		} else {
+			this.render();
+		}
+	}
+
+	private formatValue(value: string | undefined): string {
+		return value === undefined || value === '' ? '(none)' : value;
+	}
+}
@@ -0,0 +1,106 @@
+// Sync History Modal for past sync runs
+// Lists recent runs with their duration and changes, and opens the note line a change affected
+
+import { App, Modal } from 'obsidian';
+import { SyncHistoryAction, SyncHistoryEntry, SyncResult, SyncTrigger } from '../types';
+import { UI_TEXT } from '../constants';
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+	manual: 'Manual',
+	auto: 'Auto-sync',
+	preview: 'Applied preview',
+};
+
+export class SyncHistoryModal extends Modal {
+	private entries: SyncHistoryEntry[];
+
+	constructor(app: App, entries: SyncHistoryEntry[]) {
+		super(app);
+		this.entries = entries;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: UI_TEXT.HISTORY.TITLE });
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', { text: UI_TEXT.HISTORY.EMPTY });
+		}
+
+		for (const entry of this.entries) {
+			this.renderEntry(contentEl, entry);
+		}
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'todo-integrator-button-container' });
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close',
+			cls: 'mod-cancel'
+		});
+		closeButton.onclick = () => this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private renderEntry(containerEl: HTMLElement, entry: SyncHistoryEntry): void {
+		const entryEl = containerEl.createEl('div', { cls: 'todo-integrator-sync-history-entry' });
+		const startedAt = new Date(entry.startedAt).toLocaleString();
+		entryEl.createEl('h4', {
+			text: `${startedAt} (${TRIGGER_LABELS[entry.trigger]}, ${(entry.durationMs / 1000).toFixed(1)}s)`,
+		});
+		if (entry.error) {
+			entryEl.createEl('p', { text: `Failed: ${entry.error}`, cls: 'mod-warning' });
+		} else {
+			entryEl.createEl('p', { text: this.summarize(entry.result) });
+		}
+
+		const errors = entry.result?.errors || [];
+		if (entry.actions.length === 0 && errors.length === 0) return;
+
+		const listEl = entryEl.createEl('ul');
+		for (const action of entry.actions) {
+			this.renderAction(listEl, action);
+		}
+		if (entry.omittedActions) {
+			listEl.createEl('li', { text: `...and ${entry.omittedActions} more changes` });
+		}
+		for (const error of errors) {
+			listEl.createEl('li', { text: error, cls: 'mod-warning' });
+		}
+	}
+
+	private renderAction(listEl: HTMLElement, action: SyncHistoryAction): void {
+		const itemEl = listEl.createEl('li');
+		if (!action.filePath) {
+			itemEl.setText(action.description);
+			return;
+		}
+
+		// 影響したノートの行を開くリンク
+		const lineLabel = action.lineNumber !== undefined ? ` (line ${action.lineNumber + 1})` : '';
+		const linkEl = itemEl.createEl('a', { text: `${action.description}${lineLabel}` });
+		linkEl.onclick = () => this.openAction(action);
+	}
+
+	async openAction(action: SyncHistoryAction): Promise<void> {
+		if (!action.filePath) return;
+
+		this.close();
+		await this.app.workspace.openLinkText(
+			action.filePath,
+			'',
+			false,
+			action.lineNumber !== undefined ? { eState: { line: action.lineNumber } } : undefined
+		);
+	}
+
+	private summarize(result?: SyncResult): string {
+		if (!result) return 'No result';
+
+		const added = result.msftToObsidian.added + result.obsidianToMsft.added;
+		return `Added ${added}, completed ${result.completions.completed}, updated ${result.updates.updated}, deleted ${result.deletions.deleted}`;
+	}
+}
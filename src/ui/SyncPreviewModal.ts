@@ -0,0 +1,84 @@
+// Sync Preview Modal for a dry run of the full sync
+// Lists the changes a sync would make and applies exactly that plan on request
+
+import { App, Modal } from 'obsidian';
+import { SyncOperationKind, SyncPlan } from '../types';
+import { UI_TEXT } from '../constants';
+
+// 表示する変更の種類と見出し（メタデータの更新は内部的な記録のため表示しない）
+const SECTIONS: { kind: SyncOperationKind; label: string }[] = [
+	{ kind: 'create', label: 'Creates' },
+	{ kind: 'completion', label: 'Completions' },
+	{ kind: 'titleCleanup', label: 'Title cleanups' },
+	{ kind: 'update', label: 'Updates' },
+	{ kind: 'deletion', label: 'Deletions' },
+	{ kind: 'metadataRemoval', label: 'Metadata removals' },
+];
+
+export class SyncPreviewModal extends Modal {
+	private plan: SyncPlan;
+	private onApply: (plan: SyncPlan) => Promise<void>;
+
+	constructor(app: App, plan: SyncPlan, onApply: (plan: SyncPlan) => Promise<void>) {
+		super(app);
+		this.plan = plan;
+		this.onApply = onApply;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: UI_TEXT.PREVIEW.TITLE });
+
+		const sections = SECTIONS
+			.map(section => ({
+				...section,
+				descriptions: this.plan.operations
+					.filter(operation => operation.kind === section.kind)
+					.map(operation => operation.description),
+			}))
+			.filter(section => section.descriptions.length > 0);
+
+		if (sections.length === 0) {
+			contentEl.createEl('p', { text: UI_TEXT.PREVIEW.EMPTY });
+		} else {
+			contentEl.createEl('p', { text: UI_TEXT.PREVIEW.DESCRIPTION });
+		}
+
+		for (const section of sections) {
+			contentEl.createEl('h4', { text: `${section.label} (${section.descriptions.length})` });
+			if (section.kind === 'titleCleanup') {
+				contentEl.createEl('p', { text: UI_TEXT.PREVIEW.TITLE_CLEANUP, cls: 'mod-warning' });
+			}
+			const listEl = contentEl.createEl('ul');
+			for (const description of section.descriptions) {
+				listEl.createEl('li', { text: description });
+			}
+		}
+
+		const buttonContainer = contentEl.createEl('div', { cls: 'todo-integrator-button-container' });
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cancel'
+		});
+		cancelButton.onclick = () => this.close();
+
+		// 変更がない場合も、差分の記録（メタデータ）を反映するため適用できる
+		const applyButton = buttonContainer.createEl('button', {
+			text: 'Apply',
+			cls: 'mod-cta'
+		});
+		applyButton.onclick = () => this.apply();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	async apply(): Promise<void> {
+		this.close();
+		await this.onApply(this.plan);
+	}
+}
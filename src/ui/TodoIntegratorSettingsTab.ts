@@ -3,6 +3,7 @@
 import { App, PluginSettingTab, Setting, Modal, TextComponent } from 'obsidian';
 import { TodoIntegratorPlugin } from '../TodoIntegratorPlugin';
 import { UI_TEXT } from '../constants';
+import { CarryOverMode, ConflictResolution, DeletionSyncMode, NotePeriod, TaskInsertPosition } from '../types';
 import { PathValidator, ValidationResult } from '../utils/pathValidation';
 
 export class TodoIntegratorSettingsTab extends PluginSettingTab {
@@ -143,6 +144,88 @@ export class TodoIntegratorSettingsTab extends PluginSettingTab {
 					await this.plugin.updateSetting('todoListName', value || 'Obsidian Tasks');
 				}));
 
+		new Setting(containerEl)
+			.setName('Additional Lists')
+			.setDesc('One list per line: "List name -> ## Heading", "List name -> #tag" or both. Tasks under the heading (or with the tag) sync with that list.')
+			.addTextArea(text => text
+				.setPlaceholder('Work -> ## Work\nHome -> #home')
+				.setValue(this.plugin.pluginSettings.formatListMappings(this.plugin.settings.listMappings || []))
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('listMappings', this.plugin.pluginSettings.parseListMappings(value));
+				}));
+
+		new Setting(containerEl)
+			.setName('Vault-wide Sync')
+			.setDesc('Also sync tasks from notes outside the daily notes folder (e.g. project notes)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vaultWideSync)
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('vaultWideSync', value);
+					this.display(); // Refresh to show/hide vault-wide sync settings
+				}));
+
+		if (this.plugin.settings.vaultWideSync) {
+			this.renderVaultSyncSettings(containerEl);
+		}
+
+		new Setting(containerEl)
+			.setName('Stable Task IDs')
+			.setDesc('Append a block reference (e.g. ^mst-k3x9q2) to synced tasks so renamed, moved or identically named tasks stay linked')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.stableTaskIds)
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('stableTaskIds', value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Carry Over Unfinished Tasks')
+			.setDesc('On the first sync of the day, bring unfinished synced tasks from past daily notes into today\'s note and update their start date in Microsoft To Do. Copy leaves the old task marked as migrated ([>]) and links the copy back to it.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('move', 'Move to today')
+				.addOption('copy', 'Copy with a back-link')
+				.setValue(this.plugin.settings.carryOverTasks)
+				.onChange(async (value: CarryOverMode) => {
+					await this.plugin.updateSetting('carryOverTasks', value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Conflict Resolution')
+			.setDesc('Which version to keep when a task was changed both in Obsidian and in Microsoft To Do since the last sync')
+			.addDropdown(dropdown => dropdown
+				.addOption('obsidian', 'Obsidian wins')
+				.addOption('microsoft', 'Microsoft wins')
+				.addOption('ask', 'Ask')
+				.setValue(this.plugin.settings.conflictResolution)
+				.onChange(async (value: ConflictResolution) => {
+					await this.plugin.updateSetting('conflictResolution', value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Deletion Sync')
+			.setDesc('What happens to the counterpart when a task is deleted on one side. "Move to trash" moves Microsoft tasks to the "Deleted from Obsidian" list and marks daily note tasks as cancelled.')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off (keep both)')
+				.addOption('trash', 'Move to trash')
+				.addOption('delete', 'Delete')
+				.setValue(this.plugin.settings.deletionSync)
+				.onChange(async (value: DeletionSyncMode) => {
+					await this.plugin.updateSetting('deletionSync', value);
+				}));
+
+		new Setting(containerEl)
+			.setName('Deletion Grace Period')
+			.setDesc('Hours to wait before propagating a deletion. Use the "Restore tasks pending deletion" command to undo deletions within this period.')
+			.addText(text => text
+				.setPlaceholder('24')
+				.setValue(String(this.plugin.settings.deletionGracePeriodHours))
+				.onChange(async (value) => {
+					const hours = Number(value);
+					if (value.trim() !== '' && hours >= 0) {
+						await this.plugin.updateSetting('deletionGracePeriodHours', hours);
+					}
+				}));
+
 		new Setting(containerEl)
 			.setName('Auto-sync')
 			.setDesc('Automatically sync tasks at regular intervals')
@@ -175,6 +258,39 @@ export class TodoIntegratorSettingsTab extends PluginSettingTab {
 				}));
 	}
 
+	private renderVaultSyncSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Include')
+			.setDesc('One glob per line (e.g. "Projects/**"). Leave empty to scan the whole vault.')
+			.addTextArea(text => text
+				.setPlaceholder('Projects/**\nAreas/*.md')
+				.setValue(this.plugin.settings.vaultSyncInclude.join('\n'))
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('vaultSyncInclude', this.plugin.pluginSettings.normalizeGlobs(value.split('\n')));
+				}));
+
+		new Setting(containerEl)
+			.setName('Exclude')
+			.setDesc('One glob per line. Matching notes are never scanned.')
+			.addTextArea(text => text
+				.setPlaceholder('Templates/**\nArchive/**')
+				.setValue(this.plugin.settings.vaultSyncExclude.join('\n'))
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('vaultSyncExclude', this.plugin.pluginSettings.normalizeGlobs(value.split('\n')));
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag Filter')
+			.setDesc('Only tasks with this tag are synced. Leave empty to sync every task in the matching notes.')
+			.addText(text => text
+				.setPlaceholder('#mstodo')
+				.setValue(this.plugin.settings.vaultSyncTag)
+				.onChange(async (value) => {
+					const tag = value.trim().replace(/^#*/, '');
+					await this.plugin.updateSetting('vaultSyncTag', tag ? `#${tag}` : '');
+				}));
+	}
+
 	private renderDailyNotesSection(containerEl: HTMLElement): void {
 		containerEl.createEl('h3', { text: UI_TEXT.SETTINGS.DAILY_NOTES_SECTION });
 
@@ -184,6 +300,20 @@ export class TodoIntegratorSettingsTab extends PluginSettingTab {
 			text: 'Daily Notesプラグインがインストールされている場合、デフォルト値が自動的に継承されます。手動で変更すると継承を無効化し、カスタム値が優先されます。'
 		});
 
+		// Note period setting
+		new Setting(containerEl)
+			.setName('Note Period')
+			.setDesc('How much time one note covers. Microsoft tasks are added to the note of the week or month containing their due date, and tasks in those notes use the first day of the period as their start date. Weekly and monthly settings are inherited from the Periodic Notes plugin.')
+			.addDropdown(dropdown => dropdown
+				.addOption('daily', 'Daily')
+				.addOption('weekly', 'Weekly')
+				.addOption('monthly', 'Monthly')
+				.setValue(this.plugin.settings.notePeriod)
+				.onChange(async (value: NotePeriod) => {
+					await this.plugin.updateSetting('notePeriod', value);
+					this.display(); // Refresh to show the inherited folder and format
+				}));
+
 		// Daily Notes Path setting
 		const pathInheritanceStatus = this.plugin.settings._userSetDailyNotesPath ? 
 			'🔧 カスタム設定' : '🔗 Daily Notesプラグインから継承';
@@ -268,6 +398,56 @@ export class TodoIntegratorSettingsTab extends PluginSettingTab {
 					await this.plugin.updateSetting('taskSectionHeading', value || '# Tasks');
 				}));
 
+		// Task placement settings
+		new Setting(containerEl)
+			.setName('Section Anchor Heading')
+			.setDesc('When a note has no task section, create it at the end of this heading\'s section (e.g., "## Plan"). Leave empty to create it before the first "##" heading.')
+			.addText(text => text
+				.setPlaceholder('## Plan')
+				.setValue(this.plugin.settings.taskSectionAnchor)
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('taskSectionAnchor', value.trim());
+				}));
+
+		new Setting(containerEl)
+			.setName('Task Position')
+			.setDesc('Where tasks imported from Microsoft To Do are placed among the existing tasks. Sorted positions put tasks without a due date last.')
+			.addDropdown(dropdown => dropdown
+				.addOption('bottom', 'Bottom')
+				.addOption('top', 'Top')
+				.addOption('dueDate', 'Sorted by due date')
+				.addOption('importance', 'Sorted by importance')
+				.setValue(this.plugin.settings.taskInsertPosition)
+				.onChange(async (value: TaskInsertPosition) => {
+					await this.plugin.updateSetting('taskInsertPosition', value);
+				}));
+
+		new Setting(containerEl)
+			.setName('List Sub-headings')
+			.setDesc('Group imported tasks under a sub-heading named after their Microsoft To Do list')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.listSubheadings)
+				.onChange(async (value) => {
+					await this.plugin.updateSetting('listSubheadings', value);
+					this.display(); // Refresh to show/hide the sub-heading level
+				}));
+
+		if (this.plugin.settings.listSubheadings) {
+			new Setting(containerEl)
+				.setName('Sub-heading Level')
+				.setDesc('Heading level of the list sub-headings. Always at least one level below the task section heading.')
+				.addDropdown(dropdown => {
+					for (let level = 2; level <= 6; level++) {
+						dropdown.addOption(String(level), '#'.repeat(level));
+					}
+					dropdown
+						.setValue(String(this.plugin.settings.listSubheadingLevel))
+						.onChange(async (value) => {
+							await this.plugin.updateSetting('listSubheadingLevel', Number(value));
+						});
+				});
+		}
+
 		// Reset to defaults button
 		new Setting(containerEl)
 			.setName('Reset to Daily Notes Defaults')
@@ -1,8 +1,10 @@
 // Daily Notes Plugin Detection and Settings Extraction
 // Detects if Daily Notes plugin is installed and extracts default values
+// Weekly and monthly notes are read from the Periodic Notes community plugin
 
 import { App } from 'obsidian';
-import { Logger } from '../types';
+import { CommunityPluginRegistry, Logger, NotePeriod } from '../types';
+import { NOTE_PERIOD_FORMATS } from '../constants';
 
 export interface DailyNotesDefaults {
 	dateFormat: string;
@@ -10,6 +12,18 @@ export interface DailyNotesDefaults {
 	template?: string;
 }
 
+// Periodic Notes settings for one period
+interface PeriodicNotesOptions {
+	enabled?: boolean;
+	format?: string;
+	folder?: string;
+	template?: string;
+}
+
+interface PeriodicNotesPlugin {
+	settings?: Partial<Record<NotePeriod, PeriodicNotesOptions>>;
+}
+
 export class DailyNotesDetector {
 	private app: App;
 	private logger: Logger;
@@ -69,6 +83,52 @@ export class DailyNotesDetector {
 		}
 	}
 
+	/**
+	 * Extracts default values for notes of the given period
+	 * Daily notes come from the core Daily Notes plugin, weekly and monthly notes from the Periodic Notes plugin
+	 */
+	async detectNoteDefaults(period: NotePeriod): Promise<DailyNotesDefaults> {
+		if (period === 'daily') {
+			return this.detectDailyNotesDefaults();
+		}
+
+		const fallbackDefaults: DailyNotesDefaults = {
+			dateFormat: NOTE_PERIOD_FORMATS[period],
+			folder: 'Daily Notes',
+			template: undefined,
+		};
+
+		try {
+			// Periodic Notes keeps one settings block per period: { enabled, format, folder, template }
+			const periodicNotesPlugin = (this.app as App & CommunityPluginRegistry).plugins?.getPlugin?.('periodic-notes') as PeriodicNotesPlugin | null | undefined;
+			const options = periodicNotesPlugin?.settings?.[period];
+
+			if (!options || !options.enabled) {
+				this.logger.info(`Periodic Notes ${period} notes not found or not enabled, using fallback defaults`);
+				return fallbackDefaults;
+			}
+
+			const detectedDefaults: DailyNotesDefaults = {
+				dateFormat: options.format || fallbackDefaults.dateFormat,
+				folder: options.folder || fallbackDefaults.folder,
+				template: options.template || undefined,
+			};
+
+			this.logger.info('Periodic Notes plugin settings detected', {
+				period,
+				dateFormat: detectedDefaults.dateFormat,
+				folder: detectedDefaults.folder,
+				template: detectedDefaults.template || 'none',
+			});
+
+			return detectedDefaults;
+
+		} catch (error) {
+			this.logger.error('Error detecting Periodic Notes plugin settings', { error });
+			return fallbackDefaults;
+		}
+	}
+
 	/**
 	 * Checks if Daily Notes plugin is installed and enabled
 	 */
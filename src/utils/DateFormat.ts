@@ -0,0 +1,308 @@
+// Moment-style date formatting and parsing for daily note names, without depending on moment
+// Supports the year, quarter, month, day, day-of-year, weekday, ISO/locale week and time tokens, [escaped] text and "/" path segments
+// Names and week numbering follow moment's default "en" locale (weeks start on Sunday, week 1 contains January 1)
+
+const MONTHS = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 加減算の単位（momentの短縮形: 年・四半期・月・週・日・時・分・秒）
+export type DateUnit = 'y' | 'Q' | 'M' | 'w' | 'd' | 'h' | 'm' | 's';
+
+// 長いトークンから順に照合する
+const TOKEN_REGEX = /\[[^\]]*\]|YYYY|YY|Q|MMMM|MMM|MM|M|DDDD|DDD|DD|Do|D|dddd|ddd|dd|d|E|e|GGGG|GG|gggg|gg|WW|W|ww|w|HH|H|mm|m|ss|s|./g;
+
+// 解析で読み取った日付の要素
+interface DateParts {
+	year?: number;
+	month?: number;
+	day?: number;
+	dayOfYear?: number;
+	isoWeekYear?: number;
+	isoWeek?: number;
+	isoWeekday?: number;
+	localeWeekYear?: number;
+	localeWeek?: number;
+	weekday?: number;
+}
+
+interface TokenParser {
+	pattern: string;
+	apply?: (value: string, parts: DateParts) => void;
+}
+
+const names = (list: string[], length?: number) =>
+	list.map(name => (length ? name.slice(0, length) : name)).join('|');
+const indexOf = (list: string[], value: string, length?: number) =>
+	list.findIndex(name => (length ? name.slice(0, length) : name).toLowerCase() === value.toLowerCase());
+const twoDigitYear = (value: string) => {
+	const year = Number(value);
+	return year > 68 ? 1900 + year : 2000 + year;
+};
+
+const TOKEN_PARSERS: Record<string, TokenParser> = {
+	YYYY: { pattern: '\\d{4}', apply: (value, parts) => { parts.year = Number(value); } },
+	YY: { pattern: '\\d{2}', apply: (value, parts) => { parts.year = twoDigitYear(value); } },
+	Q: { pattern: '[1-4]' },
+	MMMM: { pattern: names(MONTHS), apply: (value, parts) => { parts.month = indexOf(MONTHS, value) + 1; } },
+	MMM: { pattern: names(MONTHS, 3), apply: (value, parts) => { parts.month = indexOf(MONTHS, value, 3) + 1; } },
+	MM: { pattern: '\\d{2}', apply: (value, parts) => { parts.month = Number(value); } },
+	M: { pattern: '\\d{1,2}', apply: (value, parts) => { parts.month = Number(value); } },
+	DDDD: { pattern: '\\d{3}', apply: (value, parts) => { parts.dayOfYear = Number(value); } },
+	DDD: { pattern: '\\d{1,3}', apply: (value, parts) => { parts.dayOfYear = Number(value); } },
+	DD: { pattern: '\\d{2}', apply: (value, parts) => { parts.day = Number(value); } },
+	Do: { pattern: '\\d{1,2}(?:st|nd|rd|th)', apply: (value, parts) => { parts.day = parseInt(value, 10); } },
+	D: { pattern: '\\d{1,2}', apply: (value, parts) => { parts.day = Number(value); } },
+	dddd: { pattern: names(DAYS), apply: (value, parts) => { parts.weekday = indexOf(DAYS, value); } },
+	ddd: { pattern: names(DAYS, 3), apply: (value, parts) => { parts.weekday = indexOf(DAYS, value, 3); } },
+	dd: { pattern: names(DAYS, 2), apply: (value, parts) => { parts.weekday = indexOf(DAYS, value, 2); } },
+	d: { pattern: '[0-6]', apply: (value, parts) => { parts.weekday = Number(value); } },
+	e: { pattern: '[0-6]', apply: (value, parts) => { parts.weekday = Number(value); } },
+	E: { pattern: '[1-7]', apply: (value, parts) => { parts.isoWeekday = Number(value); } },
+	GGGG: { pattern: '\\d{4}', apply: (value, parts) => { parts.isoWeekYear = Number(value); } },
+	GG: { pattern: '\\d{2}', apply: (value, parts) => { parts.isoWeekYear = twoDigitYear(value); } },
+	gggg: { pattern: '\\d{4}', apply: (value, parts) => { parts.localeWeekYear = Number(value); } },
+	gg: { pattern: '\\d{2}', apply: (value, parts) => { parts.localeWeekYear = twoDigitYear(value); } },
+	WW: { pattern: '\\d{2}', apply: (value, parts) => { parts.isoWeek = Number(value); } },
+	W: { pattern: '\\d{1,2}', apply: (value, parts) => { parts.isoWeek = Number(value); } },
+	ww: { pattern: '\\d{2}', apply: (value, parts) => { parts.localeWeek = Number(value); } },
+	w: { pattern: '\\d{1,2}', apply: (value, parts) => { parts.localeWeek = Number(value); } },
+	// 時刻は日付に影響しないため読み飛ばす
+	HH: { pattern: '\\d{2}' },
+	H: { pattern: '\\d{1,2}' },
+	mm: { pattern: '\\d{2}' },
+	m: { pattern: '\\d{1,2}' },
+	ss: { pattern: '\\d{2}' },
+	s: { pattern: '\\d{1,2}' },
+};
+
+export class DateFormat {
+	/**
+	 * 日付をフォーマットに従って文字列にする（ローカル日時）
+	 */
+	static format(date: Date, format: string): string {
+		return this.tokenize(format).map(token => this.formatToken(date, token)).join('');
+	}
+
+	/**
+	 * フォーマットに従って文字列を解析し、YYYY-MM-DD形式の日付を返す（一致しなければundefined）
+	 * 解析した日付をフォーマットし直して元の文字列に戻るもののみ有効とする（曜日の食い違いや存在しない日付を除外）
+	 */
+	static parse(text: string, format: string): string | undefined {
+		const tokens = this.tokenize(format);
+		const appliers: ((value: string, parts: DateParts) => void)[] = [];
+		let source = '';
+		for (const token of tokens) {
+			const parser = TOKEN_PARSERS[token];
+			if (parser) {
+				source += `(${parser.pattern})`;
+				appliers.push(parser.apply || (() => undefined));
+			} else {
+				source += this.escape(this.literal(token));
+			}
+		}
+
+		const match = text.match(new RegExp(`^${source}$`, 'i'));
+		if (!match) return undefined;
+
+		const parts: DateParts = {};
+		appliers.forEach((apply, i) => apply(match[i + 1], parts));
+
+		const date = this.resolveCandidates(parts).find(candidate => this.format(candidate, format) === text);
+		return date ? this.format(date, 'YYYY-MM-DD') : undefined;
+	}
+
+	/**
+	 * YYYY-MM-DD形式の日付をローカル日付の0時として返す（形式が異なればundefined）
+	 */
+	static toLocalDate(date: string): Date | undefined {
+		const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+		return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+	}
+
+	/**
+	 * 日時に単位ごとの量を加える（momentと同じく、年・四半期・月の加算で月末を超える日付は月末にする）
+	 */
+	static add(date: Date, amount: number, unit: DateUnit): Date {
+		const result = new Date(date.getTime());
+		switch (unit) {
+			case 'y': return this.addMonths(date, amount * 12);
+			case 'Q': return this.addMonths(date, amount * 3);
+			case 'M': return this.addMonths(date, amount);
+			case 'w': result.setDate(result.getDate() + amount * 7); break;
+			case 'd': result.setDate(result.getDate() + amount); break;
+			case 'h': result.setHours(result.getHours() + amount); break;
+			case 'm': result.setMinutes(result.getMinutes() + amount); break;
+			case 's': result.setSeconds(result.getSeconds() + amount); break;
+		}
+		return result;
+	}
+
+	/**
+	 * 週（日曜始まり）・ISO週（月曜始まり）・月の初日（ローカル日付の0時）
+	 */
+	static startOf(date: Date, unit: 'week' | 'isoWeek' | 'month'): Date {
+		switch (unit) {
+			case 'week': return this.addDays(date, -date.getDay());
+			case 'isoWeek': return this.addDays(date, -((date.getDay() + 6) % 7));
+			case 'month': return new Date(date.getFullYear(), date.getMonth(), 1);
+		}
+	}
+
+	/**
+	 * ISO週のトークン（W / G / E）を含むフォーマットか
+	 */
+	static usesIsoWeek(format: string): boolean {
+		return this.tokenize(format).some(token => /^(WW?|GG(GG)?|E)$/.test(token));
+	}
+
+	private static tokenize(format: string): string[] {
+		return format.match(TOKEN_REGEX) || [];
+	}
+
+	private static literal(token: string): string {
+		return token.startsWith('[') && token.endsWith(']') && token.length > 1 ? token.slice(1, -1) : token;
+	}
+
+	private static formatToken(date: Date, token: string): string {
+		const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+		const year = date.getFullYear();
+		const month = date.getMonth();
+		const day = date.getDate();
+		const weekday = date.getDay();
+
+		switch (token) {
+			case 'YYYY': return pad(year, 4);
+			case 'YY': return pad(year % 100);
+			case 'Q': return String(Math.floor(month / 3) + 1);
+			case 'MMMM': return MONTHS[month];
+			case 'MMM': return MONTHS[month].slice(0, 3);
+			case 'MM': return pad(month + 1);
+			case 'M': return String(month + 1);
+			case 'DDDD': return pad(this.dayOfYear(date), 3);
+			case 'DDD': return String(this.dayOfYear(date));
+			case 'DD': return pad(day);
+			case 'Do': return `${day}${this.ordinalSuffix(day)}`;
+			case 'D': return String(day);
+			case 'dddd': return DAYS[weekday];
+			case 'ddd': return DAYS[weekday].slice(0, 3);
+			case 'dd': return DAYS[weekday].slice(0, 2);
+			case 'd':
+			case 'e': return String(weekday);
+			case 'E': return String(weekday === 0 ? 7 : weekday);
+			case 'GGGG': return pad(this.isoWeek(date).year, 4);
+			case 'GG': return pad(this.isoWeek(date).year % 100);
+			case 'gggg': return pad(this.localeWeek(date).year, 4);
+			case 'gg': return pad(this.localeWeek(date).year % 100);
+			case 'WW': return pad(this.isoWeek(date).week);
+			case 'W': return String(this.isoWeek(date).week);
+			case 'ww': return pad(this.localeWeek(date).week);
+			case 'w': return String(this.localeWeek(date).week);
+			case 'HH': return pad(date.getHours());
+			case 'H': return String(date.getHours());
+			case 'mm': return pad(date.getMinutes());
+			case 'm': return String(date.getMinutes());
+			case 'ss': return pad(date.getSeconds());
+			case 's': return String(date.getSeconds());
+			default: return this.literal(token);
+		}
+	}
+
+	/**
+	 * 解析した要素から日付の候補を作る
+	 * 週の年がなく暦年で代用する場合は、年の境目の週に備えて前後の年も候補にする
+	 */
+	private static resolveCandidates(parts: DateParts): Date[] {
+		const year = parts.year ?? new Date().getFullYear();
+
+		if (parts.month !== undefined && parts.day !== undefined) {
+			return [new Date(year, parts.month - 1, parts.day)];
+		}
+		if (parts.dayOfYear !== undefined) {
+			return [new Date(year, 0, parts.dayOfYear)];
+		}
+		const { isoWeek, localeWeek } = parts;
+		if (isoWeek !== undefined) {
+			const weekday = parts.isoWeekday ?? (parts.weekday !== undefined ? (parts.weekday + 6) % 7 + 1 : 1);
+			return this.weekYearCandidates(parts.isoWeekYear, year).map(weekYear =>
+				this.addDays(this.isoWeekStart(weekYear), (isoWeek - 1) * 7 + weekday - 1));
+		}
+		if (localeWeek !== undefined) {
+			const weekday = parts.weekday ?? (parts.isoWeekday !== undefined ? parts.isoWeekday % 7 : 0);
+			return this.weekYearCandidates(parts.localeWeekYear, year).map(weekYear =>
+				this.addDays(this.localeWeekStart(weekYear), (localeWeek - 1) * 7 + weekday));
+		}
+		return [new Date(year, (parts.month ?? 1) - 1, parts.day ?? 1)];
+	}
+
+	private static weekYearCandidates(weekYear: number | undefined, year: number): number[] {
+		return weekYear !== undefined ? [weekYear] : [year, year - 1, year + 1];
+	}
+
+	private static dayOfYear(date: Date): number {
+		return this.daysBetween(new Date(date.getFullYear(), 0, 1), date) + 1;
+	}
+
+	/**
+	 * ISO週（月曜始まり、1月4日を含む週が第1週）
+	 */
+	private static isoWeek(date: Date): { year: number; week: number } {
+		const thursday = this.addDays(date, 3 - (date.getDay() + 6) % 7);
+		const year = thursday.getFullYear();
+		return { year, week: Math.floor(this.daysBetween(this.isoWeekStart(year), date) / 7) + 1 };
+	}
+
+	private static isoWeekStart(year: number): Date {
+		const january4 = new Date(year, 0, 4);
+		return this.addDays(january4, -((january4.getDay() + 6) % 7));
+	}
+
+	/**
+	 * ロケールの週（日曜始まり、1月1日を含む週が第1週）
+	 */
+	private static localeWeek(date: Date): { year: number; week: number } {
+		const saturday = this.addDays(date, 6 - date.getDay());
+		const year = saturday.getFullYear();
+		return { year, week: Math.floor(this.daysBetween(this.localeWeekStart(year), date) / 7) + 1 };
+	}
+
+	private static localeWeekStart(year: number): Date {
+		const january1 = new Date(year, 0, 1);
+		return this.addDays(january1, -january1.getDay());
+	}
+
+	private static addMonths(date: Date, months: number): Date {
+		const result = new Date(date.getTime());
+		const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+		result.setDate(1);
+		result.setMonth(date.getMonth() + months);
+		result.setDate(Math.min(date.getDate(), lastDay));
+		return result;
+	}
+
+	private static addDays(date: Date, days: number): Date {
+		return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+	}
+
+	private static daysBetween(from: Date, to: Date): number {
+		const utc = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+		return Math.round((utc(to) - utc(from)) / DAY_MS);
+	}
+
+	private static ordinalSuffix(day: number): string {
+		if (day >= 11 && day <= 13) return 'th';
+		switch (day % 10) {
+			case 1: return 'st';
+			case 2: return 'nd';
+			case 3: return 'rd';
+			default: return 'th';
+		}
+	}
+
+	private static escape(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
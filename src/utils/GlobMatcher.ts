@@ -0,0 +1,53 @@
+// Glob matching for vault-relative note paths used by vault-wide sync
+// Supports "**" (any depth), "*" and "?" (within one path segment); a pattern without wildcards matches the note or everything under the folder
+
+export class GlobMatcher {
+	/**
+	 * パスがいずれかのパターンに一致するか
+	 */
+	static matchesAny(path: string, patterns: string[]): boolean {
+		return patterns.some(pattern => this.matches(path, pattern));
+	}
+
+	static matches(path: string, pattern: string): boolean {
+		return this.toRegExp(pattern).test(path);
+	}
+
+	/**
+	 * globパターンを正規表現に変換
+	 */
+	static toRegExp(pattern: string): RegExp {
+		const glob = pattern.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+		if (!/[*?]/.test(glob)) {
+			// ワイルドカードなしはノートそのもの、またはフォルダ配下すべて
+			const escaped = this.escape(glob);
+			return new RegExp(`^${escaped}(?:\\.md)?$|^${escaped}/`);
+		}
+
+		let source = '';
+		for (let i = 0; i < glob.length; i++) {
+			const char = glob[i];
+			if (char === '*' && glob[i + 1] === '*') {
+				// "**/" は0個以上のフォルダ、末尾の "**" は残りすべて
+				if (glob[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 2;
+				} else {
+					source += '.*';
+					i += 1;
+				}
+			} else if (char === '*') {
+				source += '[^/]*';
+			} else if (char === '?') {
+				source += '[^/]';
+			} else {
+				source += this.escape(char);
+			}
+		}
+		return new RegExp(`^${source}$`);
+	}
+
+	private static escape(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
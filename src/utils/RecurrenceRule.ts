@@ -0,0 +1,288 @@
+// Recurrence rule conversion between the Tasks plugin 🔁 marker and Graph patternedRecurrence
+// Supports the rules Microsoft To Do can represent, e.g. "every 2 weeks on Monday, Friday"
+
+import { DayOfWeek, PatternedRecurrence, RecurrencePattern, WeekIndex } from '../types';
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+const MONTHS = [
+	'january', 'february', 'march', 'april', 'may', 'june',
+	'july', 'august', 'september', 'october', 'november', 'december',
+];
+const WEEK_INDEXES: Record<string, WeekIndex> = {
+	first: 'first', '1st': 'first',
+	second: 'second', '2nd': 'second',
+	third: 'third', '3rd': 'third',
+	fourth: 'fourth', '4th': 'fourth',
+	last: 'last',
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RecurrenceRule {
+	/**
+	 * 🔁マーカーのルールをGraphの繰り返しパターンに変換（対応していないルールはnull）
+	 * 曜日・日付が省略されたルールはパターンに含めず、toGraph()で開始日から補完する
+	 */
+	static parse(rule: string): RecurrencePattern | null {
+		const text = rule.trim().toLowerCase().replace(/\s+/g, ' ');
+
+		if (text === 'every weekday') {
+			return { type: 'weekly', interval: 1, daysOfWeek: [...WEEKDAYS] };
+		}
+
+		// "every Monday, Thursday" は毎週の省略形
+		const dayListMatch = text.match(/^every (.+)$/);
+		const shorthandDays = dayListMatch ? this.parseDays(dayListMatch[1]) : null;
+		if (shorthandDays) {
+			return { type: 'weekly', interval: 1, daysOfWeek: shorthandDays };
+		}
+
+		const match = text.match(/^every (?:(\d+) )?(day|week|month|year)s?(?: on (.+))?$/);
+		if (!match) return null;
+
+		const interval = match[1] ? parseInt(match[1], 10) : 1;
+		const on = match[3];
+		if (interval < 1) return null;
+
+		switch (match[2]) {
+			case 'day':
+				return on ? null : { type: 'daily', interval };
+			case 'week': {
+				if (!on) return { type: 'weekly', interval };
+				const daysOfWeek = this.parseDays(on);
+				return daysOfWeek ? { type: 'weekly', interval, daysOfWeek } : null;
+			}
+			case 'month':
+				return this.parseMonthly(interval, on);
+			default:
+				return this.parseYearly(interval, on);
+		}
+	}
+
+	/**
+	 * Graphの繰り返しパターンを🔁マーカーのルールに変換
+	 */
+	static format(pattern: RecurrencePattern): string {
+		const interval = pattern.interval > 1 ? pattern.interval : 1;
+		const every = (unit: string) => interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+		const day = (value: DayOfWeek) => this.capitalize(value);
+		const month = (value: number) => this.capitalize(MONTHS[value - 1]);
+
+		switch (pattern.type) {
+			case 'daily':
+				return every('day');
+			case 'weekly': {
+				const days = this.sortDays(pattern.daysOfWeek || []);
+				return days.length > 0 ? `${every('week')} on ${days.map(day).join(', ')}` : every('week');
+			}
+			case 'absoluteMonthly':
+				return pattern.dayOfMonth ? `${every('month')} on the ${this.ordinal(pattern.dayOfMonth)}` : every('month');
+			case 'relativeMonthly':
+				return `${every('month')} on the ${pattern.index || 'first'} ${day((pattern.daysOfWeek || ['monday'])[0])}`;
+			case 'absoluteYearly':
+				return pattern.month && pattern.dayOfMonth
+					? `${every('year')} on ${month(pattern.month)} ${pattern.dayOfMonth}`
+					: every('year');
+			case 'relativeYearly':
+				return `${every('year')} on the ${pattern.index || 'first'} ${day((pattern.daysOfWeek || ['monday'])[0])} of ${month(pattern.month || 1)}`;
+		}
+	}
+
+	/**
+	 * ルールを正規化した表記にする。比較時に「every Monday」と「every week on Monday」を同一視するため
+	 */
+	static normalize(rule: string): string | undefined {
+		const pattern = this.parse(rule);
+		return pattern ? this.format(pattern) : undefined;
+	}
+
+	/**
+	 * ルールをGraphのpatternedRecurrenceに変換する。省略された曜日・日付はstartDate（YYYY-MM-DD）から補完
+	 */
+	static toGraph(rule: string, startDate: string): PatternedRecurrence | null {
+		const pattern = this.parse(rule);
+		if (!pattern) return null;
+
+		return {
+			pattern: this.complete(pattern, startDate),
+			range: { type: 'noEnd', startDate },
+		};
+	}
+
+	/**
+	 * GraphのpatternedRecurrenceをルールに変換（繰り返しがなければundefined）
+	 */
+	static fromGraph(recurrence?: PatternedRecurrence | null): string | undefined {
+		return recurrence?.pattern ? this.format(recurrence.pattern) : undefined;
+	}
+
+	/**
+	 * fromDate（YYYY-MM-DD）より後の次回の日付を求める
+	 */
+	static nextOccurrence(rule: string, fromDate: string): string | null {
+		const parsed = this.parse(rule);
+		if (!parsed) return null;
+
+		const pattern = this.complete(parsed, fromDate);
+		const from = this.toUtcDate(fromDate);
+
+		switch (pattern.type) {
+			case 'daily':
+				return this.toDateString(new Date(from.getTime() + pattern.interval * DAY_MS));
+			case 'weekly':
+				return this.toDateString(this.nextWeeklyOccurrence(pattern, from));
+			default: {
+				// 月・年単位のパターンは基準日と同じ月（年）から間隔ごとに候補を探す
+				const yearly = pattern.type === 'absoluteYearly' || pattern.type === 'relativeYearly';
+				for (let step = 0; step <= 2; step++) {
+					const monthOffset = step * pattern.interval * (yearly ? 12 : 1);
+					const candidate = this.occurrenceInMonth(
+						pattern,
+						from.getUTCFullYear(),
+						yearly ? (pattern.month || 1) - 1 + monthOffset : from.getUTCMonth() + monthOffset
+					);
+					if (candidate.getTime() > from.getTime()) {
+						return this.toDateString(candidate);
+					}
+				}
+				return null;
+			}
+		}
+	}
+
+	private static parseMonthly(interval: number, on?: string): RecurrencePattern | null {
+		if (!on) return { type: 'absoluteMonthly', interval };
+
+		const dayMatch = on.match(/^the (\d{1,2})(?:st|nd|rd|th)?$/);
+		if (dayMatch) {
+			const dayOfMonth = parseInt(dayMatch[1], 10);
+			return dayOfMonth >= 1 && dayOfMonth <= 31 ? { type: 'absoluteMonthly', interval, dayOfMonth } : null;
+		}
+
+		const relative = this.parseRelativeDay(on);
+		return relative ? { type: 'relativeMonthly', interval, ...relative } : null;
+	}
+
+	private static parseYearly(interval: number, on?: string): RecurrencePattern | null {
+		if (!on) return { type: 'absoluteYearly', interval };
+
+		const dateMatch = on.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?$/);
+		if (dateMatch) {
+			const month = MONTHS.indexOf(dateMatch[1]) + 1;
+			const dayOfMonth = parseInt(dateMatch[2], 10);
+			return month > 0 && dayOfMonth >= 1 && dayOfMonth <= 31
+				? { type: 'absoluteYearly', interval, month, dayOfMonth }
+				: null;
+		}
+
+		const relativeMatch = on.match(/^(.+) of ([a-z]+)$/);
+		const month = relativeMatch ? MONTHS.indexOf(relativeMatch[2]) + 1 : 0;
+		const relative = relativeMatch && month > 0 ? this.parseRelativeDay(relativeMatch[1]) : null;
+		return relative ? { type: 'relativeYearly', interval, month, ...relative } : null;
+	}
+
+	/**
+	 * "the last Friday" / "the 2nd Tuesday" を解析
+	 */
+	private static parseRelativeDay(text: string): { index: WeekIndex; daysOfWeek: DayOfWeek[] } | null {
+		const match = text.match(/^the ([a-z0-9]+) ([a-z]+)$/);
+		if (!match) return null;
+
+		const index = WEEK_INDEXES[match[1]];
+		const day = match[2] as DayOfWeek;
+		return index && DAYS.includes(day) ? { index, daysOfWeek: [day] } : null;
+	}
+
+	/**
+	 * "Monday, Wednesday and Friday" のような曜日の列挙を解析（曜日以外を含めばnull）
+	 */
+	private static parseDays(text: string): DayOfWeek[] | null {
+		const names = text.split(/\s*(?:,|\band\b)\s*/).filter(name => name);
+		if (names.length === 0 || !names.every(name => DAYS.includes(name as DayOfWeek))) return null;
+		return this.sortDays(names as DayOfWeek[]);
+	}
+
+	/**
+	 * 省略された曜日・日付・月を基準日から補完する（Graphは週単位なら曜日、月・年単位なら日付が必須）
+	 */
+	private static complete(pattern: RecurrencePattern, baseDate: string): RecurrencePattern {
+		const base = this.toUtcDate(baseDate);
+		const completed: RecurrencePattern = { ...pattern };
+
+		if (completed.type === 'weekly') {
+			completed.daysOfWeek = completed.daysOfWeek?.length ? completed.daysOfWeek : [DAYS[base.getUTCDay()]];
+			completed.firstDayOfWeek = completed.firstDayOfWeek || 'sunday';
+		}
+		if (completed.type === 'absoluteMonthly' || completed.type === 'absoluteYearly') {
+			completed.dayOfMonth = completed.dayOfMonth || base.getUTCDate();
+		}
+		if (completed.type === 'absoluteYearly') {
+			completed.month = completed.month || base.getUTCMonth() + 1;
+		}
+		return completed;
+	}
+
+	private static nextWeeklyOccurrence(pattern: RecurrencePattern, from: Date): Date {
+		// complete()で補完済みだが、曜日がなければ基準日の曜日とする
+		const days = pattern.daysOfWeek?.length ? pattern.daysOfWeek : [DAYS[from.getUTCDay()]];
+		const weekStart = from.getTime() - ((from.getUTCDay() - DAYS.indexOf(pattern.firstDayOfWeek || 'sunday') + 7) % 7) * DAY_MS;
+
+		// 基準日の週から数えて間隔の倍数の週に含まれる、次の該当曜日
+		for (let offset = 1; ; offset++) {
+			const candidate = new Date(from.getTime() + offset * DAY_MS);
+			const week = Math.floor((candidate.getTime() - weekStart) / (7 * DAY_MS));
+			if (week % pattern.interval === 0 && days.includes(DAYS[candidate.getUTCDay()])) {
+				return candidate;
+			}
+		}
+	}
+
+	/**
+	 * 指定月（monthは0始まり、12以上は翌年以降）のパターンに該当する日付
+	 * 月末を超える日付は月末にする
+	 */
+	private static occurrenceInMonth(pattern: RecurrencePattern, year: number, month: number): Date {
+		const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+		if (pattern.type === 'absoluteMonthly' || pattern.type === 'absoluteYearly') {
+			return new Date(Date.UTC(year, month, Math.min(pattern.dayOfMonth || 1, daysInMonth)));
+		}
+
+		const weekday = DAYS.indexOf((pattern.daysOfWeek || ['monday'])[0]);
+		if (pattern.index === 'last') {
+			const lastDay = new Date(Date.UTC(year, month, daysInMonth));
+			return new Date(lastDay.getTime() - ((lastDay.getUTCDay() - weekday + 7) % 7) * DAY_MS);
+		}
+
+		const firstDay = new Date(Date.UTC(year, month, 1));
+		const firstMatch = 1 + (weekday - firstDay.getUTCDay() + 7) % 7;
+		const weekNumber = ['first', 'second', 'third', 'fourth'].indexOf(pattern.index || 'first');
+		return new Date(Date.UTC(year, month, firstMatch + weekNumber * 7));
+	}
+
+	private static sortDays(days: DayOfWeek[]): DayOfWeek[] {
+		// Tasks pluginの表記に合わせて月曜始まりで並べる
+		const order = (day: DayOfWeek) => (DAYS.indexOf(day) + 6) % 7;
+		return Array.from(new Set(days)).sort((a, b) => order(a) - order(b));
+	}
+
+	private static ordinal(value: number): string {
+		const suffix = value % 100 >= 11 && value % 100 <= 13
+			? 'th'
+			: ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] || 'th';
+		return `${value}${suffix}`;
+	}
+
+	private static capitalize(value: string): string {
+		return value.charAt(0).toUpperCase() + value.slice(1);
+	}
+
+	private static toUtcDate(date: string): Date {
+		const [year, month, day] = date.split('-').map(Number);
+		return new Date(Date.UTC(year, month - 1, day));
+	}
+
+	private static toDateString(date: Date): string {
+		return date.toISOString().slice(0, 10);
+	}
+}
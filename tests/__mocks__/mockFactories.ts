@@ -68,33 +68,95 @@ export function createMockPlugin(): jest.Mocked<Plugin> {
  * TodoApiClientのモックを作成
  */
 export function createMockApiClient(): jest.Mocked<TodoApiClient> {
-	return {
+	return addBatchMethodMocks({
 		getTasks: jest.fn().mockResolvedValue([]),
+		getTasksDelta: jest.fn(),
 		createTask: jest.fn(),
 		createTaskWithStartDate: jest.fn(),
 		completeTask: jest.fn(),
+		reopenTask: jest.fn(),
 		updateTaskTitle: jest.fn(),
+		updateTaskDueDate: jest.fn(),
+		updateTaskImportance: jest.fn(),
+		updateTaskRecurrence: jest.fn(),
+		updateTaskReminder: jest.fn(),
+		updateTaskNotes: jest.fn(),
+		updateTaskStartDate: jest.fn(),
+		deleteTask: jest.fn(),
+		moveTaskToList: jest.fn(),
+		getChecklistItems: jest.fn().mockResolvedValue([]),
+		createChecklistItem: jest.fn(),
+		updateChecklistItem: jest.fn(),
+		getOrCreateTaskList: jest.fn(),
 		getDefaultListId: jest.fn().mockReturnValue('default-list-id'),
 		testConnection: jest.fn().mockResolvedValue({ success: true }),
-	} as any;
+	} as any);
+}
+
+/**
+ * $batchでまとめて送信するメソッドのモックを追加
+ * 同じモックの1件ずつのメソッドを順に呼び出すため、テストは1件ずつのメソッドの呼び出しを検証できる
+ */
+export function addBatchMethodMocks<T extends Record<string, any>>(apiClient: T): T {
+	const each = (call: (listId: string, item: any) => Promise<unknown>) =>
+		jest.fn(async (listId: string, items: unknown[]) => {
+			const results = [];
+			for (const item of items) {
+				try {
+					results.push({ value: await call(listId, item) });
+				} catch (error) {
+					results.push({ error });
+				}
+			}
+			return results;
+		});
+
+	return Object.assign(apiClient, {
+		createTasks: each((listId, task) => apiClient.createTaskWithStartDate(listId, task.title, task.startDate, task.attributes)),
+		updateTaskTitles: each((listId, update) => apiClient.updateTaskTitle(listId, update.taskId, update.title)),
+		completeTasks: each((listId, taskId) => apiClient.completeTask(listId, taskId)),
+		deleteTasks: each((listId, taskId) => apiClient.deleteTask(listId, taskId)),
+	});
 }
 
 /**
  * DailyNoteManagerのモックを作成
  */
 export function createMockDailyNoteManager(): jest.Mocked<DailyNoteManager> {
-	return {
+	const manager = {
 		ensureTodayNoteExists: jest.fn(),
 		getDailyNoteTasks: jest.fn().mockResolvedValue([]),
 		getAllDailyNoteTasks: jest.fn().mockResolvedValue([]),
+		getVaultTasks: jest.fn().mockResolvedValue([]),
+		getVaultNoteFiles: jest.fn().mockReturnValue([]),
 		addTaskToTodoSection: jest.fn(),
 		updateTaskCompletion: jest.fn(),
+		updateTaskTitle: jest.fn(),
+		updateTaskDueDate: jest.fn(),
+		updateTaskImportance: jest.fn(),
+		updateTaskRecurrence: jest.fn(),
+		updateTaskReminder: jest.fn(),
+		updateTaskNotes: jest.fn(),
+		getFileModifiedTime: jest.fn(),
+		cancelTask: jest.fn(),
+		removeTaskLine: jest.fn(),
+		addSubtask: jest.fn(),
+		setTaskBlockId: jest.fn(),
+		carryOverTasks: jest.fn(),
 		getTodayNotePath: jest.fn().mockReturnValue('Daily Notes/2024-01-01.md'),
 		getNotePath: jest.fn(),
 		createDailyNote: jest.fn(),  // 追加
+		getPeriodStart: jest.fn((date: string) => date),
+		extractDateFromFilename: jest.fn((filePath: string) => filePath.match(/(\d{4}-\d{2}-\d{2})\.md$/)?.[1]),
 		app: {} as any,
 		settings: {} as any,
 	} as any;
+	// 書き込みを記録する同期（プレビュー・履歴）もこのモックに書き込む
+	manager.withVault = jest.fn((wrap: (vault: any) => any) => {
+		wrap(manager.app.vault);
+		return manager;
+	});
+	return manager;
 }
 
 /**
@@ -106,6 +168,10 @@ export function createMockMetadataStore(): jest.Mocked<TaskMetadataStore> {
 		getMsftTaskId: jest.fn(),
 		getMetadataByDate: jest.fn().mockReturnValue([]),
 		findByMsftTaskId: jest.fn(),
+		updateMetadataByMsftId: jest.fn(),
+		removeMetadataByMsftId: jest.fn(),
+		getAllMetadata: jest.fn().mockReturnValue([]),
+		clearDeltaState: jest.fn(),
 		updateTitle: jest.fn(),
 		removeMetadata: jest.fn(),
 		cleanupOldMetadata: jest.fn(),
@@ -130,6 +196,21 @@ export function createMockSettings(): TodoIntegratorSettings {
 		dailyNoteDateFormat: 'YYYY-MM-DD',
 		dailyNoteTemplate: undefined,
 		taskSectionHeading: '## TODO',
+		listMappings: [],
+		deletionSync: 'off',
+		deletionGracePeriodHours: 24,
+		conflictResolution: 'obsidian',
+		vaultWideSync: false,
+		vaultSyncInclude: [],
+		vaultSyncExclude: [],
+		vaultSyncTag: '#mstodo',
+		stableTaskIds: false,
+		notePeriod: 'daily',
+		taskInsertPosition: 'bottom',
+		listSubheadings: false,
+		listSubheadingLevel: 2,
+		taskSectionAnchor: '',
+		carryOverTasks: 'off',
 		_userSetDailyNotesPath: false,
 		_userSetDailyNoteDateFormat: false,
 		_userSetDailyNoteTemplate: false,
@@ -18,6 +18,7 @@ export class App {
 			return new TFile();
 		}),
 		create: jest.fn().mockResolvedValue(new TFile()),
+		createFolder: jest.fn().mockResolvedValue(undefined),
 		modify: jest.fn().mockResolvedValue(undefined),
 		read: jest.fn().mockResolvedValue('# Test Note\n\n## ToDo\n\n- [ ] Task 1\n- [x] Task 2\n- [ ] Task 3'),
 		getMarkdownFiles: jest.fn(() => [new TFile()]),
@@ -6,6 +6,7 @@ import { TodoApiClient } from '../../src/api/TodoApiClient';
 import { DailyNoteManager } from '../../src/sync/DailyNoteManager';
 import { SimpleLogger } from '../../src/utils/simpleLogger';
 import { TodoTask, DailyNoteTask } from '../../src/types';
+import { addBatchMethodMocks } from '../__mocks__/mockFactories';
 
 describe('Metadata-based Synchronization Integration', () => {
 	let synchronizer: TodoSynchronizer;
@@ -24,13 +25,13 @@ describe('Metadata-based Synchronization Integration', () => {
 			setLogLevel: jest.fn()
 		} as any;
 
-		mockApiClient = {
+		mockApiClient = addBatchMethodMocks({
 			getTasks: jest.fn(),
 			createTaskWithStartDate: jest.fn(),
 			completeTask: jest.fn(),
 			getDefaultListId: jest.fn().mockReturnValue('default-list'),
 			updateTaskTitle: jest.fn()
-		} as any;
+		} as any);
 
 		mockDailyNoteManager = {
 			ensureTodayNoteExists: jest.fn(),
@@ -38,6 +39,7 @@ describe('Metadata-based Synchronization Integration', () => {
 			addTaskToTodoSection: jest.fn(),
 			updateTaskCompletion: jest.fn(),
 			getNotePath: jest.fn(),
+			getPeriodStart: jest.fn((date: string) => date),
 			createDailyNote: jest.fn().mockResolvedValue(undefined),
 			app: {
 				vault: {
@@ -104,12 +106,16 @@ describe('Metadata-based Synchronization Integration', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-15.md',
 				'Task 1',
-				'## ToDo'
+				'## ToDo',
+				{},
+				'default'
 			);
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-15.md',
 				'Task 2',
-				'## ToDo'
+				'## ToDo',
+				{},
+				'default'
 			);
 
 			// Verify: Metadata was stored
@@ -194,7 +200,8 @@ describe('Metadata-based Synchronization Integration', () => {
 			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith(
 				'default-list',
 				'New Obsidian Task',
-				'2024-01-15'
+				'2024-01-15',
+				{}
 			);
 
 			// Verify: Metadata was stored
@@ -341,6 +348,8 @@ describe('Metadata-based Synchronization Integration', () => {
 				}
 				return mockDate;
 			});
+			// メタデータ更新時のDate.now()も固定日時を返す
+			(global.Date as any).now = () => mockDate.getTime();
 
 			// Execute sync - should not throw error
 			const result = await synchronizer.syncCompletions();
@@ -435,7 +444,8 @@ describe('Metadata-based Synchronization Integration', () => {
 			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith(
 				'default-list',
 				'New Task from Obsidian',
-				'2024-01-15'
+				'2024-01-15',
+				{}
 			);
 
 			// Verify: No duplicate tasks were created in second sync
@@ -190,6 +190,40 @@ describe('MSALAuthenticationManager', () => {
 		});
 	});
 
+	describe('restoreSession', () => {
+		it('should throw if not initialized', async () => {
+			await expect(authManager.restoreSession()).rejects.toThrow('Authentication manager not initialized');
+		});
+
+		it('should restore session silently from cached account', async () => {
+			await authManager.initialize('test-client-id', 'common');
+			const mockPca = (authManager as any).pca;
+			const getAllAccounts = jest.fn().mockResolvedValue([{ username: 'test@example.com' }]);
+			mockPca.getTokenCache = jest.fn(() => ({ getAllAccounts }));
+			mockPca.acquireTokenSilent.mockResolvedValue({
+				accessToken: 'restored-token',
+				expiresOn: new Date(Date.now() + 3600000),
+				account: { username: 'test@example.com', name: 'Test User' },
+			});
+
+			const restored = await authManager.restoreSession();
+
+			expect(restored).toBe(true);
+			expect(authManager.isAuthenticated()).toBe(true);
+		});
+
+		it('should return false when no cached account exists', async () => {
+			await authManager.initialize('test-client-id', 'common');
+			const mockPca = (authManager as any).pca;
+			mockPca.getTokenCache = jest.fn(() => ({ getAllAccounts: jest.fn().mockResolvedValue([]) }));
+
+			const restored = await authManager.restoreSession();
+
+			expect(restored).toBe(false);
+			expect(mockPca.acquireTokenSilent).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('logout', () => {
 		beforeEach(async () => {
 			await authManager.initialize('test-client-id', 'common');
@@ -204,5 +238,16 @@ describe('MSALAuthenticationManager', () => {
 			expect((authManager as any).cachedToken).toBeNull();
 			expect((authManager as any).tokenExpiry).toBeNull();
 		});
+
+		it('should clear the persisted token cache', async () => {
+			const cachePlugin = { clear: jest.fn().mockResolvedValue(undefined) } as any;
+			await authManager.initialize('test-client-id', 'common', cachePlugin);
+			const mockPca = (authManager as any).pca;
+			mockPca.getTokenCache = jest.fn(() => ({ getAllAccounts: jest.fn().mockResolvedValue([]) }));
+
+			await authManager.logout();
+
+			expect(cachePlugin.clear).toHaveBeenCalled();
+		});
 	});
 });
\ No newline at end of file
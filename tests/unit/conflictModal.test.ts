@@ -0,0 +1,47 @@
+// Tests for ConflictModal
+
+import { App } from 'obsidian';
+import { ConflictModal } from '../../src/ui/ConflictModal';
+import { TaskConflict } from '../../src/types';
+
+describe('ConflictModal', () => {
+	let modal: ConflictModal;
+	let mockOnResolve: jest.Mock;
+	let mockOnDone: jest.Mock;
+	const conflicts: TaskConflict[] = [
+		{ msftTaskId: 'task1', title: 'Report', field: 'dueDate', obsidianValue: '2024-01-12', msftValue: '2024-01-15' },
+		{ msftTaskId: 'task2', title: 'Review', field: 'title', obsidianValue: 'Review', msftValue: 'Code review' },
+	];
+
+	beforeEach(() => {
+		mockOnResolve = jest.fn().mockResolvedValue(undefined);
+		mockOnDone = jest.fn();
+		modal = new ConflictModal(new App(), conflicts, mockOnResolve, mockOnDone);
+	});
+
+	it('競合ごとに両側の値を表示する', () => {
+		modal.onOpen();
+
+		expect(modal.contentEl.createEl).toHaveBeenCalledWith('h2', { text: 'Sync Conflicts' });
+		expect(modal.contentEl.createEl).toHaveBeenCalledWith('div', { cls: 'todo-integrator-conflict' });
+	});
+
+	it('選ばれた側を通知し、すべて解決したら閉じる', async () => {
+		modal.onOpen();
+
+		await modal.resolve(conflicts[0], 'obsidian');
+		expect(mockOnResolve).toHaveBeenCalledWith(conflicts[0], 'obsidian');
+		expect(modal.close).not.toHaveBeenCalled();
+
+		await modal.resolve(conflicts[1], 'microsoft');
+		expect(modal.close).toHaveBeenCalled();
+	});
+
+	it('閉じたときに解決した件数を通知する', async () => {
+		await modal.resolve(conflicts[0], 'microsoft');
+
+		modal.onClose();
+
+		expect(mockOnDone).toHaveBeenCalledWith(1);
+	});
+});
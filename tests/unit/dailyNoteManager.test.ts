@@ -191,6 +191,218 @@ Some notes here.`;
 				expectedContent
 			);
 		});
+
+		it('期日付きのタスクは📅マーカーを付けて追加する', async () => {
+			// Given: 空のToDoセクション
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n`);
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+
+			// When: 期日付きでタスクを追加
+			await manager.addTaskToTodoSection('test.md', 'Report', '## ToDo', { dueDate: '2024-01-20' });
+
+			// Then
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Report 📅 2024-01-20\n`
+			);
+		});
+
+		it('重要度がhighのタスクは⏫マーカーを期日の前に付けて追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n`);
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+
+			await manager.addTaskToTodoSection('test.md', 'Report', '## ToDo', { dueDate: '2024-01-20', importance: 'high' });
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Report ⏫ 📅 2024-01-20\n`
+			);
+		});
+
+		it('繰り返しルールは🔁マーカーとして優先度と期日の間に付けて追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n`);
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+
+			await manager.addTaskToTodoSection('test.md', 'Standup', '## ToDo', {
+				dueDate: '2024-01-22',
+				importance: 'high',
+				recurrence: 'every week on Monday',
+			});
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Standup ⏫ 🔁 every week on Monday 📅 2024-01-22\n`
+			);
+		});
+
+		it('リマインダーは⏰マーカーとして期日の後に付けて追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n`);
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+
+			await manager.addTaskToTodoSection('test.md', 'Call', '## ToDo', { dueDate: '2024-01-20', reminder: '2024-01-20 09:30' });
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Call 📅 2024-01-20 ⏰ 2024-01-20 09:30\n`
+			);
+		});
+
+		it('メモはタスクの下にインデントした子行として追加し、既存タスクのメモの後に挿入する', async () => {
+			// Given: メモ付きの既存タスク
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] Existing\n\tExisting note\n`);
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+
+			// When
+			await manager.addTaskToTodoSection('test.md', 'Meeting', '## ToDo', { notes: 'Agenda\n- budget' });
+
+			// Then
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Existing\n\tExisting note\n- [ ] Meeting\n\tAgenda\n\t- budget\n`
+			);
+		});
+	});
+
+	describe('タスクの配置（setTaskPlacement）', () => {
+		const placement = { position: 'bottom' as const, listSubheadings: false, subheadingLevel: 2 };
+
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('先頭に配置する設定では既存のタスクの前に追加する', async () => {
+			// Given
+			manager.setTaskPlacement({ ...placement, position: 'top' });
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] First\n- [ ] Second\n`);
+
+			// When
+			const lineNumber = await manager.addTaskToTodoSection('test.md', 'New', '## ToDo');
+
+			// Then
+			expect(lineNumber).toBe(1);
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] New\n- [ ] First\n- [ ] Second\n`
+			);
+		});
+
+		it('期日順では期日の遅いタスクの前に追加し、期日なしのタスクは最後に並べる', async () => {
+			// Given: 期日順のタスク（メモ付き）と期日なしのタスク
+			manager.setTaskPlacement({ ...placement, position: 'dueDate' });
+			mockApp.vault.read = jest.fn().mockResolvedValue(
+				`## ToDo\n- [ ] A 📅 2024-01-10\n\tnote\n- [ ] B [due:: 2024-01-20]\n- [ ] C\n`
+			);
+
+			// When
+			await manager.addTaskToTodoSection('test.md', 'New', '## ToDo', { dueDate: '2024-01-15' });
+
+			// Then
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] A 📅 2024-01-10\n\tnote\n- [ ] New 📅 2024-01-15\n- [ ] B [due:: 2024-01-20]\n- [ ] C\n`
+			);
+		});
+
+		it('重要度順では重要度の低いタスクの前に追加する', async () => {
+			manager.setTaskPlacement({ ...placement, position: 'importance' });
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] A ⏫\n- [ ] B\n- [ ] C 🔽\n`);
+
+			await manager.addTaskToTodoSection('test.md', 'New', '## ToDo');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] A ⏫\n- [ ] B\n- [ ] New\n- [ ] C 🔽\n`
+			);
+		});
+
+		it('リストのサブ見出しがなければセクションの末尾に作成し、その下に追加する', async () => {
+			// Given: 別のリストのサブ見出しがあるセクション（サブ見出しはセクションより1つ下のレベル）
+			manager.setTaskPlacement({ ...placement, listSubheadings: true });
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n### Work\n- [ ] Report\n\n## Notes\n`);
+
+			// When
+			const lineNumber = await manager.addTaskToTodoSection('test.md', 'Milk', '## ToDo', undefined, 'Home');
+
+			// Then
+			expect(lineNumber).toBe(5);
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n### Work\n- [ ] Report\n\n### Home\n- [ ] Milk\n\n## Notes\n`
+			);
+		});
+
+		it('既存のリストのサブ見出しの下に追加する', async () => {
+			manager.setTaskPlacement({ ...placement, listSubheadings: true, subheadingLevel: 4 });
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n#### Work\n- [ ] Report\n#### Home\n- [ ] Milk\n`);
+
+			await manager.addTaskToTodoSection('test.md', 'Slides', '## ToDo', undefined, 'Work');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n#### Work\n- [ ] Report\n- [ ] Slides\n#### Home\n- [ ] Milk\n`
+			);
+		});
+
+		it('アンカーの見出しがあればそのセクションの末尾にタスクセクションを作成する', async () => {
+			// Given: アンカーの見出しのセクションの後に別の見出しがあるノート
+			manager.setTaskPlacement({ ...placement, anchorHeading: '## Plan' });
+			mockApp.vault.read = jest.fn().mockResolvedValue(`# Daily Note\n\n## Notes\n\n## Plan\nFocus on reviews\n## Log\n`);
+
+			// When
+			const sectionLine = await manager.findOrCreateTodoSection('test.md', '## ToDo');
+
+			// Then
+			expect(sectionLine).toBe(7);
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`# Daily Note\n\n## Notes\n\n## Plan\nFocus on reviews\n\n## ToDo\n\n## Log\n`
+			);
+		});
+	});
+
+	describe('未完了タスクの持ち越し（carryOverTasks）', () => {
+		const pastNote = 'Daily Notes/2024-01-15.md';
+		const todayNote = 'Daily Notes/2024-01-16.md';
+		let contents: Record<string, string>;
+
+		beforeEach(() => {
+			contents = {
+				[pastNote]: `## ToDo\n- [ ] Report 📅 2024-01-20 ^mst-aaa111\n\tDraft first\n\t- [ ] Outline\n- [ ] Call\n- [x] Done\n`,
+				[todayNote]: `## ToDo\n- [ ] Today\n`,
+			};
+			mockApp.vault.getAbstractFileByPath = jest.fn((path: string) => Object.assign(new TFile(), { path }));
+			mockApp.vault.read = jest.fn(async (file: TFile) => contents[file.path]);
+			mockApp.vault.modify = jest.fn(async (file: TFile, content: string) => {
+				contents[file.path] = content;
+			});
+		});
+
+		it('タスクをメモ・サブタスクごと元のノートから取り除き、今日のノートのタスクセクションに追加する', async () => {
+			// When
+			await manager.carryOverTasks(pastNote, [1, 4], todayNote, '## ToDo');
+
+			// Then: 元の順序で今日のノートに追加される
+			expect(contents[pastNote]).toBe(`## ToDo\n- [x] Done\n`);
+			expect(contents[todayNote]).toBe(
+				`## ToDo\n- [ ] Today\n- [ ] Report 📅 2024-01-20 ^mst-aaa111\n\tDraft first\n\t- [ ] Outline\n- [ ] Call\n`
+			);
+		});
+
+		it('コピーでは元のタスクを移行済みにして残し、コピーに元のノートへのリンクを付ける', async () => {
+			// When
+			await manager.carryOverTasks(pastNote, [1], todayNote, '## ToDo', undefined, true);
+
+			// Then: 元のタスクとサブタスクは同期の対象から外れ、安定IDはコピーに移る
+			expect(contents[pastNote]).toBe(
+				`## ToDo\n- [>] Report 📅 2024-01-20\n\tDraft first\n\t- [>] Outline\n- [ ] Call\n- [x] Done\n`
+			);
+			expect(contents[todayNote]).toContain(`- [ ] Report 📅 2024-01-20 (from [[2024-01-15]]) ^mst-aaa111\n`);
+
+			// コピーのタイトルには元のノートへのリンクを含めない
+			const tasks = await manager.getDailyNoteTasks(todayNote, '## ToDo');
+			expect(tasks[1]).toEqual(expect.objectContaining({ title: 'Report', dueDate: '2024-01-20', blockId: 'mst-aaa111' }));
+			expect((await manager.getDailyNoteTasks(pastNote, '## ToDo')).map(task => task.title)).toEqual(['Call', 'Done']);
+		});
 	});
 
 	describe('デイリーノートからのタスク取得（getDailyNoteTasks）', () => {
@@ -257,6 +469,389 @@ No tasks here.`;
 			// Then: 空の配列が返される
 			expect(tasks).toHaveLength(0);
 		});
+
+		it('📅と[due:: ]形式の期日を解析し、タイトルから除去する', async () => {
+			// Given: 両形式の期日を持つタスク
+			const fileContent = `## ToDo
+- [ ] Emoji task 📅 2024-01-20
+- [x] Inline task [due:: 2024-01-21] ✅ 2024-01-19`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			// When
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then
+			expect(tasks[0]).toEqual(expect.objectContaining({ title: 'Emoji task', dueDate: '2024-01-20' }));
+			expect(tasks[1]).toEqual(expect.objectContaining({
+				title: 'Inline task',
+				dueDate: '2024-01-21',
+				completionDate: '2024-01-19',
+			}));
+		});
+
+		it('優先度マーカーを重要度として解析し、タイトルから除去する', async () => {
+			// Given: 絵文字とDataview形式の優先度を持つタスク
+			const fileContent = `## ToDo
+- [ ] Urgent ⏫ 📅 2024-01-20
+- [ ] Someday [priority:: lowest]
+- [ ] Medium 🔼
+- [ ] Plain`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			// When
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then
+			expect(tasks[0]).toEqual(expect.objectContaining({ title: 'Urgent', importance: 'high', dueDate: '2024-01-20' }));
+			expect(tasks[1]).toEqual(expect.objectContaining({ title: 'Someday', importance: 'low' }));
+			expect(tasks[2]).toEqual(expect.objectContaining({ title: 'Medium', importance: 'normal' }));
+			expect(tasks[3].importance).toBeUndefined();
+		});
+
+		it('🔁マーカーを正規化した繰り返しルールとして解析し、タイトルから除去する', async () => {
+			// Given: 省略形・対応していないルールを含む繰り返しタスク
+			const fileContent = `## ToDo
+- [ ] Standup 🔁 every Monday, Friday 📅 2024-01-22
+- [ ] Rent ⏫ 🔁 every month on the 1st
+- [ ] Water plants 🔁 every week when done`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			// When
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then: Microsoft Todoで表現できないルールはマーカーのみ除去する
+			expect(tasks[0]).toEqual(expect.objectContaining({
+				title: 'Standup',
+				recurrence: 'every week on Monday, Friday',
+				dueDate: '2024-01-22',
+			}));
+			expect(tasks[1]).toEqual(expect.objectContaining({ title: 'Rent', importance: 'high', recurrence: 'every month on the 1st' }));
+			expect(tasks[2].title).toBe('Water plants');
+			expect(tasks[2].recurrence).toBeUndefined();
+		});
+
+		it('⏰マーカーをリマインダーとして解析し、時刻がなければ既定の時刻を補う', async () => {
+			const fileContent = `## ToDo
+- [ ] Call 📅 2024-01-20 ⏰ 2024-01-20 9:30
+- [ ] Review 🔁 every week ⏰ 2024-01-22 #work`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			expect(tasks[0]).toEqual(expect.objectContaining({ title: 'Call', dueDate: '2024-01-20', reminder: '2024-01-20 09:30' }));
+			expect(tasks[1]).toEqual(expect.objectContaining({
+				title: 'Review #work',
+				recurrence: 'every week',
+				reminder: '2024-01-22 09:00',
+			}));
+		});
+
+		it('タスク直下のインデント行とブロック引用をメモとして解析する', async () => {
+			// Given: インデント行（空行を含む）、ブロック引用、入れ子のタスクを持つタスク
+			const fileContent = `## ToDo
+- [ ] Meeting
+    Agenda
+
+    - budget
+- [ ] Call
+	> Ask about
+	> the contract
+- [ ] Parent
+	- [ ] Child
+	Not a note of Parent`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			// When
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then: 入れ子のタスク以降の行はメモに含めない
+			expect(tasks[0]).toEqual(expect.objectContaining({ title: 'Meeting', notes: 'Agenda\n\n- budget' }));
+			expect(tasks[1]).toEqual(expect.objectContaining({ title: 'Call', notes: 'Ask about\nthe contract' }));
+			expect(tasks[2].notes).toBeUndefined();
+			expect(tasks).toHaveLength(3);
+		});
+
+		it('入れ子のチェックボックスは親タスクのサブタスクとして解析する', async () => {
+			// Given: サブタスク（孫を含む）を持つタスクと、その後のトップレベルのタスク
+			const fileContent = `## ToDo
+  - [ ] Trip
+  	- [x] Book hotel ✅ 2024-01-10
+  	- [ ] Pack
+  		- [ ] Charger
+  - [ ] Next`;
+			mockApp.vault.read = jest.fn().mockResolvedValue(fileContent);
+
+			// When
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then: サブタスクはトップレベルのタスクとして返さない
+			expect(tasks.map(task => task.title)).toEqual(['Trip', 'Next']);
+			expect(tasks[0].subtasks).toEqual([
+				{ title: 'Book hotel', completed: true, lineNumber: 2 },
+				{ title: 'Pack', completed: false, lineNumber: 3 },
+				{ title: 'Charger', completed: false, lineNumber: 4 },
+			]);
+			expect(tasks[1].subtasks).toBeUndefined();
+		});
+	});
+
+	describe('サブタスクの追加（addSubtask）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('メモと既存のサブタスクの後に、親より1段深いサブタスクを追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo
+  - [ ] Trip
+  	Note
+  	- [ ] Pack
+- [ ] Next`);
+
+			await manager.addSubtask('test.md', 1, 'Book hotel', true);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo
+  - [ ] Trip
+  	Note
+  	- [ ] Pack
+  	- [x] Book hotel
+- [ ] Next`
+			);
+		});
+
+		it('指定行がタスクでなければエラーをスローする', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo
+- [ ] Trip`);
+
+			await expect(manager.addSubtask('test.md', 0, 'Pack')).rejects.toThrow('No task found at line 0');
+			expect(mockApp.vault.modify).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('タスクのメモ更新（updateTaskNotes）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('既存のメモを置き換え、後続のタスクは維持する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n  - [ ] Meeting\n    Old note\n- [ ] Next`);
+
+			await manager.updateTaskNotes('test.md', 1, 'New note\nSecond line');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n  - [ ] Meeting\n  \tNew note\n  \tSecond line\n- [ ] Next`
+			);
+		});
+
+		it('メモを省略すると子行を削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Meeting\n\tOld note\n- [ ] Next`);
+
+			await manager.updateTaskNotes('test.md', 0);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Meeting\n- [ ] Next`);
+		});
+	});
+
+	describe('タスクの期日更新（updateTaskDueDate）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('既存の期日はマーカー形式を維持して置き換える', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Inline [due:: 2024-01-20] #work`);
+
+			await manager.updateTaskDueDate('test.md', 0, '2024-02-01');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`- [ ] Inline [due:: 2024-02-01] #work`
+			);
+		});
+
+		it('期日がない場合は完了日の前に📅マーカーを追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [x] Done ✅ 2024-01-19`);
+
+			await manager.updateTaskDueDate('test.md', 0, '2024-01-18');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`- [x] Done 📅 2024-01-18 ✅ 2024-01-19`
+			);
+		});
+
+		it('期日を省略すると期日マーカーを削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Task 📅 2024-01-20`);
+
+			await manager.updateTaskDueDate('test.md', 0);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Task`);
+		});
+	});
+
+	describe('タスクのタイトル更新（updateTaskTitle）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('マーカーやタグを維持してタイトルのみ置き換える', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] Report ⏫ #work 📅 2024-01-20`);
+
+			await manager.updateTaskTitle('test.md', 1, 'Report', 'Monthly report');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n- [ ] Monthly report ⏫ #work 📅 2024-01-20`
+			);
+		});
+
+		it('行に元のタイトルがなければエラーをスローする', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Other task`);
+
+			await expect(manager.updateTaskTitle('test.md', 0, 'Report', 'Monthly report'))
+				.rejects.toThrow('Task title "Report" not found at line 0');
+			expect(mockApp.vault.modify).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('削除同期のためのタスク行の変更（cancelTask / removeTaskLine）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('cancelTaskはチェックボックスをキャンセル済みにして行を残す', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n  - [x] Report 📅 2024-01-20\n- [ ] Next`);
+
+			await manager.cancelTask('test.md', 1);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`## ToDo\n  - [-] Report 📅 2024-01-20\n- [ ] Next`
+			);
+		});
+
+		it('removeTaskLineはタスク行とメモを削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] Report\n\tNote\n- [ ] Next`);
+
+			await manager.removeTaskLine('test.md', 1);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `## ToDo\n- [ ] Next`);
+		});
+
+		it('removeTaskLineはサブタスクも削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] Trip\n\t- [ ] Pack\n\n\t- [x] Book\n\n- [ ] Next`);
+
+			await manager.removeTaskLine('test.md', 1);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `## ToDo\n\n- [ ] Next`);
+		});
+
+		it('指定行がタスクでなければエラーをスローする', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`## ToDo\n- [ ] Report`);
+
+			await expect(manager.removeTaskLine('test.md', 0)).rejects.toThrow('No task found at line 0');
+			expect(mockApp.vault.modify).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('タスクの優先度更新（updateTaskImportance）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('既存の優先度はマーカー形式を維持して置き換える', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Inline [priority:: low] #work`);
+
+			await manager.updateTaskImportance('test.md', 0, 'high');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`- [ ] Inline [priority:: high] #work`
+			);
+		});
+
+		it('優先度がない場合は期日の前に絵文字マーカーを追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Task 📅 2024-01-20`);
+
+			await manager.updateTaskImportance('test.md', 0, 'low');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Task 🔽 📅 2024-01-20`);
+		});
+
+		it('normalに変更すると優先度マーカーを削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Task ⏫ 📅 2024-01-20`);
+
+			await manager.updateTaskImportance('test.md', 0, 'normal');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Task 📅 2024-01-20`);
+		});
+	});
+
+	describe('タスクの繰り返しルール更新（updateTaskRecurrence）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('既存の繰り返しルールを置き換える', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Standup 🔁 every week 📅 2024-01-22 #work`);
+
+			await manager.updateTaskRecurrence('test.md', 0, 'every 2 weeks on Monday');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`- [ ] Standup 🔁 every 2 weeks on Monday 📅 2024-01-22 #work`
+			);
+		});
+
+		it('繰り返しルールがない場合は期日の前に🔁マーカーを追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Standup ⏫ 📅 2024-01-22`);
+
+			await manager.updateTaskRecurrence('test.md', 0, 'every day');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Standup ⏫ 🔁 every day 📅 2024-01-22`);
+		});
+
+		it('繰り返しルールを省略すると🔁マーカーを削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Standup 🔁 every day 📅 2024-01-22`);
+
+			await manager.updateTaskRecurrence('test.md', 0);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Standup 📅 2024-01-22`);
+		});
+	});
+
+	describe('タスクのリマインダー更新（updateTaskReminder）', () => {
+		beforeEach(() => {
+			mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+		});
+
+		it('既存のリマインダーを置き換える', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Call ⏰ 2024-01-20 09:00 #work`);
+
+			await manager.updateTaskReminder('test.md', 0, '2024-01-21 18:15');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Call ⏰ 2024-01-21 18:15 #work`);
+		});
+
+		it('リマインダーがない場合は完了日の前に⏰マーカーを追加する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [x] Call 📅 2024-01-20 ✅ 2024-01-20`);
+
+			await manager.updateTaskReminder('test.md', 0, '2024-01-20 09:00');
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(
+				expect.any(Object),
+				`- [x] Call 📅 2024-01-20 ⏰ 2024-01-20 09:00 ✅ 2024-01-20`
+			);
+		});
+
+		it('リマインダーを省略すると⏰マーカーを削除する', async () => {
+			mockApp.vault.read = jest.fn().mockResolvedValue(`- [ ] Call ⏰ 2024-01-20 📅 2024-01-20`);
+
+			await manager.updateTaskReminder('test.md', 0);
+
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), `- [ ] Call 📅 2024-01-20`);
+		});
 	});
 
 	describe('タスクの完了状態更新（updateTaskCompletion）', () => {
@@ -313,6 +908,297 @@ No tasks here.`;
 		});
 	});
 
+	describe('安定ID（ブロック参照）', () => {
+		it('行末のブロック参照をタスクの安定IDとして読み取り、タイトルから除外する', async () => {
+			// Given: ブロック参照付きのタスク
+			mockApp.vault.read = jest.fn().mockResolvedValue('- [ ] Call 📅 2024-01-20 ^mst-k3x9q2\n- [ ] Call');
+
+			// When: タスクを取得
+			const tasks = await manager.getDailyNoteTasks('test.md');
+
+			// Then: 同名のタスクも安定IDで区別できる
+			expect(tasks).toEqual([
+				expect.objectContaining({ title: 'Call', dueDate: '2024-01-20', blockId: 'mst-k3x9q2' }),
+				expect.not.objectContaining({ blockId: expect.anything() }),
+			]);
+		});
+
+		it('マーカーの更新や完了でブロック参照を行末に維持する', async () => {
+			// Given: ブロック参照付きのタスク
+			mockApp.vault.read = jest.fn().mockResolvedValue('- [ ] Call ^mst-k3x9q2');
+
+			// When: 期日を設定し、完了にする
+			await manager.updateTaskDueDate('test.md', 0, '2024-01-20');
+			mockApp.vault.read = jest.fn().mockResolvedValue('- [ ] Call 📅 2024-01-20 ^mst-k3x9q2');
+			await manager.updateTaskCompletion('test.md', 0, true, '2024-01-21');
+
+			// Then: マーカーはブロック参照の前に追加される
+			expect(mockApp.vault.modify).toHaveBeenNthCalledWith(1, expect.any(Object), '- [ ] Call 📅 2024-01-20 ^mst-k3x9q2');
+			expect(mockApp.vault.modify).toHaveBeenNthCalledWith(2, expect.any(Object), '- [x] Call 📅 2024-01-20 ✅ 2024-01-21 ^mst-k3x9q2');
+		});
+
+		it('setTaskBlockIdでタスク行にブロック参照を付ける', async () => {
+			// Given: ブロック参照のないタスク
+			mockApp.vault.read = jest.fn().mockResolvedValue('## ToDo\n- [ ] Call 📅 2024-01-20');
+
+			// When: 安定IDを設定
+			await manager.setTaskBlockId('test.md', 1, 'mst-abc123');
+
+			// Then: 行末にブロック参照が付く
+			expect(mockApp.vault.modify).toHaveBeenCalledWith(expect.any(Object), '## ToDo\n- [ ] Call 📅 2024-01-20 ^mst-abc123');
+		});
+
+		it('addTaskToTodoSectionは安定IDを付けられるよう追加した行番号を返す', async () => {
+			// Given: ToDoセクションに既存のタスクがあるノート
+			mockApp.vault.read = jest.fn().mockResolvedValue('# Daily Note\n\n## ToDo\n- [ ] Existing ^mst-aaa111\n');
+
+			// When: タスクを追加
+			const lineNumber = await manager.addTaskToTodoSection('test.md', 'Call', '## ToDo');
+
+			// Then: 既存のタスクの次の行に追加される
+			expect(lineNumber).toBe(4);
+		});
+	});
+
+	describe('ボルト全体のタスク取得（getVaultTasks）', () => {
+		const createFile = (path: string): TFile =>
+			Object.assign(new TFile(), { path, name: path.split('/').pop() });
+
+		beforeEach(() => {
+			mockApp.vault.getMarkdownFiles = jest.fn(() => [
+				createFile('Daily Notes/2024-01-15.md'),
+				createFile('Projects/Website.md'),
+				createFile('Projects/Archive/Old.md'),
+				createFile('Inbox.md'),
+			]);
+		});
+
+		it('include/excludeに一致するデイリーノート以外のノートを対象にする', () => {
+			// Given: Projects配下を対象にし、Archiveを除外する設定
+			const options = { include: ['Projects/**'], exclude: ['Projects/Archive'] };
+
+			// When: 対象のノートを取得
+			const files = manager.getVaultNoteFiles(options);
+
+			// Then: デイリーノートと除外したノートは含まれない
+			expect(files.map(file => file.path)).toEqual(['Projects/Website.md']);
+		});
+
+		it('includeが空ならボルト全体（デイリーノートを除く）を対象にする', () => {
+			// When: includeなしで対象のノートを取得
+			const files = manager.getVaultNoteFiles({ include: [], exclude: ['*.md'] });
+
+			// Then: ルート直下のノートのみ除外される
+			expect(files.map(file => file.path)).toEqual(['Projects/Website.md', 'Projects/Archive/Old.md']);
+		});
+
+		it('タグ付きのタスクのみをファイルパス付きで返し、タイトルからタグを除去する', async () => {
+			// Given: 見出しの外にタグ付き・タグなしのタスクがあるプロジェクトノート
+			mockApp.vault.read = jest.fn().mockResolvedValue(`# Website
+
+- [ ] Redesign landing page #mstodo 📅 2024-02-01
+- [ ] Local only task
+- [x] Publish blog #mstodo`);
+
+			// When: タグ指定でタスクを取得
+			const tasks = await manager.getVaultTasks({ include: ['Projects/Website.md'], exclude: [], tag: '#mstodo' });
+
+			// Then: タグ付きのタスクのみが開始日なしで返される
+			expect(tasks).toEqual([
+				expect.objectContaining({
+					title: 'Redesign landing page',
+					completed: false,
+					lineNumber: 2,
+					dueDate: '2024-02-01',
+					startDate: undefined,
+					filePath: 'Projects/Website.md',
+				}),
+				expect.objectContaining({
+					title: 'Publish blog',
+					completed: true,
+					lineNumber: 4,
+					filePath: 'Projects/Website.md',
+				}),
+			]);
+		});
+
+		it('タグ指定がなければノートのすべてのタスクを返す', async () => {
+			// Given: タグのないタスク
+			mockApp.vault.read = jest.fn().mockResolvedValue('- [ ] Task A\n- [ ] Task B');
+
+			// When: タグなしでタスクを取得
+			const tasks = await manager.getVaultTasks({ include: ['Inbox.md'], exclude: [] });
+
+			// Then: すべてのタスクが返される
+			expect(tasks.map(task => task.title)).toEqual(['Task A', 'Task B']);
+		});
+	});
+
+	describe('フォルダを含む日付フォーマット', () => {
+		const createFile = (path: string): TFile =>
+			Object.assign(new TFile(), { path, name: path.split('/').pop() });
+
+		beforeEach(() => {
+			manager.setDateFormat('YYYY/MM/YYYY-MM-DD ddd');
+		});
+
+		it('フォーマットに従ってフォルダを含むノートパスを生成する', () => {
+			// When: ノートパスを生成
+			const path = manager.getNotePath('2024-01-15');
+
+			// Then: 年・月のフォルダ配下のノートになる
+			expect(path).toBe('Daily Notes/2024/01/2024-01-15 Mon.md');
+		});
+
+		it('デイリーノートのフォルダからの相対パスで日付を取り出す', () => {
+			expect(manager.extractDateFromFilename('Daily Notes/2024/01/2024-01-15 Mon.md')).toBe('2024-01-15');
+			// 曜日やフォルダが日付と食い違うノートは対象外
+			expect(manager.extractDateFromFilename('Daily Notes/2024/01/2024-01-15 Tue.md')).toBeUndefined();
+			expect(manager.extractDateFromFilename('Daily Notes/2024/02/2024-01-15 Mon.md')).toBeUndefined();
+		});
+
+		it('フォーマットに一致するノートのみをデイリーノートとして扱う', async () => {
+			// Given: フォルダ内のデイリーノートとそれ以外のノート
+			mockApp.vault.getMarkdownFiles = jest.fn(() => [
+				createFile('Daily Notes/2024/01/2024-01-15 Mon.md'),
+				createFile('Daily Notes/2024/01/Monthly review.md'),
+				createFile('Projects/Website.md'),
+			]);
+
+			// When: デイリーノートとそれ以外のノートを取得
+			const dailyNotes = await manager.getAllDailyNoteFiles();
+			const otherNotes = manager.getVaultNoteFiles({ include: [], exclude: [] });
+
+			// Then
+			expect(dailyNotes.map(file => file.path)).toEqual(['Daily Notes/2024/01/2024-01-15 Mon.md']);
+			expect(otherNotes.map(file => file.path)).toEqual(['Daily Notes/2024/01/Monthly review.md', 'Projects/Website.md']);
+		});
+
+		it('ノートの作成時に存在しないフォルダを作成する', async () => {
+			// Given: ノートも月のフォルダも存在しない
+			mockApp.vault.getAbstractFileByPath = jest.fn().mockReturnValue(null);
+
+			// When: デイリーノートを作成
+			await manager.createDailyNote('2024-01-15');
+
+			// Then: フォルダを作成してからノートを作成する
+			expect(mockApp.vault.createFolder).toHaveBeenCalledWith('Daily Notes/2024/01');
+			expect(mockApp.vault.create).toHaveBeenCalledWith('Daily Notes/2024/01/2024-01-15 Mon.md', expect.any(String));
+		});
+	});
+
+	describe('週・月のノート', () => {
+		it('週のノートでは日付を含む週の初日をノートの日付にする', () => {
+			// Given: ロケールの週（日曜始まり）のフォーマット
+			manager.setNotePeriod('weekly');
+			manager.setDateFormat('gggg-[W]ww');
+
+			// Then: 2024-01-05（金）の週は2023-12-31（日）から始まり、2024年の第1週のノートになる
+			expect(manager.getPeriodStart('2024-01-05')).toBe('2023-12-31');
+			expect(manager.getNotePath('2024-01-05')).toBe('Daily Notes/2024-W01.md');
+			expect(manager.extractDateFromFilename('Daily Notes/2024-W01.md')).toBe('2023-12-31');
+		});
+
+		it('ISO週のフォーマットでは月曜始まりの週にする', () => {
+			// Given
+			manager.setNotePeriod('weekly');
+			manager.setDateFormat('GGGG-[W]WW');
+
+			// Then
+			expect(manager.getPeriodStart('2024-01-07')).toBe('2024-01-01');
+			expect(manager.getNotePath('2024-01-07')).toBe('Daily Notes/2024-W01.md');
+		});
+
+		it('月のノートでは月の初日をノートの日付にし、ノートのタスクの開始日にする', async () => {
+			// Given: 月のノートとそのタスク
+			manager.setNotePeriod('monthly');
+			manager.setDateFormat('YYYY-MM');
+			mockApp.vault.read = jest.fn().mockResolvedValue('- [ ] Monthly task');
+
+			// When
+			const tasks = await manager.getDailyNoteTasks(manager.getNotePath('2024-02-20'));
+
+			// Then
+			expect(manager.getPeriodStart('2024-02-20')).toBe('2024-02-01');
+			expect(tasks[0]).toEqual(expect.objectContaining({
+				title: 'Monthly task',
+				startDate: '2024-02-01',
+				filePath: 'Daily Notes/2024-02.md',
+			}));
+		});
+	});
+
+	describe('テンプレートからのノート作成', () => {
+		const templateFile = Object.assign(new TFile(), { path: 'Templates/Daily.md' });
+		let createdFile: TFile;
+
+		const useTemplate = (content: string) => {
+			manager.setTemplatePath('Templates/Daily.md');
+			mockApp.vault.getAbstractFileByPath = jest.fn((path: string) => path === 'Templates/Daily.md' ? templateFile : null);
+			mockApp.vault.read = jest.fn().mockResolvedValue(content);
+		};
+
+		beforeEach(() => {
+			jest.setSystemTime(new Date(2024, 0, 20, 9, 5, 30));
+			createdFile = Object.assign(new TFile(), { path: 'Daily Notes/2024-01-15.md' });
+			mockApp.vault.create = jest.fn().mockResolvedValue(createdFile);
+		});
+
+		afterEach(() => {
+			delete (mockApp as any).plugins;
+		});
+
+		it('任意のフォーマット・加減算の{{date}} / {{time}}と{{title}}をノートの日付で展開する', async () => {
+			// Given
+			useTemplate('# {{title}}\n{{date}} / {{date:dddd, MMMM D}} / {{ date-1d:YYYY-MM-DD }} / {{date+1M:MMM}}\n{{time}} {{time:HH:mm:ss}}');
+
+			// When: 2024-01-15のノートを作成
+			await manager.createDailyNote('2024-01-15');
+
+			// Then: 日付はノートの日付、時刻は現在の時刻
+			expect(mockApp.vault.create).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-15.md',
+				'# 2024-01-15\n2024-01-15 / Monday, January 15 / 2024-01-14 / Feb\n09:05 09:05:30'
+			);
+		});
+
+		it('Templaterのコマンドを含むテンプレートは作成後にTemplaterで実行する', async () => {
+			// Given: 新規ファイルでの自動実行が無効なTemplater
+			useTemplate('<% tp.file.title %>');
+			const templater = { overwrite_file_commands: jest.fn().mockResolvedValue(undefined) };
+			(mockApp as any).plugins = {
+				getPlugin: jest.fn((id: string) => id === 'templater-obsidian'
+					? { templater, settings: { trigger_on_file_creation: false } }
+					: null),
+			};
+
+			// When
+			await manager.createDailyNote('2024-01-15');
+
+			// Then
+			expect(mockApp.vault.create).toHaveBeenCalledWith('Daily Notes/2024-01-15.md', '<% tp.file.title %>');
+			expect(templater.overwrite_file_commands).toHaveBeenCalledWith(createdFile);
+		});
+
+		it('Templaterが自動実行する設定や、同期のプレビューではTemplaterを呼び出さない', async () => {
+			// Given
+			useTemplate('<% tp.file.title %>');
+			const templater = { overwrite_file_commands: jest.fn().mockResolvedValue(undefined) };
+			const settings = { trigger_on_file_creation: true };
+			(mockApp as any).plugins = { getPlugin: jest.fn(() => ({ templater, settings })) };
+
+			// When: 自動実行が有効
+			await manager.createDailyNote('2024-01-15');
+			// When: 自動実行が無効でもプレビュー用のコピーで作成
+			settings.trigger_on_file_creation = false;
+			await manager.withVault(vault => vault, true).createDailyNote('2024-01-15');
+
+			// Then
+			expect(mockApp.vault.create).toHaveBeenCalledTimes(2);
+			expect(templater.overwrite_file_commands).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('日付からノートパス生成（getNotePath）', () => {
 		it('有効な日付で正しいパスを生成する', () => {
 			// Given: 有効な日付文字列
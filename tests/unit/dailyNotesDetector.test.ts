@@ -1,6 +1,6 @@
 import { DailyNotesDetector } from '../../src/utils/DailyNotesDetector';
 import { App } from 'obsidian';
-import { SimpleLogger } from '../../src/utils/simpleLogger';
+import { SimpleLogger } from '../../src/utils/SimpleLogger';
 
 describe('DailyNotesDetector', () => {
 	let mockApp: any;
@@ -257,4 +257,59 @@ describe('DailyNotesDetector', () => {
 			expect(defaults.template).toBeUndefined();
 		});
 	});
-});
\ No newline at end of file
+
+	describe('Periodic Notesプラグインの週・月のノート設定検出', () => {
+		it('有効な週のノートの設定を返す', async () => {
+			// Arrange
+			mockApp.plugins = {
+				getPlugin: jest.fn().mockReturnValue({
+					settings: {
+						weekly: { enabled: true, format: 'GGGG-[W]WW', folder: 'Weekly', template: 'Templates/Week.md' }
+					}
+				})
+			};
+
+			// Act
+			const defaults = await detector.detectNoteDefaults('weekly');
+
+			// Assert
+			expect(mockApp.plugins.getPlugin).toHaveBeenCalledWith('periodic-notes');
+			expect(defaults).toEqual({
+				dateFormat: 'GGGG-[W]WW',
+				folder: 'Weekly',
+				template: 'Templates/Week.md'
+			});
+		});
+
+		it('プラグインがない、または期間が無効の場合は期間の既定のフォーマットを返す', async () => {
+			// Arrange: 月のノートが無効
+			mockApp.plugins = {
+				getPlugin: jest.fn().mockReturnValue({ settings: { monthly: { enabled: false, format: 'MMMM YYYY' } } })
+			};
+
+			// Act
+			const monthly = await detector.detectNoteDefaults('monthly');
+			mockApp.plugins = undefined;
+			const weekly = await detector.detectNoteDefaults('weekly');
+
+			// Assert
+			expect(monthly).toEqual({ dateFormat: 'YYYY-MM', folder: 'Daily Notes', template: undefined });
+			expect(weekly).toEqual({ dateFormat: 'gggg-[W]ww', folder: 'Daily Notes', template: undefined });
+		});
+
+		it('日ごとのノートはDaily Notesプラグインから検出する', async () => {
+			// Arrange
+			mockApp.internalPlugins.getPluginById.mockReturnValue({
+				enabled: true,
+				instance: { options: { format: 'YYYY/MM/YYYY-MM-DD', folder: 'Journal' } }
+			});
+
+			// Act
+			const defaults = await detector.detectNoteDefaults('daily');
+
+			// Assert
+			expect(defaults.dateFormat).toBe('YYYY/MM/YYYY-MM-DD');
+			expect(defaults.folder).toBe('Journal');
+		});
+	});
+});
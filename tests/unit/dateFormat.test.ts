@@ -0,0 +1,46 @@
+import { DateFormat } from '../../src/utils/DateFormat';
+
+describe('DateFormat', () => {
+	const date = new Date(2024, 0, 15);
+
+	it('moment形式のトークンと[]で囲んだ文字列でフォーマットする', () => {
+		expect(DateFormat.format(date, 'YYYY-MM-DD')).toBe('2024-01-15');
+		expect(DateFormat.format(date, 'MMMM Do, YYYY')).toBe('January 15th, 2024');
+		expect(DateFormat.format(date, 'DD.MM.YY ddd')).toBe('15.01.24 Mon');
+		expect(DateFormat.format(date, 'YYYY-[W]ww-E')).toBe('2024-W03-1');
+		expect(DateFormat.format(date, 'YYYY-DDDD [Q]Q')).toBe('2024-015 Q1');
+	});
+
+	it('フォルダを含むフォーマットで解析し、フォーマットし直して同じ文字列になる', () => {
+		for (const format of ['YYYY/MM/YYYY-MM-DD ddd', 'YYYY/MMMM/D', 'YYYY-[W]ww-E', 'GGGG-[W]WW-E', 'dddd, MMMM Do YYYY', 'YYYYMMDD']) {
+			const text = DateFormat.format(date, format);
+			expect(DateFormat.parse(text, format)).toBe('2024-01-15');
+		}
+	});
+
+	it('ISO週は年の境目で週の年に従って解析する', () => {
+		// 2024-12-30（月）はISO週で2025年の第1週
+		expect(DateFormat.format(new Date(2024, 11, 30), 'GGGG-[W]WW-E')).toBe('2025-W01-1');
+		expect(DateFormat.parse('2025-W01-1', 'GGGG-[W]WW-E')).toBe('2024-12-30');
+		// 2021-01-02（土）は2020年の第53週
+		expect(DateFormat.parse('2020-W53-6', 'GGGG-[W]WW-E')).toBe('2021-01-02');
+	});
+
+	it('加減算は年・四半期・月で月末を超える日付を月末にする', () => {
+		const format = (value: Date) => DateFormat.format(value, 'YYYY-MM-DD HH:mm');
+		const base = new Date(2024, 0, 31, 9, 30);
+
+		expect(format(DateFormat.add(base, 1, 'M'))).toBe('2024-02-29 09:30');
+		expect(format(DateFormat.add(base, -1, 'Q'))).toBe('2023-10-31 09:30');
+		expect(format(DateFormat.add(new Date(2024, 1, 29), 1, 'y'))).toBe('2025-02-28 00:00');
+		expect(format(DateFormat.add(base, -2, 'w'))).toBe('2024-01-17 09:30');
+		expect(format(DateFormat.add(base, 45, 'm'))).toBe('2024-01-31 10:15');
+	});
+
+	it('フォーマットに一致しない文字列や存在しない日付はundefinedを返す', () => {
+		expect(DateFormat.parse('2024-01-15', 'YYYY/MM/DD')).toBeUndefined();
+		expect(DateFormat.parse('2024-02-30', 'YYYY-MM-DD')).toBeUndefined();
+		// 曜日が日付と食い違う
+		expect(DateFormat.parse('2024-01-15 Tue', 'YYYY-MM-DD ddd')).toBeUndefined();
+	});
+});
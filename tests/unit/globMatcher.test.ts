@@ -0,0 +1,29 @@
+import { GlobMatcher } from '../../src/utils/GlobMatcher';
+
+describe('GlobMatcher', () => {
+	it('"**"は任意の深さのフォルダに一致する', () => {
+		expect(GlobMatcher.matches('Projects/Website.md', 'Projects/**')).toBe(true);
+		expect(GlobMatcher.matches('Projects/2024/Website.md', 'Projects/**')).toBe(true);
+		expect(GlobMatcher.matches('Areas/Website.md', 'Projects/**')).toBe(false);
+		expect(GlobMatcher.matches('Website.md', '**/*.md')).toBe(true);
+		expect(GlobMatcher.matches('Projects/2024/Website.md', '**/Website.md')).toBe(true);
+	});
+
+	it('"*"と"?"は1つのフォルダ内でのみ一致する', () => {
+		expect(GlobMatcher.matches('Projects/Website.md', 'Projects/*.md')).toBe(true);
+		expect(GlobMatcher.matches('Projects/2024/Website.md', 'Projects/*.md')).toBe(false);
+		expect(GlobMatcher.matches('Notes/v1.md', 'Notes/v?.md')).toBe(true);
+	});
+
+	it('ワイルドカードのないパターンはノートそのもの、またはフォルダ配下に一致する', () => {
+		expect(GlobMatcher.matches('Projects/Website.md', 'Projects')).toBe(true);
+		expect(GlobMatcher.matches('Projects/Website.md', 'Projects/Website')).toBe(true);
+		expect(GlobMatcher.matches('Projects/Website.md', 'Projects/Website.md')).toBe(true);
+		expect(GlobMatcher.matches('ProjectsArchive/Website.md', 'Projects')).toBe(false);
+	});
+
+	it('いずれかのパターンに一致するかを判定する', () => {
+		expect(GlobMatcher.matchesAny('Inbox.md', ['Projects/**', 'Inbox.md'])).toBe(true);
+		expect(GlobMatcher.matchesAny('Inbox.md', [])).toBe(false);
+	});
+});
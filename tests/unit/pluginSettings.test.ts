@@ -0,0 +1,159 @@
+// Tests for PluginSettings list mapping handling
+
+import { PluginSettings } from '../../src/settings/PluginSettings';
+import { createMockSettings } from '../__mocks__/mockFactories';
+import { CARRY_OVER_DATA_KEY, TOKEN_CACHE_DATA_KEY } from '../../src/constants';
+
+describe('PluginSettings - list mappings', () => {
+	let pluginSettings: PluginSettings;
+	let mockLogger: any;
+
+	beforeEach(() => {
+		mockLogger = {
+			debug: jest.fn(),
+			info: jest.fn(),
+			warn: jest.fn(),
+			error: jest.fn(),
+		};
+		pluginSettings = new PluginSettings(
+			mockLogger,
+			{ handleFileError: jest.fn() } as any,
+			jest.fn().mockResolvedValue({}),
+			jest.fn().mockResolvedValue(undefined)
+		);
+	});
+
+	describe('parseListMappings', () => {
+		it('見出し・タグ・両方の指定を解析する', () => {
+			const mappings = pluginSettings.parseListMappings(
+				'Work -> ## Work\nHome -> #home\nProject X -> ### Project X #shared'
+			);
+
+			expect(mappings).toEqual([
+				{ listName: 'Work', sectionHeading: '## Work' },
+				{ listName: 'Home', tag: '#home' },
+				{ listName: 'Project X', sectionHeading: '### Project X', tag: '#shared' },
+			]);
+		});
+
+		it('不正な行と重複したリスト名は無視する', () => {
+			const mappings = pluginSettings.parseListMappings(
+				'Work -> ## Work\nno separator\nEmpty ->\nWork -> #dup\n -> ## Nameless'
+			);
+
+			expect(mappings).toEqual([{ listName: 'Work', sectionHeading: '## Work' }]);
+			expect(mockLogger.warn).toHaveBeenCalledWith('Ignoring invalid list mapping', { line: 'Empty ->' });
+		});
+
+		it('formatListMappingsで元のテキスト形式に戻せる', () => {
+			const text = 'Work -> ## Work\nHome -> #home\nProject X -> ### Project X #shared';
+
+			expect(pluginSettings.formatListMappings(pluginSettings.parseListMappings(text))).toBe(text);
+		});
+	});
+
+	describe('validateSettings', () => {
+		it('保存データにリストマッピングがなければ空配列にする', () => {
+			const settings = { ...createMockSettings(), listMappings: undefined as any };
+
+			expect(pluginSettings.validateSettings(settings).listMappings).toEqual([]);
+		});
+
+		it('タグに#を補完する', () => {
+			const settings = { ...createMockSettings(), listMappings: [{ listName: 'Home', tag: 'home' }] };
+
+			expect(pluginSettings.validateSettings(settings).listMappings).toEqual([{ listName: 'Home', tag: '#home' }]);
+		});
+
+		it('ボルト全体の同期のglobとタグを正規化する', () => {
+			const settings = {
+				...createMockSettings(),
+				vaultSyncInclude: ['/Projects/**', ' ', 'Projects/**'],
+				vaultSyncExclude: undefined as any,
+				vaultSyncTag: 'mstodo',
+			};
+
+			const validated = pluginSettings.validateSettings(settings);
+
+			expect(validated.vaultSyncInclude).toEqual(['Projects/**']);
+			expect(validated.vaultSyncExclude).toEqual([]);
+			expect(validated.vaultSyncTag).toBe('#mstodo');
+		});
+
+		it('不明なノートの期間は日ごとにする', () => {
+			const settings = { ...createMockSettings(), notePeriod: 'yearly' as any };
+
+			expect(pluginSettings.validateSettings(settings).notePeriod).toBe('daily');
+			expect(pluginSettings.validateSettings({ ...settings, notePeriod: 'weekly' }).notePeriod).toBe('weekly');
+		});
+
+		it('不明なタスクの配置とサブ見出しのレベルは既定値にし、アンカーの見出しの空白を除く', () => {
+			const settings = {
+				...createMockSettings(),
+				taskInsertPosition: 'middle' as any,
+				listSubheadingLevel: 7,
+				taskSectionAnchor: '  ## Plan ',
+			};
+
+			const validated = pluginSettings.validateSettings(settings);
+
+			expect(validated.taskInsertPosition).toBe('bottom');
+			expect(validated.listSubheadingLevel).toBe(2);
+			expect(validated.taskSectionAnchor).toBe('## Plan');
+		});
+
+		it('不明な持ち越しの設定は無効にする', () => {
+			const settings = { ...createMockSettings(), carryOverTasks: 'archive' as any };
+
+			expect(pluginSettings.validateSettings(settings).carryOverTasks).toBe('off');
+			expect(pluginSettings.validateSettings({ ...settings, carryOverTasks: 'copy' }).carryOverTasks).toBe('copy');
+		});
+	});
+
+	describe('saveSettings', () => {
+		it('設定を保存しても持ち越し済みの日付を残す', async () => {
+			// Given: 持ち越し済みの日付がプラグインデータにある
+			const mockSaveData = jest.fn().mockResolvedValue(undefined);
+			pluginSettings = new PluginSettings(
+				mockLogger,
+				{ handleFileError: jest.fn() } as any,
+				jest.fn().mockResolvedValue({ [CARRY_OVER_DATA_KEY]: '2024-01-15' }),
+				mockSaveData
+			);
+
+			// When: 設定を保存する
+			await pluginSettings.saveSettings(createMockSettings());
+
+			// Then: 持ち越し済みの日付が保存データに残る
+			expect(mockSaveData).toHaveBeenCalledWith(expect.objectContaining({
+				[CARRY_OVER_DATA_KEY]: '2024-01-15',
+			}));
+		});
+
+		it('読み込んだ設定に設定以外のデータを持たせず、保存時点のデータにないキーは書き戻さない', async () => {
+			// Given: トークンキャッシュを含むプラグインデータ
+			let storedData: any = { clientId: 'test-id', [TOKEN_CACHE_DATA_KEY]: { data: 'cache' } };
+			pluginSettings = new PluginSettings(
+				mockLogger,
+				{ handleFileError: jest.fn() } as any,
+				jest.fn(async () => storedData),
+				jest.fn(async (data) => {
+					storedData = data;
+				})
+			);
+			const loaded = await pluginSettings.loadSettings();
+			expect(loaded).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+
+			// When: ログアウトでキャッシュが削除された後に設定を保存し、読み込み直す
+			const { [TOKEN_CACHE_DATA_KEY]: _cleared, ...withoutCache } = storedData;
+			storedData = withoutCache;
+			await pluginSettings.saveSettings({ ...loaded, [TOKEN_CACHE_DATA_KEY]: { data: 'stale' } } as any);
+			const reloaded = await pluginSettings.loadSettings();
+
+			// Then: 削除されたキャッシュは戻らない
+			expect(storedData).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+			expect(reloaded).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+			expect(storedData.clientId).toBe('test-id');
+		});
+	});
+});
@@ -0,0 +1,90 @@
+import { RecurrenceRule } from '../../src/utils/RecurrenceRule';
+
+describe('RecurrenceRule', () => {
+	describe('normalize', () => {
+		it('省略形のルールを正規化した表記にする', () => {
+			expect(RecurrenceRule.normalize('every Monday')).toBe('every week on Monday');
+			expect(RecurrenceRule.normalize('every friday and monday')).toBe('every week on Monday, Friday');
+			expect(RecurrenceRule.normalize('every weekday')).toBe('every week on Monday, Tuesday, Wednesday, Thursday, Friday');
+			expect(RecurrenceRule.normalize('every 1 day')).toBe('every day');
+			expect(RecurrenceRule.normalize('every month on the 2nd Tuesday')).toBe('every month on the second Tuesday');
+			expect(RecurrenceRule.normalize('every year on March 3rd')).toBe('every year on March 3');
+		});
+
+		it('正規化した表記はそのまま維持する', () => {
+			const rules = [
+				'every 3 days',
+				'every 2 weeks on Tuesday',
+				'every month',
+				'every month on the 15th',
+				'every month on the last Friday',
+				'every year on the first Monday of March',
+			];
+			for (const rule of rules) {
+				expect(RecurrenceRule.normalize(rule)).toBe(rule);
+			}
+		});
+
+		it('Microsoft Todoで表現できないルールはundefinedを返す', () => {
+			expect(RecurrenceRule.normalize('every week when done')).toBeUndefined();
+			expect(RecurrenceRule.normalize('every hour')).toBeUndefined();
+			expect(RecurrenceRule.normalize('every day on Monday')).toBeUndefined();
+		});
+	});
+
+	describe('toGraph / fromGraph', () => {
+		it('省略された曜日を開始日から補完する', () => {
+			// 2024-01-31は水曜日
+			expect(RecurrenceRule.toGraph('every 2 weeks', '2024-01-31')).toEqual({
+				pattern: { type: 'weekly', interval: 2, daysOfWeek: ['wednesday'], firstDayOfWeek: 'sunday' },
+				range: { type: 'noEnd', startDate: '2024-01-31' },
+			});
+		});
+
+		it('省略された日付・月を開始日から補完する', () => {
+			expect(RecurrenceRule.toGraph('every month', '2024-01-31')?.pattern).toEqual(
+				{ type: 'absoluteMonthly', interval: 1, dayOfMonth: 31 }
+			);
+			expect(RecurrenceRule.toGraph('every year', '2024-01-31')?.pattern).toEqual(
+				{ type: 'absoluteYearly', interval: 1, dayOfMonth: 31, month: 1 }
+			);
+		});
+
+		it('対応していないルールはnullを返す', () => {
+			expect(RecurrenceRule.toGraph('every week when done', '2024-01-31')).toBeNull();
+		});
+
+		it('Graphの繰り返しパターンをルールに変換する', () => {
+			expect(RecurrenceRule.fromGraph({
+				pattern: { type: 'relativeMonthly', interval: 1, daysOfWeek: ['friday'], index: 'last' },
+				range: { type: 'noEnd', startDate: '2024-01-26' },
+			})).toBe('every month on the last Friday');
+			expect(RecurrenceRule.fromGraph({
+				pattern: { type: 'weekly', interval: 1, daysOfWeek: ['friday', 'monday'], firstDayOfWeek: 'sunday' },
+				range: { type: 'noEnd', startDate: '2024-01-22' },
+			})).toBe('every week on Monday, Friday');
+			expect(RecurrenceRule.fromGraph(undefined)).toBeUndefined();
+		});
+	});
+
+	describe('nextOccurrence', () => {
+		it('日・週単位のルールの次回の日付を求める', () => {
+			expect(RecurrenceRule.nextOccurrence('every 3 days', '2024-01-31')).toBe('2024-02-03');
+			expect(RecurrenceRule.nextOccurrence('every week', '2024-01-31')).toBe('2024-02-07');
+			expect(RecurrenceRule.nextOccurrence('every week on Monday, Friday', '2024-01-31')).toBe('2024-02-02');
+			expect(RecurrenceRule.nextOccurrence('every 2 weeks on Tuesday', '2024-01-31')).toBe('2024-02-13');
+		});
+
+		it('月・年単位のルールの次回の日付を求める（月末を超える日付は月末にする）', () => {
+			expect(RecurrenceRule.nextOccurrence('every month', '2024-01-31')).toBe('2024-02-29');
+			expect(RecurrenceRule.nextOccurrence('every month on the 15th', '2024-01-31')).toBe('2024-02-15');
+			expect(RecurrenceRule.nextOccurrence('every month on the last Friday', '2024-01-31')).toBe('2024-02-23');
+			expect(RecurrenceRule.nextOccurrence('every year', '2024-01-31')).toBe('2025-01-31');
+			expect(RecurrenceRule.nextOccurrence('every year on the first Monday of March', '2024-01-31')).toBe('2024-03-04');
+		});
+
+		it('対応していないルールはnullを返す', () => {
+			expect(RecurrenceRule.nextOccurrence('every week when done', '2024-01-31')).toBeNull();
+		});
+	});
+});
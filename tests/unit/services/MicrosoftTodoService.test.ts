@@ -74,7 +74,7 @@ describe('MicrosoftTodoService', () => {
 			const result = await service.getTasks();
 
 			expect(result).toEqual(mockTasks);
-			expect(mockApiClient.getTasks).toHaveBeenCalledWith('default-list-id');
+			expect(mockApiClient.getTasks).toHaveBeenCalledWith('default-list-id', undefined);
 			expect(mockLogger.debug).toHaveBeenCalledWith('Fetching tasks from Microsoft Todo', { listId: 'default-list-id' });
 		});
 
@@ -100,7 +100,7 @@ describe('MicrosoftTodoService', () => {
 
 			expect(result).toHaveLength(1);
 			expect(result[0].status).toBe('notStarted');
-			expect(mockApiClient.getTasks).toHaveBeenCalledWith('default-list-id');
+			expect(mockApiClient.getTasks).toHaveBeenCalledWith('default-list-id', { status: 'notStarted' });
 		});
 
 		it('should use custom listId when provided', async () => {
@@ -108,7 +108,7 @@ describe('MicrosoftTodoService', () => {
 
 			await service.getTasks({ listId: 'custom-list-id' });
 
-			expect(mockApiClient.getTasks).toHaveBeenCalledWith('custom-list-id');
+			expect(mockApiClient.getTasks).toHaveBeenCalledWith('custom-list-id', { listId: 'custom-list-id' });
 		});
 
 		it('should handle API errors gracefully', async () => {
@@ -0,0 +1,86 @@
+/**
+ * SyncHistoryStoreのテストスイート
+ * 同期履歴のプラグインデータへの保存と件数の上限をテスト
+ */
+
+import { Plugin } from 'obsidian';
+import { SyncHistoryStore } from '../../src/sync/SyncHistoryStore';
+import { SyncHistoryEntry } from '../../src/types';
+import { SYNC_HISTORY_DATA_KEY, SYNC_HISTORY_LIMIT } from '../../src/constants';
+import { createMockLogger } from '../__mocks__/mockFactories';
+
+describe('SyncHistoryStore', () => {
+	let data: Record<string, unknown>;
+	let mockPlugin: Plugin;
+
+	const createEntry = (startedAt: string): SyncHistoryEntry => ({
+		trigger: 'manual',
+		startedAt,
+		durationMs: 1200,
+		actions: [{ kind: 'create', description: 'Create "Task" in Microsoft To Do' }],
+	});
+
+	const createStore = async (): Promise<SyncHistoryStore> => {
+		const store = new SyncHistoryStore(mockPlugin, createMockLogger());
+		// コンストラクタの非同期読み込みを待つ
+		await new Promise(resolve => setTimeout(resolve, 0));
+		return store;
+	};
+
+	beforeEach(() => {
+		// 非同期の読み込みを待つため実タイマーを使う
+		jest.useRealTimers();
+		data = { 'todo-integrator-task-metadata': [] };
+		mockPlugin = {
+			loadData: jest.fn(async () => ({ ...data })),
+			saveData: jest.fn(async (saved: Record<string, unknown>) => {
+				data = saved;
+			}),
+		} as unknown as Plugin;
+	});
+
+	it('保存済みの履歴を読み込む', async () => {
+		// Given: プラグインデータに保存された履歴
+		data[SYNC_HISTORY_DATA_KEY] = [createEntry('2024-01-15T09:00:00.000Z')];
+
+		// When
+		const store = await createStore();
+
+		// Then
+		expect(store.getEntries().map(entry => entry.startedAt)).toEqual(['2024-01-15T09:00:00.000Z']);
+	});
+
+	it('新しい実行を先頭に追加し、ほかのプラグインデータを保持して保存する', async () => {
+		// Given: 1件の履歴
+		data[SYNC_HISTORY_DATA_KEY] = [createEntry('2024-01-15T09:00:00.000Z')];
+		const store = await createStore();
+
+		// When: 新しい実行を追加
+		await store.addEntry(createEntry('2024-01-15T10:00:00.000Z'));
+
+		// Then: 新しい実行が先頭になり、メタデータも残る
+		expect(store.getEntries().map(entry => entry.startedAt)).toEqual([
+			'2024-01-15T10:00:00.000Z',
+			'2024-01-15T09:00:00.000Z',
+		]);
+		expect(data[SYNC_HISTORY_DATA_KEY]).toEqual(store.getEntries());
+		expect(data['todo-integrator-task-metadata']).toEqual([]);
+	});
+
+	it('上限を超えた古い実行を削除する', async () => {
+		// Given: 上限まで記録された履歴（新しい順）
+		const hour = 60 * 60 * 1000;
+		const startedAt = (hoursAgo: number) => new Date(Date.UTC(2024, 0, 15) - hoursAgo * hour).toISOString();
+		data[SYNC_HISTORY_DATA_KEY] = Array.from({ length: SYNC_HISTORY_LIMIT }, (_, i) => createEntry(startedAt(i + 1)));
+		const store = await createStore();
+
+		// When: さらに1件追加
+		await store.addEntry(createEntry(startedAt(0)));
+
+		// Then: 件数は上限のままで、最も古い実行が削除される
+		const entries = store.getEntries();
+		expect(entries).toHaveLength(SYNC_HISTORY_LIMIT);
+		expect(entries[0].startedAt).toBe(startedAt(0));
+		expect(entries.map(entry => entry.startedAt)).not.toContain(startedAt(SYNC_HISTORY_LIMIT));
+	});
+});
@@ -0,0 +1,252 @@
+/**
+ * SyncRecorderのテストスイート
+ * 同期のプレビュー（ドライラン）で書き込みを記録するだけで反映しないこと、
+ * 同期履歴のための記録では書き込みを反映したうえで場所とともに記録することをテスト
+ */
+
+import { App, Plugin, TFile } from 'obsidian';
+import { SyncRecorder } from '../../src/sync/SyncRecorder';
+import { DailyNoteManager } from '../../src/sync/DailyNoteManager';
+import { TaskMetadataStore } from '../../src/sync/TaskMetadataStore';
+import { SyncResult } from '../../src/types';
+import { createMockApiClient, createMockLogger } from '../__mocks__/mockFactories';
+
+describe('SyncRecorder', () => {
+	const notePath = 'Daily Notes/2024-01-15.md';
+	let mockApp: App;
+	let mockApiClient: ReturnType<typeof createMockApiClient>;
+	let dailyNoteManager: DailyNoteManager;
+	let metadataStore: TaskMetadataStore;
+	let recorder: SyncRecorder;
+
+	const emptyResult = {} as SyncResult;
+
+	beforeEach(() => {
+		mockApp = new App();
+		const noteFile = Object.assign(new TFile(), {
+			path: notePath,
+			stat: { mtime: 1000, ctime: 1000, size: 0 },
+		});
+		mockApp.vault.getAbstractFileByPath = jest.fn((path: string) => (path === notePath ? noteFile : null)) as any;
+		mockApp.vault.read = jest.fn().mockResolvedValue('# 2024-01-15\n\n## ToDo\n\n- [ ] Existing task');
+
+		const logger = createMockLogger();
+		mockApiClient = createMockApiClient();
+		dailyNoteManager = new DailyNoteManager(mockApp, logger, 'Daily Notes');
+		const plugin = {
+			loadData: jest.fn().mockResolvedValue({}),
+			saveData: jest.fn().mockResolvedValue(undefined),
+		} as unknown as Plugin;
+		metadataStore = new TaskMetadataStore(plugin, logger);
+		recorder = new SyncRecorder(mockApiClient, dailyNoteManager, metadataStore, true);
+	});
+
+	afterEach(() => {
+		jest.clearAllMocks();
+	});
+
+	describe('Microsoft To Doへの書き込み', () => {
+		it('作成を実行せずに記録し、仮のIDを持つタスクを返す', async () => {
+			// When: プレビュー用のクライアントでタスクを作成
+			const created = await recorder.apiClient.createTask('list-1', 'New task');
+
+			// Then: 実際には作成されず、仮のIDで計画に記録される
+			expect(mockApiClient.createTask).not.toHaveBeenCalled();
+			expect(created.id).toBe('planned-1');
+			const [operation] = recorder.createPlan(emptyResult).operations;
+			expect(operation).toEqual(expect.objectContaining({
+				kind: 'create',
+				target: 'microsoft',
+				method: 'createTask',
+				args: ['list-1', 'New task'],
+				result: created,
+			}));
+			expect(operation.description).toBe('Create "New task" in Microsoft To Do');
+		});
+
+		it('タイトルのクリーンアップを元のタイトルとともに記録する', async () => {
+			// Given: [todo::]タグの付いたタスクを読み込み済み
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'msft-1', title: 'Buy milk [todo::abc]', status: 'notStarted', createdDateTime: '2024-01-15T00:00:00Z' },
+			]);
+			await recorder.apiClient.getTasks('list-1');
+
+			// When: クリーンアップとしてタイトルを変更
+			recorder.labelNextWrite('titleCleanup');
+			await recorder.apiClient.updateTaskTitle('list-1', 'msft-1', 'Buy milk');
+			await recorder.apiClient.completeTask('list-1', 'msft-1');
+
+			// Then: クリーンアップとして記録され、次の書き込みは通常の種類に戻る
+			const operations = recorder.createPlan(emptyResult).operations;
+			expect(mockApiClient.updateTaskTitle).not.toHaveBeenCalled();
+			expect(operations.map(operation => operation.kind)).toEqual(['titleCleanup', 'completion']);
+			expect(operations[0].description).toBe('Rename "Buy milk [todo::abc]" to "Buy milk" in Microsoft To Do');
+		});
+	});
+
+	describe('$batchの書き込み', () => {
+		it('まとめた書き込みを1件ずつの書き込みとして記録し、指定した種類をすべてに適用する', async () => {
+			// When: クリーンアップとして2件のタイトルをまとめて変更
+			recorder.labelNextWrite('titleCleanup');
+			const results = await recorder.apiClient.updateTaskTitles('list-1', [
+				{ taskId: 'msft-1', title: 'Buy milk' },
+				{ taskId: 'msft-2', title: 'Call mom' },
+			]);
+
+			// Then: 実行されず、1件ずつのメソッドとして記録される（適用時は1件ずつ再生する）
+			expect(mockApiClient.updateTaskTitle).not.toHaveBeenCalled();
+			expect(results).toEqual([{ value: undefined }, { value: undefined }]);
+			expect(recorder.createPlan(emptyResult).operations).toEqual([
+				expect.objectContaining({ kind: 'titleCleanup', method: 'updateTaskTitle', args: ['list-1', 'msft-1', 'Buy milk'] }),
+				expect.objectContaining({ kind: 'titleCleanup', method: 'updateTaskTitle', args: ['list-1', 'msft-2', 'Call mom'] }),
+			]);
+		});
+
+		it('作成にはそれぞれ仮のIDを返す', async () => {
+			const results = await recorder.apiClient.createTasks('list-1', [
+				{ title: 'Task A', startDate: '2024-01-15' },
+				{ title: 'Task B' },
+			]);
+
+			expect(results.map(result => result.value?.id)).toEqual(['planned-1', 'planned-2']);
+			const operations = recorder.createPlan(emptyResult).operations;
+			expect(operations.map(operation => operation.args)).toEqual([
+				['list-1', 'Task A', '2024-01-15', undefined],
+				['list-1', 'Task B', undefined, undefined],
+			]);
+			expect(operations[0].filePath).toBe(notePath);
+		});
+
+		it('実際の同期では成功した書き込みのみ記録する', async () => {
+			// Given: 2件目の完了に失敗するAPI
+			recorder = new SyncRecorder(mockApiClient, dailyNoteManager, metadataStore, false);
+			mockApiClient.completeTasks.mockResolvedValue([{ value: undefined }, { error: new Error('API_ERROR: HTTP 404') }]);
+
+			// When
+			await recorder.apiClient.completeTasks('list-1', ['msft-1', 'msft-2']);
+
+			// Then
+			expect(recorder.getOperations()).toEqual([
+				expect.objectContaining({ kind: 'completion', method: 'completeTask', args: ['list-1', 'msft-1'] }),
+			]);
+		});
+	});
+
+	describe('ノートへの書き込み', () => {
+		it('Vaultを変更せず、以降の読み込みには書き込んだ内容を返す', async () => {
+			// When: プレビュー用のマネージャーでタスクを追加
+			await recorder.dailyNoteManager.addTaskToTodoSection(notePath, 'Added task');
+			const tasks = await recorder.dailyNoteManager.getDailyNoteTasks(notePath);
+
+			// Then: Vaultは変更されず、プレビュー内では追加したタスクが読める
+			expect(mockApp.vault.modify).not.toHaveBeenCalled();
+			expect(tasks.map(task => task.title)).toEqual(['Existing task', 'Added task']);
+			expect(await dailyNoteManager.getDailyNoteTasks(notePath)).toHaveLength(1);
+		});
+
+		it('内部で呼ばれる書き込みを含めて1件として記録し、ノートの更新日時を控える', async () => {
+			// When: タスクを追加してから既存のタスクを完了
+			await recorder.dailyNoteManager.addTaskToTodoSection(notePath, 'Added task');
+			await recorder.dailyNoteManager.updateTaskCompletion(notePath, 4, true);
+
+			// Then: 外側の呼び出しだけが記録され、プレビュー時点の更新日時が残る
+			const plan = recorder.createPlan(emptyResult);
+			expect(plan.operations.map(operation => operation.method)).toEqual(['addTaskToTodoSection', 'updateTaskCompletion']);
+			expect(plan.operations[1].description).toBe(`Complete "Existing task" in ${notePath}`);
+			expect(plan.noteModifiedTimes).toEqual({ [notePath]: 1000 });
+		});
+
+		it('変更のない書き込みは記録しない', async () => {
+			// When: 既にあるセクションを探す
+			await recorder.dailyNoteManager.findOrCreateTodoSection(notePath, '## ToDo');
+
+			// Then: 計画には含まれない
+			expect(recorder.createPlan(emptyResult).operations).toEqual([]);
+		});
+	});
+
+	describe('メタデータへの書き込み', () => {
+		it('元のストアを変更せず、削除はメタデータの削除として記録する', async () => {
+			// Given: 元のストアに対応付けがある
+			await metadataStore.setMetadata('2024-01-15', 'Existing task', 'msft-1');
+			recorder = new SyncRecorder(mockApiClient, dailyNoteManager, metadataStore, true);
+
+			// When: プレビュー用のストアから対応付けを削除
+			await recorder.metadataStore.removeMetadataByMsftId('msft-1');
+
+			// Then: 元のストアには残り、削除として記録される
+			expect(metadataStore.findByMsftTaskId('msft-1')).toBeDefined();
+			expect(recorder.metadataStore.findByMsftTaskId('msft-1')).toBeUndefined();
+			const [operation] = recorder.createPlan(emptyResult).operations;
+			expect(operation.kind).toBe('metadataRemoval');
+			expect(operation.description).toBe('Forget the link of "Existing task" (2024-01-15)');
+		});
+	});
+
+	describe('書き込みを反映する記録（同期履歴）', () => {
+		beforeEach(() => {
+			recorder = new SyncRecorder(mockApiClient, dailyNoteManager, metadataStore, false);
+		});
+
+		it('Microsoft To Doへの書き込みを実行し、実際の結果と対応するノートを記録する', async () => {
+			// Given: 作成に成功するAPI
+			mockApiClient.createTaskWithStartDate.mockResolvedValue({
+				id: 'msft-1', title: 'New task', status: 'notStarted', createdDateTime: '2024-01-15T00:00:00Z',
+			});
+
+			// When: 開始日付きでタスクを作成
+			const created = await recorder.apiClient.createTaskWithStartDate('list-1', 'New task', '2024-01-15');
+
+			// Then: 実際に作成され、開始日のデイリーノートとともに記録される
+			expect(created.id).toBe('msft-1');
+			expect(recorder.getOperations()).toEqual([expect.objectContaining({
+				kind: 'create',
+				result: created,
+				filePath: notePath,
+			})]);
+		});
+
+		it('ノートへの書き込みを反映し、書き込んだ行を記録する', async () => {
+			// When: 既存のタスクを完了
+			await recorder.dailyNoteManager.updateTaskCompletion(notePath, 4, true);
+
+			// Then: Vaultに書き込まれ、ノートと行番号が記録される
+			expect(mockApp.vault.modify).toHaveBeenCalledTimes(1);
+			expect(recorder.getOperations()).toEqual([expect.objectContaining({
+				kind: 'completion',
+				description: `Complete "Existing task" in ${notePath}`,
+				filePath: notePath,
+				lineNumber: 4,
+			})]);
+		});
+
+		it('失敗した書き込みは記録せず、指定した種類を次の書き込みに持ち越さない', async () => {
+			// Given: タイトルの変更に失敗するAPI
+			mockApiClient.updateTaskTitle.mockRejectedValue(new Error('Network error'));
+
+			// When: クリーンアップに失敗した後に完了
+			recorder.labelNextWrite('titleCleanup');
+			await expect(recorder.apiClient.updateTaskTitle('list-1', 'msft-1', 'Buy milk')).rejects.toThrow('Network error');
+			await recorder.apiClient.completeTask('list-1', 'msft-1');
+
+			// Then: 完了のみが通常の種類で記録される
+			expect(recorder.getOperations().map(operation => operation.kind)).toEqual(['completion']);
+		});
+	});
+
+	describe('仮のIDの置き換え', () => {
+		it('適用時の結果から仮のIDを実際のIDに置き換える', () => {
+			// Given: 仮のIDと実際に作成されたタスクの対応
+			const ids = new Map<string, string>();
+			SyncRecorder.mapPlaceholders({ id: 'planned-1' }, { id: 'msft-real' }, ids);
+			SyncRecorder.mapPlaceholders({ id: 'msft-existing' }, { id: 'msft-other' }, ids);
+
+			// When: 後続の書き込みの引数を置き換える
+			const args = SyncRecorder.resolvePlaceholders(['2024-01-15', 'Task', 'planned-1', { msftTaskId: 'planned-1', due: undefined }], ids);
+
+			// Then: 仮のIDだけが置き換わる
+			expect(ids.size).toBe(1);
+			expect(args).toEqual(['2024-01-15', 'Task', 'msft-real', { msftTaskId: 'msft-real', due: undefined }]);
+		});
+	});
+});
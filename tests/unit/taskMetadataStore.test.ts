@@ -100,6 +100,29 @@ describe('TaskMetadataStore', () => {
 		});
 	});
 
+	describe('findByBlockId', () => {
+		it('should keep tasks with the same title apart by their block IDs', async () => {
+			await store.setMetadata('2024-01-15', 'Call', 'msft-1');
+			await store.updateMetadataByMsftId('msft-1', { blockId: 'mst-aaa111' });
+			await store.setMetadata('2024-01-15', 'Call', 'msft-2');
+			await store.updateMetadataByMsftId('msft-2', { blockId: 'mst-bbb222' });
+
+			expect(store.findByBlockId('mst-aaa111')?.msftTaskId).toBe('msft-1');
+			expect(store.findByBlockId('mst-bbb222')?.msftTaskId).toBe('msft-2');
+			expect(store.getMsftTaskId('2024-01-15', 'Call')).toBeUndefined();
+		});
+
+		it('should keep the block ID key when the task is renamed or moved', async () => {
+			await store.setMetadata('2024-01-15', 'Call', 'msft-1');
+			await store.updateMetadataByMsftId('msft-1', { blockId: 'mst-aaa111' });
+
+			await store.updateMetadataByMsftId('msft-1', { title: 'Call back', date: '2024-01-16' });
+
+			expect(store.findByBlockId('mst-aaa111')).toEqual(expect.objectContaining({ msftTaskId: 'msft-1', title: 'Call back', date: '2024-01-16' }));
+			expect(store.getMsftTaskId('2024-01-16', 'Call back')).toBeUndefined();
+		});
+	});
+
 	describe('getMetadataByDate', () => {
 		it('should return all metadata for a specific date', async () => {
 			const date = '2024-01-15';
@@ -298,6 +321,32 @@ describe('TaskMetadataStore', () => {
 			expect(newStore.getMsftTaskId('2024-01-15', 'New Task')).toBe('msft-new');
 		});
 
+		it('should persist delta sync state alongside task metadata', async () => {
+			const state = {
+				deltaLink: 'https://graph.microsoft.com/delta?$deltatoken=abc',
+				tasks: [{ id: 'msft-1', title: 'Task', status: 'notStarted' as const, createdDateTime: '2024-01-15T00:00:00Z' }],
+			};
+
+			await store.setDeltaState('list-1', state);
+
+			expect(store.getDeltaState('list-1')).toEqual(state);
+			expect(mockSaveData).toHaveBeenCalledWith(expect.objectContaining({
+				'todo-integrator-delta-state': [['list-1', state]],
+			}));
+		});
+
+		it('should load and clear delta sync state', async () => {
+			const state = { deltaLink: 'https://graph.microsoft.com/delta?$deltatoken=abc', tasks: [] };
+			mockLoadData.mockResolvedValue({ 'todo-integrator-delta-state': [['list-1', state]] });
+
+			const newStore = new TaskMetadataStore(mockPlugin, mockLogger);
+			await (newStore as any).loadMetadata();
+			expect(newStore.getDeltaState('list-1')).toEqual(state);
+
+			await newStore.clearDeltaState('list-1');
+			expect(newStore.getDeltaState('list-1')).toBeUndefined();
+		});
+
 		it('should handle save errors gracefully', async () => {
 			mockSaveData.mockRejectedValue(new Error('Save failed'));
 
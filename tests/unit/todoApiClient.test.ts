@@ -5,6 +5,7 @@
 
 import { TodoApiClient } from '../../src/api/TodoApiClient';
 import { TodoTask, TodoList, TokenProvider } from '../../src/types';
+import { GRAPH_BATCH_LIMIT, GRAPH_RETRY, MAX_CONCURRENT_GRAPH_REQUESTS, MAX_TASK_PAGES } from '../../src/constants';
 import { createMockLogger } from '../__mocks__/mockFactories';
 
 // fetchをグローバルにモック化
@@ -26,6 +27,16 @@ describe('TodoApiClient', () => {
 		jest.clearAllMocks();
 	});
 
+	// 期日は日付のUTC 0時として送信する
+	const utcMidnight = (date: string) => `${date}T00:00:00.0000000`;
+
+	// 5xxと429は再試行されるため、バックオフの待機（フェイクタイマー）を進めてから結果を返す
+	const withRetries = async <T>(promise: Promise<T>): Promise<T> => {
+		promise.catch(() => undefined);
+		await jest.runAllTimersAsync();
+		return promise;
+	};
+
 	describe('初期化（initialization）', () => {
 		it('トークンプロバイダーで初期化される', () => {
 			// When: トークンプロバイダーで初期化
@@ -135,6 +146,18 @@ describe('TodoApiClient', () => {
 			expect(fetch).toHaveBeenCalledTimes(2);
 			expect(listId).toBe('new-list-id');
 		});
+
+		it('既定リストIDは変更しない（マッピングされたリストの解決にも使われるため）', async () => {
+			apiClient.setDefaultListId('default-list-id');
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ value: [{ id: 'work-list-id', displayName: 'Work' }] }),
+			});
+
+			await apiClient.getOrCreateTaskList('Work');
+
+			expect(apiClient.getDefaultListId()).toBe('default-list-id');
+		});
 	});
 
 	describe('getTasks', () => {
@@ -176,6 +199,132 @@ describe('TodoApiClient', () => {
 			expect(tasks).toHaveLength(2);
 			expect(tasks[0].title).toBe('Test Task 1');
 		});
+
+		it('@odata.nextLinkを辿ってすべてのページを取得する', async () => {
+			// Given: 2ページに分かれたレスポンス
+			const nextLink = 'https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks?$skip=200';
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce({
+					ok: true,
+					json: () => Promise.resolve({
+						value: [{ id: 'task-1', title: 'Page 1', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' }],
+						'@odata.nextLink': nextLink,
+					}),
+				})
+				.mockResolvedValueOnce({
+					ok: true,
+					json: () => Promise.resolve({
+						value: [{ id: 'task-2', title: 'Page 2', status: 'completed', createdDateTime: '2023-01-01T00:00:00Z' }],
+					}),
+				});
+
+			// When: タスクを取得
+			const tasks = await apiClient.getTasks('list-id');
+
+			// Then: 次ページのURLも取得され、全タスクが返される
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(fetch).toHaveBeenNthCalledWith(2, nextLink, expect.any(Object));
+			expect(tasks.map(task => task.id)).toEqual(['task-1', 'task-2']);
+		});
+
+		it('ページ数の上限に達しても次ページがあればエラーをスローする', async () => {
+			// Given: 常に次ページを返すレスポンス
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({
+					value: [{ id: 'task-1', title: 'Task', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' }],
+					'@odata.nextLink': 'https://graph.microsoft.com/next',
+				}),
+			});
+
+			// When/Then: 一部だけの一覧を返さずにエラーになる
+			await expect(apiClient.getTasks('list-id')).rejects.toThrow('API_ERROR: Task list exceeded page limit');
+			expect(fetch).toHaveBeenCalledTimes(MAX_TASK_PAGES);
+		});
+
+		it('TaskFilterOptionsから$filterを組み立てる', async () => {
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ value: [] }),
+			});
+
+			await apiClient.getTasks('list-id', {
+				status: 'notStarted',
+				startDate: '2024-01-01T00:00:00Z',
+			});
+
+			const requestedUrl = (fetch as jest.Mock).mock.calls[0][0] as string;
+			expect(decodeURIComponent(requestedUrl)).toContain(
+				"$filter=status eq 'notStarted' and createdDateTime ge 2024-01-01T00:00:00.000Z"
+			);
+		});
+
+		it('ページ取得中のエラーはAPI_ERRORとしてスローする', async () => {
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce({
+					ok: true,
+					json: () => Promise.resolve({
+						value: [],
+						'@odata.nextLink': 'https://graph.microsoft.com/next',
+					}),
+				})
+				.mockResolvedValue({ ok: false, status: 500 });
+
+			await expect(withRetries(apiClient.getTasks('list-id'))).rejects.toThrow('API_ERROR');
+		});
+	});
+
+	describe('getTasksDelta', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+		});
+
+		it('初回はdeltaエンドポイントから全タスクとdeltaLinkを取得する', async () => {
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({
+					value: [{ id: 'task-1', title: 'Task 1', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' }],
+					'@odata.deltaLink': 'https://graph.microsoft.com/delta?$deltatoken=token-1',
+				}),
+			});
+
+			const result = await apiClient.getTasksDelta('list-id');
+
+			expect(fetch).toHaveBeenCalledWith(
+				'https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/delta',
+				expect.any(Object)
+			);
+			expect(result.tasks).toHaveLength(1);
+			expect(result.removedIds).toEqual([]);
+			expect(result.deltaLink).toBe('https://graph.microsoft.com/delta?$deltatoken=token-1');
+		});
+
+		it('deltaLinkを使って変更・削除されたタスクを取得する', async () => {
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({
+					value: [
+						{ id: 'task-1', title: 'Changed', status: 'completed', createdDateTime: '2024-01-01T00:00:00Z' },
+						{ id: 'task-2', '@removed': { reason: 'deleted' } },
+					],
+					'@odata.deltaLink': 'https://graph.microsoft.com/delta?$deltatoken=token-2',
+				}),
+			});
+
+			const result = await apiClient.getTasksDelta('list-id', 'https://graph.microsoft.com/delta?$deltatoken=token-1');
+
+			expect(fetch).toHaveBeenCalledWith('https://graph.microsoft.com/delta?$deltatoken=token-1', expect.any(Object));
+			expect(result.tasks.map(task => task.id)).toEqual(['task-1']);
+			expect(result.removedIds).toEqual(['task-2']);
+			expect(result.deltaLink).toBe('https://graph.microsoft.com/delta?$deltatoken=token-2');
+		});
+
+		it('410レスポンスはDELTA_TOKEN_EXPIREDとしてスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 410 });
+
+			await expect(apiClient.getTasksDelta('list-id', 'https://graph.microsoft.com/delta?$deltatoken=old'))
+				.rejects.toThrow('DELTA_TOKEN_EXPIRED');
+		});
 	});
 
 	describe('createTask', () => {
@@ -213,6 +362,274 @@ describe('TodoApiClient', () => {
 		});
 	});
 
+	describe('期日の送信（createTaskWithStartDate / updateTaskDueDate）', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'task-id', title: 'Task', status: 'notStarted', createdDateTime: '' }),
+			});
+		});
+
+		it('期日を日付のUTC 0時としてdueDateTimeに設定する', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Task', '2024-01-15', { dueDate: '2024-01-20' });
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.dueDateTime).toEqual({ dateTime: utcMidnight('2024-01-20'), timeZone: 'UTC' });
+		});
+
+		it('UTCより東のタイムゾーンでも期日を前日にずらさない', async () => {
+			const originalTz = process.env.TZ;
+			process.env.TZ = 'Asia/Tokyo';
+			try {
+				await apiClient.createTaskWithStartDate('list-id', 'Task', '2024-01-15', { dueDate: '2024-01-20' });
+			} finally {
+				process.env.TZ = originalTz;
+			}
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.dueDateTime).toEqual({ dateTime: '2024-01-20T00:00:00.0000000', timeZone: 'UTC' });
+		});
+
+		it('期日がなければdueDateTimeを送信しない', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Task', '2024-01-15');
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body).not.toHaveProperty('dueDateTime');
+		});
+
+		it('updateTaskDueDateは期日を更新し、省略時はnullで削除する', async () => {
+			await apiClient.updateTaskDueDate('list-id', 'task-id', '2024-02-01');
+			await apiClient.updateTaskDueDate('list-id', 'task-id');
+
+			const calls = (fetch as jest.Mock).mock.calls;
+			expect(calls[0][0]).toBe('https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id');
+			expect(calls[0][1].method).toBe('PATCH');
+			expect(JSON.parse(calls[0][1].body).dueDateTime.dateTime).toBe(utcMidnight('2024-02-01'));
+			expect(JSON.parse(calls[1][1].body)).toEqual({ dueDateTime: null });
+		});
+
+		it('更新に失敗した場合はAPI_ERRORをスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+			await expect(apiClient.updateTaskDueDate('list-id', 'task-id', '2024-02-01'))
+				.rejects.toThrow('API_ERROR: Failed to update task due date: HTTP 404');
+		});
+	});
+
+	describe('重要度の送信（createTaskWithStartDate / updateTaskImportance）', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'task-id', title: 'Task', status: 'notStarted', createdDateTime: '' }),
+			});
+		});
+
+		it('重要度を指定するとimportanceを設定して作成する', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Task', '2024-01-15', { importance: 'high' });
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.importance).toBe('high');
+		});
+
+		it('updateTaskImportanceはimportanceのみをPATCHする', async () => {
+			await apiClient.updateTaskImportance('list-id', 'task-id', 'low');
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe('https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id');
+			expect(init.method).toBe('PATCH');
+			expect(JSON.parse(init.body)).toEqual({ importance: 'low' });
+		});
+
+		it('更新に失敗した場合はAPI_ERRORをスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+			await expect(withRetries(apiClient.updateTaskImportance('list-id', 'task-id', 'high')))
+				.rejects.toThrow('API_ERROR: Failed to update task importance: HTTP 500');
+		});
+	});
+
+	describe('メモの送信（createTaskWithStartDate / updateTaskNotes）', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'task-id', title: 'Task', status: 'notStarted', createdDateTime: '' }),
+			});
+		});
+
+		it('メモを指定するとテキスト形式のbodyを設定して作成する', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Task', '2024-01-15', { notes: 'Line 1\nLine 2' });
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.body).toEqual({ content: 'Line 1\nLine 2', contentType: 'text' });
+		});
+
+		it('updateTaskNotesはbodyのみをPATCHし、メモがなければ空にする', async () => {
+			await apiClient.updateTaskNotes('list-id', 'task-id', undefined);
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe('https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id');
+			expect(init.method).toBe('PATCH');
+			expect(JSON.parse(init.body)).toEqual({ body: { content: '', contentType: 'text' } });
+		});
+
+		it('更新に失敗した場合はAPI_ERRORをスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+			await expect(withRetries(apiClient.updateTaskNotes('list-id', 'task-id', 'Note')))
+				.rejects.toThrow('API_ERROR: Failed to update task notes: HTTP 500');
+		});
+	});
+
+	describe('繰り返しの送信（createTaskWithStartDate / updateTaskRecurrence）', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'task-id', title: 'Task', status: 'notStarted', createdDateTime: '' }),
+			});
+		});
+
+		it('繰り返しルールをrecurrenceに変換し、期日がなければ開始日を期日にして作成する', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Standup', '2024-01-22', { recurrence: 'every week on Monday' });
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.recurrence).toEqual({
+				pattern: { type: 'weekly', interval: 1, daysOfWeek: ['monday'], firstDayOfWeek: 'sunday' },
+				range: { type: 'noEnd', startDate: '2024-01-22' },
+			});
+			expect(body.dueDateTime).toEqual({ dateTime: utcMidnight('2024-01-22'), timeZone: 'UTC' });
+		});
+
+		it('updateTaskRecurrenceはrecurrenceと期日をPATCHする', async () => {
+			await apiClient.updateTaskRecurrence('list-id', 'task-id', 'every month on the 15th', '2024-01-15');
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe('https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id');
+			expect(init.method).toBe('PATCH');
+			expect(JSON.parse(init.body)).toEqual({
+				recurrence: {
+					pattern: { type: 'absoluteMonthly', interval: 1, dayOfMonth: 15 },
+					range: { type: 'noEnd', startDate: '2024-01-15' },
+				},
+				dueDateTime: { dateTime: utcMidnight('2024-01-15'), timeZone: 'UTC' },
+			});
+		});
+
+		it('繰り返しルールを省略すると繰り返しを解除する', async () => {
+			await apiClient.updateTaskRecurrence('list-id', 'task-id', undefined, '2024-01-15');
+
+			expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).toEqual({ recurrence: null });
+		});
+
+		it('対応していないルールは送信せずAPI_ERRORをスローする', async () => {
+			await expect(apiClient.updateTaskRecurrence('list-id', 'task-id', 'every week when done', '2024-01-15'))
+				.rejects.toThrow('API_ERROR: Unsupported recurrence rule: every week when done');
+			expect(fetch).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('リマインダーの送信（createTaskWithStartDate / updateTaskReminder）', () => {
+		const localDateTime = (date: string, hours: number, minutes: number) => {
+			const [year, month, day] = date.split('-').map(Number);
+			return new Date(year, month - 1, day, hours, minutes).toISOString();
+		};
+
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'task-id', title: 'Task', status: 'notStarted', createdDateTime: '' }),
+			});
+		});
+
+		it('リマインダーを指定するとローカル日時をUTCで表現して作成する', async () => {
+			await apiClient.createTaskWithStartDate('list-id', 'Call', '2024-01-15', { reminder: '2024-01-20 09:30' });
+
+			const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+			expect(body.isReminderOn).toBe(true);
+			expect(body.reminderDateTime).toEqual({ dateTime: localDateTime('2024-01-20', 9, 30), timeZone: 'UTC' });
+		});
+
+		it('updateTaskReminderはリマインダーをオンにして日時をPATCHする', async () => {
+			await apiClient.updateTaskReminder('list-id', 'task-id', '2024-01-21 18:15');
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe('https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id');
+			expect(init.method).toBe('PATCH');
+			expect(JSON.parse(init.body)).toEqual({
+				isReminderOn: true,
+				reminderDateTime: { dateTime: localDateTime('2024-01-21', 18, 15), timeZone: 'UTC' },
+			});
+		});
+
+		it('リマインダーを省略するとリマインダーをオフにする', async () => {
+			await apiClient.updateTaskReminder('list-id', 'task-id');
+
+			expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).toEqual({ isReminderOn: false, reminderDateTime: null });
+		});
+
+		it('更新に失敗した場合はAPI_ERRORをスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+			await expect(withRetries(apiClient.updateTaskReminder('list-id', 'task-id', '2024-01-21 18:15')))
+				.rejects.toThrow('API_ERROR: Failed to update task reminder: HTTP 500');
+		});
+	});
+
+	describe('ステップ（checklistItems）', () => {
+		const checklistUrl = 'https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id/checklistItems';
+
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+		});
+
+		it('getChecklistItemsはタスクのステップ一覧を返す', async () => {
+			const items = [{ id: 'step-1', displayName: 'Pack', isChecked: false }];
+			(fetch as jest.Mock).mockResolvedValue({ ok: true, json: () => Promise.resolve({ value: items }) });
+
+			const result = await apiClient.getChecklistItems('list-id', 'task-id');
+
+			expect(result).toEqual(items);
+			expect((fetch as jest.Mock).mock.calls[0][0]).toBe(checklistUrl);
+		});
+
+		it('createChecklistItemは表示名とチェック状態をPOSTする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ id: 'step-1', displayName: 'Pack', isChecked: true }),
+			});
+
+			const item = await apiClient.createChecklistItem('list-id', 'task-id', 'Pack', true);
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe(checklistUrl);
+			expect(init.method).toBe('POST');
+			expect(JSON.parse(init.body)).toEqual({ displayName: 'Pack', isChecked: true });
+			expect(item.id).toBe('step-1');
+		});
+
+		it('updateChecklistItemはisCheckedのみをPATCHする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: true, json: () => Promise.resolve({}) });
+
+			await apiClient.updateChecklistItem('list-id', 'task-id', 'step-1', true);
+
+			const [url, init] = (fetch as jest.Mock).mock.calls[0];
+			expect(url).toBe(`${checklistUrl}/step-1`);
+			expect(init.method).toBe('PATCH');
+			expect(JSON.parse(init.body)).toEqual({ isChecked: true });
+		});
+
+		it('取得に失敗した場合はAPI_ERRORをスローする', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+			await expect(apiClient.getChecklistItems('list-id', 'task-id'))
+				.rejects.toThrow('API_ERROR: Failed to fetch checklist items: HTTP 404');
+		});
+	});
+
 	describe('completeTask', () => {
 		beforeEach(() => {
 			apiClient.initialize(mockTokenProvider);
@@ -235,4 +652,241 @@ describe('TodoApiClient', () => {
 			);
 		});
 	});
-});
\ No newline at end of file
+
+	describe('reopenTask', () => {
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+		});
+
+		it('should mark task as notStarted', async () => {
+			(fetch as jest.Mock).mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({}),
+			});
+
+			await apiClient.reopenTask('list-id', 'task-id');
+
+			expect(fetch).toHaveBeenCalledWith(
+				'https://graph.microsoft.com/v1.0/me/todo/lists/list-id/tasks/task-id',
+				expect.objectContaining({
+					method: 'PATCH',
+					body: expect.stringContaining('"status":"notStarted"'),
+				})
+			);
+		});
+
+		it('should throw API_ERROR when the request fails', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+			await expect(apiClient.reopenTask('list-id', 'task-id'))
+				.rejects.toThrow('API_ERROR: Failed to reopen task: HTTP 404');
+		});
+	});
+
+	describe('Graph APIの再試行', () => {
+		const okResponse = { ok: true, json: () => Promise.resolve({}) };
+		const errorResponse = (status: number, retryAfter?: string, body?: unknown) => ({
+			ok: false,
+			status,
+			headers: { get: (name: string) => (name === 'Retry-After' ? retryAfter ?? null : null) },
+			json: () => (body ? Promise.resolve(body) : Promise.reject(new Error('No body'))),
+		});
+
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+		});
+
+		it('429はRetry-Afterの秒数だけ待ってから再試行する', async () => {
+			// Given: 1回目は3秒後の再試行を指示する429
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce(errorResponse(429, '3'))
+				.mockResolvedValueOnce(okResponse);
+
+			// When
+			const result = apiClient.completeTask('list-id', 'task-id');
+
+			// Then: Retry-Afterの経過前は再送しない
+			await jest.advanceTimersByTimeAsync(2999);
+			expect(fetch).toHaveBeenCalledTimes(1);
+			await jest.advanceTimersByTimeAsync(1);
+			await expect(result).resolves.toBeUndefined();
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+
+		it('5xxは指数バックオフで再試行し、成功すれば結果を返す', async () => {
+			// Given: 2回続けて502のあとに成功
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce(errorResponse(502))
+				.mockResolvedValueOnce(errorResponse(502))
+				.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ value: [] }) });
+
+			// When
+			const result = apiClient.getTasks('list-id');
+
+			// Then: 1秒、2秒と待機時間を倍にして再試行する
+			await jest.advanceTimersByTimeAsync(1000);
+			expect(fetch).toHaveBeenCalledTimes(2);
+			await jest.advanceTimersByTimeAsync(1999);
+			expect(fetch).toHaveBeenCalledTimes(2);
+			await jest.advanceTimersByTimeAsync(1);
+			await expect(result).resolves.toEqual([]);
+			expect(fetch).toHaveBeenCalledTimes(3);
+		});
+
+		it('再試行の上限に達するとHTTPステータスとGraphのエラーを持つエラーをスローする', async () => {
+			// Given: スロットリングが続く
+			const graphError = { error: { code: 'TooManyRequests', message: 'Please retry later.' } };
+			(fetch as jest.Mock).mockResolvedValue(errorResponse(429, '1', graphError));
+
+			// When
+			const error = await withRetries(apiClient.completeTask('list-id', 'task-id')).catch(e => e);
+
+			// Then: 最初の送信と上限回数の再試行のあとに失敗する
+			expect(fetch).toHaveBeenCalledTimes(1 + GRAPH_RETRY.MAX_RETRIES);
+			expect(error.message).toBe('API_ERROR: Failed to complete task: HTTP 429 (TooManyRequests: Please retry later.)');
+			expect(error.status).toBe(429);
+			expect(error.graphError).toEqual(graphError);
+		});
+
+		it('POSTは500を再試行しない', async () => {
+			// Given: 作成リクエストへの500（処理済みの可能性があり、再送すると重複する）
+			(fetch as jest.Mock).mockResolvedValue(errorResponse(500));
+
+			// When/Then
+			await expect(apiClient.createTask('list-id', 'Task')).rejects.toThrow('API_ERROR: Failed to create task: HTTP 500');
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		it('4xxは再試行しない', async () => {
+			(fetch as jest.Mock).mockResolvedValue(errorResponse(404));
+
+			const error = await apiClient.completeTask('list-id', 'task-id').catch(e => e);
+
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(error.status).toBe(404);
+		});
+
+		it('同時に送信するリクエストを上限件数までに制限する', async () => {
+			// Given: 応答を保留するfetch
+			const pending: (() => void)[] = [];
+			(fetch as jest.Mock).mockImplementation(() => new Promise(resolve => {
+				pending.push(() => resolve(okResponse));
+			}));
+
+			// When: 上限を超える件数を同時に送信
+			const results = Array.from({ length: MAX_CONCURRENT_GRAPH_REQUESTS + 2 }, (_, i) =>
+				apiClient.completeTask('list-id', `task-${i}`));
+			await jest.advanceTimersByTimeAsync(0);
+
+			// Then: 上限件数のみ送信され、応答が返るごとに次が送信される
+			expect(fetch).toHaveBeenCalledTimes(MAX_CONCURRENT_GRAPH_REQUESTS);
+			pending.shift()?.();
+			await jest.advanceTimersByTimeAsync(0);
+			expect(fetch).toHaveBeenCalledTimes(MAX_CONCURRENT_GRAPH_REQUESTS + 1);
+
+			while (pending.length > 0) {
+				pending.shift()?.();
+				await jest.advanceTimersByTimeAsync(0);
+			}
+			await expect(Promise.all(results)).resolves.toHaveLength(MAX_CONCURRENT_GRAPH_REQUESTS + 2);
+		});
+	});
+
+	describe('$batch', () => {
+		const batchResponse = (responses: unknown[]) => ({
+			ok: true,
+			json: () => Promise.resolve({ responses }),
+		});
+		const sentRequests = (call: number) => JSON.parse((fetch as jest.Mock).mock.calls[call][1].body).requests;
+
+		beforeEach(() => {
+			apiClient.initialize(mockTokenProvider);
+		});
+
+		it('作成をまとめて送信し、応答の順序に関わらずリクエストの順序で結果を返す', async () => {
+			// Given: 応答は逆順で返る
+			(fetch as jest.Mock).mockResolvedValueOnce(batchResponse([
+				{ id: '1', status: 201, body: { id: 'msft-b', title: 'Task B' } },
+				{ id: '0', status: 201, body: { id: 'msft-a', title: 'Task A' } },
+			]));
+
+			// When
+			const results = await apiClient.createTasks('list-id', [
+				{ title: 'Task A', startDate: '2024-01-15' },
+				{ title: 'Task B', attributes: { importance: 'high' } },
+			]);
+
+			// Then: 1回の$batchで相対URLのリクエストとして送信される
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect((fetch as jest.Mock).mock.calls[0][0]).toBe('https://graph.microsoft.com/v1.0/$batch');
+			expect(sentRequests(0)).toEqual([
+				expect.objectContaining({ id: '0', method: 'POST', url: '/me/todo/lists/list-id/tasks', body: expect.objectContaining({ title: 'Task A' }) }),
+				expect.objectContaining({ id: '1', method: 'POST', url: '/me/todo/lists/list-id/tasks', body: { title: 'Task B', importance: 'high' } }),
+			]);
+			expect(results.map(result => result.value?.id)).toEqual(['msft-a', 'msft-b']);
+		});
+
+		it('20件を超えるリクエストは20件ずつ分けて送信する', async () => {
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce(batchResponse(Array.from({ length: 20 }, (_, i) => ({ id: String(i), status: 204 }))))
+				.mockResolvedValueOnce(batchResponse([{ id: '20', status: 204 }]));
+
+			const results = await apiClient.deleteTasks('list-id', Array.from({ length: 21 }, (_, i) => `task-${i}`));
+
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(sentRequests(0)).toHaveLength(GRAPH_BATCH_LIMIT);
+			expect(sentRequests(1)).toEqual([{ id: '20', method: 'DELETE', url: '/me/todo/lists/list-id/tasks/task-20' }]);
+			expect(results).toHaveLength(21);
+			expect(results.every(result => !result.error)).toBe(true);
+		});
+
+		it('スロットリングされたリクエストだけをRetry-Afterの後に再送する', async () => {
+			// Given: 2件目だけが429
+			(fetch as jest.Mock)
+				.mockResolvedValueOnce(batchResponse([
+					{ id: '0', status: 200, body: {} },
+					{ id: '1', status: 429, headers: { 'retry-after': '2' }, body: {} },
+				]))
+				.mockResolvedValueOnce(batchResponse([{ id: '1', status: 200, body: {} }]));
+
+			// When
+			const results = apiClient.completeTasks('list-id', ['task-1', 'task-2']);
+
+			// Then: 2秒後に2件目のみ再送される
+			await jest.advanceTimersByTimeAsync(1999);
+			expect(fetch).toHaveBeenCalledTimes(1);
+			await jest.advanceTimersByTimeAsync(1);
+			await expect(results).resolves.toEqual([{ value: undefined }, { value: undefined }]);
+			expect(sentRequests(1)).toEqual([expect.objectContaining({ id: '1', url: '/me/todo/lists/list-id/tasks/task-2' })]);
+		});
+
+		it('失敗したリクエストはGraphのエラーを持つ結果として返す', async () => {
+			const graphError = { error: { code: 'ErrorItemNotFound', message: 'The item was not found.' } };
+			(fetch as jest.Mock).mockResolvedValueOnce(batchResponse([
+				{ id: '0', status: 200, body: {} },
+				{ id: '1', status: 404, body: graphError },
+			]));
+
+			const results = await apiClient.updateTaskTitles('list-id', [
+				{ taskId: 'task-1', title: 'A' },
+				{ taskId: 'task-2', title: 'B' },
+			]);
+
+			expect(results[0].error).toBeUndefined();
+			expect(results[1].error?.message).toBe('API_ERROR: Failed to update task title: HTTP 404 (ErrorItemNotFound: The item was not found.)');
+			expect(results[1].error?.status).toBe(404);
+			expect(results[1].error?.graphError).toEqual(graphError);
+		});
+
+		it('$batch自体が失敗した場合はすべてのリクエストを失敗として返す', async () => {
+			(fetch as jest.Mock).mockResolvedValue({ ok: false, status: 400 });
+
+			const results = await apiClient.deleteTasks('list-id', ['task-1', 'task-2']);
+
+			expect(results.map(result => result.error?.message)).toEqual([
+				'API_ERROR: Failed to send batch request: HTTP 400',
+				'API_ERROR: Failed to send batch request: HTTP 400',
+			]);
+		});
+	});
+});
@@ -2,8 +2,11 @@
 
 import { App } from 'obsidian';
 import { TodoIntegratorPlugin } from '../../src/TodoIntegratorPlugin';
+import { TokenCachePlugin } from '../../src/authentication/TokenCachePlugin';
 import { MSALAuthenticationManager } from '../../src/authentication/MSALAuthenticationManager';
 import { TodoApiClient } from '../../src/api/TodoApiClient';
+import { CARRY_OVER_DATA_KEY, TOKEN_CACHE_DATA_KEY } from '../../src/constants';
+import { createMockLogger } from '../__mocks__/mockFactories';
 
 // Mock dependencies
 jest.mock('../../src/authentication/MSALAuthenticationManager');
@@ -111,12 +114,73 @@ describe('TodoIntegratorPlugin', () => {
 				advancedConfigEnabled: false,
 				dailyNoteDateFormat: 'YYYY-MM-DD',
 				taskSectionHeading: '# Tasks',
+				listMappings: [],
+				deletionSync: 'off',
+				deletionGracePeriodHours: 24,
+				conflictResolution: 'obsidian',
+				vaultWideSync: false,
+				vaultSyncInclude: [],
+				vaultSyncExclude: [],
+				vaultSyncTag: '#mstodo',
+				stableTaskIds: false,
+				notePeriod: 'daily',
+				taskInsertPosition: 'bottom',
+				listSubheadings: false,
+				listSubheadingLevel: 2,
+				taskSectionAnchor: '',
+				carryOverTasks: 'off',
 			};
 
 			await plugin.saveSettings();
 
 			expect(plugin.saveData).toHaveBeenCalledWith(plugin.settings);
 		});
+
+		it('should not bring back a cleared token cache when saving settings after logout', async () => {
+			// data.json backed by an in-memory object
+			let storedData: any = {
+				clientId: 'test-id',
+				[TOKEN_CACHE_DATA_KEY]: { version: 1, iv: 'iv', tag: 'tag', data: 'cache' },
+			};
+			plugin.pluginSettings = null as any;
+			plugin.loadData = jest.fn(async () => storedData);
+			plugin.saveData = jest.fn(async (data) => {
+				storedData = data;
+			});
+			await plugin.loadSettings();
+			expect(plugin.settings).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+
+			// Logout clears the persisted token cache
+			(plugin as any).logger = createMockLogger();
+			const cachePlugin: TokenCachePlugin = (plugin as any).createTokenCachePlugin();
+			plugin.authManager = { logout: jest.fn(() => cachePlugin.clear()) } as any;
+			(plugin as any).sidebarButton = { updateAuthenticationStatus: jest.fn(), updateSyncStatus: jest.fn() };
+			await plugin.logout();
+			expect(storedData).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+
+			// A later settings save and reload must not restore it
+			plugin.settings = { ...plugin.settings, todoListName: 'Renamed List' };
+			await plugin.saveSettings();
+			await plugin.loadSettings();
+
+			expect(storedData).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+			expect(storedData.todoListName).toBe('Renamed List');
+			expect(plugin.settings).not.toHaveProperty(TOKEN_CACHE_DATA_KEY);
+		});
+
+		it('should keep the carry-over marker when saving settings', async () => {
+			plugin.pluginSettings = null as any;
+			plugin.loadData = jest.fn().mockResolvedValue({ [CARRY_OVER_DATA_KEY]: '2024-01-15' });
+			plugin.saveData = jest.fn().mockResolvedValue(undefined);
+			plugin.settings = { ...plugin.settings, clientId: 'test-id' };
+
+			await plugin.saveSettings();
+
+			expect(plugin.saveData).toHaveBeenCalledWith(expect.objectContaining({
+				clientId: 'test-id',
+				[CARRY_OVER_DATA_KEY]: '2024-01-15',
+			}));
+		});
 	});
 
 	describe('authentication', () => {
@@ -165,7 +229,11 @@ describe('TodoIntegratorPlugin', () => {
 
 			await plugin.authenticateWithMicrosoft();
 
-			expect(mockAuthManager.initialize).toHaveBeenCalledWith('test-client-id', 'common');
+			expect(mockAuthManager.initialize).toHaveBeenCalledWith(
+				'test-client-id',
+				'common',
+				expect.any(TokenCachePlugin)
+			);
 			expect(mockAuthManager.authenticate).toHaveBeenCalled();
 		});
 
@@ -254,6 +322,9 @@ describe('TodoIntegratorPlugin', () => {
 				msftToObsidian: { added: 2, errors: [] },
 				obsidianToMsft: { added: 1, errors: [] },
 				completions: { completed: 0, errors: [] },
+				updates: { updated: 0, errors: [] },
+				deletions: { deleted: 0, errors: [] },
+				conflicts: [],
 				timestamp: new Date().toISOString(),
 			});
 
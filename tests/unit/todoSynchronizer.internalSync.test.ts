@@ -36,6 +36,8 @@ describe('TodoSynchronizer - 内部同期', () => {
 			updateTaskCompletion: jest.fn(),
 			getTodayNotePath: jest.fn(),
 			getDailyNoteFiles: jest.fn(),
+			getPeriodStart: jest.fn((date: string) => date),
+			extractDateFromFilename: jest.fn((filePath: string) => filePath.match(/(\d{4}-\d{2}-\d{2})\.md$/)?.[1]),
 			app: {
 				vault: {
 					getAbstractFileByPath: jest.fn().mockReturnValue(null),
@@ -95,6 +97,45 @@ describe('TodoSynchronizer - 内部同期', () => {
 			expect(mockMetadataStore.getMsftTaskId('2025-06-26', 'Buy groceries and milk')).toBe('msft-task-123');
 		});
 
+		it('タイトル変更を検出したら変更前のタイトルをsyncedTitleに残し、次の同期でMicrosoftに反映する', async () => {
+			// Given: 同期済みタスクのタイトルをObsidianで変更
+			await mockMetadataStore.setMetadata('2025-06-26', 'Buy groceries', 'msft-task-123', 'list-1');
+			const renamedTask: DailyNoteTask = {
+				title: 'Buy groceries and milk',
+				completed: false,
+				lineNumber: 5,
+				startDate: '2025-06-26',
+				filePath: 'Daily Notes/2025-06-26.md'
+			};
+			mockDailyNoteManager.getDailyNoteFiles.mockResolvedValue([{
+				path: 'Daily Notes/2025-06-26.md',
+				basename: '2025-06-26'
+			} as any]);
+			mockDailyNoteManager.getDailyNoteTasks.mockResolvedValue([renamedTask]);
+
+			// When: 内部同期
+			await (synchronizer as any).reconcileMetadataWithDailyNotes();
+
+			// Then: 変更前のタイトルが同期基準として残る
+			expect(mockMetadataStore.findByMsftTaskId('msft-task-123')?.syncedTitle).toBe('Buy groceries');
+
+			// When: 属性同期でMicrosoft側は変更前のタイトルのまま
+			(mockApiClient as any).updateTaskTitle = jest.fn().mockResolvedValue(undefined);
+			(mockDailyNoteManager as any).getAllDailyNoteTasks = jest.fn().mockResolvedValue([renamedTask]);
+			mockApiClient.getTasks.mockResolvedValue([{
+				id: 'msft-task-123',
+				title: 'Buy groceries',
+				status: 'notStarted',
+				createdDateTime: '2025-06-26T00:00:00Z'
+			}]);
+			await synchronizer.syncTaskUpdates(undefined, { listId: 'list-1', listName: 'Tasks' });
+
+			// Then: Microsoftのタイトルを更新し、同期基準をクリアする（重複作成しない）
+			expect((mockApiClient as any).updateTaskTitle).toHaveBeenCalledWith('list-1', 'msft-task-123', 'Buy groceries and milk');
+			expect(mockApiClient.createTask).not.toHaveBeenCalled();
+			expect(mockMetadataStore.findByMsftTaskId('msft-task-123')?.syncedTitle).toBeUndefined();
+		});
+
 		it('should remove metadata when task is deleted from daily note', async () => {
 			// Setup: Add metadata for tasks
 			await mockMetadataStore.setMetadata('2025-06-26', 'Task 1', 'msft-task-1');
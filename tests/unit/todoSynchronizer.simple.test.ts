@@ -32,6 +32,7 @@ describe('TodoSynchronizer - Basic Functionality', () => {
 			ensureTodayNoteExists: jest.fn(),
 			getDailyNoteTasks: jest.fn(),
 			addTaskToTodoSection: jest.fn(),
+			getPeriodStart: jest.fn((date: string) => date),
 			updateTaskCompletion: jest.fn(),
 			getTodayNotePath: jest.fn(),
 			app: {
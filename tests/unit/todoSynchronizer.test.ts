@@ -131,6 +131,143 @@ describe('TodoSynchronizer', () => {
 			expect(result.completed).toBe(1);
 			expect(result.errors).toHaveLength(0);
 		});
+
+		describe('デルタクエリによる差分同期', () => {
+			/**
+			 * 【実装仕様】
+			 * - 初回はdeltaエンドポイントで全タスクを取得し、deltaLinkを保存
+			 * - 2回目以降は保存したdeltaLinkで変更・削除されたタスクのみを取得
+			 * - トークン期限切れ時はフル取得にフォールバック
+			 * - deltaLinkはリストの全フェーズが成功した後にのみ保存し、タスクは参照する項目だけを保存
+			 */
+			const baseTask: TodoTask = {
+				id: 'task1',
+				title: 'Existing',
+				status: 'notStarted',
+				createdDateTime: '2024-01-01T00:00:00Z',
+			};
+			let msftSpy: jest.SpyInstance;
+
+			beforeEach(() => {
+				msftSpy = jest.spyOn(synchronizer, 'syncMsftToObsidian').mockResolvedValue({ added: 0, errors: [] });
+				jest.spyOn(synchronizer, 'syncObsidianToMsft').mockResolvedValue({ added: 0, errors: [] });
+				jest.spyOn(synchronizer, 'syncCompletions').mockResolvedValue({ completed: 0, errors: [] });
+			});
+
+			it('初回同期ではすべてのタスクを変更として扱いdeltaLinkを保存する', async () => {
+				mockApiClient.getTasksDelta.mockResolvedValue({
+					tasks: [baseTask],
+					removedIds: [],
+					deltaLink: 'delta-link-1',
+				});
+
+				await synchronizer.performFullSync();
+
+				expect(mockApiClient.getTasksDelta).toHaveBeenCalledWith('default-list-id');
+				expect(msftSpy).toHaveBeenCalledWith(
+					{ all: [baseTask], changed: [baseTask], removedIds: [], deltaLink: 'delta-link-1' },
+					expect.objectContaining({ listId: 'default-list-id' })
+				);
+				expect((synchronizer as any).metadataStore.getDeltaState('default-list-id').deltaLink).toBe('delta-link-1');
+			});
+
+			it('2回目以降は変更されたタスクのみを処理し、削除されたタスクのメタデータを破棄する', async () => {
+				const store = (synchronizer as any).metadataStore;
+				const removedTask = { ...baseTask, id: 'task2', title: 'Removed' };
+				await store.setDeltaState('default-list-id', { deltaLink: 'delta-link-1', tasks: [baseTask, removedTask] });
+				await store.setMetadata('2024-01-01', 'Removed', 'task2');
+				const newTask = { ...baseTask, id: 'task3', title: 'New' };
+				mockApiClient.getTasksDelta.mockResolvedValue({
+					tasks: [newTask],
+					removedIds: ['task2'],
+					deltaLink: 'delta-link-2',
+				});
+
+				await synchronizer.performFullSync();
+
+				expect(mockApiClient.getTasksDelta).toHaveBeenCalledWith('default-list-id', 'delta-link-1');
+				expect(msftSpy).toHaveBeenCalledWith(
+					{ all: [baseTask, newTask], changed: [newTask], removedIds: ['task2'], deltaLink: 'delta-link-2' },
+					expect.objectContaining({ listId: 'default-list-id' })
+				);
+				expect(store.findByMsftTaskId('task2')).toBeUndefined();
+				expect(store.getDeltaState('default-list-id').deltaLink).toBe('delta-link-2');
+			});
+
+			it('デルタトークンが期限切れの場合はフル取得にフォールバックする', async () => {
+				await (synchronizer as any).metadataStore.setDeltaState('default-list-id', { deltaLink: 'expired', tasks: [] });
+				mockApiClient.getTasksDelta
+					.mockRejectedValueOnce(new Error('API_ERROR: DELTA_TOKEN_EXPIRED: Delta token is no longer valid'))
+					.mockResolvedValueOnce({ tasks: [baseTask], removedIds: [], deltaLink: 'delta-link-new' });
+
+				await synchronizer.performFullSync();
+
+				expect(mockApiClient.getTasksDelta).toHaveBeenNthCalledWith(1, 'default-list-id', 'expired');
+				expect(mockApiClient.getTasksDelta).toHaveBeenNthCalledWith(2, 'default-list-id');
+				expect(msftSpy).toHaveBeenCalledWith(
+					{ all: [baseTask], changed: [baseTask], removedIds: [], deltaLink: 'delta-link-new' },
+					expect.objectContaining({ listId: 'default-list-id' })
+				);
+			});
+
+			it('フェーズが失敗した場合は前回のdeltaLinkを残し、次回の同期で同じ変更を再取得する', async () => {
+				// Given: 保存済みのdeltaLinkと、変更を取り込めずに失敗するフェーズ
+				const store = (synchronizer as any).metadataStore;
+				await store.setDeltaState('default-list-id', { deltaLink: 'delta-link-1', tasks: [baseTask] });
+				const newTask = { ...baseTask, id: 'task3', title: 'New' };
+				mockApiClient.getTasksDelta.mockResolvedValue({ tasks: [newTask], removedIds: [], deltaLink: 'delta-link-2' });
+				msftSpy.mockResolvedValueOnce({ added: 0, errors: ['Failed to add task "New"'] });
+
+				// When
+				await synchronizer.performFullSync();
+
+				// Then: 状態は更新されない
+				expect(store.getDeltaState('default-list-id')).toEqual({ deltaLink: 'delta-link-1', tasks: [baseTask] });
+
+				// When: 次回の同期
+				await synchronizer.performFullSync();
+
+				// Then: 前回のdeltaLinkで同じ変更を再取得し、成功したら保存する
+				expect(mockApiClient.getTasksDelta).toHaveBeenLastCalledWith('default-list-id', 'delta-link-1');
+				expect(msftSpy).toHaveBeenLastCalledWith(
+					expect.objectContaining({ changed: [newTask] }),
+					expect.objectContaining({ listId: 'default-list-id' })
+				);
+				expect(store.getDeltaState('default-list-id').deltaLink).toBe('delta-link-2');
+			});
+
+			it('各フェーズが参照する項目だけを保存する', async () => {
+				// Given: Graphの応答に含まれる余分な項目と既定値
+				const graphTask = {
+					...baseTask,
+					'@odata.etag': 'W/"etag"',
+					categories: [],
+					hasAttachments: false,
+					importance: 'normal',
+					isReminderOn: false,
+					body: { content: '', contentType: 'text' },
+					dueDateTime: { dateTime: '2024-01-20T00:00:00.0000000', timeZone: 'UTC' },
+				} as TodoTask;
+				mockApiClient.getTasksDelta.mockResolvedValue({ tasks: [graphTask], removedIds: [], deltaLink: 'delta-link-1' });
+
+				// When
+				await synchronizer.performFullSync();
+
+				// Then
+				expect((synchronizer as any).metadataStore.getDeltaState('default-list-id').tasks).toEqual([{
+					...baseTask,
+					dueDateTime: { dateTime: '2024-01-20T00:00:00.0000000', timeZone: 'UTC' },
+				}]);
+			});
+
+			it('デルタクエリが失敗した場合は各フェーズが個別に取得する', async () => {
+				mockApiClient.getTasksDelta.mockRejectedValue(new Error('API_ERROR: HTTP 500'));
+
+				await synchronizer.performFullSync();
+
+				expect(msftSpy).toHaveBeenCalledWith(undefined, expect.objectContaining({ listId: 'default-list-id' }));
+			});
+		});
 	});
 
 	describe('Microsoft → Obsidian同期（syncMsftToObsidian） - 外部タスクの取り込み', () => {
@@ -172,12 +309,35 @@ describe('TodoSynchronizer', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-01.md',
 				'新しいタスク',
-				'## TODO'
+				'## TODO',
+				{},
+				'default'
 			);
 			expect(result.added).toBe(1);
 			expect(result.errors).toHaveLength(0);
 		});
 
+		it('既定リストのタスクは設定したリスト名をサブ見出し用に渡して追加する', async () => {
+			// Given: 既定リストの名前を設定
+			synchronizer.setDefaultListName('Obsidian Tasks');
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'task1', title: '新しいタスク', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' },
+			]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+
+			// When
+			await synchronizer.syncMsftToObsidian();
+
+			// Then
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-01.md',
+				'新しいタスク',
+				'## TODO',
+				{},
+				'Obsidian Tasks'
+			);
+		});
+
 		it('期日を優先して適切な日付のノートにタスクを追加する - 日付ロジックの詳細', async () => {
 			/**
 			 * 【ビジネス要件】
@@ -214,8 +374,52 @@ describe('TodoSynchronizer', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-05.md',
 				'期日付きタスク',
-				'## TODO'
+				'## TODO',
+				{ dueDate: '2024-01-05' },
+				'default'
+			);
+		});
+
+		it('週のノートでは期日を含む週の初日のノートに追加し、その日付で対応付ける', async () => {
+			// Given: 週のノート（期間の初日は2023-12-31）と、期日が2024-01-05のタスク
+			const msftTasks: TodoTask[] = [
+				{
+					id: 'task1',
+					title: '週のタスク',
+					status: 'notStarted',
+					createdDateTime: '2024-01-01T00:00:00Z',
+					dueDateTime: { dateTime: '2024-01-05T00:00:00Z', timeZone: 'UTC' },
+				},
+				{
+					id: 'task2',
+					title: '既存の週のタスク',
+					status: 'notStarted',
+					createdDateTime: '2024-01-01T00:00:00Z',
+					dueDateTime: { dateTime: '2024-01-03T00:00:00Z', timeZone: 'UTC' },
+				},
+			];
+			mockApiClient.getTasks.mockResolvedValue(msftTasks);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '既存の週のタスク', completed: false, startDate: '2023-12-31', filePath: 'Daily Notes/2024-W01.md', lineNumber: 1 },
+			]);
+			mockDailyNoteManager.getPeriodStart.mockReturnValue('2023-12-31');
+			mockDailyNoteManager.getNotePath.mockReturnValue('Daily Notes/2024-W01.md');
+
+			// When: 同期を実行
+			const result = await synchronizer.syncMsftToObsidian();
+
+			// Then: 週のノートに追加され、週の初日をキーに対応付けられる。同じ週のノートにある同名のタスクは追加しない
+			expect(result.added).toBe(1);
+			expect(mockDailyNoteManager.getPeriodStart).toHaveBeenCalledWith('2024-01-05');
+			expect(mockDailyNoteManager.getNotePath).toHaveBeenCalledWith('2023-12-31');
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-W01.md',
+				'週のタスク',
+				'## TODO',
+				{ dueDate: '2024-01-05' },
+				'default'
 			);
+			expect((synchronizer as any).metadataStore.findByMsftTaskId('task1').date).toBe('2023-12-31');
 		});
 
 		it('既にObsidianに存在するタスクはスキップする - 重複防止メカニズム', async () => {
@@ -325,7 +529,9 @@ describe('TodoSynchronizer', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-01.md',
 				'重要な会議',
-				'## TODO'
+				'## TODO',
+				{},
+				'default'
 			);
 		});
 
@@ -358,7 +564,7 @@ describe('TodoSynchronizer', () => {
 			
 			// 二つ目のタスクでエラーを発生させる
 			mockDailyNoteManager.addTaskToTodoSection
-				.mockResolvedValueOnce(undefined)
+				.mockResolvedValueOnce(3)
 				.mockRejectedValueOnce(new Error('ファイル書き込みエラー'));
 
 			// When: 同期を実行
@@ -418,7 +624,8 @@ describe('TodoSynchronizer', () => {
 			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith(
 				'default-list-id',
 				'新規タスク',
-				'2024-01-01'
+				'2024-01-01',
+				{}
 			);
 			expect(result.added).toBe(1);
 			expect(result.errors).toHaveLength(0);
@@ -456,6 +663,41 @@ describe('TodoSynchronizer', () => {
 			expect(result.added).toBe(0);
 		});
 
+		it('新規タスクを1回の$batchで作成し、作成できたタスクだけを対応付ける', async () => {
+			// Given: 3件の新規タスクのうち2件目の作成が失敗する
+			const obsidianTasks: DailyNoteTask[] = ['タスクA', 'タスクB', 'タスクC'].map((title, index) => ({
+				title,
+				completed: false,
+				startDate: '2024-01-01',
+				filePath: 'Daily Notes/2024-01-01.md',
+				lineNumber: index + 1,
+			}));
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue(obsidianTasks);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTasks.mockResolvedValue([
+				{ value: { id: 'msft-a', title: 'タスクA', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' } },
+				{ error: Object.assign(new Error('API_ERROR: Failed to create task: HTTP 400'), { status: 400 }) },
+				{ value: { id: 'msft-c', title: 'タスクC', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' } },
+			]);
+
+			// When
+			const result = await synchronizer.syncObsidianToMsft();
+
+			// Then: まとめて作成され、失敗した1件はエラーになる
+			expect(mockApiClient.createTasks).toHaveBeenCalledTimes(1);
+			expect(mockApiClient.createTasks).toHaveBeenCalledWith('default-list-id', [
+				{ title: 'タスクA', startDate: '2024-01-01', attributes: {} },
+				{ title: 'タスクB', startDate: '2024-01-01', attributes: {} },
+				{ title: 'タスクC', startDate: '2024-01-01', attributes: {} },
+			]);
+			expect(result.added).toBe(2);
+			expect(result.errors).toEqual(['Failed to add task "タスクB": API_ERROR: Failed to create task: HTTP 400']);
+			const metadataStore = (synchronizer as any).metadataStore;
+			expect(metadataStore.findByMsftTaskId('msft-a')?.title).toBe('タスクA');
+			expect(metadataStore.findByMsftTaskId('msft-c')?.title).toBe('タスクC');
+			expect(metadataStore.getAllMetadata()).toHaveLength(2);
+		});
+
 		it('メタデータの保存処理は独立して実行される', async () => {
 			/**
 			 * 【設計原則】
@@ -495,7 +737,8 @@ describe('TodoSynchronizer', () => {
 			expect(metadataStoreSpy).toHaveBeenCalledWith(
 				'2024-01-01',
 				'新規タスク',
-				'new-task-id'
+				'new-task-id',
+				'default-list-id'
 			);
 		});
 
@@ -579,6 +822,43 @@ describe('TodoSynchronizer', () => {
 			expect(result.completed).toBe(1);
 		});
 
+		it('ファイルパスのないタスクは完了状態を反映せずにスキップする', async () => {
+			// Given: Microsoftで完了済みで、ファイルパスのないObsidianタスク
+			mockApiClient.getTasks.mockResolvedValue([
+				{
+					id: 'task1',
+					title: 'テストタスク',
+					status: 'completed',
+					completedDateTime: '2024-01-01T10:00:00Z',
+					createdDateTime: '2024-01-01T00:00:00Z',
+				},
+			]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: 'テストタスク', completed: false, startDate: '2024-01-01', lineNumber: 5 },
+			]);
+			const mockMetadataStore = createMockMetadataStore();
+			mockMetadataStore.findByMsftTaskId.mockReturnValue({
+				msftTaskId: 'task1',
+				date: '2024-01-01',
+				title: 'テストタスク',
+				lastSynced: Date.now(),
+			});
+			(synchronizer as any).metadataStore = mockMetadataStore;
+
+			// When: 完了状態を同期
+			const result = await synchronizer.syncCompletions();
+
+			// Then: ノートもメタデータも更新せず、スキップしたことを記録する
+			expect(mockDailyNoteManager.updateTaskCompletion).not.toHaveBeenCalled();
+			expect(mockMetadataStore.updateMetadataByMsftId).not.toHaveBeenCalled();
+			expect(result.completed).toBe(0);
+			expect(result.errors).toEqual([]);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				'Skipping task completion update because the task has no file path',
+				expect.objectContaining({ taskId: 'task1' })
+			);
+		});
+
 		it('Obsidianで完了したタスクをMicrosoftでも完了にする', async () => {
 			// Given: Obsidianで完了済み、Microsoftで未完了のタスク
 			const obsidianTasks: DailyNoteTask[] = [
@@ -938,7 +1218,8 @@ describe('TodoSynchronizer', () => {
 			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith(
 				'list-123',
 				'週次レポート作成 [todo::weekly-report-2024]',  // Obsidianのタイトルそのまま
-				'2024-01-02'
+				'2024-01-02',
+				{}
 			);
 			expect(result.added).toBe(1);
 
@@ -946,7 +1227,8 @@ describe('TodoSynchronizer', () => {
 			expect(mockMetadataStore.setMetadata).toHaveBeenCalledWith(
 				'2024-01-02',
 				'週次レポート作成',  // [todo::ID]を除外したクリーンなタイトル
-				'new-msft-task-456'
+				'new-msft-task-456',
+				'list-123'
 			);
 		});
 
@@ -1277,12 +1559,14 @@ describe('TodoSynchronizer', () => {
 			expect(mockMetadataStore.setMetadata).toHaveBeenCalledWith(
 				'2024-01-01',
 				'定例会議',
-				'task-2024-01-01'
+				'task-2024-01-01',
+				'default-list-id'
 			);
 			expect(mockMetadataStore.setMetadata).toHaveBeenCalledWith(
 				'2024-01-08',
 				'定例会議',
-				'task-2024-01-08'
+				'task-2024-01-08',
+				'default-list-id'
 			);
 		});
 
@@ -1330,6 +1614,98 @@ describe('TodoSynchronizer', () => {
 		});
 	});
 
+	describe('完了状態の取り消し（未完了に戻す）の双方向同期', () => {
+		/**
+		 * 【実装仕様】
+		 * - メタデータに前回同期時の完了状態を保存し、そこから変更された側の状態を採用する
+		 * - 記録がない場合はMicrosoftのlastModifiedDateTimeとノートの更新日時を比較する
+		 */
+		const dailyTask = (completed: boolean): DailyNoteTask => ({
+			title: 'レポート',
+			completed,
+			startDate: '2024-01-01',
+			filePath: 'Daily Notes/2024-01-01.md',
+			lineNumber: 3,
+		});
+		const msftTask = (status: TodoTask['status'], lastModifiedDateTime?: string): TodoTask => ({
+			id: 'task1',
+			title: 'レポート',
+			status,
+			createdDateTime: '2024-01-01T00:00:00Z',
+			completedDateTime: status === 'completed' ? '2024-01-02T10:00:00Z' : undefined,
+			lastModifiedDateTime,
+		});
+		let store: any;
+
+		beforeEach(async () => {
+			store = (synchronizer as any).metadataStore;
+			await store.setMetadata('2024-01-01', 'レポート', 'task1', 'default-list-id');
+		});
+
+		it('Obsidianでチェックを外したタスクはMicrosoftでも未完了に戻す', async () => {
+			// Given: 前回同期時は両方で完了済み
+			await store.updateMetadataByMsftId('task1', { completed: true });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(false)]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('completed')]);
+
+			// When
+			const result = await synchronizer.syncCompletions();
+
+			// Then: Obsidianを完了に戻さず、Microsoftを再開する
+			expect(mockApiClient.reopenTask).toHaveBeenCalledWith('default-list-id', 'task1');
+			expect(mockDailyNoteManager.updateTaskCompletion).not.toHaveBeenCalled();
+			expect(result.completed).toBe(1);
+			expect(store.findByMsftTaskId('task1').completed).toBe(false);
+		});
+
+		it('Microsoftで再開したタスクはObsidianでもチェックを外す', async () => {
+			await store.updateMetadataByMsftId('task1', { completed: true });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(true)]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('notStarted')]);
+
+			const result = await synchronizer.syncCompletions();
+
+			expect(mockDailyNoteManager.updateTaskCompletion).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, false, undefined);
+			expect(mockApiClient.completeTask).not.toHaveBeenCalled();
+			expect(result.completed).toBe(1);
+		});
+
+		it('前回の完了状態が記録されていない場合は更新日時の新しい側を採用する', async () => {
+			// Given: Microsoftの完了より後にノートが更新されている
+			mockDailyNoteManager.getFileModifiedTime.mockReturnValue(Date.parse('2024-01-03T09:00:00Z'));
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(false)]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('completed', '2024-01-02T10:00:00Z')]);
+
+			// When
+			await synchronizer.syncCompletions();
+
+			// Then
+			expect(mockApiClient.reopenTask).toHaveBeenCalledWith('default-list-id', 'task1');
+			expect(mockDailyNoteManager.updateTaskCompletion).not.toHaveBeenCalled();
+		});
+
+		it('Microsoftの方が新しければMicrosoftの完了状態を採用する', async () => {
+			mockDailyNoteManager.getFileModifiedTime.mockReturnValue(Date.parse('2024-01-01T09:00:00Z'));
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(false)]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('completed', '2024-01-02T10:00:00Z')]);
+
+			await synchronizer.syncCompletions();
+
+			expect(mockDailyNoteManager.updateTaskCompletion).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, true, '2024-01-02');
+			expect(mockApiClient.reopenTask).not.toHaveBeenCalled();
+		});
+
+		it('完了状態が一致していれば前回の状態として記録する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(true)]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('completed')]);
+
+			const result = await synchronizer.syncCompletions();
+
+			expect(result.completed).toBe(0);
+			expect(store.findByMsftTaskId('task1').completed).toBe(true);
+		});
+	});
+
 	describe('同期競合の解決', () => {
 		/**
 		 * 【目的】
@@ -1445,7 +1821,7 @@ describe('TodoSynchronizer', () => {
 
 			mockApiClient.getTasks.mockResolvedValue(msftTasks);
 			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
-			mockDailyNoteManager.addTaskToTodoSection.mockResolvedValue(undefined);
+			mockDailyNoteManager.addTaskToTodoSection.mockResolvedValue(3);
 
 			// メタデータストアのモック
 			const mockMetadataStore = createMockMetadataStore();
@@ -1483,4 +1859,1170 @@ describe('TodoSynchronizer', () => {
 			expect(result2.errors).toHaveLength(0);
 		});
 	});
+	describe('複数リストの同期 - リストごとの同期先マッピング', () => {
+		/**
+		 * 【実装仕様】
+		 * - 既定リストに加えて、setListTargetsで設定したリストを順に同期する
+		 * - 見出しマッピングのリストはその見出し配下のタスクと対応する
+		 * - タグマッピングのリストはタグ付きタスクと対応し、Microsoft側のタイトルにはタグを含めない
+		 * - メタデータにはリストIDを保存し、完了状態はそのリストに反映する
+		 */
+		const workTarget = { listId: 'work-list-id', listName: 'Work', sectionHeading: '## Work' };
+		const homeTarget = { listId: 'home-list-id', listName: 'Home', tag: '#home' };
+
+		it('既定リストとマッピングされたリストをそれぞれ同期する', async () => {
+			// Given: Workリストのマッピング
+			synchronizer.setListTargets([workTarget]);
+			const msftSpy = jest.spyOn(synchronizer, 'syncMsftToObsidian').mockResolvedValue({ added: 1, errors: [] });
+			jest.spyOn(synchronizer, 'syncObsidianToMsft').mockResolvedValue({ added: 0, errors: [] });
+			jest.spyOn(synchronizer, 'syncCompletions').mockResolvedValue({ completed: 0, errors: [] });
+			mockApiClient.getTasksDelta.mockResolvedValue({ tasks: [], removedIds: [], deltaLink: 'delta-link' });
+
+			// When
+			const result = await synchronizer.performFullSync();
+
+			// Then: リストごとに取得・同期され、結果が合算される
+			expect(mockApiClient.getTasksDelta).toHaveBeenCalledWith('default-list-id');
+			expect(mockApiClient.getTasksDelta).toHaveBeenCalledWith('work-list-id');
+			expect(msftSpy).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ listId: 'default-list-id' }));
+			expect(msftSpy).toHaveBeenCalledWith(expect.anything(), workTarget);
+			expect(result.msftToObsidian.added).toBe(2);
+		});
+
+		it('見出しマッピングのリストのタスクはその見出しに追加し、リストIDをメタデータに保存する', async () => {
+			// Given: Workリストの新規タスク
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'work-1', title: '資料作成', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' },
+			]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+			const setMetadataSpy = jest.spyOn((synchronizer as any).metadataStore, 'setMetadata');
+
+			// When
+			const result = await synchronizer.syncMsftToObsidian(undefined, workTarget);
+
+			// Then
+			expect(result.added).toBe(1);
+			expect(mockApiClient.getTasks).toHaveBeenCalledWith('work-list-id');
+			expect(mockDailyNoteManager.getAllDailyNoteTasks).toHaveBeenCalledWith('## Work');
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-01.md',
+				'資料作成',
+				'## Work',
+				{},
+				'Work'
+			);
+			expect(setMetadataSpy).toHaveBeenCalledWith('2024-01-01', '資料作成', 'work-1', 'work-list-id');
+		});
+
+		it('タグマッピングのリストのタスクにはタグを付与してObsidianに追加する', async () => {
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'home-1', title: '買い物', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' },
+			]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+
+			await synchronizer.syncMsftToObsidian(undefined, homeTarget);
+
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-01.md',
+				'買い物 #home',
+				'## TODO',
+				{},
+				'Home'
+			);
+		});
+
+		it('タグ付きタスクはタグを除いたタイトルでタグのリストに作成し、既定リストには作成しない', async () => {
+			// Given: タグ付きタスクとタグなしタスク
+			synchronizer.setListTargets([homeTarget]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '買い物 #home', completed: false, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 1 },
+				{ title: '報告書', completed: false, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 2 },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTaskWithStartDate.mockImplementation(async (listId: string, title: string) => ({
+				id: `${listId}-${title}`,
+				title,
+				status: 'notStarted',
+				createdDateTime: '2024-01-01T00:00:00Z',
+			}));
+
+			// When
+			await synchronizer.syncObsidianToMsft(undefined, homeTarget);
+			await synchronizer.syncObsidianToMsft();
+
+			// Then
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledTimes(2);
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith('home-list-id', '買い物', '2024-01-01', {});
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith('default-list-id', '報告書', '2024-01-01', {});
+		});
+
+		it('Obsidianで完了したタスクはメタデータに記録されたリストで完了する', async () => {
+			// Given: Workリストに属するタスクのメタデータ
+			const store = (synchronizer as any).metadataStore;
+			await store.setMetadata('2024-01-01', '資料作成', 'work-1', 'work-list-id');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '資料作成', completed: true, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 1 },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'work-1', title: '資料作成', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' },
+			]);
+
+			// When
+			const result = await synchronizer.syncCompletions(undefined, workTarget);
+
+			// Then
+			expect(result.completed).toBe(1);
+			expect(mockApiClient.completeTask).toHaveBeenCalledWith('work-list-id', 'work-1');
+		});
+	});
+	describe('タイトル・期日・重要度の双方向同期（syncTaskUpdates）', () => {
+		/**
+		 * 【実装仕様】
+		 * - メタデータに前回同期時のタイトル・期日・重要度を保存し、変更された側の値をもう一方に反映する
+		 * - 両側で異なる値に変更された場合は解決方針（既定はObsidian優先）に従う
+		 */
+		const dailyTask = (dueDate?: string): DailyNoteTask => ({
+			title: 'レポート',
+			completed: false,
+			startDate: '2024-01-01',
+			filePath: 'Daily Notes/2024-01-01.md',
+			lineNumber: 3,
+			...(dueDate ? { dueDate } : {}),
+		});
+		const msftTask = (dueDate?: string): TodoTask => ({
+			id: 'task1',
+			title: 'レポート',
+			status: 'notStarted',
+			createdDateTime: '2024-01-01T00:00:00Z',
+			...(dueDate ? { dueDateTime: { dateTime: `${dueDate}T12:00:00.0000000`, timeZone: 'UTC' } } : {}),
+		});
+		let store: any;
+
+		beforeEach(async () => {
+			store = (synchronizer as any).metadataStore;
+			await store.setMetadata('2024-01-01', 'レポート', 'task1', 'default-list-id');
+			await store.updateMetadataByMsftId('task1', { dueDate: '2024-01-10' });
+		});
+
+		it('Obsidianで変更された期日をMicrosoftに反映する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-12')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(1);
+			expect(mockApiClient.updateTaskDueDate).toHaveBeenCalledWith('default-list-id', 'task1', '2024-01-12');
+			expect(mockDailyNoteManager.updateTaskDueDate).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').dueDate).toBe('2024-01-12');
+		});
+
+		it('Microsoftで変更された期日をObsidianに反映する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-10')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-15')]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(1);
+			expect(mockDailyNoteManager.updateTaskDueDate).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, '2024-01-15');
+			expect(mockApiClient.updateTaskDueDate).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').dueDate).toBe('2024-01-15');
+		});
+
+		it('Obsidianで期日を削除するとMicrosoftの期日も削除する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask()]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockApiClient.updateTaskDueDate).toHaveBeenCalledWith('default-list-id', 'task1', undefined);
+		});
+
+		it('期日が一致していれば何も更新しない', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-10')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(0);
+			expect(mockApiClient.updateTaskDueDate).not.toHaveBeenCalled();
+			expect(mockDailyNoteManager.updateTaskDueDate).not.toHaveBeenCalled();
+		});
+
+		it('更新に失敗した場合はエラーを記録して処理を継続する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-12')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+			mockApiClient.updateTaskDueDate.mockRejectedValue(new Error('API_ERROR: HTTP 500'));
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(0);
+			expect(result.errors).toEqual(['Failed to update task "レポート": API_ERROR: HTTP 500']);
+		});
+
+		it('Microsoftで重要度が上がったタスクはObsidianの優先度を更新する', async () => {
+			// Given: スマートフォンでスターを付けたタスク
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-10')]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), importance: 'high' }]);
+
+			// When
+			const result = await synchronizer.syncTaskUpdates();
+
+			// Then
+			expect(result.updated).toBe(1);
+			expect(mockDailyNoteManager.updateTaskImportance).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, 'high');
+			expect(mockApiClient.updateTaskImportance).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').importance).toBe('high');
+		});
+
+		it('Obsidianで変更された優先度をMicrosoftの重要度に反映する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), importance: 'low' }]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), importance: 'normal' }]);
+
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockApiClient.updateTaskImportance).toHaveBeenCalledWith('default-list-id', 'task1', 'low');
+			expect(mockDailyNoteManager.updateTaskImportance).not.toHaveBeenCalled();
+		});
+
+		it('Microsoftで変更されたタイトルをObsidianのタスク行に反映する', async () => {
+			// Given: Microsoft側でタイトルを変更
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-10')]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), title: '月次レポート' }]);
+
+			// When
+			const result = await synchronizer.syncTaskUpdates();
+
+			// Then: 重複行を追加せずにタイトルを置き換え、メタデータのキーも更新される
+			expect(result.updated).toBe(1);
+			expect(mockDailyNoteManager.updateTaskTitle).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, 'レポート', '月次レポート');
+			expect(mockApiClient.updateTaskTitle).not.toHaveBeenCalled();
+			expect(mockDailyNoteManager.addTaskToTodoSection).not.toHaveBeenCalled();
+			expect(store.getMsftTaskId('2024-01-01', '月次レポート')).toBe('task1');
+		});
+
+		it('両側でタイトルが変更された場合はObsidianのタイトルを優先する', async () => {
+			// Given: Obsidianでの変更が内部同期で記録済み
+			await (synchronizer as any).recordLocalRename(store.findByMsftTaskId('task1'), 'レポート提出');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), title: 'レポート提出' }]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), title: '月次レポート' }]);
+
+			// When
+			await synchronizer.syncTaskUpdates();
+
+			// Then
+			expect(mockApiClient.updateTaskTitle).toHaveBeenCalledWith('default-list-id', 'task1', 'レポート提出');
+			expect(mockDailyNoteManager.updateTaskTitle).not.toHaveBeenCalled();
+		});
+
+		it('🔼（normal）とMicrosoftのnormalは一致として扱う', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), importance: 'normal' }]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), importance: 'normal' }]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(0);
+			expect(mockApiClient.updateTaskImportance).not.toHaveBeenCalled();
+		});
+
+		it('解決方針がmicrosoftなら両側で変更された期日はMicrosoftの値を採用する', async () => {
+			synchronizer.setConflictResolution('microsoft');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-12')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-15')]);
+
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockDailyNoteManager.updateTaskDueDate).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, '2024-01-15');
+			expect(mockApiClient.updateTaskDueDate).not.toHaveBeenCalled();
+		});
+
+		it('解決方針がaskなら競合として返し、どちらにも反映しない', async () => {
+			// Given
+			synchronizer.setConflictResolution('ask');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-12')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-15')]);
+
+			// When
+			const result = await synchronizer.syncTaskUpdates();
+
+			// Then
+			expect(result.updated).toBe(0);
+			expect(result.conflicts).toEqual([{
+				msftTaskId: 'task1',
+				title: 'レポート',
+				field: 'dueDate',
+				obsidianValue: '2024-01-12',
+				msftValue: '2024-01-15',
+			}]);
+			expect(mockApiClient.updateTaskDueDate).not.toHaveBeenCalled();
+			expect(mockDailyNoteManager.updateTaskDueDate).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').dueDate).toBe('2024-01-10');
+		});
+
+		it('競合モーダルで選ばれた側の値が次回の同期で反映される', async () => {
+			// Given: askで検出された競合をMicrosoft側で解決
+			synchronizer.setConflictResolution('ask');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-12')]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-15')]);
+			const { conflicts } = await synchronizer.syncTaskUpdates();
+			await synchronizer.resolveConflict(conflicts[0], 'microsoft');
+
+			// When
+			const result = await synchronizer.syncTaskUpdates();
+
+			// Then
+			expect(result.conflicts).toHaveLength(0);
+			expect(mockDailyNoteManager.updateTaskDueDate).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, '2024-01-15');
+			expect(mockApiClient.updateTaskDueDate).not.toHaveBeenCalled();
+		});
+
+		it('タイトルの競合をObsidian側で解決するとMicrosoftのタイトルを更新する', async () => {
+			synchronizer.setConflictResolution('ask');
+			await (synchronizer as any).recordLocalRename(store.findByMsftTaskId('task1'), 'レポート提出');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), title: 'レポート提出' }]);
+			mockApiClient.getTasks.mockResolvedValue([{ ...msftTask('2024-01-10'), title: '月次レポート' }]);
+			const { conflicts } = await synchronizer.syncTaskUpdates();
+			expect(conflicts).toEqual([expect.objectContaining({ field: 'title', obsidianValue: 'レポート提出', msftValue: '月次レポート' })]);
+
+			await synchronizer.resolveConflict(conflicts[0], 'obsidian');
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockApiClient.updateTaskTitle).toHaveBeenCalledWith('default-list-id', 'task1', 'レポート提出');
+			expect(mockDailyNoteManager.updateTaskTitle).not.toHaveBeenCalled();
+		});
+
+		it('Obsidianで追加されたメモをMicrosoftの本文に反映する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), notes: '資料を添付\n来週提出' }]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(1);
+			expect(mockApiClient.updateTaskNotes).toHaveBeenCalledWith('default-list-id', 'task1', '資料を添付\n来週提出');
+			expect(mockDailyNoteManager.updateTaskNotes).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').notes).toBe('資料を添付\n来週提出');
+		});
+
+		it('MicrosoftのHTML本文はテキストに変換してObsidianのメモ行に反映する', async () => {
+			// Given: スマートフォンで入力された本文（HTML形式）
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask('2024-01-10')]);
+			mockApiClient.getTasks.mockResolvedValue([{
+				...msftTask('2024-01-10'),
+				body: { content: '<html><body><p>資料を添付</p></body></html>', contentType: 'html' },
+			}]);
+
+			// When
+			const result = await synchronizer.syncTaskUpdates();
+
+			// Then
+			expect(result.updated).toBe(1);
+			expect(mockDailyNoteManager.updateTaskNotes).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, '資料を添付');
+			expect(mockApiClient.updateTaskNotes).not.toHaveBeenCalled();
+		});
+
+		it('Obsidianで追加されたリマインダーをMicrosoftに反映する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), reminder: '2024-01-10 09:00' }]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask('2024-01-10')]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(1);
+			expect(mockApiClient.updateTaskReminder).toHaveBeenCalledWith('default-list-id', 'task1', '2024-01-10 09:00');
+			expect(store.findByMsftTaskId('task1').reminder).toBe('2024-01-10 09:00');
+		});
+
+		it('Microsoftでオフにしたリマインダーをデイリーノートから削除する', async () => {
+			await store.updateMetadataByMsftId('task1', { reminder: '2024-01-10 09:00' });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([{ ...dailyTask('2024-01-10'), reminder: '2024-01-10 09:00' }]);
+			mockApiClient.getTasks.mockResolvedValue([{
+				...msftTask('2024-01-10'),
+				isReminderOn: false,
+				reminderDateTime: { dateTime: '2024-01-10T00:00:00.0000000', timeZone: 'UTC' },
+			}]);
+
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockDailyNoteManager.updateTaskReminder).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, undefined);
+			expect(mockApiClient.updateTaskReminder).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('繰り返しタスクの同期', () => {
+		/**
+		 * 【実装仕様】
+		 * - Graphのrecurrenceと🔁マーカーのルールを相互に変換し、属性として双方向に同期する
+		 * - Vaultで完了した繰り返しタスクは、次回の日付のデイリーノートに次回分を作成する
+		 * - Microsoftが生成した次回分のタスクはVault側の次回分と対応付け、新規として取り込まない
+		 */
+		const weeklyRecurrence = {
+			pattern: { type: 'weekly' as const, interval: 1, daysOfWeek: ['monday' as const], firstDayOfWeek: 'sunday' as const },
+			range: { type: 'noEnd' as const, startDate: '2024-01-08' },
+		};
+		const dailyTask = (overrides: Partial<DailyNoteTask> = {}): DailyNoteTask => ({
+			title: '週次レビュー',
+			completed: false,
+			startDate: '2024-01-08',
+			filePath: 'Daily Notes/2024-01-08.md',
+			lineNumber: 3,
+			dueDate: '2024-01-08',
+			recurrence: 'every week on Monday',
+			...overrides,
+		});
+		const msftTask = (overrides: Partial<TodoTask> = {}): TodoTask => ({
+			id: 'task1',
+			title: '週次レビュー',
+			status: 'notStarted',
+			createdDateTime: '2024-01-01T00:00:00Z',
+			dueDateTime: { dateTime: '2024-01-08T12:00:00.0000000', timeZone: 'UTC' },
+			recurrence: weeklyRecurrence,
+			...overrides,
+		});
+		let store: any;
+
+		beforeEach(async () => {
+			store = (synchronizer as any).metadataStore;
+			mockDailyNoteManager.getNotePath.mockImplementation((date: string) => `Daily Notes/${date}.md`);
+		});
+
+		it('Obsidianで追加した繰り返しルールをMicrosoftに反映する', async () => {
+			await store.setMetadata('2024-01-08', '週次レビュー', 'task1', 'default-list-id');
+			await store.updateMetadataByMsftId('task1', { dueDate: '2024-01-08' });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask()]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask({ recurrence: undefined })]);
+
+			const result = await synchronizer.syncTaskUpdates();
+
+			expect(result.updated).toBe(1);
+			expect(mockApiClient.updateTaskRecurrence).toHaveBeenCalledWith(
+				'default-list-id', 'task1', 'every week on Monday', '2024-01-08'
+			);
+			expect(store.findByMsftTaskId('task1').recurrence).toBe('every week on Monday');
+		});
+
+		it('Microsoftで変更された繰り返しを🔁マーカーに反映する', async () => {
+			await store.setMetadata('2024-01-08', '週次レビュー', 'task1', 'default-list-id');
+			await store.updateMetadataByMsftId('task1', { dueDate: '2024-01-08', recurrence: 'every week on Monday' });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask()]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask({
+				recurrence: { ...weeklyRecurrence, pattern: { ...weeklyRecurrence.pattern, interval: 2 } },
+			})]);
+
+			await synchronizer.syncTaskUpdates();
+
+			expect(mockDailyNoteManager.updateTaskRecurrence).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-08.md', 3, 'every 2 weeks on Monday'
+			);
+			expect(mockApiClient.updateTaskRecurrence).not.toHaveBeenCalled();
+		});
+
+		it('Vaultで完了した繰り返しタスクの次回分を次回の日付のノートに作成する', async () => {
+			// Given: Tasks pluginが完了時に同じノートへ次回分の行を追加している
+			await store.setMetadata('2024-01-08', '週次レビュー', 'task1', 'default-list-id');
+			await store.updateMetadataByMsftId('task1', { completed: false });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				dailyTask({ lineNumber: 3, dueDate: '2024-01-15' }),
+				dailyTask({ lineNumber: 4, completed: true }),
+			]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask()]);
+
+			// When
+			const result = await synchronizer.syncCompletions();
+
+			// Then: Tasks pluginの行は取り除き、次回の日付のノートに次回分を作成する
+			expect(result.errors).toEqual([]);
+			expect(mockApiClient.completeTask).toHaveBeenCalledWith('default-list-id', 'task1');
+			expect(mockDailyNoteManager.removeTaskLine).toHaveBeenCalledWith('Daily Notes/2024-01-08.md', 3);
+			expect(mockDailyNoteManager.createDailyNote).toHaveBeenCalledWith('2024-01-15');
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-15.md',
+				'週次レビュー',
+				'## TODO',
+				{ dueDate: '2024-01-15', recurrence: 'every week on Monday' },
+				'default'
+			);
+		});
+
+		it('次回分が既にノートにあれば作成しない', async () => {
+			await store.setMetadata('2024-01-08', '週次レビュー', 'task1', 'default-list-id');
+			await store.updateMetadataByMsftId('task1', { completed: false });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				dailyTask({ completed: true }),
+				dailyTask({ startDate: '2024-01-15', filePath: 'Daily Notes/2024-01-15.md', dueDate: '2024-01-15' }),
+			]);
+			mockApiClient.getTasks.mockResolvedValue([msftTask()]);
+
+			await synchronizer.syncCompletions();
+
+			expect(mockApiClient.completeTask).toHaveBeenCalled();
+			expect(mockDailyNoteManager.removeTaskLine).not.toHaveBeenCalled();
+			expect(mockDailyNoteManager.addTaskToTodoSection).not.toHaveBeenCalled();
+		});
+
+		it('Microsoftが生成した次回分はVaultの次回分と対応付け、完了済みの回と合わせて取り込まない', async () => {
+			// Given: 前回の同期でVaultに作成した次回分と、Microsoftの完了済みの回・次回分
+			await store.setMetadata('2024-01-08', '週次レビュー', 'task1', 'default-list-id');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				dailyTask({ completed: true }),
+				dailyTask({ startDate: '2024-01-15', filePath: 'Daily Notes/2024-01-15.md', dueDate: '2024-01-15' }),
+			]);
+			mockApiClient.getTasks.mockResolvedValue([
+				msftTask({ status: 'completed', completedDateTime: '2024-01-08T10:00:00Z' }),
+				msftTask({ id: 'task2', dueDateTime: { dateTime: '2024-01-15T12:00:00.0000000', timeZone: 'UTC' } }),
+			]);
+
+			// When
+			const result = await synchronizer.syncMsftToObsidian();
+
+			// Then
+			expect(result.added).toBe(0);
+			expect(mockDailyNoteManager.addTaskToTodoSection).not.toHaveBeenCalled();
+			expect(store.getMsftTaskId('2024-01-15', '週次レビュー')).toBe('task2');
+			expect(store.findByMsftTaskId('task2')).toEqual(expect.objectContaining({
+				dueDate: '2024-01-15',
+				recurrence: 'every week on Monday',
+			}));
+		});
+	});
+
+	describe('サブタスクとステップの同期（syncChecklistItems）', () => {
+		/**
+		 * 【実装仕様】
+		 * - 入れ子のチェックボックスをMicrosoftのステップ（checklistItems）としてタイトルで対応付ける
+		 * - 片側のみで追加されたものは反対側に作成し、完了状態は前回同期時から変更された側を採用する
+		 * - デルタで変更されていない、かつサブタスクにも変更のないタスクはステップを取得しない
+		 */
+		const dailyTask = (subtasks: DailyNoteTask['subtasks']): DailyNoteTask => ({
+			title: '旅行の準備',
+			completed: false,
+			startDate: '2024-01-01',
+			filePath: 'Daily Notes/2024-01-01.md',
+			lineNumber: 3,
+			subtasks,
+		});
+		const msftTask: TodoTask = {
+			id: 'task1',
+			title: '旅行の準備',
+			status: 'notStarted',
+			createdDateTime: '2024-01-01T00:00:00Z',
+		};
+		let store: any;
+
+		beforeEach(async () => {
+			store = (synchronizer as any).metadataStore;
+			await store.setMetadata('2024-01-01', '旅行の準備', 'task1', 'default-list-id');
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+		});
+
+		it('Obsidianで追加されたサブタスクをステップとして作成する', async () => {
+			// Given
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask([{ title: 'ホテル予約', completed: false, lineNumber: 4 }])]);
+			mockApiClient.createChecklistItem.mockResolvedValue({ id: 'step1', displayName: 'ホテル予約', isChecked: false });
+
+			// When
+			const result = await synchronizer.syncChecklistItems();
+
+			// Then: トップレベルのタスクは作成せず、ステップとして追加される
+			expect(result.updated).toBe(1);
+			expect(mockApiClient.createChecklistItem).toHaveBeenCalledWith('default-list-id', 'task1', 'ホテル予約', false);
+			expect(mockApiClient.createTaskWithStartDate).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').checklist).toEqual([{ id: 'step1', title: 'ホテル予約', completed: false }]);
+		});
+
+		it('Microsoftで追加されたステップを親タスクのサブタスクとして追加する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(undefined)]);
+			mockApiClient.getChecklistItems.mockResolvedValue([{ id: 'step1', displayName: 'パスポート', isChecked: true }]);
+
+			const result = await synchronizer.syncChecklistItems();
+
+			expect(result.updated).toBe(1);
+			expect(mockDailyNoteManager.addSubtask).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 3, 'パスポート', true);
+			expect(store.findByMsftTaskId('task1').checklist).toEqual([{ id: 'step1', title: 'パスポート', completed: true }]);
+		});
+
+		it('Obsidianで完了したサブタスクをステップに反映する', async () => {
+			await store.updateMetadataByMsftId('task1', { checklist: [{ id: 'step1', title: 'ホテル予約', completed: false }] });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask([{ title: 'ホテル予約', completed: true, lineNumber: 4 }])]);
+			mockApiClient.getChecklistItems.mockResolvedValue([{ id: 'step1', displayName: 'ホテル予約', isChecked: false }]);
+
+			await synchronizer.syncChecklistItems();
+
+			expect(mockApiClient.updateChecklistItem).toHaveBeenCalledWith('default-list-id', 'task1', 'step1', true);
+			expect(mockDailyNoteManager.updateTaskCompletion).not.toHaveBeenCalled();
+			expect(store.findByMsftTaskId('task1').checklist).toEqual([{ id: 'step1', title: 'ホテル予約', completed: true }]);
+		});
+
+		it('Microsoftで完了したステップをサブタスクの行に反映する', async () => {
+			await store.updateMetadataByMsftId('task1', { checklist: [{ id: 'step1', title: 'ホテル予約', completed: false }] });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask([{ title: 'ホテル予約', completed: false, lineNumber: 4 }])]);
+			mockApiClient.getChecklistItems.mockResolvedValue([{ id: 'step1', displayName: 'ホテル予約', isChecked: true }]);
+
+			await synchronizer.syncChecklistItems();
+
+			expect(mockDailyNoteManager.updateTaskCompletion).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 4, true);
+			expect(mockApiClient.updateChecklistItem).not.toHaveBeenCalled();
+		});
+
+		it('Microsoftで削除されたステップのサブタスクは作り直さない', async () => {
+			await store.updateMetadataByMsftId('task1', { checklist: [{ id: 'step1', title: 'ホテル予約', completed: false }] });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask([{ title: 'ホテル予約', completed: false, lineNumber: 4 }])]);
+			mockApiClient.getChecklistItems.mockResolvedValue([]);
+
+			const result = await synchronizer.syncChecklistItems();
+
+			expect(result.updated).toBe(0);
+			expect(mockApiClient.createChecklistItem).not.toHaveBeenCalled();
+		});
+
+		it('デルタで変更がなくサブタスクも同期済みのタスクはステップを取得しない', async () => {
+			// Given
+			await store.updateMetadataByMsftId('task1', { checklist: [{ id: 'step1', title: 'ホテル予約', completed: false }] });
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask([{ title: 'ホテル予約', completed: false, lineNumber: 4 }])]);
+
+			// When
+			await synchronizer.syncChecklistItems({ all: [msftTask], changed: [], removedIds: [] });
+
+			// Then
+			expect(mockApiClient.getChecklistItems).not.toHaveBeenCalled();
+		});
+
+		it('ステップの取得に失敗した場合はエラーを記録して処理を継続する', async () => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([dailyTask(undefined)]);
+			mockApiClient.getChecklistItems.mockRejectedValue(new Error('API_ERROR: HTTP 500'));
+
+			const result = await synchronizer.syncChecklistItems();
+
+			expect(result.errors).toEqual(['Failed to sync steps of "旅行の準備": API_ERROR: HTTP 500']);
+		});
+	});
+
+	describe('削除の同期（syncDeletions）', () => {
+		/**
+		 * 【実装仕様】
+		 * - 削除同期が有効な場合、片側での削除はメタデータに保留として記録され、猶予期間後に反対側へ反映される
+		 * - trash: Microsoftタスクは「Deleted from Obsidian」リストへ移動、デイリーノートのタスクはキャンセル済みにする
+		 * - delete: 反対側のタスクを削除する
+		 * - 保留中の削除はrestorePendingDeletionsで取り消せる
+		 */
+		const HOUR = 60 * 60 * 1000;
+		const msftTask: TodoTask = {
+			id: 'task1',
+			title: 'レポート',
+			status: 'notStarted',
+			createdDateTime: '2024-01-01T00:00:00Z',
+		};
+		let store: any;
+
+		beforeEach(async () => {
+			store = (synchronizer as any).metadataStore;
+			await store.setMetadata('2024-01-01', 'レポート', 'task1', 'default-list-id');
+		});
+
+		it('猶予期間を過ぎたObsidianでの削除はMicrosoftタスクをゴミ箱リストへ移動する', async () => {
+			// Given: 25時間前にObsidianで削除されたタスク
+			synchronizer.setDeletionSync('trash', 24);
+			await store.updateMetadataByMsftId('task1', { deletedFrom: 'obsidian', deletedAt: Date.now() - 25 * HOUR });
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+			mockApiClient.getOrCreateTaskList.mockResolvedValue('trash-list-id');
+
+			// When
+			const result = await synchronizer.syncDeletions();
+
+			// Then
+			expect(mockApiClient.getOrCreateTaskList).toHaveBeenCalledWith('Deleted from Obsidian');
+			expect(mockApiClient.moveTaskToList).toHaveBeenCalledWith('default-list-id', msftTask, 'trash-list-id');
+			expect(mockApiClient.deleteTask).not.toHaveBeenCalled();
+			expect(result.deleted).toBe(1);
+			expect(store.findByMsftTaskId('task1')).toBeUndefined();
+		});
+
+		it('猶予期間中の削除は反映しない', async () => {
+			synchronizer.setDeletionSync('delete', 24);
+			await store.updateMetadataByMsftId('task1', { deletedFrom: 'obsidian', deletedAt: Date.now() - HOUR });
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+
+			const result = await synchronizer.syncDeletions();
+
+			expect(mockApiClient.deleteTask).not.toHaveBeenCalled();
+			expect(result.deleted).toBe(0);
+			expect(store.findByMsftTaskId('task1').deletedFrom).toBe('obsidian');
+		});
+
+		it('deleteモードではMicrosoftで削除されたタスクの行をデイリーノートから削除する', async () => {
+			synchronizer.setDeletionSync('delete', 0);
+			await store.updateMetadataByMsftId('task1', { deletedFrom: 'microsoft', deletedAt: Date.now() });
+			mockDailyNoteManager.getNotePath.mockReturnValue('Daily Notes/2024-01-01.md');
+			mockDailyNoteManager.getDailyNoteTasks.mockResolvedValue([
+				{ title: 'レポート', completed: false, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 4 },
+			]);
+
+			const result = await synchronizer.syncDeletions();
+
+			expect(mockDailyNoteManager.removeTaskLine).toHaveBeenCalledWith('Daily Notes/2024-01-01.md', 4);
+			expect(mockDailyNoteManager.cancelTask).not.toHaveBeenCalled();
+			expect(result.deleted).toBe(1);
+			expect(store.findByMsftTaskId('task1')).toBeUndefined();
+		});
+
+		it('削除同期が無効なら保留中の削除を反映せずに破棄する', async () => {
+			synchronizer.setDeletionSync('off', 24);
+			await store.updateMetadataByMsftId('task1', { deletedFrom: 'obsidian', deletedAt: Date.now() });
+
+			const result = await synchronizer.syncDeletions();
+
+			expect(mockApiClient.deleteTask).not.toHaveBeenCalled();
+			expect(mockApiClient.moveTaskToList).not.toHaveBeenCalled();
+			expect(result.deleted).toBe(0);
+			expect(store.findByMsftTaskId('task1')).toBeUndefined();
+		});
+
+		it('Microsoftで削除されたタスクは削除同期が有効なら保留として記録する', async () => {
+			synchronizer.setDeletionSync('trash', 24);
+
+			await (synchronizer as any).removeMetadataForDeletedTasks(['task1']);
+
+			expect(store.findByMsftTaskId('task1')).toEqual(expect.objectContaining({
+				deletedFrom: 'microsoft',
+				deletedAt: expect.any(Number),
+			}));
+		});
+
+		it('restorePendingDeletionsで保留中の削除を取り消す', async () => {
+			// Given
+			await store.updateMetadataByMsftId('task1', { deletedFrom: 'obsidian', deletedAt: Date.now() });
+			const clearDeltaSpy = jest.spyOn(store, 'clearDeltaState');
+
+			// When
+			const restored = await synchronizer.restorePendingDeletions();
+
+			// Then: 対応付けを破棄し、次回はフル取得でタスクを作り直す
+			expect(restored).toBe(1);
+			expect(store.findByMsftTaskId('task1')).toBeUndefined();
+			expect(clearDeltaSpy).toHaveBeenCalled();
+		});
+	});
+
+	describe('ボルト全体の同期', () => {
+		/**
+		 * 【実装仕様】
+		 * - setVaultSyncで有効にすると、デイリーノート以外のノートのタスクも同期対象になる
+		 * - ボルトのタスクはノートの日付ではなくファイルパスでメタデータに対応付ける
+		 * - タグのないボルトのタスクは既定リスト、リストのタグ付きのタスクはそのリストと同期する
+		 * - ボルトのノートが削除された場合のみ、そのノートのタスクを削除として扱う
+		 */
+		const vaultOptions = { include: ['Projects/**'], exclude: [], tag: '#mstodo' };
+		const vaultTask = {
+			title: 'サイト改修',
+			completed: false,
+			filePath: 'Projects/Website.md',
+			lineNumber: 3,
+		};
+		let store: any;
+
+		beforeEach(() => {
+			store = (synchronizer as any).metadataStore;
+			synchronizer.setVaultSync(vaultOptions);
+		});
+
+		it('ボルトのタスクをMicrosoftに作成し、ファイルパスでメタデータを保存する', async () => {
+			// Given: 開始日を持たないボルトのタスク
+			mockDailyNoteManager.getVaultTasks.mockResolvedValue([vaultTask]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTaskWithStartDate.mockResolvedValue({
+				id: 'vault-1',
+				title: 'サイト改修',
+				status: 'notStarted',
+				createdDateTime: '2024-01-01T00:00:00Z',
+			});
+
+			// When
+			const result = await synchronizer.syncObsidianToMsft();
+
+			// Then
+			expect(result.added).toBe(1);
+			expect(mockDailyNoteManager.getVaultTasks).toHaveBeenCalledWith(vaultOptions);
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith('default-list-id', 'サイト改修', undefined, {});
+			expect(store.getMsftTaskId('Projects/Website.md', 'サイト改修')).toBe('vault-1');
+		});
+
+		it('ボルトのタスクの完了をファイルパスのメタデータで照合してMicrosoftに反映する', async () => {
+			// Given: 同期済みのボルトのタスクをObsidianで完了
+			await store.setMetadata('Projects/Website.md', 'サイト改修', 'vault-1', 'default-list-id');
+			mockDailyNoteManager.getVaultTasks.mockResolvedValue([{ ...vaultTask, completed: true }]);
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'vault-1', title: 'サイト改修', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z' },
+			]);
+
+			// When
+			const result = await synchronizer.syncCompletions();
+
+			// Then
+			expect(result.completed).toBe(1);
+			expect(mockApiClient.completeTask).toHaveBeenCalledWith('default-list-id', 'vault-1');
+		});
+
+		it('タグのないボルトのタスクは見出しマッピングのリストには作成しない', async () => {
+			// Given: 見出しマッピングのリスト
+			const workTarget = { listId: 'work-list-id', listName: 'Work', sectionHeading: '## Work' };
+			synchronizer.setListTargets([workTarget]);
+			mockDailyNoteManager.getVaultTasks.mockResolvedValue([vaultTask]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+
+			// When
+			await synchronizer.syncObsidianToMsft(undefined, workTarget);
+
+			// Then
+			expect(mockApiClient.createTaskWithStartDate).not.toHaveBeenCalled();
+		});
+
+		it('無効な場合はボルトのタスクを取得しない', async () => {
+			synchronizer.setVaultSync(null);
+			mockApiClient.getTasks.mockResolvedValue([]);
+
+			await synchronizer.syncObsidianToMsft();
+
+			expect(mockDailyNoteManager.getVaultTasks).not.toHaveBeenCalled();
+		});
+
+		it('ボルトのノートが削除された場合のみ、そのノートのタスクを削除として記録する', async () => {
+			// Given: 削除されたノートと、同期対象外になっただけのノートのタスク
+			synchronizer.setDeletionSync('trash', 24);
+			await store.setMetadata('Projects/Deleted.md', '古いタスク', 'vault-1', 'default-list-id');
+			await store.setMetadata('Areas/Excluded.md', '対象外のタスク', 'vault-2', 'default-list-id');
+			(mockDailyNoteManager as any).getDailyNoteFiles = jest.fn().mockResolvedValue([]);
+			mockDailyNoteManager.getFileModifiedTime.mockImplementation((path: string) =>
+				path === 'Projects/Deleted.md' ? undefined : Date.now()
+			);
+
+			// When
+			await (synchronizer as any).reconcileMetadataWithDailyNotes();
+
+			// Then
+			expect(store.findByMsftTaskId('vault-1').deletedFrom).toBe('obsidian');
+			expect(store.findByMsftTaskId('vault-2').deletedFrom).toBeUndefined();
+		});
+
+		it('Microsoftで削除されたタスクの行をボルトのノートから削除する', async () => {
+			// Given
+			synchronizer.setDeletionSync('delete', 0);
+			await store.setMetadata('Projects/Website.md', 'サイト改修', 'vault-1', 'default-list-id');
+			await store.updateMetadataByMsftId('vault-1', { deletedFrom: 'microsoft', deletedAt: Date.now() });
+			mockDailyNoteManager.getVaultTasks.mockResolvedValue([vaultTask]);
+
+			// When
+			await synchronizer.syncDeletions();
+
+			// Then
+			expect(mockDailyNoteManager.removeTaskLine).toHaveBeenCalledWith('Projects/Website.md', 3);
+			expect(mockDailyNoteManager.getNotePath).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('安定ID（ブロック参照）による対応付け', () => {
+		/**
+		 * 【実装仕様】
+		 * - setStableTaskIdsで有効にすると、同期したタスク行に ^mst-… のブロック参照を付ける
+		 * - 安定IDを持つタスクは日付とタイトルではなくIDでメタデータに対応付ける
+		 * - 有効にした後の最初の同期で、IDを持たない同期済みのタスクにIDを付ける
+		 */
+		const notePath = 'Daily Notes/2024-01-15.md';
+		const dailyFile = { path: notePath, basename: '2024-01-15' };
+		let store: any;
+		const linkTask = async (date: string, title: string, msftTaskId: string, blockId: string) => {
+			await store.setMetadata(date, title, msftTaskId, 'default-list-id');
+			await store.updateMetadataByMsftId(msftTaskId, { blockId });
+		};
+
+		beforeEach(() => {
+			store = (synchronizer as any).metadataStore;
+			synchronizer.setStableTaskIds(true);
+			(mockDailyNoteManager as any).getDailyNoteFiles = jest.fn().mockResolvedValue([dailyFile]);
+		});
+
+		it('新規タスクの作成時に安定IDを行に付けてメタデータに保存する', async () => {
+			// Given: IDを持たない新規タスク
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '電話', completed: false, lineNumber: 4, startDate: '2024-01-15', filePath: notePath },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTaskWithStartDate.mockResolvedValue({
+				id: 'msft-1', title: '電話', status: 'notStarted', createdDateTime: '2024-01-15T00:00:00Z',
+			});
+
+			// When
+			await synchronizer.syncObsidianToMsft();
+
+			// Then
+			const blockId = mockDailyNoteManager.setTaskBlockId.mock.calls[0][2];
+			expect(blockId).toMatch(/^mst-[a-z0-9]{6}$/);
+			expect(mockDailyNoteManager.setTaskBlockId).toHaveBeenCalledWith(notePath, 4, blockId);
+			expect(store.findByBlockId(blockId).msftTaskId).toBe('msft-1');
+		});
+
+		it('同じノートの同名タスクを安定IDで区別して完了状態を同期する', async () => {
+			// Given: 同じタイトルの2つのタスクのうち、2つ目だけをObsidianで完了
+			await linkTask('2024-01-15', '電話', 'msft-1', 'mst-aaa111');
+			await linkTask('2024-01-15', '電話', 'msft-2', 'mst-bbb222');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '電話', completed: false, lineNumber: 4, startDate: '2024-01-15', filePath: notePath, blockId: 'mst-aaa111' },
+				{ title: '電話', completed: true, lineNumber: 5, startDate: '2024-01-15', filePath: notePath, blockId: 'mst-bbb222' },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([
+				{ id: 'msft-1', title: '電話', status: 'notStarted', createdDateTime: '2024-01-15T00:00:00Z' },
+				{ id: 'msft-2', title: '電話', status: 'notStarted', createdDateTime: '2024-01-15T00:00:00Z' },
+			]);
+
+			// When
+			const result = await synchronizer.syncCompletions();
+
+			// Then: 2つ目のタスクのみが完了になる
+			expect(result.completed).toBe(1);
+			expect(mockApiClient.completeTask).toHaveBeenCalledTimes(1);
+			expect(mockApiClient.completeTask).toHaveBeenCalledWith('default-list-id', 'msft-2');
+		});
+
+		it('タイトルを大きく変えても安定IDで対応付けを保ち、名前の変更として記録する', async () => {
+			// Given: 部分一致しないタイトルに変更されたタスク
+			await linkTask('2024-01-15', '電話', 'msft-1', 'mst-aaa111');
+			mockDailyNoteManager.getDailyNoteTasks.mockResolvedValue([
+				{ title: '見積書を送る', completed: false, lineNumber: 4, startDate: '2024-01-15', filePath: notePath, blockId: 'mst-aaa111' },
+			]);
+
+			// When
+			await (synchronizer as any).reconcileMetadataWithDailyNotes();
+
+			// Then: 削除ではなく名前の変更として記録される
+			expect(store.findByMsftTaskId('msft-1')).toEqual(expect.objectContaining({
+				title: '見積書を送る',
+				syncedTitle: '電話',
+			}));
+			expect(store.findByMsftTaskId('msft-1').deletedFrom).toBeUndefined();
+		});
+
+		it('別のノートに移動したタスクのメタデータを移動先のノートに付け替える', async () => {
+			// Given: 2024-01-15のタスクを2024-01-16のノートに移動
+			await linkTask('2024-01-15', '電話', 'msft-1', 'mst-aaa111');
+			(mockDailyNoteManager as any).getDailyNoteFiles = jest.fn().mockResolvedValue([
+				dailyFile,
+				{ path: 'Daily Notes/2024-01-16.md', basename: '2024-01-16' },
+			]);
+			mockDailyNoteManager.getDailyNoteTasks.mockImplementation(async (filePath: string) =>
+				filePath === 'Daily Notes/2024-01-16.md'
+					? [{ title: '電話', completed: false, lineNumber: 2, startDate: '2024-01-16', filePath, blockId: 'mst-aaa111' }]
+					: []
+			);
+
+			// When
+			await (synchronizer as any).reconcileMetadataWithDailyNotes();
+
+			// Then
+			expect(store.findByBlockId('mst-aaa111')).toEqual(expect.objectContaining({ date: '2024-01-16', msftTaskId: 'msft-1' }));
+			expect(store.findByMsftTaskId('msft-1').deletedFrom).toBeUndefined();
+		});
+
+		it('既存の同期済みタスクに安定IDを付けて移行する', async () => {
+			// Given: 日付とタイトルで保存された既存のメタデータ
+			await store.setMetadata('2024-01-15', '電話', 'msft-1', 'default-list-id');
+			mockDailyNoteManager.getDailyNoteTasks.mockResolvedValue([
+				{ title: '電話', completed: false, lineNumber: 4, startDate: '2024-01-15', filePath: notePath },
+				{ title: '未同期のタスク', completed: false, lineNumber: 5, startDate: '2024-01-15', filePath: notePath },
+			]);
+
+			// When
+			const migrated = await synchronizer.backfillBlockIds();
+
+			// Then: 同期済みのタスクのみにIDが付く
+			expect(migrated).toBe(1);
+			expect(mockDailyNoteManager.setTaskBlockId).toHaveBeenCalledTimes(1);
+			const blockId = mockDailyNoteManager.setTaskBlockId.mock.calls[0][2];
+			expect(mockDailyNoteManager.setTaskBlockId).toHaveBeenCalledWith(notePath, 4, blockId);
+			expect(store.findByBlockId(blockId).msftTaskId).toBe('msft-1');
+			expect(store.getMsftTaskId('2024-01-15', '電話')).toBeUndefined();
+		});
+	});
+
+	describe('同期のプレビューと適用', () => {
+		/**
+		 * 【実装仕様】
+		 * - previewFullSyncは完全同期を試し、書き込みを行わずに計画として返す
+		 * - applySyncPlanは計画をそのまま実行し、作成したタスクの仮のIDを実際のIDに置き換える
+		 * - プレビュー後に対象のノートが変更されていれば実行しない
+		 */
+		let store: any;
+
+		beforeEach(() => {
+			store = (synchronizer as any).metadataStore;
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '新規タスク', completed: false, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 1 },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTaskWithStartDate.mockResolvedValue({
+				id: 'new-task-id', title: '新規タスク', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z',
+			});
+		});
+
+		it('プレビューではMicrosoft To Doとメタデータを変更しない', async () => {
+			// When: プレビューを作成
+			const plan = await synchronizer.previewFullSync();
+
+			// Then: 作成は計画に含まれるだけで実行されない
+			expect(mockApiClient.createTaskWithStartDate).not.toHaveBeenCalled();
+			expect(store.getMsftTaskId('2024-01-01', '新規タスク')).toBeUndefined();
+			expect(plan.operations).toContainEqual(expect.objectContaining({
+				kind: 'create',
+				method: 'createTaskWithStartDate',
+				description: 'Create "新規タスク" in Microsoft To Do',
+			}));
+			expect(plan.result.obsidianToMsft.added).toBe(1);
+		});
+
+		it('適用すると計画を実行し、作成したタスクの実際のIDでメタデータを保存する', async () => {
+			// Given: プレビュー済みの計画
+			const plan = await synchronizer.previewFullSync();
+
+			// When: 計画を適用
+			const result = await synchronizer.applySyncPlan(plan);
+
+			// Then: 作成が実行され、メタデータには実際のIDが保存される
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledWith('default-list-id', '新規タスク', '2024-01-01', {});
+			expect(store.getMsftTaskId('2024-01-01', '新規タスク')).toBe('new-task-id');
+			expect(result).toBe(plan.result);
+		});
+
+		it('プレビュー後にノートが変更されていれば適用しない', async () => {
+			// Given: プレビュー時点から更新日時が変わったノート
+			const plan = await synchronizer.previewFullSync();
+			plan.noteModifiedTimes['Daily Notes/2024-01-01.md'] = 1000;
+			mockDailyNoteManager.getFileModifiedTime.mockReturnValue(2000);
+
+			// When/Then: 古い計画としてエラーになり、何も実行されない
+			await expect(synchronizer.applySyncPlan(plan)).rejects.toThrow('STALE_SYNC_PLAN');
+			expect(mockApiClient.createTaskWithStartDate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('同期履歴', () => {
+		/**
+		 * 【実装仕様】
+		 * - performSyncWithHistoryは完全同期を実行し、結果・所要時間・実際に行った変更を履歴に残す
+		 * - 変更は影響したノート（と行）を持ち、内部的なメタデータの更新は残さない
+		 * - 失敗した同期もエラーとともに残す
+		 */
+		beforeEach(() => {
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '新規タスク', completed: false, startDate: '2024-01-01', filePath: 'Daily Notes/2024-01-01.md', lineNumber: 1 },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+			mockApiClient.createTaskWithStartDate.mockResolvedValue({
+				id: 'new-task-id', title: '新規タスク', status: 'notStarted', createdDateTime: '2024-01-01T00:00:00Z',
+			});
+		});
+
+		it('同期の結果と行った変更を履歴に残す', async () => {
+			// When: 同期を実行
+			const result = await synchronizer.performSyncWithHistory('manual');
+
+			// Then: 変更は実行され、対応するノートとともに履歴に残る
+			expect(mockApiClient.createTaskWithStartDate).toHaveBeenCalledTimes(1);
+			const [entry] = synchronizer.getSyncHistory();
+			expect(entry.trigger).toBe('manual');
+			expect(entry.result).toBe(result);
+			expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+			expect(entry.actions).toEqual([{
+				kind: 'create',
+				description: 'Create "新規タスク" in Microsoft To Do',
+				filePath: 'Daily Notes/2024-01-01.md',
+				lineNumber: undefined,
+			}]);
+		});
+
+		it('失敗した同期をエラーとともに履歴に残す', async () => {
+			// Given: 今日のノートを作成できない
+			mockDailyNoteManager.ensureTodayNoteExists.mockRejectedValue(new Error('Vault is read-only'));
+
+			// When/Then: エラーは呼び出し元に伝わり、履歴にも残る
+			await expect(synchronizer.performSyncWithHistory('auto')).rejects.toThrow('Vault is read-only');
+			const [entry] = synchronizer.getSyncHistory();
+			expect(entry.trigger).toBe('auto');
+			expect(entry.error).toBe('Vault is read-only');
+			expect(entry.result).toBeUndefined();
+		});
+
+		it('プレビューした計画の適用も履歴に残す', async () => {
+			// Given: プレビュー済みの計画
+			const plan = await synchronizer.previewFullSync();
+
+			// When: 計画を適用
+			await synchronizer.applySyncPlan(plan);
+
+			// Then: 適用した変更が履歴に残る（プレビュー自体は残らない）
+			const history = synchronizer.getSyncHistory();
+			expect(history).toHaveLength(1);
+			expect(history[0].trigger).toBe('preview');
+			expect(history[0].actions.map(action => action.kind)).toEqual(['create']);
+		});
+	});
+
+	describe('未完了タスクの持ち越し', () => {
+		/**
+		 * 【実装仕様】
+		 * - setCarryOverで有効にすると、その日の最初の同期で過去のノートの同期済みの未完了タスクを今日のノートに移す
+		 * - メタデータの日付とMicrosoft To Doの開始日を今日のノートの日付に更新する
+		 * - 同期したことのないタスク・完了済みのタスク・今日のノートのタスクは移さない
+		 */
+		const pastNote = 'Daily Notes/2024-01-15.md';
+		const todayNote = 'Daily Notes/2024-01-16.md';
+		let store: any;
+
+		beforeEach(async () => {
+			jest.setSystemTime(new Date(2024, 0, 16, 9, 0));
+			store = (synchronizer as any).metadataStore;
+			mockDailyNoteManager.getNotePath.mockImplementation((date: string) => `Daily Notes/${date}.md`);
+			await store.setMetadata('2024-01-15', '見積書', 'msft-1', 'default-list-id');
+			await store.setMetadata('2024-01-15', '完了済み', 'msft-2', 'default-list-id');
+			await store.setMetadata('2024-01-16', '今日のタスク', 'msft-3', 'default-list-id');
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([
+				{ title: '見積書', completed: false, lineNumber: 3, startDate: '2024-01-15', filePath: pastNote },
+				{ title: '完了済み', completed: true, lineNumber: 4, startDate: '2024-01-15', filePath: pastNote },
+				{ title: '未同期', completed: false, lineNumber: 5, startDate: '2024-01-15', filePath: pastNote },
+				{ title: '今日のタスク', completed: false, lineNumber: 2, startDate: '2024-01-16', filePath: todayNote },
+			]);
+			mockApiClient.getTasks.mockResolvedValue([]);
+		});
+
+		it('過去のノートの同期済みの未完了タスクを今日のノートに移し、メタデータと開始日を更新する', async () => {
+			// Given
+			synchronizer.setCarryOver('move');
+
+			// When
+			await synchronizer.performFullSync();
+
+			// Then
+			expect(mockDailyNoteManager.carryOverTasks).toHaveBeenCalledTimes(1);
+			expect(mockDailyNoteManager.carryOverTasks).toHaveBeenCalledWith(pastNote, [3], todayNote, '## TODO', 'default', false);
+			expect(store.findByMsftTaskId('msft-1').date).toBe('2024-01-16');
+			expect(store.findByMsftTaskId('msft-2').date).toBe('2024-01-15');
+			expect(mockApiClient.updateTaskStartDate).toHaveBeenCalledWith('default-list-id', 'msft-1', '2024-01-16');
+			expect(mockApiClient.updateTaskStartDate).toHaveBeenCalledTimes(1);
+		});
+
+		it('コピーの設定はコピーとして移し、同じ日の2回目以降の同期では持ち越さない', async () => {
+			// Given
+			synchronizer.setCarryOver('copy');
+
+			// When: 同じ日に2回同期
+			await synchronizer.performFullSync();
+			await synchronizer.performFullSync();
+
+			// Then
+			expect(mockDailyNoteManager.carryOverTasks).toHaveBeenCalledTimes(1);
+			expect(mockDailyNoteManager.carryOverTasks).toHaveBeenCalledWith(pastNote, [3], todayNote, '## TODO', 'default', true);
+			expect(store.getLastCarryOverDate()).toBe('2024-01-16');
+		});
+
+		it('無効の場合は持ち越さない', async () => {
+			await synchronizer.performFullSync();
+
+			expect(mockDailyNoteManager.carryOverTasks).not.toHaveBeenCalled();
+			expect(mockApiClient.updateTaskStartDate).not.toHaveBeenCalled();
+		});
+	});
 });
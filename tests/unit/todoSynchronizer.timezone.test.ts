@@ -36,6 +36,7 @@ describe('TodoSynchronizer - タイムゾーン処理', () => {
 			addTaskToTodoSection: jest.fn(),
 			updateTaskCompletion: jest.fn(),
 			getNotePath: jest.fn().mockImplementation(date => `Daily Notes/${date}.md`),
+			getPeriodStart: jest.fn((date: string) => date),
 			createDailyNote: jest.fn(),
 			getAllDailyNoteTasks: jest.fn(),
 			app: {
@@ -138,7 +139,9 @@ describe('TodoSynchronizer - タイムゾーン処理', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2025-06-30.md',
 				'テストタスク_mstd_to_obs_due20250630',
-				'## TODO'
+				'## TODO',
+				{ dueDate: '2025-06-30' },
+				'default'
 			);
 
 			mockDate.mockRestore();
@@ -189,12 +192,48 @@ describe('TodoSynchronizer - タイムゾーン処理', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2025-06-30.md',
 				'テストタスク_PST',
-				'## TODO'
+				'## TODO',
+				{ dueDate: '2025-06-30' },
+				'default'
 			);
 
 			mockDate.mockRestore();
 		});
 
+		it.each(['Asia/Tokyo', 'America/Los_Angeles'])('%s環境でもUTC 0時の期日はその日付のデイリーノートに追加される', async (timeZone) => {
+			// プラグインが送信する日付のみの期日（UTC 0時）
+			const msftTask = {
+				id: 'msft-utc-midnight',
+				title: '日付のみの期日',
+				status: 'notStarted' as const,
+				createdDateTime: '2025-06-26T00:00:00Z',
+				dueDateTime: {
+					dateTime: '2025-06-30T00:00:00.0000000',
+					timeZone: 'UTC'
+				}
+			};
+
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+
+			const originalTz = process.env.TZ;
+			process.env.TZ = timeZone;
+			try {
+				await synchronizer.syncMsftToObsidian();
+			} finally {
+				process.env.TZ = originalTz;
+			}
+
+			// タイムゾーンによらず2025-06-30として処理される
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2025-06-30.md',
+				'日付のみの期日',
+				'## TODO',
+				{ dueDate: '2025-06-30' },
+				'default'
+			);
+		});
+
 		it('期日がない場合は作成日を使用する', async () => {
 			const msftTask = {
 				id: 'msft-456',
@@ -213,7 +252,88 @@ describe('TodoSynchronizer - タイムゾーン処理', () => {
 			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
 				'Daily Notes/2024-01-05.md',
 				'期日なしタスク',
-				'## TODO'
+				'## TODO',
+				{},
+				'default'
+			);
+		});
+	});
+
+	describe('リマインダーのタイムゾーン変換', () => {
+		it('JST(UTC+9)環境ではUTCのリマインダーをJSTの日時として⏰マーカーに渡す', async () => {
+			// JSTタイムゾーンをモック（UTC+9）
+			const toJst = (date: Date) => new OriginalDate(date.getTime() + 9 * 60 * 60 * 1000);
+			const mockDate = jest.spyOn(global, 'Date').mockImplementation((dateStr?: any) => {
+				if (dateStr) {
+					const date = new OriginalDate(dateStr);
+					date.getFullYear = jest.fn(() => toJst(date).getUTCFullYear());
+					date.getMonth = jest.fn(() => toJst(date).getUTCMonth());
+					date.getDate = jest.fn(() => toJst(date).getUTCDate());
+					date.getHours = jest.fn(() => toJst(date).getUTCHours());
+					date.getMinutes = jest.fn(() => toJst(date).getUTCMinutes());
+					date.getTimezoneOffset = jest.fn(() => -540);
+					return date as any;
+				}
+				return new OriginalDate() as any;
+			}) as any;
+
+			// UTC 2025-06-29T23:30のリマインダー（JST 2025-06-30 08:30）
+			const msftTask = {
+				id: 'msft-reminder',
+				title: 'リマインダー付きタスク',
+				status: 'notStarted' as const,
+				createdDateTime: '2025-06-26T00:00:00Z',
+				dueDateTime: {
+					dateTime: '2025-06-29T15:00:00.0000000',
+					timeZone: 'UTC'
+				},
+				isReminderOn: true,
+				reminderDateTime: {
+					dateTime: '2025-06-29T23:30:00.0000000',
+					timeZone: 'UTC'
+				}
+			};
+
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+
+			await synchronizer.syncMsftToObsidian();
+
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2025-06-30.md',
+				'リマインダー付きタスク',
+				'## TODO',
+				{ dueDate: '2025-06-30', reminder: '2025-06-30 08:30' },
+				'default'
+			);
+
+			mockDate.mockRestore();
+		});
+
+		it('リマインダーがオフのタスクはリマインダーを渡さない', async () => {
+			const msftTask = {
+				id: 'msft-reminder-off',
+				title: 'リマインダーなし',
+				status: 'notStarted' as const,
+				createdDateTime: '2024-01-05T10:30:00Z',
+				isReminderOn: false,
+				reminderDateTime: {
+					dateTime: '2024-01-05T23:30:00.0000000',
+					timeZone: 'UTC'
+				}
+			};
+
+			mockApiClient.getTasks.mockResolvedValue([msftTask]);
+			mockDailyNoteManager.getAllDailyNoteTasks.mockResolvedValue([]);
+
+			await synchronizer.syncMsftToObsidian();
+
+			expect(mockDailyNoteManager.addTaskToTodoSection).toHaveBeenCalledWith(
+				'Daily Notes/2024-01-05.md',
+				'リマインダーなし',
+				'## TODO',
+				{},
+				'default'
 			);
 		});
 	});
@@ -0,0 +1,125 @@
+// Tests for TokenCachePlugin
+
+import { TokenCachePlugin } from '../../src/authentication/TokenCachePlugin';
+import { TOKEN_CACHE_DATA_KEY } from '../../src/constants';
+
+describe('TokenCachePlugin', () => {
+	let mockLogger: any;
+	let storedData: any;
+	let mockLoadData: jest.Mock;
+	let mockSaveData: jest.Mock;
+	let cachePlugin: TokenCachePlugin;
+
+	const createContext = (cacheHasChanged: boolean, serialized = '{"Account":{}}') => ({
+		cacheHasChanged,
+		tokenCache: {
+			serialize: jest.fn().mockReturnValue(serialized),
+			deserialize: jest.fn(),
+		},
+	}) as any;
+
+	beforeEach(() => {
+		mockLogger = {
+			debug: jest.fn(),
+			info: jest.fn(),
+			warn: jest.fn(),
+			error: jest.fn(),
+		};
+		storedData = { clientId: 'test-client-id' };
+		mockLoadData = jest.fn(async () => storedData);
+		mockSaveData = jest.fn(async (data) => {
+			storedData = data;
+		});
+		cachePlugin = new TokenCachePlugin('test-client-id', mockLogger, mockLoadData, mockSaveData);
+	});
+
+	describe('afterCacheAccess', () => {
+		it('キャッシュが変更されていれば難読化して保存する', async () => {
+			// Given: 変更されたキャッシュ
+			const context = createContext(true, '{"secret":"refresh-token"}');
+
+			// When
+			await cachePlugin.afterCacheAccess(context);
+
+			// Then: 既存設定を保持しつつ平文を含まない形で保存される
+			expect(mockSaveData).toHaveBeenCalledTimes(1);
+			expect(storedData.clientId).toBe('test-client-id');
+			expect(storedData[TOKEN_CACHE_DATA_KEY]).toEqual(
+				expect.objectContaining({ version: 1, iv: expect.any(String), tag: expect.any(String) })
+			);
+			expect(JSON.stringify(storedData)).not.toContain('refresh-token');
+		});
+
+		it('キャッシュが変更されていなければ保存しない', async () => {
+			await cachePlugin.afterCacheAccess(createContext(false));
+
+			expect(mockSaveData).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('beforeCacheAccess', () => {
+		it('保存済みキャッシュを元に戻してMSALに渡す', async () => {
+			// Given: 一度保存されたキャッシュ
+			await cachePlugin.afterCacheAccess(createContext(true, '{"secret":"refresh-token"}'));
+			const context = createContext(false);
+
+			// When
+			await cachePlugin.beforeCacheAccess(context);
+
+			// Then
+			expect(context.tokenCache.deserialize).toHaveBeenCalledWith('{"secret":"refresh-token"}');
+		});
+
+		it('保存済みキャッシュがなければ何もしない', async () => {
+			const context = createContext(false);
+
+			await cachePlugin.beforeCacheAccess(context);
+
+			expect(context.tokenCache.deserialize).not.toHaveBeenCalled();
+		});
+
+		it('別のクライアントIDで難読化されたキャッシュは警告のみで無視する', async () => {
+			// Given: 別クライアントIDで保存されたキャッシュ
+			await cachePlugin.afterCacheAccess(createContext(true));
+			const otherPlugin = new TokenCachePlugin('other-client-id', mockLogger, mockLoadData, mockSaveData);
+			const context = createContext(false);
+
+			// When
+			await otherPlugin.beforeCacheAccess(context);
+
+			// Then
+			expect(context.tokenCache.deserialize).not.toHaveBeenCalled();
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				'Failed to restore persisted token cache',
+				expect.any(Object)
+			);
+		});
+
+		it('形式が不正なキャッシュは警告のみで無視する', async () => {
+			// Given: 手で編集されたキャッシュ
+			storedData[TOKEN_CACHE_DATA_KEY] = { version: 1, data: 'plain-text' };
+			const context = createContext(false);
+
+			// When
+			await cachePlugin.beforeCacheAccess(context);
+
+			// Then
+			expect(context.tokenCache.deserialize).not.toHaveBeenCalled();
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				'Failed to restore persisted token cache',
+				expect.any(Object)
+			);
+		});
+	});
+
+	describe('clear', () => {
+		it('保存済みキャッシュを削除する', async () => {
+			await cachePlugin.afterCacheAccess(createContext(true));
+
+			await cachePlugin.clear();
+
+			expect(storedData[TOKEN_CACHE_DATA_KEY]).toBeUndefined();
+			expect(storedData.clientId).toBe('test-client-id');
+		});
+	});
+});